@@ -4,26 +4,61 @@ import { KnobControl } from './components/KnobControl';
 import { Oscilloscope } from './components/Oscilloscope';
 import { PhasorDiagram } from './components/PhasorDiagram';
 import { PowerTriangleDiagram } from './components/PowerTriangleDiagram';
-import { INITIAL_STATE } from './constants';
-import { SimulationState, SignalParams, Waveform } from './types';
-
-// Waveform Icon Helper
-const WaveformIcon = ({ type, selected }: { type: Waveform; selected: boolean }) => {
-  const color = selected ? "stroke-white" : "stroke-gray-500";
-  return (
-    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className={selected ? "opacity-100" : "opacity-60"}>
-      {type === 'sine' && <path d="M2 12C2 12 5 4 9 4C13 4 15 20 19 20C23 20 22 12 22 12" strokeWidth="2" strokeLinecap="round" className={color} />}
-      {type === 'square' && <path d="M3 12V6H9V18H15V6H21V12" strokeWidth="2" strokeLinecap="round" className={color} />}
-      {type === 'triangle' && <path d="M3 12L7 4L11 20L15 4L19 20L21 12" strokeWidth="2" strokeLinecap="round" className={color} />}
-      {type === 'sawtooth' && <path d="M3 20L9 4V20L15 4V20L21 4" strokeWidth="2" strokeLinecap="round" className={color} />}
-    </svg>
-  );
-};
+import { ComplexPlaneDiagram } from './components/ComplexPlaneDiagram';
+import { LoadEditor } from './components/LoadEditor';
+import { ThreePhasePanel } from './components/ThreePhasePanel';
+import { ThreePhaseSummary } from './components/ThreePhaseSummary';
+import { SpectrumPanel } from './components/SpectrumPanel';
+import { PowerBreakdown } from './components/PowerBreakdown';
+import { SignalShapeControls, WaveformIcon } from './components/SignalShapeControls';
+import { PFCDesigner } from './components/PFCDesigner';
+import { ScenarioManager } from './components/ScenarioManager';
+import { CaptureImport } from './components/CaptureImport';
+import { ExercisePanel, HiddenResult } from './components/ExercisePanel';
+import { SolutionPanel } from './components/SolutionPanel';
+import { RangeSettings } from './components/RangeSettings';
+import { LoadProfilePanel } from './components/LoadProfilePanel';
+import { TransientPanel } from './components/TransientPanel';
+import { LoadListEditor } from './components/LoadListEditor';
+import { MotorEditor } from './components/MotorEditor';
+import { FeederPanel } from './components/FeederPanel';
+import { TransformerPanel } from './components/TransformerPanel';
+import { ScopeChannel } from './components/Oscilloscope';
+import { PhasorVector } from './components/PhasorDiagram';
+import { PowerContribution } from './components/PowerTriangleDiagram';
+import { DEFAULT_SIM_SPEED, FREQUENCY_MAX, FREQUENCY_MIN, INITIAL_STATE, LOAD_ITEM_COLORS, PHASE_COLORS, PHASE_LABELS, TRANSIENT_SETTLE_DELAY } from './constants';
+import { calculateImpedance, deriveCurrent } from './services/loadModel';
+import { solveThreePhase, phasorToSignal } from './services/threePhase';
+import { Complex, abs, add, arg, complex, fromPolar, normalizeAngle } from './services/complex';
+import { analyzePower, loadCharacter } from './services/power';
+import { fundamentalOf, isSinusoidal } from './services/spectrum';
+import { amplitudeFactor } from './services/signal';
+import { designCorrection, correctedCurrent } from './services/pfc';
+import { Measurement } from './services/capture';
+import { Exercise } from './services/exercise';
+import { workedSolution } from './services/solution';
+import { analyzeProfile } from './services/loadProfile';
+import { simulateTransient } from './services/transient';
+import { aggregateLoads, loadItemLabel, loadItemPower } from './services/multiLoad';
+import { analyzeMotor, motorImpedance, motorLoadCurve, motorSlipForLoad } from './services/motor';
+import { analyzeFeeder, feederImpedance } from './services/feeder';
+import { analyzeTransformer, transformerPort } from './services/transformer';
+import { IDENTITY_PORT, PortLoad, cascade, inputSide, seriesPort, solvePort } from './services/twoPort';
+import { createScenario } from './services/scenario';
+import { describeParameters, ExportContext, ExportValue, summaryToCsv, summaryToJson } from './services/export';
+import { ExportButtons, downloadText } from './components/ExportButtons';
+import { LANGUAGES, useI18n } from './i18n';
+import { SimulationState, SignalParams, RLCLoad, LoadMode, SystemMode, ThreePhaseSystem, PFCSettings, ScopeSettings, Scenario, ExerciseView, AmplitudeView, KnobRanges, LoadProfileSettings, TransientSettings, LoadItem, MotorSettings, FeederSettings, TransformerSettings } from './types';
 
 const App: React.FC = () => {
+  const { t, locale, setLocale, fmt, si, siParts } = useI18n();
   const [state, setState] = useState<SimulationState>(INITIAL_STATE);
   const [timeOffset, setTimeOffset] = useState(0);
-  const [simSpeed, setSimSpeed] = useState(20); // Default to a slow speed (approx 0.05 factor)
+  const [simSpeed, setSimSpeed] = useState(DEFAULT_SIM_SPEED);
+  const [measurement, setMeasurement] = useState<Measurement | null>(null);
+  const [exercise, setExercise] = useState<Exercise | null>(null);
+  const [exerciseGraded, setExerciseGraded] = useState(false);
+  const [vectorTab, setVectorTab] = useState<'phasors' | 'complex' | 'transformer'>('phasors');
   
   // Animation loop for "real-time" feel
   useEffect(() => {
@@ -61,6 +96,71 @@ const App: React.FC = () => {
     setState(prev => ({ ...prev, current: { ...prev.current, ...updates } }));
   };
 
+  const updateLoad = (updates: Partial<RLCLoad>) => {
+    setState(prev => ({ ...prev, load: { ...prev.load, ...updates } }));
+  };
+
+  const setLoadMode = (loadMode: LoadMode) => {
+    setState(prev => ({ ...prev, loadMode }));
+  };
+
+  const setLoadItems = (loadItems: LoadItem[]) => {
+    setState(prev => ({ ...prev, loadItems }));
+  };
+
+  const updateMotor = (updates: Partial<MotorSettings>) => {
+    setState(prev => ({ ...prev, motor: { ...prev.motor, ...updates } }));
+  };
+
+  const updateThreePhase = (updates: Partial<ThreePhaseSystem>) => {
+    setState(prev => ({ ...prev, threePhase: { ...prev.threePhase, ...updates } }));
+  };
+
+  const updatePfc = (updates: Partial<PFCSettings>) => {
+    setState(prev => ({ ...prev, pfc: { ...prev.pfc, ...updates } }));
+  };
+
+  const updateFeeder = (updates: Partial<FeederSettings>) => {
+    setState(prev => ({ ...prev, feeder: { ...prev.feeder, ...updates } }));
+  };
+
+  const updateTransformer = (updates: Partial<TransformerSettings>) => {
+    setState(prev => ({ ...prev, transformer: { ...prev.transformer, ...updates } }));
+  };
+
+  const updateProfile = (updates: Partial<LoadProfileSettings>) => {
+    setState(prev => ({ ...prev, profile: { ...prev.profile, ...updates } }));
+  };
+
+  const updateTransient = (updates: Partial<TransientSettings>) => {
+    setState(prev => ({ ...prev, transient: { ...prev.transient, ...updates } }));
+  };
+
+  // R, L and C of the lab's RLC load, switched on as a series circuit
+  const copyLoadToTransient = () => {
+    setState(prev => ({
+      ...prev,
+      transient: { ...prev.transient, resistance: prev.load.resistance, inductance: prev.load.inductance, capacitance: prev.load.capacitance },
+    }));
+  };
+
+  const updateScope = (updates: Partial<ScopeSettings>) => {
+    setState(prev => ({ ...prev, scope: { ...prev.scope, ...updates } }));
+  };
+
+  const updateRanges = (updates: Partial<KnobRanges>) => {
+    setState(prev => ({ ...prev, ranges: { ...prev.ranges, ...updates } }));
+  };
+
+  const setAmplitudeView = (amplitudeView: AmplitudeView) => {
+    setState(prev => ({ ...prev, amplitudeView }));
+  };
+
+  const setSystemMode = (systemMode: SystemMode) => {
+    setState(prev => ({ ...prev, systemMode }));
+  };
+
+  // The system frequency drives both sources; a manual current can then be detuned on its own
   const updateFrequency = (freq: number) => {
     setState(prev => ({
       ...prev,
@@ -71,56 +171,401 @@ const App: React.FC = () => {
 
   const resetSimulation = () => {
     setState(INITIAL_STATE);
+    setMeasurement(null);
+    setExercise(null);
     setTimeOffset(0);
-    setSimSpeed(20);
+    setSimSpeed(DEFAULT_SIM_SPEED);
   };
 
+  // Measured captures are single-phase: analyse them against the imported v(t)/i(t)
+  const importMeasurement = (imported: Measurement) => {
+    setMeasurement(imported);
+    setState(prev => ({ ...prev, systemMode: 'single' }));
+    setTimeOffset(0);
+  };
+
+  // The exercise replaces the lab state; its inputs stay locked until the student leaves
+  const startExercise = (next: Exercise) => {
+    setMeasurement(null);
+    setExercise(next);
+    setExerciseGraded(false);
+    setState(next.state);
+    setTimeOffset(0);
+  };
+
+  const loadScenario = (scenario: Scenario) => {
+    setMeasurement(null);
+    setExercise(null);
+    setState(scenario.state);
+    setTimeOffset(0);
+    setSimSpeed(scenario.simSpeed);
+  };
+
+  // Load impedance at the current system frequency (only meaningful in RLC mode)
+  const impedance = useMemo(
+    () => calculateImpedance(state.load, state.voltage.frequency),
+    [state.load, state.voltage.frequency]
+  );
+
+  const isThreePhase = state.systemMode === 'three';
+  const isMeasured = !!measurement && !isThreePhase;
+  // Answers stay hidden until the exercise is graded
+  const isHidden = (view: ExerciseView) => !!exercise && !exerciseGraded && exercise.hidden.includes(view);
+
+  // Amplitude knobs read RMS, peak or peak-to-peak for the current waveform
+  const voltageFactor = amplitudeFactor(state.voltage.waveform, state.amplitudeView);
+  const currentFactor = amplitudeFactor(state.current.waveform, state.amplitudeView);
+
+  // Line and transformer between the source and the load (single-phase lab only), solved at the
+  // fundamental as one cascade; each block's terminal quantities are then recovered in turn
+  const feederActive = state.feeder.enabled && !isThreePhase && !isMeasured;
+  const transformerActive = state.transformer.enabled && !isThreePhase && !isMeasured;
+  const supply = useMemo(() => {
+    if (!feederActive && !transformerActive) return null;
+    const transformerBlock = transformerActive ? transformerPort(state.transformer) : IDENTITY_PORT;
+    return {
+      transformerBlock,
+      port: cascade(feederActive ? seriesPort(feederImpedance(state.feeder)) : IDENTITY_PORT, transformerBlock),
+    };
+  }, [feederActive, transformerActive, state.feeder, state.transformer]);
+  // Source fundamental, the phasor the supply and the motor are solved from
+  const sending = useMemo(() => {
+    const v1 = fundamentalOf(state.voltage);
+    return fromPolar(v1.amplitude, v1.phase);
+  }, [state.voltage]);
+
+  // The motor's running point depends on the voltage it gets, which depends on what it draws:
+  // the slip is found with the whole supply in the loop. Standstill when the shaft load is too much
+  const motorActive = state.loadMode === 'motor' && !isThreePhase && !isMeasured;
+  const motor = useMemo(() => {
+    if (!motorActive) return null;
+    const frequency = state.voltage.frequency;
+    const voltageAt = (impedance: Complex) =>
+      supply ? solvePort(supply.port, sending, { kind: 'impedance', impedance }).voltage : sending;
+    const loadSlip = state.motor.operatingPoint === 'load'
+      ? motorSlipForLoad(state.motor, frequency, (state.motor.ratedPower * state.motor.loadPercent) / 100, voltageAt)
+      : state.motor.slip / 100;
+    const slip = loadSlip ?? 1;
+    return {
+      slip,
+      stalled: loadSlip === null,
+      impedance: motorImpedance(state.motor, slip),
+      curve: motorLoadCurve(state.motor, frequency, voltageAt),
+    };
+  }, [motorActive, supply, sending, state.motor, state.voltage.frequency]);
+
+  const network = useMemo(() => {
+    if (!supply) return null;
+    const i1 = fundamentalOf(state.current);
+    const load: PortLoad = motor
+      ? { kind: 'impedance', impedance: motor.impedance }
+      : state.loadMode === 'rlc'
+        ? { kind: 'impedance', impedance: impedance.isOpen ? null : complex(impedance.resistance, impedance.reactance) }
+        : state.loadMode === 'multi'
+          ? { kind: 'power', power: state.loadItems.map(loadItemPower).reduce(add, complex(0)) }
+          : { kind: 'current', current: fromPolar(i1.amplitude, i1.phase) };
+
+    const solution = solvePort(supply.port, sending, load);
+    const primary = inputSide(supply.transformerBlock, solution.voltage, solution.current);
+    return {
+      ...solution,
+      feeder: feederActive ? analyzeFeeder(state.feeder, sending, primary.voltage, primary.current, solution.status) : null,
+      transformer: transformerActive ? analyzeTransformer(state.transformer, solution.voltage, solution.current) : null,
+    };
+  }, [supply, sending, motor, feederActive, transformerActive, state.feeder, state.transformer, state.current, state.loadMode, state.loadItems, impedance]);
+  const feederResult = network?.feeder ?? null;
+  const transformerResult = network?.transformer ?? null;
+
+  // What the load sees: the source itself, or the far end of the line and/or transformer
+  const loadVoltage = useMemo(
+    () => (network ? phasorToSignal(network.voltage, state.voltage.frequency) : state.voltage),
+    [network, state.voltage]
+  );
+
+  // Parallel loads on the load voltage, each drawing its own current phasor
+  const multiLoad = useMemo(
+    () => aggregateLoads(state.loadItems, loadVoltage),
+    [state.loadItems, loadVoltage]
+  );
+  const isMultiLoad = state.loadMode === 'multi' && !isThreePhase && !isMeasured;
+
+  // Motor quantities at the voltage that actually reaches its terminals
+  const motorResult = useMemo(
+    () => (motor ? analyzeMotor(state.motor, motor.slip, network ? network.voltage : sending, state.voltage.frequency) : null),
+    [motor, network, sending, state.motor, state.voltage.frequency]
+  );
+
+  // Effective circuit state: in RLC mode the current follows from I = V / Z, with several
+  // loads it is the sum of their currents; behind a line the load sees the receiving-end voltage.
+  // Measured data stands in as the fundamentals of the imported waveforms
+  const circuit = useMemo<SimulationState>(() => {
+    if (isMeasured) return { ...state, voltage: measurement.analysis.voltage, current: measurement.analysis.current };
+    if (network && state.loadMode !== 'manual') {
+      return { ...state, voltage: loadVoltage, current: phasorToSignal(network.current, state.voltage.frequency) };
+    }
+    if (motorResult) return { ...state, voltage: loadVoltage, current: phasorToSignal(motorResult.current, state.voltage.frequency) };
+    if (state.loadMode === 'multi') return { ...state, voltage: loadVoltage, current: multiLoad.current };
+    if (state.loadMode !== 'rlc') return { ...state, voltage: loadVoltage };
+    return { ...state, current: deriveCurrent(state.voltage, state.current, state.load) };
+  }, [state, isMeasured, measurement, multiLoad, motorResult, network, loadVoltage]);
+
+  // The source voltage, shown next to the load voltage
+  const sendingChannels = useMemo<ScopeChannel[] | undefined>(() => network ? [
+    { key: 'sending', name: t.scope.sendingVoltage, signal: state.voltage, color: '#F97316', axis: 'voltage', dashed: true },
+  ] : undefined, [network, state.voltage, t]);
+
+  // Both sides of the transformer plus its no-load current
+  const transformerPhasors = useMemo<PhasorVector[] | undefined>(() => {
+    if (!transformerResult) return undefined;
+    const vectors: [string, string, Complex, string, PhasorVector['kind'], boolean?][] = [
+      ['xf-v1', 'V₁', transformerResult.primaryVoltage, '#F97316', 'voltage'],
+      ['xf-v2', 'V₂', transformerResult.secondaryVoltage, '#EAB308', 'voltage'],
+      ['xf-i1', 'I₁', transformerResult.primaryCurrent, '#A78BFA', 'current'],
+      ['xf-i2', 'I₂', transformerResult.secondaryCurrent, '#22D3EE', 'current'],
+      ['xf-i0', 'I₀', transformerResult.noLoadCurrent, '#F472B6', 'current', true],
+    ];
+    return vectors.map(([key, label, phasor, color, kind, dashed]) => ({
+      key, label, magnitude: abs(phasor), angle: arg(phasor), color, kind, dashed,
+    }));
+  }, [transformerResult]);
+
+  // Each load's current and complex power, stacked head-to-tail on the phasor diagram and power triangle;
+  // a motor's stator current splits into its magnetizing and rotor branches
+  const loadPhasors = useMemo<PhasorVector[] | undefined>(() => {
+    if (motorResult) {
+      return [
+        { key: 'motor-im', label: 'I_m', magnitude: abs(motorResult.magnetizingCurrent), angle: arg(motorResult.magnetizingCurrent), color: '#F472B6', kind: 'current' },
+        { key: 'motor-i2', label: "I₂'", magnitude: abs(motorResult.rotorCurrent), angle: arg(motorResult.rotorCurrent), color: '#FB923C', kind: 'current' },
+      ];
+    }
+    return isMultiLoad
+      ? multiLoad.contributions.map((c, k) => ({
+          key: `load-i${k}`,
+          label: loadItemLabel(state.loadItems[k], k, t.loads.kinds),
+          magnitude: abs(c.current),
+          angle: arg(c.current),
+          color: LOAD_ITEM_COLORS[k],
+          kind: 'current' as const,
+        }))
+      : undefined;
+  }, [motorResult, isMultiLoad, multiLoad, state.loadItems, t]);
+
+  const loadPowers = useMemo<PowerContribution[] | undefined>(() => isMultiLoad
+    ? multiLoad.contributions.map((c, k) => ({
+        key: `load-s${k}`,
+        label: loadItemLabel(state.loadItems[k], k, t.loads.kinds),
+        P: c.P,
+        Q: c.Q,
+        color: LOAD_ITEM_COLORS[k],
+      }))
+    : undefined, [isMultiLoad, multiLoad, state.loadItems, t]);
+
+  // Imported samples replayed on the scope; `signal` only carries their fundamental
+  const measuredChannels = useMemo<ScopeChannel[] | undefined>(() => {
+    if (!isMeasured) return undefined;
+    const { analysis } = measurement;
+    return [
+      { key: 'voltage', name: t.app.measuredVoltage, signal: analysis.voltage, sample: analysis.sampleVoltage, color: '#EAB308', axis: 'voltage' },
+      { key: 'current', name: t.app.measuredCurrent, signal: analysis.current, sample: analysis.sampleCurrent, color: '#22D3EE', axis: 'current' },
+    ];
+  }, [isMeasured, measurement, t]);
+
+  const threePhaseResult = useMemo(
+    () => solveThreePhase(state.threePhase, state.voltage.frequency),
+    [state.threePhase, state.voltage.frequency]
+  );
+
+  // Load-side phase quantities for each phase, as scope traces and phasors
+  const threePhaseChannels = useMemo<ScopeChannel[]>(() => {
+    const { phaseVoltages, phaseCurrents } = threePhaseResult;
+    const names = PHASE_LABELS.map((l, k) => state.threePhase.connection === 'wye' ? l : `${l}${PHASE_LABELS[(k + 1) % 3]}`);
+    return [
+      ...phaseVoltages.map((v, k) => ({
+        key: `v${k}`, name: `V${names[k]} (V)`, signal: phasorToSignal(v, state.voltage.frequency),
+        color: PHASE_COLORS[k].voltage, axis: 'voltage' as const,
+      })),
+      ...phaseCurrents.map((i, k) => ({
+        key: `i${k}`, name: `I${names[k]} (A)`, signal: phasorToSignal(i, state.voltage.frequency),
+        color: PHASE_COLORS[k].current, axis: 'current' as const, dashed: true,
+      })),
+    ];
+  }, [threePhaseResult, state.threePhase.connection, state.voltage.frequency]);
+
+  const threePhasePhasors = useMemo<PhasorVector[]>(() => threePhaseChannels.map(ch => ({
+    key: ch.key,
+    label: ch.name.split(' ')[0],
+    magnitude: ch.signal.amplitude,
+    angle: ch.signal.phase,
+    color: ch.color,
+    kind: ch.axis,
+    dashed: ch.dashed,
+  })), [threePhaseChannels]);
+
   // Power Calculations (Assuming Sinusoidal Steady State for standard Phasor definitions)
+  // Phasors only describe the fundamental once signals carry harmonics or DC
+  const phasorSignals = useMemo(() => ({
+    voltage: fundamentalOf(circuit.voltage),
+    current: fundamentalOf(circuit.current),
+  }), [circuit.voltage, circuit.current]);
+
+  const phasorWarning = useMemo(() => {
+    if (isThreePhase) return undefined;
+    if (isMeasured) return t.app.warnings.measured;
+    if (circuit.voltage.frequency !== circuit.current.frequency) {
+      return t.app.warnings.frequencyMismatch;
+    }
+    if (!isSinusoidal(circuit.voltage) || !isSinusoidal(circuit.current)) {
+      return t.app.warnings.nonSinusoidal;
+    }
+    return undefined;
+  }, [isThreePhase, isMeasured, circuit.voltage, circuit.current, t]);
+
+  // Tabs of the vector panel. The complex plane reads out S, Z and Y, so it goes with the power results
+  // when an exercise hides them; a tab that is gone falls back to the phasors
+  const complexHidden = isHidden('power');
+  const vectorTabs = [
+    ['phasors', t.phasors.tab],
+    ...(complexHidden ? [] : [['complex', t.complexPlane.tab]]),
+    ...(transformerPhasors ? [['transformer', t.transformer.tab]] : []),
+  ] as [typeof vectorTab, string][];
+  const activeVectorTab = vectorTabs.some(([tab]) => tab === vectorTab) ? vectorTab : 'phasors';
+
+  // Single-phase power from sampled v(t)·i(t): valid for any waveform and DC offset
+  const powerAnalysis = useMemo(
+    () => (isMeasured ? measurement.analysis.power : analyzePower(circuit.voltage, circuit.current)),
+    [isMeasured, measurement, circuit.voltage, circuit.current]
+  );
+
+  // Step-by-step derivation of the power cards from the fundamental phasors
+  const solutionSteps = useMemo(
+    () => workedSolution(phasorSignals.voltage, phasorSignals.current, t.solutionSteps, fmt, si, powerAnalysis),
+    [phasorSignals, powerAnalysis, t, fmt, si]
+  );
+
   const powerStats = useMemo(() => {
-    // Input amplitude is now treated as RMS (Valor Eficaz)
-    const Vrms = state.voltage.amplitude;
-    const Irms = state.current.amplitude;
-    
-    let phaseDiffDeg = state.voltage.phase - state.current.phase;
+    // Three-phase totals come from the phasor solution (all phases are sinusoidal)
+    const total = threePhaseResult.totalPower;
     
-    // Normalize to -180 to 180 range to correctly identify Lead/Lag
-    while (phaseDiffDeg <= -180) phaseDiffDeg += 360;
-    while (phaseDiffDeg > 180) phaseDiffDeg -= 360;
-
-    const phaseDiffRad = (phaseDiffDeg * Math.PI) / 180;
+    // Fundamental displacement angle θ1 decides Lead/Lag
+    // Normalized to -180..180 to correctly identify Lead/Lag
+    const phaseDiffDeg = normalizeAngle(isThreePhase
+      ? (abs(total) > 0 ? arg(total) : 0)
+      : powerAnalysis.theta1);
 
     // Power Triangle
-    const S = Vrms * Irms; // Apparent Power (VA)
-    const P = S * Math.cos(phaseDiffRad); // Active Power (W)
-    const Q = S * Math.sin(phaseDiffRad); // Reactive Power (VAR)
-    const PF = Math.cos(phaseDiffRad);
+    const S = isThreePhase ? abs(total) : powerAnalysis.S; // Apparent Power (VA), true RMS product
+    const P = isThreePhase ? total.re : powerAnalysis.P; // Active Power (W), mean of v·i
+    const Q = isThreePhase ? total.im : powerAnalysis.Q1; // Fundamental Reactive Power (VAR)
+    const PF = S > 0 ? P / S : Math.cos((phaseDiffDeg * Math.PI) / 180); // True Power Factor
+    // Whatever S holds beyond P and Q1 (harmonics, DC, frequency mismatch)
+    const D = Math.sqrt(Math.max(0, S * S - P * P - Q * Q));
 
     // Determine Status Text
-    let statusType = "";
-    let statusLag = "";
-    const absPhase = Math.abs(phaseDiffDeg);
-    
-    if (absPhase < 0.1) {
-        statusType = "Resistivo";
-        statusLag = "En fase";
-    } else if (phaseDiffDeg > 0) {
-        statusType = "Inductivo";
-        statusLag = "En atraso";
-    } else {
-        statusType = "Capacitivo";
-        statusLag = "En adelanto";
-    }
+    const { type: statusType, lag: statusLag } = t.loadStatus[loadCharacter(phaseDiffDeg)];
 
     return {
-      S: S.toFixed(2),
-      P: P.toFixed(2),
-      Q: Q.toFixed(2),
-      PF: Math.abs(PF).toFixed(3),
-      phaseDiff: phaseDiffDeg.toFixed(1),
+      S: siParts(S, 'VA', 4),
+      P: siParts(P, 'W', 4),
+      Q: siParts(Q, 'VAR', 4),
+      D: siParts(D, 'VA', 4),
+      PF: fmt(Math.abs(PF), 3),
+      phaseDiff: fmt(phaseDiffDeg, 1),
       statusType,
-      statusLag
+      statusLag,
+      triangle: { P, Q, D },
+      raw: { S, P, Q, D, PF: Math.abs(PF), theta: phaseDiffDeg }
     };
-  }, [state.voltage, state.current]);
+  }, [powerAnalysis, isThreePhase, threePhaseResult, t, fmt, siParts]);
+
+  // Capacitor bank sized from the fundamental P/Q seen by the source (single-phase only)
+  const pfcResult = useMemo(
+    () => designCorrection(powerAnalysis.P, powerAnalysis.Q1, powerAnalysis.V1, circuit.voltage.frequency, state.pfc),
+    [powerAnalysis, circuit.voltage.frequency, state.pfc]
+  );
+  const pfcActive = !isThreePhase && state.pfc.enabled && pfcResult.status === 'ok';
+
+  const pfcCurrent = useMemo(
+    () => correctedCurrent(phasorSignals.voltage, phasorSignals.current, pfcResult.capacitance),
+    [phasorSignals, pfcResult.capacitance]
+  );
+
+  // Daily profile on the lab voltage; only computed while the profile is on (24 sampled analyses)
+  const profileActive = !isThreePhase && !isMeasured && !exercise;
+  const profileAnalysis = useMemo(
+    () => (profileActive && state.profile.enabled ? analyzeProfile(state.profile, state.voltage) : null),
+    [profileActive, state.profile, state.voltage]
+  );
+
+  // Switching transient driven by the lab source. The RK4 run blocks the page, so it only
+  // follows the settings and the source once they stop changing
+  const transientActive = !isThreePhase && !isMeasured && !exercise;
+  const [transientInput, setTransientInput] = useState({ settings: state.transient, voltage: state.voltage });
+  useEffect(() => {
+    const timer = setTimeout(() => setTransientInput({ settings: state.transient, voltage: state.voltage }), TRANSIENT_SETTLE_DELAY);
+    return () => clearTimeout(timer);
+  }, [state.transient, state.voltage]);
+  const transientResult = useMemo(
+    () => (transientActive && transientInput.settings.enabled ? simulateTransient(transientInput.settings, transientInput.voltage) : null),
+    [transientActive, transientInput]
+  );
+
+  // The lab then shows that hour as a manual current
+  const applyProfileHour = (hour: number) => {
+    if (!profileAnalysis) return;
+    setState(prev => ({ ...prev, loadMode: 'manual', current: { ...prev.current, ...profileAnalysis.hours[hour].current } }));
+  };
+
+  // Settings behind every exported plot or table
+  const exportContext = useMemo<ExportContext>(() => ({
+    parameters: describeParameters(circuit, t.parameters, isMeasured ? measurement.capture.fileName : undefined),
+    scenario: createScenario(state, simSpeed, ''),
+  }), [circuit, isMeasured, measurement, state, simSpeed, t]);
+
+  // Power card values plus the single-phase decomposition behind them
+  const powerSummary = useMemo<ExportValue[]>(() => {
+    const { raw } = powerStats;
+    const values: ExportValue[] = [
+      { name: 'P', value: raw.P, unit: 'W' },
+      { name: 'Q', value: raw.Q, unit: 'VAR' },
+      { name: 'D', value: raw.D, unit: 'VA' },
+      { name: 'S', value: raw.S, unit: 'VA' },
+      { name: 'θ', value: raw.theta, unit: '°' },
+      { name: t.symbols.pf, value: raw.PF, unit: '' },
+      { name: t.powerCards.character, value: `${powerStats.statusType} (${powerStats.statusLag})`, unit: '' },
+    ];
+    if (isThreePhase) return values;
+    values.push(
+      { name: 'V RMS', value: powerAnalysis.V, unit: 'V' },
+      { name: 'I RMS', value: powerAnalysis.I, unit: 'A' },
+      { name: 'V1', value: powerAnalysis.V1, unit: 'V' },
+      { name: 'I1', value: powerAnalysis.I1, unit: 'A' },
+      { name: 'P1', value: powerAnalysis.P1, unit: 'W' },
+      { name: 'cos θ1', value: Math.abs(powerAnalysis.PF1), unit: '' },
+    );
+    if (feederResult) {
+      values.push(
+        { name: t.feeder.dropPercent, value: feederResult.dropPercent, unit: '%' },
+        { name: t.feeder.regulation, value: feederResult.regulation, unit: '%' },
+        { name: `${t.feeder.losses} (I²R)`, value: feederResult.losses, unit: 'W' },
+      );
+    }
+    if (transformerResult) {
+      values.push(
+        { name: t.transformer.copperLosses, value: transformerResult.copperLosses, unit: 'W' },
+        { name: t.transformer.coreLosses, value: transformerResult.coreLosses, unit: 'W' },
+        { name: t.transformer.efficiency, value: transformerResult.efficiency * 100, unit: '%' },
+        { name: t.transformer.regulation, value: transformerResult.regulation, unit: '%' },
+      );
+    }
+    if (pfcActive) {
+      values.push(
+        { name: t.powerCards.pfcCapacitance, value: pfcResult.capacitance, unit: 'µF' },
+        { name: 'Qc', value: pfcResult.installedQc, unit: 'VAR' },
+        { name: t.powerCards.pfAfter, value: pfcResult.pfAfter, unit: '' },
+      );
+    }
+    return values;
+  }, [powerStats, powerAnalysis, isThreePhase, feederResult, transformerResult, pfcActive, pfcResult, t]);
 
   return (
     <div className="min-h-screen bg-gray-950 text-gray-100 font-sans selection:bg-cyan-500 selection:text-black pb-20">
@@ -132,13 +577,26 @@ const App: React.FC = () => {
               ⚡
             </div>
             <h1 className="text-xl font-bold tracking-tight">
-              AC/DC <span className="text-gray-500 font-light">Laboratorio de Señales</span>
+              AC/DC <span className="text-gray-500 font-light">{t.app.title}</span>
             </h1>
           </div>
           
+          {/* System Mode */}
+          <div className="flex gap-1 p-1 bg-gray-800 rounded-lg border border-gray-700">
+            {(['single', 'three'] as SystemMode[]).map(mode => (
+              <button
+                key={mode}
+                onClick={() => setSystemMode(mode)}
+                className={`px-3 py-1 rounded-md text-xs font-semibold uppercase tracking-wider transition-colors ${state.systemMode === mode ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+              >
+                {t.app.systemModes[mode]}
+              </button>
+            ))}
+          </div>
+
           {/* Speed Control */}
           <div className="flex items-center gap-4 flex-1 justify-center max-w-md mx-4">
-             <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">Velocidad</span>
+             <span className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t.app.speed}</span>
              <input 
                 type="range" 
                 min="0" 
@@ -154,15 +612,29 @@ const App: React.FC = () => {
               onClick={() => setState(s => ({...s, isPlaying: !s.isPlaying}))}
               className={`px-4 py-1 rounded-md text-sm font-semibold transition-colors ${state.isPlaying ? 'bg-red-500/20 text-red-400 hover:bg-red-500/30' : 'bg-green-500/20 text-green-400 hover:bg-green-500/30'}`}
             >
-              {state.isPlaying ? "Detener" : "Reanudar"}
+              {state.isPlaying ? t.app.pause : t.app.resume}
             </button>
             <button 
               onClick={resetSimulation}
               className="px-4 py-1 rounded-md text-sm font-semibold bg-gray-800 hover:bg-gray-700 text-gray-300 transition-colors"
             >
-              Reiniciar
+              {t.app.reset}
             </button>
           </div>
+
+          {/* Language */}
+          <div className="flex gap-1 p-1 bg-gray-800 rounded-lg border border-gray-700" title={t.app.language}>
+            {LANGUAGES.map(lang => (
+              <button
+                key={lang.id}
+                onClick={() => setLocale(lang.id)}
+                title={lang.name}
+                className={`px-2 py-1 rounded-md text-xs font-semibold tracking-wider transition-colors ${locale === lang.id ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+              >
+                {lang.label}
+              </button>
+            ))}
+          </div>
         </div>
       </header>
 
@@ -170,60 +642,177 @@ const App: React.FC = () => {
         
         {/* Left Column: Controls */}
         <div className="xl:col-span-3 space-y-6">
+
+          <ScenarioManager state={state} simSpeed={simSpeed} onLoad={loadScenario} />
+
+          <ExercisePanel
+            exercise={exercise}
+            onStart={startExercise}
+            onGraded={() => setExerciseGraded(true)}
+            onExit={() => setExercise(null)}
+          />
+
+          {!isThreePhase && !exercise && (
+            <CaptureImport measurement={measurement} onImport={importMeasurement} onClear={() => setMeasurement(null)} />
+          )}
           
-          {/* Voltage Controls */}
-          <div className="bg-gray-900/50 rounded-xl border border-gray-800 p-5 backdrop-blur-sm">
-            <div className="flex justify-between items-center mb-4">
-              <h2 className="text-yellow-500 font-bold flex items-center gap-2">
-                <span className="w-2 h-2 rounded-full bg-yellow-500"></span> FUENTE DE TENSIÓN
-              </h2>
-              <div className="p-1.5 bg-gray-800 rounded text-yellow-500">
-                  <WaveformIcon type="sine" selected={true} />
+          {isThreePhase ? (
+            <ThreePhasePanel system={state.threePhase} result={threePhaseResult} amplitudeView={state.amplitudeView} ranges={state.ranges} onChange={updateThreePhase} />
+          ) : isMeasured || exercise ? null : (
+          <>
+            {/* Voltage Controls */}
+            <div className="bg-gray-900/50 rounded-xl border border-gray-800 p-5 backdrop-blur-sm">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-yellow-500 font-bold flex items-center gap-2">
+                  <span className="w-2 h-2 rounded-full bg-yellow-500"></span> {t.app.voltageSource}
+                </h2>
+                <div className="p-1.5 bg-gray-800 rounded text-yellow-500">
+                    <WaveformIcon type={circuit.voltage.waveform} selected={true} />
+                </div>
               </div>
-            </div>
             
-            <div className="space-y-3">
-              <KnobControl label="Valor Eficaz (RMS)" value={state.voltage.amplitude} min={0} max={200} unit="V" colorClass="text-yellow-500" onChange={(v) => updateVoltage({ amplitude: v })} />
-              <KnobControl label="Fase" value={state.voltage.phase} min={-180} max={180} step={1} unit="°" colorClass="text-yellow-500" onChange={(v) => updateVoltage({ phase: v })} />
+              <div className="space-y-3">
+                <KnobControl label={t.app.amplitude[state.amplitudeView]} value={state.voltage.amplitude * voltageFactor} min={0} max={state.ranges.voltageMax * voltageFactor} unit="V" colorClass="text-yellow-500" engineering onChange={(v) => updateVoltage({ amplitude: v / voltageFactor })} />
+                <KnobControl label={t.app.phase} value={state.voltage.phase} min={-180} max={180} step={1} unit="°" colorClass="text-yellow-500" onChange={(v) => updateVoltage({ phase: v })} />
+                <SignalShapeControls signal={state.voltage} unit="V" range={state.ranges.voltageMax} colorClass="text-yellow-500" onChange={updateVoltage} />
+              </div>
             </div>
-          </div>
 
-          {/* Current Controls */}
-          <div className="bg-gray-900/50 rounded-xl border border-gray-800 p-5 backdrop-blur-sm">
-            <div className="flex justify-between items-center mb-4">
-              <h2 className="text-cyan-500 font-bold flex items-center gap-2">
-                <span className="w-2 h-2 rounded-full bg-cyan-500"></span> CORRIENTE DE CARGA
-              </h2>
-              <div className="p-1.5 bg-gray-800 rounded text-cyan-500">
-                  <WaveformIcon type="sine" selected={true} />
+            {/* Current Controls */}
+            <div className="bg-gray-900/50 rounded-xl border border-gray-800 p-5 backdrop-blur-sm">
+              <div className="flex justify-between items-center mb-4">
+                <h2 className="text-cyan-500 font-bold flex items-center gap-2">
+                  <span className="w-2 h-2 rounded-full bg-cyan-500"></span> {t.app.loadCurrent}
+                </h2>
+                <div className="p-1.5 bg-gray-800 rounded text-cyan-500">
+                    <WaveformIcon type={circuit.current.waveform} selected={true} />
+                </div>
               </div>
-            </div>
             
-            <div className="space-y-3">
-              <KnobControl label="Valor Eficaz (RMS)" value={state.current.amplitude} min={0} max={200} unit="A" colorClass="text-cyan-500" onChange={(v) => updateCurrent({ amplitude: v })} />
-              <KnobControl label="Fase" value={state.current.phase} min={-180} max={180} step={1} unit="°" colorClass="text-cyan-500" onChange={(v) => updateCurrent({ phase: v })} />
+              {/* Load Mode Selector */}
+              <div className="grid grid-cols-2 gap-1 p-1 mb-3 bg-gray-800 rounded-lg border border-gray-700">
+                {(['manual', 'rlc', 'multi', 'motor'] as LoadMode[]).map(mode => (
+                  <button
+                    key={mode}
+                    onClick={() => setLoadMode(mode)}
+                    className={`py-1 rounded-md text-xs font-semibold uppercase tracking-wider transition-colors ${state.loadMode === mode ? 'bg-cyan-500/20 text-cyan-400' : 'text-gray-500 hover:text-gray-300'}`}
+                  >
+                    {t.app.loadModes[mode]}
+                  </button>
+                ))}
+              </div>
+
+              {state.loadMode === 'manual' ? (
+                <div className="space-y-3">
+                  <KnobControl label={t.app.amplitude[state.amplitudeView]} value={state.current.amplitude * currentFactor} min={0} max={state.ranges.currentMax * currentFactor} unit="A" colorClass="text-cyan-500" engineering onChange={(v) => updateCurrent({ amplitude: v / currentFactor })} />
+                  <KnobControl label={t.app.phase} value={state.current.phase} min={-180} max={180} step={1} unit="°" colorClass="text-cyan-500" onChange={(v) => updateCurrent({ phase: v })} />
+                  <KnobControl label={t.app.currentFrequency} value={state.current.frequency} min={FREQUENCY_MIN} max={FREQUENCY_MAX} step={1} unit="Hz" colorClass="text-cyan-500" onChange={(v) => updateCurrent({ frequency: v })} />
+                  <SignalShapeControls signal={state.current} unit="A" range={state.ranges.currentMax} colorClass="text-cyan-500" onChange={updateCurrent} />
+                </div>
+              ) : state.loadMode === 'motor' && motor ? (
+                <div className="space-y-3">
+                  <MotorEditor settings={state.motor} result={motorResult} curve={motor.curve} stalled={motor.stalled} ranges={state.ranges} onChange={updateMotor} />
+                  {!isSinusoidal(state.voltage) && (
+                    <div className="p-2 rounded-lg border border-amber-500/30 bg-amber-500/10 text-[10px] text-amber-400">
+                      {t.app.fundamentalLoad}
+                    </div>
+                  )}
+                </div>
+              ) : state.loadMode === 'multi' ? (
+                <div className="space-y-3">
+                  <LoadListEditor items={state.loadItems} result={multiLoad} onChange={setLoadItems} />
+                  {!isSinusoidal(state.voltage) && (
+                    <div className="p-2 rounded-lg border border-amber-500/30 bg-amber-500/10 text-[10px] text-amber-400">
+                      {t.app.fundamentalLoad}
+                    </div>
+                  )}
+                </div>
+              ) : (
+                <div className="space-y-3">
+                  <LoadEditor load={state.load} impedance={impedance} ranges={state.ranges} onChange={updateLoad} />
+                  <div className="flex justify-between p-3 bg-gray-800 rounded-lg border border-gray-700 font-mono text-xs text-cyan-400">
+                    <span>I = V / Z <span className="text-gray-500">({t.app.amplitudeViews[state.amplitudeView]})</span></span>
+                    <span>{si(circuit.current.amplitude * amplitudeFactor(circuit.current.waveform, state.amplitudeView), 'A', 4)} ∠ {fmt(circuit.current.phase, 1)}°</span>
+                  </div>
+                  {!isSinusoidal(state.voltage) && (
+                    <div className="p-2 rounded-lg border border-amber-500/30 bg-amber-500/10 text-[10px] text-amber-400">
+                      {t.app.fundamentalLoad}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
-          </div>
 
-          {/* Global System Controls (Frequency) */}
+            {/* Source / Line Impedance */}
+            <FeederPanel
+              settings={state.feeder}
+              result={feederResult}
+              ranges={state.ranges}
+              harmonicsIgnored={!isSinusoidal(state.voltage) || (state.loadMode === 'manual' && !isSinusoidal(state.current))}
+              onChange={updateFeeder}
+            />
+
+            {/* Transformer between the line (or the source) and the load */}
+            <TransformerPanel
+              settings={state.transformer}
+              result={transformerResult}
+              ranges={state.ranges}
+              collapsed={network?.status === 'collapse'}
+              onChange={updateTransformer}
+            />
+          </>
+          )}
+
+          {/* Global System Controls (Frequency); measured data fixes its own */}
+          {!isMeasured && !exercise && (
           <div className="bg-gray-900/50 rounded-xl border border-gray-800 p-5 backdrop-blur-sm">
             <div className="flex justify-between items-center mb-4">
               <h2 className="text-white font-bold flex items-center gap-2">
-                <span className="w-2 h-2 rounded-full bg-white"></span> PARÁMETROS GLOBALES
+                <span className="w-2 h-2 rounded-full bg-white"></span> {t.app.globalParameters}
               </h2>
             </div>
             <div className="space-y-3">
               <KnobControl 
-                label="Frecuencia" 
+                label={t.app.frequency} 
                 value={state.voltage.frequency} 
-                min={1} 
-                max={200} 
+                min={FREQUENCY_MIN} 
+                max={FREQUENCY_MAX} 
+                step={1}
                 unit="Hz" 
                 colorClass="text-white" 
                 onChange={updateFrequency} 
               />
+              {/* Amplitude representation: knobs are entered and shown as RMS, peak or peak-to-peak */}
+              <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 space-y-2">
+                <span className="text-xs font-bold uppercase tracking-wider text-gray-400">{t.app.amplitudeView}</span>
+                <div className="grid grid-cols-3 gap-1 p-1 bg-gray-900 rounded-lg">
+                  {(['rms', 'peak', 'peakToPeak'] as AmplitudeView[]).map(view => (
+                    <button
+                      key={view}
+                      onClick={() => setAmplitudeView(view)}
+                      className={`py-1 rounded-md text-[10px] font-semibold uppercase tracking-wider transition-colors ${state.amplitudeView === view ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                    >
+                      {t.app.amplitudeViews[view]}
+                    </button>
+                  ))}
+                </div>
+              </div>
+              <RangeSettings ranges={state.ranges} onChange={updateRanges} />
             </div>
           </div>
+          )}
+
+          {/* Power Factor Correction */}
+          {!isThreePhase && !isHidden('pfc') && (
+            <PFCDesigner
+              settings={state.pfc}
+              result={pfcResult}
+              pfBefore={Math.abs(powerAnalysis.PF1)}
+              currentBefore={phasorSignals.current.amplitude}
+              currentAfter={pfcCurrent.amplitude}
+              onChange={updatePfc}
+            />
+          )}
 
         </div>
 
@@ -231,74 +820,199 @@ const App: React.FC = () => {
         <div className="xl:col-span-9 space-y-6">
           
           {/* Row 1: Oscilloscope */}
-          <Oscilloscope state={state} timeOffset={timeOffset} />
+          {isHidden('scope') ? (
+            <HiddenResult title={t.scope.title} className="min-h-[400px]" />
+          ) : (
+            <Oscilloscope state={circuit} timeOffset={timeOffset} channels={isThreePhase ? threePhaseChannels : measuredChannels} extraChannels={sendingChannels} onScopeChange={updateScope} exportContext={exportContext} />
+          )}
 
           {/* Row 2: Vector & Power Analysis (3 Columns) */}
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 min-h-[350px]">
              
-             {/* 1. Phasor Diagram */}
-             <PhasorDiagram voltage={state.voltage} current={state.current} />
+             {/* 1. Phasor Diagram / Complex Plane (Z, Y and equivalent circuits) */}
+             {isHidden('phasors') ? (
+               <HiddenResult title={t.phasors.title} />
+             ) : (
+               <div className="flex flex-col gap-2 h-full">
+                 <div className={`grid ${vectorTabs.length === 3 ? 'grid-cols-3' : vectorTabs.length === 2 ? 'grid-cols-2' : 'grid-cols-1'} gap-1 p-1 bg-gray-900 rounded-lg border border-gray-800`}>
+                   {vectorTabs.map(([tab, label]) => (
+                     <button
+                       key={tab}
+                       onClick={() => setVectorTab(tab)}
+                       className={`py-1 rounded-md text-[10px] font-semibold uppercase tracking-wider transition-colors ${activeVectorTab === tab ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-gray-300'}`}
+                     >
+                       {label}
+                     </button>
+                   ))}
+                 </div>
+                 {activeVectorTab === 'transformer' ? (
+                   <PhasorDiagram
+                     voltage={phasorSignals.voltage}
+                     current={phasorSignals.current}
+                     phasors={transformerPhasors}
+                     warning={phasorWarning}
+                     exportContext={exportContext}
+                     amplitudeView={state.amplitudeView}
+                   />
+                 ) : activeVectorTab === 'phasors' ? (
+                   <PhasorDiagram
+                     voltage={phasorSignals.voltage}
+                     current={phasorSignals.current}
+                     phasors={isThreePhase ? threePhasePhasors : undefined}
+                     warning={phasorWarning}
+                     correctedCurrent={pfcActive ? pfcCurrent : undefined}
+                     contributions={loadPhasors}
+                     sendingVoltage={feederResult && !transformerResult ? phasorToSignal(feederResult.sending, state.voltage.frequency) : undefined}
+                     exportContext={exportContext}
+                     amplitudeView={state.amplitudeView}
+                   />
+                 ) : (
+                   <ComplexPlaneDiagram
+                     voltage={phasorSignals.voltage}
+                     current={phasorSignals.current}
+                     exportContext={exportContext}
+                     amplitudeView={state.amplitudeView}
+                   />
+                 )}
+               </div>
+             )}
              
              {/* 2. Power Statistics (Replaces Complex Plane) */}
-             <div className="grid grid-cols-2 gap-4 h-full">
-                
-                {/* Active Power */}
-                <div className="bg-gray-900 border border-gray-800 p-3 rounded-xl flex flex-col justify-center relative overflow-hidden shadow-inner shadow-black/50 group hover:border-green-500/30 transition-colors">
-                  <div className="absolute top-0 right-0 w-12 h-12 bg-green-500/10 rounded-bl-full group-hover:bg-green-500/20 transition-colors"></div>
-                  <div className="text-gray-500 text-[10px] uppercase font-bold mb-1 tracking-wider">Potencia Activa</div>
-                  <div className="text-xl lg:text-2xl font-mono text-green-400 truncate">
-                    {powerStats.P} <span className="text-xs text-gray-500">W</span>
+             {isHidden('power') ? (
+               <HiddenResult title={t.powerCards.title} />
+             ) : (
+               <div className="flex flex-col gap-2 h-full">
+                  <div className="flex justify-between items-center px-1">
+                     <span className="text-[10px] text-gray-500 uppercase font-bold tracking-wider">{t.powerCards.title}</span>
+                     <ExportButtons actions={[
+                       { label: 'CSV', onClick: () => downloadText(`${t.powerCards.file}.csv`, summaryToCsv(powerSummary, exportContext, t.exportButtons.summaryHeader), 'text/csv') },
+                       { label: 'JSON', onClick: () => downloadText(`${t.powerCards.file}.json`, summaryToJson(powerSummary, exportContext), 'application/json') },
+                     ]} />
                   </div>
-                  <div className="text-[9px] text-gray-600 mt-1">Trabajo Útil</div>
-                </div>
+                  {!isThreePhase && !powerAnalysis.exact && (
+                    <div className="px-1 text-[10px] text-amber-400">{t.app.warnings.inexactWindow}</div>
+                  )}
+                  <div className="grid grid-cols-2 gap-4 flex-1">
                 
-                {/* Reactive Power */}
-                <div className="bg-gray-900 border border-gray-800 p-3 rounded-xl flex flex-col justify-center relative overflow-hidden shadow-inner shadow-black/50 group hover:border-purple-500/30 transition-colors">
-                  <div className="absolute top-0 right-0 w-12 h-12 bg-purple-500/10 rounded-bl-full group-hover:bg-purple-500/20 transition-colors"></div>
-                  <div className="text-gray-500 text-[10px] uppercase font-bold mb-1 tracking-wider">Potencia Reactiva</div>
-                  <div className="text-xl lg:text-2xl font-mono text-purple-400 truncate">
-                    {powerStats.Q} <span className="text-xs text-gray-500">VAR</span>
-                  </div>
-                   <div className="text-[9px] text-gray-600 mt-1">Campo Almacenado</div>
-                </div>
-
-                {/* Apparent Power */}
-                <div className="bg-gray-900 border border-gray-800 p-3 rounded-xl flex flex-col justify-center relative overflow-hidden shadow-inner shadow-black/50 group hover:border-blue-500/30 transition-colors">
-                  <div className="absolute top-0 right-0 w-12 h-12 bg-blue-500/10 rounded-bl-full group-hover:bg-blue-500/20 transition-colors"></div>
-                  <div className="text-gray-500 text-[10px] uppercase font-bold mb-1 tracking-wider">Potencia Aparente</div>
-                  <div className="font-mono text-blue-400 flex flex-col">
-                    <div className="text-xl lg:text-2xl flex items-baseline gap-1">
-                        <span>{powerStats.S}</span>
-                        <span className="text-xs text-gray-500">VA</span>
-                    </div>
-                    <div className="text-lg lg:text-xl mt-0.5">
-                        ∠ {powerStats.phaseDiff}°
-                    </div>
-                  </div>
-                   <div className="text-[9px] text-gray-600 mt-1">Capacidad Total</div>
-                </div>
+                     {/* Active Power */}
+                     <div className="bg-gray-900 border border-gray-800 p-3 rounded-xl flex flex-col justify-center relative overflow-hidden shadow-inner shadow-black/50 group hover:border-green-500/30 transition-colors">
+                       <div className="absolute top-0 right-0 w-12 h-12 bg-green-500/10 rounded-bl-full group-hover:bg-green-500/20 transition-colors"></div>
+                       <div className="text-gray-500 text-[10px] uppercase font-bold mb-1 tracking-wider">{t.powerCards.active}</div>
+                       <div className="text-xl lg:text-2xl font-mono text-green-400 truncate">
+                         {powerStats.P.number} <span className="text-xs text-gray-500">{powerStats.P.unit}</span>
+                       </div>
+                       <div className="text-[9px] text-gray-600 mt-1">{t.powerCards.activeHint}</div>
+                     </div>
+                
+                     {/* Reactive Power */}
+                     <div className="bg-gray-900 border border-gray-800 p-3 rounded-xl flex flex-col justify-center relative overflow-hidden shadow-inner shadow-black/50 group hover:border-purple-500/30 transition-colors">
+                       <div className="absolute top-0 right-0 w-12 h-12 bg-purple-500/10 rounded-bl-full group-hover:bg-purple-500/20 transition-colors"></div>
+                       <div className="text-gray-500 text-[10px] uppercase font-bold mb-1 tracking-wider">{t.powerCards.reactive}</div>
+                       <div className="text-xl lg:text-2xl font-mono text-purple-400 truncate">
+                         {powerStats.Q.number} <span className="text-xs text-gray-500">{powerStats.Q.unit}</span>
+                       </div>
+                        <div className="text-[9px] text-gray-600 mt-1">{t.powerCards.reactiveHint}</div>
+                     </div>
 
-                {/* Power Factor */}
-                <div className="bg-gray-900 border border-gray-800 p-3 rounded-xl flex flex-col justify-center relative overflow-hidden shadow-inner shadow-black/50 group hover:border-yellow-500/30 transition-colors">
-                    <div className="absolute top-0 right-0 w-12 h-12 bg-yellow-500/10 rounded-bl-full group-hover:bg-yellow-500/20 transition-colors"></div>
-                  <div className="text-gray-500 text-[10px] uppercase font-bold mb-1 tracking-wider">Factor de Potencia</div>
-                  <div className="text-xl lg:text-2xl font-mono text-yellow-400 truncate">
-                    {powerStats.PF}
-                  </div>
-                   <div className="flex flex-col mt-1">
-                       <div className="text-[10px] text-gray-400 uppercase tracking-wider leading-none mb-0.5">
-                           {powerStats.statusLag}
+                     {/* Apparent Power */}
+                     <div className="bg-gray-900 border border-gray-800 p-3 rounded-xl flex flex-col justify-center relative overflow-hidden shadow-inner shadow-black/50 group hover:border-blue-500/30 transition-colors">
+                       <div className="absolute top-0 right-0 w-12 h-12 bg-blue-500/10 rounded-bl-full group-hover:bg-blue-500/20 transition-colors"></div>
+                       <div className="text-gray-500 text-[10px] uppercase font-bold mb-1 tracking-wider">{t.powerCards.apparent}</div>
+                       <div className="font-mono text-blue-400 flex flex-col">
+                         <div className="text-xl lg:text-2xl flex items-baseline gap-1">
+                             <span>{powerStats.S.number}</span>
+                             <span className="text-xs text-gray-500">{powerStats.S.unit}</span>
+                         </div>
+                         <div className="text-lg lg:text-xl mt-0.5">
+                             ∠ {powerStats.phaseDiff}°
+                         </div>
+                         {powerStats.triangle.D > 1e-5 * powerStats.raw.S && (
+                           <div className="text-[10px] text-orange-400 mt-0.5">D: {powerStats.D.number} {powerStats.D.unit}</div>
+                         )}
                        </div>
-                       <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider leading-none">
-                           {powerStats.statusType}
+                        <div className="text-[9px] text-gray-600 mt-1">{t.powerCards.apparentHint}</div>
+                     </div>
+
+                     {/* Power Factor */}
+                     <div className="bg-gray-900 border border-gray-800 p-3 rounded-xl flex flex-col justify-center relative overflow-hidden shadow-inner shadow-black/50 group hover:border-yellow-500/30 transition-colors">
+                         <div className="absolute top-0 right-0 w-12 h-12 bg-yellow-500/10 rounded-bl-full group-hover:bg-yellow-500/20 transition-colors"></div>
+                       <div className="text-gray-500 text-[10px] uppercase font-bold mb-1 tracking-wider">{t.powerCards.powerFactor}</div>
+                       <div className="text-xl lg:text-2xl font-mono text-yellow-400 truncate">
+                         {powerStats.PF}
                        </div>
-                   </div>
-                </div>
-             </div>
+                        <div className="flex flex-col mt-1">
+                            <div className="text-[10px] text-gray-400 uppercase tracking-wider leading-none mb-0.5">
+                                {powerStats.statusLag}
+                            </div>
+                            <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider leading-none">
+                                {powerStats.statusType}
+                            </div>
+                            {phasorWarning && (
+                              <div className="text-[9px] text-amber-400 font-mono mt-1" title={t.powerCards.harmonicsHint}>
+                                cos θ₁ = {fmt(Math.abs(powerAnalysis.PF1), 3)}
+                              </div>
+                            )}
+                        </div>
+                     </div>
+                  </div>
+               </div>
+             )}
 
              {/* 3. Power Triangle */}
-             <PowerTriangleDiagram voltage={state.voltage} current={state.current} />
+             {isHidden('power') ? (
+               <HiddenResult title={t.triangle.title} />
+             ) : (
+               <PowerTriangleDiagram
+                 voltage={circuit.voltage}
+                 current={circuit.current}
+                 power={powerStats.triangle}
+                 corrected={pfcActive ? { P: powerAnalysis.P, Q: pfcResult.qAfter } : undefined}
+                 contributions={loadPowers}
+                 exportContext={exportContext}
+               />
+             )}
           </div>
+
+          {/* Worked solution for the single-phase power cards */}
+          {!isThreePhase && !isHidden('power') && (
+            <SolutionPanel steps={solutionSteps} />
+          )}
+
+          {/* Row 3: Three-phase line/phase quantities */}
+          {isThreePhase && (
+            <ThreePhaseSummary result={threePhaseResult} connection={state.threePhase.connection} />
+          )}
+
+          {/* Row 4: Non-sinusoidal power decomposition and harmonic spectrum */}
+          {!isThreePhase && !isHidden('power') && (
+            <PowerBreakdown analysis={powerAnalysis} />
+          )}
+          {!isThreePhase && !isHidden('power') && (
+            <SpectrumPanel voltage={circuit.voltage} current={circuit.current} measured={isMeasured ? measurement.analysis.spectra : undefined} />
+          )}
+
+          {/* Row 5: 24-hour load profile, energy and billing */}
+          {profileActive && (
+            <LoadProfilePanel
+              settings={state.profile}
+              analysis={profileAnalysis}
+              exportContext={exportContext}
+              onChange={updateProfile}
+              onApplyHour={applyProfileHour}
+            />
+          )}
+
+          {transientActive && (
+            <TransientPanel
+              settings={state.transient}
+              result={transientResult}
+              ranges={state.ranges}
+              fundamentalOnly={!isSinusoidal(state.voltage)}
+              exportContext={exportContext}
+              onChange={updateTransient}
+              onUseLoad={copyLoadToTransient}
+            />
+          )}
         </div>
       </main>
     </div>
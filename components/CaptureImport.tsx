@@ -0,0 +1,110 @@
+import React, { useRef, useState } from 'react';
+import { MAX_HARMONIC_ORDER } from '../constants';
+import { importCapture, Measurement } from '../services/capture';
+import { useI18n } from '../i18n';
+
+interface CaptureImportProps {
+  measurement: Measurement | null;
+  onImport: (measurement: Measurement) => void;
+  onClear: () => void;
+}
+
+export const CaptureImport: React.FC<CaptureImportProps> = ({ measurement, onImport, onClear }) => {
+  const { t, fmt, si } = useI18n();
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const openFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow reopening the same file
+    if (!file) return;
+    const result = importCapture(await file.text(), file.name, MAX_HARMONIC_ORDER, t.captureErrors);
+    if (result.status === 'ok') {
+      setErrors([]);
+      onImport(result.measurement);
+    } else {
+      setErrors([t.capture.failed(file.name), ...result.errors]);
+    }
+  };
+
+  const buttonClass = 'px-3 py-1 rounded-md text-xs font-semibold uppercase tracking-wider transition-colors';
+
+  return (
+    <div className="bg-gray-900/50 rounded-xl border border-gray-800 p-5 backdrop-blur-sm">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-purple-400 font-bold flex items-center gap-2">
+          <span className="w-2 h-2 rounded-full bg-purple-400"></span> {t.capture.title}
+        </h2>
+        <div className="flex gap-1">
+          {measurement && (
+            <button onClick={onClear} className={`${buttonClass} bg-gray-800 text-gray-400 hover:text-gray-200`}>
+              {t.capture.remove}
+            </button>
+          )}
+          <button onClick={() => fileInput.current?.click()} className={`${buttonClass} bg-purple-500/20 text-purple-400 hover:bg-purple-500/30`}>
+            {t.capture.import}
+          </button>
+        </div>
+        <input ref={fileInput} type="file" accept=".csv,.txt,text/csv" onChange={openFile} className="hidden" />
+      </div>
+
+      {!measurement && errors.length === 0 && (
+        <p className="text-[10px] text-gray-500">
+          {t.capture.hint}
+        </p>
+      )}
+
+      {measurement && (
+        <div className="space-y-3">
+          <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 font-mono text-[10px] space-y-1">
+            <div className="flex justify-between">
+              <span className="text-gray-400">{t.capture.file}</span>
+              <span className="text-white truncate ml-2">{measurement.capture.fileName}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">{t.capture.sampling}</span>
+              <span className="text-white">{si(measurement.capture.sampleRate, 'S/s', 4)} · {measurement.capture.voltage.length} {t.capture.samples}</span>
+            </div>
+            {measurement.capture.columns.map(col => (
+              <div key={col.role} className="flex justify-between">
+                <span className="text-gray-400">{t.capture.roles[col.role]}</span>
+                <span className="text-white">{col.header}{col.unit ? ` [${col.unit}]` : ''}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 font-mono text-[10px] space-y-1">
+            <div className="flex justify-between">
+              <span className="text-gray-400">{t.capture.frequency}</span>
+              <span className="text-purple-400">{si(measurement.analysis.frequency, 'Hz', 5)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">{t.capture.cycles}</span>
+              <span className="text-purple-400">{measurement.analysis.cycles}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">V RMS / I RMS</span>
+              <span className="text-purple-400">{si(measurement.analysis.power.V, 'V', 4)} / {si(measurement.analysis.power.I, 'A', 4)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-gray-400">{t.capture.phase}</span>
+              <span className="text-purple-400">{fmt(measurement.analysis.power.theta1, 1)}°</span>
+            </div>
+          </div>
+
+          {measurement.capture.warnings.length > 0 && (
+            <div className="p-2 rounded-lg border border-amber-500/30 bg-amber-500/10 text-[10px] text-amber-400 space-y-0.5">
+              {measurement.capture.warnings.map((w, i) => <div key={i}>{w}</div>)}
+            </div>
+          )}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <div className="mt-3 p-2 rounded-lg border border-red-500/30 bg-red-500/10 text-[10px] text-red-400 space-y-0.5">
+          {errors.map((line, i) => <div key={i} className={i > 0 ? 'font-mono' : ''}>{line}</div>)}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,26 +1,46 @@
-
-import React from 'react';
-import { SignalParams } from '../types';
+import React, { useMemo, useRef, useState } from 'react';
+import { AmplitudeView, SignalParams } from '../types';
+import { Complex, abs, arg, conj, fromPolar, mul, scale } from '../services/complex';
+import { amplitudeFactor } from '../services/signal';
+import { EquivalentBranch, equivalentCircuit } from '../services/equivalent';
+import { ExportContext } from '../services/export';
+import { ExportButtons, ExportLine, downloadPng, downloadSvg, standaloneSvg } from './ExportButtons';
+import { useI18n } from '../i18n';
+
+type PlaneQuantity = 'V' | 'I' | 'Z' | 'S';
+
+const QUANTITIES: { id: PlaneQuantity; unit: string; color: string }[] = [
+  { id: 'V', unit: 'V', color: '#EAB308' },
+  { id: 'I', unit: 'A', color: '#22D3EE' },
+  { id: 'Z', unit: 'Ω', color: '#C084FC' },
+  { id: 'S', unit: 'VA', color: '#4ADE80' },
+];
 
 interface ComplexPlaneDiagramProps {
-  voltage: SignalParams;
+  voltage: SignalParams; // Fundamental phasors
   current: SignalParams;
+  exportContext?: ExportContext; // Enables SVG/PNG export
+  amplitudeView?: AmplitudeView; // V and I magnitudes as RMS (default), peak or peak-to-peak
 }
 
-export const ComplexPlaneDiagram: React.FC<ComplexPlaneDiagramProps> = ({ voltage, current }) => {
+export const ComplexPlaneDiagram: React.FC<ComplexPlaneDiagramProps> = ({ voltage, current, exportContext, amplitudeView }) => {
+  const { t, fmt, si } = useI18n();
+  const view: AmplitudeView = amplitudeView ?? 'rms';
+  const [quantity, setQuantity] = useState<PlaneQuantity>('Z');
+  const svgRef = useRef<SVGSVGElement>(null);
+
   // Center point and size
   const CX = 150;
   const CY = 150;
-  
-  // Fixed display radii
-  const V_DISPLAY_R = 110;
-  const I_DISPLAY_R = 80;
-  
+
+  // Fixed display radius; the plane shows direction, the readouts give magnitude
+  const DISPLAY_R = 110;
+
   // Arc for angle display
   const ARC_RADIUS = 40;
 
   // Arrow dimensions matching PhasorDiagram
-  const ARROW_LEN = 14; 
+  const ARROW_LEN = 14;
   const ARROW_WIDTH = 12;
   const ARROW_INSET = 2;
   const LINE_OFFSET = ARROW_LEN - ARROW_INSET;
@@ -32,91 +52,117 @@ export const ComplexPlaneDiagram: React.FC<ComplexPlaneDiagramProps> = ({ voltag
     const rad = degToRad(deg);
     return {
       x: CX + r * Math.cos(rad),
-      y: CY - r * Math.sin(rad) 
+      y: CY - r * Math.sin(rad)
+    };
+  };
+
+  const equivalent = useMemo(() => equivalentCircuit(voltage, current), [voltage, current]);
+
+  // V and I follow the amplitude view; Z and S are ratios and products of RMS phasors
+  const vectors = useMemo<Record<PlaneQuantity, Complex | null>>(() => {
+    const v = fromPolar(voltage.amplitude, voltage.phase);
+    const i = fromPolar(current.amplitude, current.phase);
+    const factor = amplitudeFactor('sine', view);
+    return {
+      V: scale(v, factor),
+      I: scale(i, factor),
+      Z: equivalent.status === 'open' ? null : equivalent.impedance,
+      S: mul(v, conj(i)),
     };
+  }, [voltage, current, equivalent, view]);
+
+  const rect = (c: Complex, unit: string) =>
+    `${si(c.re, unit, 4)} ${c.im >= 0 ? '+' : '−'} j${si(Math.abs(c.im), unit, 4)}`;
+  const polar = (c: Complex, unit: string) => `${si(abs(c), unit, 4)} ∠ ${fmt(arg(c), 1)}°`;
+
+  const selected = QUANTITIES.find(q => q.id === quantity)!;
+  const vector = vectors[quantity];
+  const magnitude = vector ? abs(vector) : 0;
+  const angle = vector && magnitude > 0 ? arg(vector) : 0;
+
+  const tip = getCoords(DISPLAY_R, angle);
+  const arrowEnd = getCoords(DISPLAY_R - LINE_OFFSET, angle);
+  const arcStart = getCoords(ARC_RADIUS, 0);
+  const arcEnd = getCoords(ARC_RADIUS, angle);
+  const arcPath = `M ${arcStart.x} ${arcStart.y} A ${ARC_RADIUS} ${ARC_RADIUS} 0 0 ${angle > 0 ? 0 : 1} ${arcEnd.x} ${arcEnd.y}`;
+  const labelPos = getCoords(ARC_RADIUS + 16, angle / 2);
+
+  const element = (branch: EquivalentBranch, suffix: string) => {
+    const { kind, value } = branch.element;
+    if (kind === 'inductor') return `L${suffix} = ${si(value, 'H', 4)}`;
+    if (kind === 'capacitor') return `C${suffix} = ${si(value, 'F', 4)}`;
+    return t.complexPlane.noReactance;
   };
 
-  // Full coordinates for dashed projections (reference lines)
-  const vCoordsFull = getCoords(V_DISPLAY_R, voltage.phase);
-  const cCoordsFull = getCoords(I_DISPLAY_R, current.phase);
-
-  // Shortened coordinates for the solid vector lines so the arrow tip lands exactly on the radius
-  const vCoordsArrow = getCoords(V_DISPLAY_R - LINE_OFFSET, voltage.phase);
-  const cCoordsArrow = getCoords(I_DISPLAY_R - LINE_OFFSET, current.phase);
-
-  // Calculate Real and Imaginary components (RMS)
-  const vRe = voltage.amplitude * Math.cos(degToRad(voltage.phase));
-  const vIm = voltage.amplitude * Math.sin(degToRad(voltage.phase));
-  const iRe = current.amplitude * Math.cos(degToRad(current.phase));
-  const iIm = current.amplitude * Math.sin(degToRad(current.phase));
-
-  // --- Angle Display Logic ---
-  let delta = current.phase - voltage.phase;
-  while (delta <= -180) delta += 360;
-  while (delta > 180) delta -= 360;
-  
-  const absDelta = Math.abs(delta);
-  
-  // Signed display angle (V - I)
-  let displayAngle = voltage.phase - current.phase;
-  while (displayAngle <= -180) displayAngle += 360;
-  while (displayAngle > 180) displayAngle -= 360;
-
-  // Sweep Flag for Arc
-  const sweepFlag = delta > 0 ? 0 : 1;
-  const largeArcFlag = absDelta > 180 ? 1 : 0;
-
-  const arcStart = getCoords(ARC_RADIUS, voltage.phase);
-  const arcEnd = getCoords(ARC_RADIUS, current.phase);
-  const arcPath = `M ${arcStart.x} ${arcStart.y} A ${ARC_RADIUS} ${ARC_RADIUS} 0 ${largeArcFlag} ${sweepFlag} ${arcEnd.x} ${arcEnd.y}`;
-
-  // Label Position
-  const midAngle = voltage.phase + (delta / 2);
-  const labelPos = getCoords(ARC_RADIUS + 20, midAngle);
+  // Readouts below the plane, also drawn into exported images
+  const readouts = (): ExportLine[] => {
+    if (equivalent.status === 'open') return [{ text: t.complexPlane.openCircuit, color: '#FBBF24' }];
+    if (equivalent.status === 'short') return [{ text: t.complexPlane.shortCircuit, color: '#FBBF24' }];
+    const { impedance: Z, admittance: Y, series, parallel } = equivalent;
+    return [
+      { text: `Z = ${polar(Z, 'Ω')} = ${rect(Z, 'Ω')}`, color: '#C084FC' },
+      { text: `Y = ${polar(Y, 'S')} = ${rect(Y, 'S')}`, color: '#F472B6' },
+      { text: `${t.complexPlane.series}: Rₛ = ${si(series.resistance, 'Ω', 4)}, Xₛ = ${si(series.reactance, 'Ω', 4)} → ${element(series, 'ₛ')}`, color: '#D1D5DB' },
+      { text: `${t.complexPlane.parallel}: Rₚ = ${si(parallel.resistance, 'Ω', 4)} ∥ Xₚ = ${si(parallel.reactance, 'Ω', 4)} → ${element(parallel, 'ₚ')}`, color: '#D1D5DB' },
+    ];
+  };
+
+  const exportImage = (format: 'svg' | 'png') => {
+    if (!svgRef.current || !exportContext) return;
+    const legend = [
+      ...(vector ? [{ text: `${quantity} = ${polar(vector, selected.unit)} = ${rect(vector, selected.unit)}`, color: selected.color }] : []),
+      ...readouts(),
+    ];
+    const markup = standaloneSvg(svgRef.current, t.complexPlane.title, legend, exportContext);
+    if (format === 'svg') downloadSvg(`${t.complexPlane.file}.svg`, markup);
+    else downloadPng(`${t.complexPlane.file}.png`, markup);
+  };
 
   return (
-    <div className="w-full h-full min-h-[350px] bg-gray-900 rounded-xl border border-gray-700 p-4 flex flex-col items-center justify-center relative shadow-inner shadow-black/50">
-        {/* Top Header with Math Values */}
-        <div className="absolute top-3 left-0 w-full px-4 flex justify-between items-start z-10">
+    <div className="w-full h-full min-h-[350px] bg-gray-900 rounded-xl border border-gray-700 p-4 flex flex-col items-center relative shadow-inner shadow-black/50">
+        {/* Top Header with Quantity Selector */}
+        <div className="w-full flex justify-between items-start z-10">
           <div>
-            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider">Plano Complejo</h3>
-            <span className="text-[10px] text-gray-600 font-mono">Coordenadas Rectangulares</span>
+            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t.complexPlane.title}</h3>
+            <span className="text-[10px] text-gray-600 font-mono">{t.complexPlane.subtitle}</span>
+            {exportContext && (
+              <div className="mt-1">
+                <ExportButtons actions={[{ label: 'SVG', onClick: () => exportImage('svg') }, { label: 'PNG', onClick: () => exportImage('png') }]} />
+              </div>
+            )}
           </div>
-          <div className="flex flex-col items-end text-[10px] font-mono">
-             <div className="text-yellow-500">
-                <span className="opacity-70">V = </span> 
-                {vRe.toFixed(1)} {vIm >= 0 ? '+' : '-'} j{Math.abs(vIm).toFixed(1)} V
-             </div>
-             <div className="text-cyan-500">
-                <span className="opacity-70">I = </span>
-                {iRe.toFixed(1)} {iIm >= 0 ? '+' : '-'} j{Math.abs(iIm).toFixed(1)} A
-             </div>
+          <div className="flex flex-col items-end gap-1">
+            <div className="flex gap-1">
+              {QUANTITIES.map(q => (
+                <button
+                  key={q.id}
+                  onClick={() => setQuantity(q.id)}
+                  title={t.complexPlane.quantities[q.id]}
+                  className={`w-6 py-0.5 rounded text-[10px] font-mono font-bold transition-colors ${quantity === q.id ? 'bg-white/10' : 'bg-gray-800 text-gray-500 hover:text-gray-300'}`}
+                  style={quantity === q.id ? { color: q.color } : undefined}
+                >
+                  {q.id}
+                </button>
+              ))}
+            </div>
+            <div className="text-[10px] font-mono" style={{ color: selected.color }}>
+              {vector ? <>{quantity} = {rect(vector, selected.unit)}</> : <>{quantity} → ∞</>}
+            </div>
           </div>
         </div>
-        
-        <svg viewBox="0 0 300 300" className="w-full h-full max-w-[350px] mt-6">
+
+        <svg ref={svgRef} viewBox="0 0 300 300" className="w-full max-w-[260px]">
             <defs>
-                <marker 
-                    id="arrow-v-rect" 
-                    markerWidth={ARROW_LEN} 
-                    markerHeight={ARROW_WIDTH} 
-                    refX={ARROW_INSET} 
-                    refY={ARROW_WIDTH/2} 
+                <marker
+                    id="arrow-plane"
+                    markerWidth={ARROW_LEN}
+                    markerHeight={ARROW_WIDTH}
+                    refX={ARROW_INSET}
+                    refY={ARROW_WIDTH/2}
                     orient="auto"
                     markerUnits="userSpaceOnUse"
                 >
-                    <path d={`M0,0 L${ARROW_LEN},${ARROW_WIDTH/2} L0,${ARROW_WIDTH} z`} fill="#EAB308" />
-                </marker>
-                <marker 
-                    id="arrow-c-rect" 
-                    markerWidth={ARROW_LEN} 
-                    markerHeight={ARROW_WIDTH} 
-                    refX={ARROW_INSET} 
-                    refY={ARROW_WIDTH/2} 
-                    orient="auto"
-                    markerUnits="userSpaceOnUse"
-                >
-                    <path d={`M0,0 L${ARROW_LEN},${ARROW_WIDTH/2} L0,${ARROW_WIDTH} z`} fill="#22D3EE" />
+                    <path d={`M0,0 L${ARROW_LEN},${ARROW_WIDTH/2} L0,${ARROW_WIDTH} z`} fill={selected.color} />
                 </marker>
             </defs>
 
@@ -126,7 +172,7 @@ export const ComplexPlaneDiagram: React.FC<ComplexPlaneDiagramProps> = ({ voltag
               <line key={`v-${x}`} x1={x} y1="20" x2={x} y2="280" stroke="#374151" strokeWidth="1" strokeDasharray="3 3" opacity="0.3" />
             ))}
             {/* Horizontal Dashed Lines */}
-             {[50, 100, 200, 250].map(y => (
+            {[50, 100, 200, 250].map(y => (
               <line key={`h-${y}`} x1="20" y1={y} x2="280" y2={y} stroke="#374151" strokeWidth="1" strokeDasharray="3 3" opacity="0.3" />
             ))}
 
@@ -140,52 +186,50 @@ export const ComplexPlaneDiagram: React.FC<ComplexPlaneDiagramProps> = ({ voltag
             <text x="150" y="10" fill="#9CA3AF" fontSize="10" textAnchor="middle">+Im (j)</text>
             <text x="150" y="290" fill="#9CA3AF" fontSize="10" textAnchor="middle">-Im</text>
 
-            {/* Angle Arc & Label */}
-            {absDelta > 0.1 && (
+            {vector && magnitude > 0 && (
               <g>
-                <path 
-                  d={arcPath} 
-                  stroke="#FACC15" 
-                  strokeWidth="1.5" 
-                  fill="none" 
-                  strokeLinecap="round"
-                  opacity="0.8"
-                  strokeDasharray="2 2"
-                />
-                <text 
-                  x={labelPos.x} 
-                  y={labelPos.y} 
-                  fill="#FACC15" 
-                  fontSize="12" 
-                  fontWeight="bold"
-                  textAnchor="middle" 
-                  alignmentBaseline="middle"
-                  style={{ textShadow: '0px 2px 2px rgba(0,0,0,0.8)' }}
-                >
-                  {displayAngle.toFixed(1)}°
-                </text>
+                {/* Angle from the real axis */}
+                {Math.abs(angle) > 0.1 && (
+                  <g>
+                    <path d={arcPath} stroke={selected.color} strokeWidth="1.5" fill="none" strokeLinecap="round" opacity="0.8" strokeDasharray="2 2" />
+                    <text
+                      x={labelPos.x}
+                      y={labelPos.y}
+                      fill={selected.color}
+                      fontSize="11"
+                      fontWeight="bold"
+                      textAnchor="start"
+                      alignmentBaseline="middle"
+                      style={{ textShadow: '0px 2px 2px rgba(0,0,0,0.8)' }}
+                    >
+                      {fmt(angle, 1)}°
+                    </text>
+                  </g>
+                )}
+
+                {/* Projections onto the real and imaginary axes */}
+                <line x1={tip.x} y1={tip.y} x2={tip.x} y2="150" stroke={selected.color} strokeWidth="0.5" strokeDasharray="2 2" opacity="0.5" />
+                <line x1={tip.x} y1={tip.y} x2="150" y2={tip.y} stroke={selected.color} strokeWidth="0.5" strokeDasharray="2 2" opacity="0.5" />
+                <text x={tip.x} y={vector.im >= 0 ? 162 : 142} fill="#9CA3AF" fontSize="9" textAnchor="middle">{si(vector.re, selected.unit, 3)}</text>
+                <text x={vector.re >= 0 ? 146 : 154} y={tip.y} fill="#9CA3AF" fontSize="9" textAnchor={vector.re >= 0 ? 'end' : 'start'} alignmentBaseline="middle">{vector.im < 0 && '−'}j{si(Math.abs(vector.im), selected.unit, 3)}</text>
+
+                <line x1="150" y1="150" x2={arrowEnd.x} y2={arrowEnd.y} stroke={selected.color} strokeWidth="3" markerEnd="url(#arrow-plane)" />
               </g>
             )}
 
-            {/* Vector Projections (using full coords to touch the axes) */}
-            <line x1={vCoordsFull.x} y1={vCoordsFull.y} x2={vCoordsFull.x} y2="150" stroke="#EAB308" strokeWidth="0.5" strokeDasharray="2 2" opacity="0.5" />
-            <line x1={vCoordsFull.x} y1={vCoordsFull.y} x2="150" y2={vCoordsFull.y} stroke="#EAB308" strokeWidth="0.5" strokeDasharray="2 2" opacity="0.5" />
-
-            {/* Voltage Vector (using arrow coords for proper tip placement) */}
-            <line 
-              x1="150" y1="150" x2={vCoordsArrow.x} y2={vCoordsArrow.y} 
-              stroke="#EAB308" strokeWidth="3" markerEnd="url(#arrow-v-rect)" 
-            />
-            
-            {/* Current Vector */}
-            <line 
-              x1="150" y1="150" x2={cCoordsArrow.x} y2={cCoordsArrow.y} 
-              stroke="#22D3EE" strokeWidth="3" markerEnd="url(#arrow-c-rect)" 
-            />
-
             {/* Center Point */}
             <circle cx="150" cy="150" r="3" fill="#FFFFFF" />
         </svg>
+
+        {/* Impedance, admittance and equivalent circuits */}
+        <div className="w-full font-mono text-[10px] space-y-0.5">
+          {readouts().map(line => (
+            <div key={line.text} style={{ color: line.color }}>{line.text}</div>
+          ))}
+          {equivalent.status === 'ok' && (
+            <div className="text-[9px] text-gray-600">{t.complexPlane.singleFrequency(fmt(voltage.frequency))}</div>
+          )}
+        </div>
     </div>
   );
 };
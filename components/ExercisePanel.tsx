@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { ExerciseDifficulty, ExerciseTopic, Locale } from '../types';
+import { EXERCISE_TOLERANCES } from '../constants';
+import { Exercise, ExerciseData, ExerciseGrade, generateExercise, gradeExercise } from '../services/exercise';
+import { DECIMAL_SEPARATORS } from '../services/format';
+import { useI18n, Messages } from '../i18n';
+
+interface ExercisePanelProps {
+  exercise: Exercise | null;
+  onStart: (exercise: Exercise) => void;
+  onGraded: () => void;
+  onExit: () => void;
+}
+
+const TOPICS: ExerciseTopic[] = ['phasors', 'power', 'pfc'];
+const DIFFICULTIES: ExerciseDifficulty[] = ['basic', 'intermediate', 'advanced'];
+
+// The given values, one line each
+const describeGiven = (given: ExerciseData, t: Messages['exercise'], fmt: (value: number) => string): string[] => {
+  const { voltage: v, current: i, load } = given;
+  const lines = [`${t.source}: ${fmt(v.amplitude)} V RMS ∠ ${fmt(v.phase)}°, ${fmt(v.frequency)} Hz`];
+  if (load) {
+    const parts = [`R = ${fmt(load.resistance)} Ω`];
+    if (load.inductance > 0) parts.push(`L = ${fmt(load.inductance)} mH`);
+    if (load.capacitance > 0) parts.push(`C = ${fmt(load.capacitance)} µF`);
+    lines.push(`${t.rlcLoad} ${load.topology === 'series' ? t.series : t.parallel}: ${parts.join(', ')}`);
+  } else if (i) {
+    lines.push(`${t.current}: ${fmt(i.amplitude)} A RMS ∠ ${fmt(i.phase)}°`);
+  }
+  if (given.targetPF !== undefined) lines.push(t.targetPF(fmt(given.targetPF)));
+  return lines;
+};
+
+// Enough digits to check a hand calculation against
+const formatAnswer = (value: number, locale: Locale) =>
+  (Math.abs(value) >= 100 ? value.toFixed(1) : value.toPrecision(4)).replace('.', DECIMAL_SEPARATORS[locale]);
+
+export const ExercisePanel: React.FC<ExercisePanelProps> = ({ exercise, onStart, onGraded, onExit }) => {
+  const { t, locale, fmt, parse } = useI18n();
+  const [topic, setTopic] = useState<ExerciseTopic>('phasors');
+  const [difficulty, setDifficulty] = useState<ExerciseDifficulty>('basic');
+  const [seedText, setSeedText] = useState('');
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [grade, setGrade] = useState<ExerciseGrade | null>(null);
+  // Session score: kept until the page is reloaded
+  const [score, setScore] = useState({ exercises: 0, correct: 0, total: 0 });
+
+  const start = () => {
+    const seed = parse(seedText);
+    onStart(generateExercise(topic, difficulty, seed !== null && seed > 0 ? Math.round(seed) : undefined));
+    setSeedText('');
+    setAnswers({});
+    setGrade(null);
+  };
+
+  const submit = () => {
+    if (!exercise) return;
+    const result = gradeExercise(exercise, answers, locale);
+    setGrade(result);
+    setScore(prev => ({ exercises: prev.exercises + 1, correct: prev.correct + result.correct, total: prev.total + result.total }));
+    onGraded();
+  };
+
+  const exit = () => {
+    setAnswers({});
+    setGrade(null);
+    onExit();
+  };
+
+  const buttonClass = 'px-2 py-1 rounded-md text-[10px] font-semibold uppercase tracking-wider transition-colors';
+  const selectClass = 'w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-white';
+  const tolerance = exercise ? EXERCISE_TOLERANCES[exercise.difficulty] : null;
+
+  return (
+    <div className="bg-gray-900/50 rounded-xl border border-gray-800 p-5 backdrop-blur-sm">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-rose-400 font-bold flex items-center gap-2">
+          <span className="w-2 h-2 rounded-full bg-rose-400"></span> {t.exercise.title}
+        </h2>
+        {score.exercises > 0 && (
+          <span className="text-[10px] font-mono text-gray-400" title={t.exercise.gradedCount(score.exercises)}>
+            {score.correct}/{score.total} ({Math.round((score.correct / score.total) * 100)} %)
+          </span>
+        )}
+      </div>
+
+      {!exercise ? (
+        <div className="space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <label className="text-[10px] text-gray-400 space-y-1">
+              <span>{t.exercise.topic}</span>
+              <select value={topic} onChange={(e) => setTopic(e.target.value as ExerciseTopic)} className={selectClass}>
+                {TOPICS.map(id => <option key={id} value={id}>{t.exercise.topics[id]}</option>)}
+              </select>
+            </label>
+            <label className="text-[10px] text-gray-400 space-y-1">
+              <span>{t.exercise.difficulty}</span>
+              <select value={difficulty} onChange={(e) => setDifficulty(e.target.value as ExerciseDifficulty)} className={selectClass}>
+                {DIFFICULTIES.map(id => <option key={id} value={id}>{t.exercise.difficulties[id]}</option>)}
+              </select>
+            </label>
+          </div>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              inputMode="numeric"
+              value={seedText}
+              onChange={(e) => setSeedText(e.target.value)}
+              placeholder={t.exercise.seedPlaceholder}
+              title={t.exercise.seedHint}
+              className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-white font-mono"
+            />
+            <button onClick={start} className={`${buttonClass} bg-rose-500/20 text-rose-400 hover:bg-rose-500/30`}>
+              {t.exercise.start}
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 space-y-1">
+            <div className="flex justify-between text-[10px] text-gray-500 font-mono">
+              <span>{t.exercise.topics[exercise.topic]} · {t.exercise.difficulties[exercise.difficulty]}</span>
+              <span>{t.exercise.code} {exercise.seed}</span>
+            </div>
+            <p className="text-xs text-gray-200">{t.exercise.statements[exercise.topic]}</p>
+            {describeGiven(exercise.given, t.exercise, fmt).map(line => (
+              <div key={line} className="text-[10px] font-mono text-gray-300">{line}</div>
+            ))}
+          </div>
+
+          <div className="space-y-2">
+            {exercise.questions.map(question => {
+              const result = grade?.answers[question.key];
+              const border = !result
+                ? 'border-gray-700'
+                : result.status === 'correct' ? 'border-emerald-500/50' : 'border-red-500/50';
+              return (
+                <div key={question.key} className="space-y-0.5">
+                  <label className="flex items-center justify-between gap-2 text-[10px] text-gray-400">
+                    <span>{t.exercise.questions[question.key]}</span>
+                    <span className="flex items-center gap-1">
+                      <input
+                        type="text"
+                        inputMode="decimal"
+                        value={answers[question.key] ?? ''}
+                        disabled={!!grade}
+                        onChange={(e) => setAnswers(prev => ({ ...prev, [question.key]: e.target.value }))}
+                        onKeyDown={(e) => e.key === 'Enter' && !grade && submit()}
+                        className={`w-20 bg-gray-900 border ${border} rounded px-2 py-0.5 text-xs text-white font-mono text-right`}
+                      />
+                      <span className="w-6 font-mono">{question.unit}</span>
+                    </span>
+                  </label>
+                  {result && (
+                    <div className={`text-[10px] font-mono text-right ${result.status === 'correct' ? 'text-emerald-400' : 'text-red-400'}`}>
+                      {result.status === 'correct' ? '✓' : '✗'} {formatAnswer(question.answer, locale)} {question.unit}
+                      {result.status !== 'invalid' && (
+                        <span className="text-gray-500">
+                          {' '}(error {question.kind === 'angle' ? `${fmt(result.error, 2)}°` : `${fmt(result.error * 100, 2)} %`})
+                        </span>
+                      )}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {tolerance && !grade && (
+            <p className="text-[10px] text-gray-500">
+              {t.exercise.tolerance(fmt(tolerance.relative * 100), fmt(tolerance.angle))}
+            </p>
+          )}
+          {grade && (
+            <div className={`p-2 rounded-lg border text-[10px] ${grade.correct === grade.total ? 'border-emerald-500/30 bg-emerald-500/10 text-emerald-400' : 'border-amber-500/30 bg-amber-500/10 text-amber-400'}`}>
+              {t.exercise.result(grade.correct, grade.total)}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-1">
+            {grade ? (
+              <button onClick={start} className={`${buttonClass} bg-rose-500/20 text-rose-400 hover:bg-rose-500/30`}>{t.exercise.next}</button>
+            ) : (
+              <button onClick={submit} className={`${buttonClass} bg-rose-500/20 text-rose-400 hover:bg-rose-500/30`}>{t.exercise.check}</button>
+            )}
+            <button onClick={exit} className={`${buttonClass} bg-gray-900 hover:bg-gray-700 text-gray-300`}>{t.exercise.exit}</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Stands in for a result panel while an exercise is being answered
+export const HiddenResult: React.FC<{ title: string; className?: string }> = ({ title, className = 'min-h-[350px]' }) => {
+  const { t } = useI18n();
+  return (
+    <div className={`w-full h-full ${className} bg-gray-900 rounded-xl border border-dashed border-gray-700 flex flex-col items-center justify-center gap-1`}>
+      <h3 className="text-xs font-bold text-gray-500 uppercase tracking-wider">{title}</h3>
+      <span className="text-[10px] text-gray-600">{t.exercise.hidden}</span>
+    </div>
+  );
+};
@@ -0,0 +1,121 @@
+import React from 'react';
+import { ExportContext } from '../services/export';
+import { useI18n } from '../i18n';
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const PNG_SCALE = 3; // Pixels per SVG unit, enough for printed reports
+const BACKGROUND = '#111827'; // Tailwind gray-900, the panel colour
+
+export interface ExportLine {
+  text: string;
+  color?: string;
+}
+
+export interface ExportAction {
+  label: string;
+  onClick: () => void;
+}
+
+export const downloadText = (fileName: string, text: string, mimeType: string) => {
+  downloadBlob(fileName, new Blob([text], { type: mimeType }));
+};
+
+const downloadBlob = (fileName: string, blob: Blob) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Some browsers start the download after click() returns; revoking right away can cancel it
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+const svgText = (x: number, y: number, text: string, size: number, color: string, bold = false) => {
+  const el = document.createElementNS(SVG_NS, 'text');
+  el.setAttribute('x', String(x));
+  el.setAttribute('y', String(y));
+  el.setAttribute('font-size', String(size));
+  el.setAttribute('fill', color);
+  if (bold) el.setAttribute('font-weight', 'bold');
+  el.textContent = text;
+  return el;
+};
+
+/**
+ * Self-contained copy of an on-screen diagram: the HTML legend around it is redrawn
+ * as SVG text above the figure, the parameters go below it and the full scenario
+ * is kept in <metadata> so the file alone reproduces the result.
+ */
+export const standaloneSvg = (svg: SVGSVGElement, title: string, legend: ExportLine[], context: ExportContext): string => {
+  const [, , width, height] = (svg.getAttribute('viewBox') ?? '0 0 300 300').split(/[\s,]+/).map(Number);
+  const headerHeight = 22 + legend.length * 11;
+  const footerHeight = 8 + context.parameters.length * 9;
+
+  const root = document.createElementNS(SVG_NS, 'svg');
+  root.setAttribute('xmlns', SVG_NS);
+  root.setAttribute('viewBox', `0 0 ${width} ${headerHeight + height + footerHeight}`);
+  root.setAttribute('width', String(width * 2));
+  root.setAttribute('height', String((headerHeight + height + footerHeight) * 2));
+  root.setAttribute('font-family', 'ui-monospace, Menlo, Consolas, monospace');
+
+  const metadata = document.createElementNS(SVG_NS, 'metadata');
+  metadata.textContent = JSON.stringify(context.scenario);
+  root.appendChild(metadata);
+
+  const background = document.createElementNS(SVG_NS, 'rect');
+  background.setAttribute('width', '100%');
+  background.setAttribute('height', '100%');
+  background.setAttribute('fill', BACKGROUND);
+  root.appendChild(background);
+
+  root.appendChild(svgText(8, 14, title, 10, '#D1D5DB', true));
+  legend.forEach((line, k) => root.appendChild(svgText(8, 27 + k * 11, line.text, 8, line.color ?? '#9CA3AF')));
+
+  const figure = document.createElementNS(SVG_NS, 'g');
+  figure.setAttribute('transform', `translate(0 ${headerHeight})`);
+  Array.from(svg.childNodes).forEach(node => figure.appendChild(node.cloneNode(true)));
+  root.appendChild(figure);
+
+  context.parameters.forEach((line, k) =>
+    root.appendChild(svgText(8, headerHeight + height + 8 + k * 9, line, 6.5, '#6B7280')));
+
+  return new XMLSerializer().serializeToString(root);
+};
+
+export const downloadSvg = (fileName: string, svgMarkup: string) =>
+  downloadText(fileName, svgMarkup, 'image/svg+xml');
+
+// Rasterizes standalone SVG markup through an off-screen canvas
+export const downloadPng = (fileName: string, svgMarkup: string) => {
+  const url = URL.createObjectURL(new Blob([svgMarkup], { type: 'image/svg+xml' }));
+  const image = new Image();
+  image.onload = () => {
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth * (PNG_SCALE / 2);
+    canvas.height = image.naturalHeight * (PNG_SCALE / 2);
+    const ctx = canvas.getContext('2d');
+    ctx?.drawImage(image, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    canvas.toBlob(blob => blob && downloadBlob(fileName, blob), 'image/png');
+  };
+  image.onerror = () => URL.revokeObjectURL(url);
+  image.src = url;
+};
+
+export const ExportButtons: React.FC<{ actions: ExportAction[] }> = ({ actions }) => {
+  const { t } = useI18n();
+  return (
+    <div className="flex gap-1">
+      {actions.map(action => (
+        <button
+          key={action.label}
+          onClick={action.onClick}
+          title={t.exportButtons.action(action.label)}
+          className="px-2 py-0.5 rounded text-[10px] font-mono font-bold bg-gray-800 text-gray-500 hover:text-gray-300 transition-colors"
+        >
+          {action.label}
+        </button>
+      ))}
+    </div>
+  );
+};
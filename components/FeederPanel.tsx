@@ -0,0 +1,105 @@
+import React from 'react';
+import { KnobControl } from './KnobControl';
+import { FeederInput, FeederSettings, KnobRanges } from '../types';
+import { FEEDER_LENGTH_MAX, FEEDER_PER_KM_MAX } from '../constants';
+import { FeederResult } from '../services/feeder';
+import { abs, arg } from '../services/complex';
+import { useI18n } from '../i18n';
+
+interface FeederPanelProps {
+  settings: FeederSettings;
+  result: FeederResult | null; // Null while the source is ideal
+  ranges: KnobRanges;
+  harmonicsIgnored?: boolean; // The source or the load current carries harmonics or DC
+  onChange: (updates: Partial<FeederSettings>) => void;
+}
+
+export const FeederPanel: React.FC<FeederPanelProps> = ({ settings, result, ranges, harmonicsIgnored, onChange }) => {
+  const { t, fmt, si } = useI18n();
+  const polar = (value: { re: number; im: number }, unit: string) =>
+    `${si(abs(value), unit, 4)} ∠ ${fmt(abs(value) > 0 ? arg(value) : 0, 1)}°`;
+  const percent = (value: number) => (Number.isFinite(value) ? `${fmt(value, 2)} %` : '∞');
+
+  const rows = result ? [
+    { label: 'Z = R + jX', value: `${si(result.impedance.re, 'Ω', 4)} + j${si(result.impedance.im, 'Ω', 4)}` },
+    { label: t.feeder.sending, value: polar(result.sending, 'V') },
+    { label: t.feeder.receiving, value: polar(result.receiving, 'V') },
+    { label: `${t.feeder.drop} (ΔV = Z·I)`, value: polar(result.drop, 'V') },
+    { label: t.feeder.dropPercent, value: percent(result.dropPercent) },
+    { label: t.feeder.regulation, value: percent(result.regulation) },
+    { label: `${t.feeder.losses} (I²R)`, value: si(result.losses, 'W', 4) },
+    { label: 'I²X', value: si(result.reactiveLosses, 'VAR', 4) },
+    {
+      label: t.feeder.efficiency,
+      value: result.sendingPower.re > 0 ? `${fmt((result.receivingPower.re / result.sendingPower.re) * 100, 2)} %` : '—',
+    },
+  ] : [];
+
+  return (
+    <div className="bg-gray-900/50 rounded-xl border border-gray-800 p-5 backdrop-blur-sm">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-orange-400 font-bold flex items-center gap-2">
+          <span className="w-2 h-2 rounded-full bg-orange-400"></span> {t.feeder.title}
+        </h2>
+        <button
+          onClick={() => onChange({ enabled: !settings.enabled })}
+          className={`px-3 py-1 rounded-md text-xs font-semibold uppercase tracking-wider transition-colors ${settings.enabled ? 'bg-orange-500/20 text-orange-400 hover:bg-orange-500/30' : 'bg-gray-800 text-gray-500 hover:text-gray-300'}`}
+        >
+          {settings.enabled ? t.feeder.enabled : t.feeder.disabled}
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <div className="space-y-3">
+          {/* Entry Mode */}
+          <div className="grid grid-cols-2 gap-1 p-1 bg-gray-800 rounded-lg border border-gray-700">
+            {(['total', 'perKm'] as FeederInput[]).map(input => (
+              <button
+                key={input}
+                onClick={() => onChange({ input })}
+                className={`py-1 rounded-md text-xs font-semibold uppercase tracking-wider transition-colors ${settings.input === input ? 'bg-orange-500/20 text-orange-400' : 'text-gray-500 hover:text-gray-300'}`}
+              >
+                {t.feeder.inputs[input]}
+              </button>
+            ))}
+          </div>
+
+          {settings.input === 'total' ? (
+            <>
+              <KnobControl label={t.feeder.resistance} value={settings.resistance} min={0} max={ranges.resistanceMax} unit="Ω" colorClass="text-orange-400" engineering onChange={(v) => onChange({ resistance: v })} />
+              <KnobControl label={t.feeder.reactance} value={settings.reactance} min={0} max={ranges.resistanceMax} unit="Ω" colorClass="text-orange-400" engineering onChange={(v) => onChange({ reactance: v })} />
+            </>
+          ) : (
+            <>
+              <KnobControl label={t.feeder.length} value={settings.length} min={0} max={FEEDER_LENGTH_MAX} unit="km" colorClass="text-orange-400" onChange={(v) => onChange({ length: v })} />
+              <KnobControl label={t.feeder.resistancePerKm} value={settings.resistancePerKm} min={0} max={FEEDER_PER_KM_MAX} unit="Ω/km" colorClass="text-orange-400" onChange={(v) => onChange({ resistancePerKm: v })} />
+              <KnobControl label={t.feeder.reactancePerKm} value={settings.reactancePerKm} min={0} max={FEEDER_PER_KM_MAX} unit="Ω/km" colorClass="text-orange-400" onChange={(v) => onChange({ reactancePerKm: v })} />
+              <div className="text-[10px] text-gray-500">{t.feeder.loopHint}</div>
+            </>
+          )}
+
+          {result && result.status === 'ok' ? (
+            <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 font-mono text-[10px] space-y-1">
+              {rows.map(r => (
+                <div key={r.label} className="flex justify-between gap-2">
+                  <span className="text-gray-400">{r.label}</span>
+                  <span className="text-orange-400 text-right">{r.value}</span>
+                </div>
+              ))}
+            </div>
+          ) : result && (
+            <div className="p-2 rounded-lg border border-red-500/30 bg-red-500/10 text-[10px] text-red-400">
+              {t.feeder.collapse}
+            </div>
+          )}
+
+          {harmonicsIgnored && (
+            <div className="p-2 rounded-lg border border-amber-500/30 bg-amber-500/10 text-[10px] text-amber-400">
+              {t.feeder.fundamentalOnly}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,4 +1,6 @@
 import React, { useState, useEffect } from 'react';
+import { useI18n } from '../i18n';
+import { parseSI, siPrefix } from '../services/format';
 
 interface KnobControlProps {
   label: string;
@@ -6,31 +8,41 @@ interface KnobControlProps {
   onChange: (val: number) => void;
   min: number;
   max: number;
-  step?: number;
+  step?: number; // Defaults to a power of ten giving about a thousand slider positions
   unit: string;
   colorClass: string;
+  engineering?: boolean; // Readout with SI prefixes ("13,80 kV"); `unit` must then be unprefixed
 }
 
+const READOUT_DIGITS = 4; // Significant digits of an engineering readout
+
 export const KnobControl: React.FC<KnobControlProps> = ({
   label,
   value = 0, // Default value to prevent undefined
   onChange,
   min,
   max,
-  step = 1,
+  step,
   unit,
-  colorClass
+  colorClass,
+  engineering = false
 }) => {
+  const { t, locale, fmt, parse, si, siParts } = useI18n();
+  // A collapsed range (min === max) still needs a positive step
+  const sliderStep = step ?? (max > min ? Math.pow(10, Math.floor(Math.log10((max - min) / 1000))) : 1);
+  // Engineering readouts show a mantissa next to the prefixed unit
+  const readout = (num: number) => engineering ? siParts(num, unit, READOUT_DIGITS) : { number: fmt(num, 2), unit };
+  const shown = readout(value || 0);
   // Initialize with safe value
-  const [inputValue, setInputValue] = useState((value || 0).toFixed(2));
+  const [inputValue, setInputValue] = useState(shown.number);
   const [isEditing, setIsEditing] = useState(false);
 
   useEffect(() => {
-    // Update input text when prop changes, but only if not editing
+    // Update input text when prop or language changes, but only if not editing
     if (!isEditing) {
-        setInputValue((value || 0).toFixed(2));
+        setInputValue(shown.number);
     }
-  }, [value, isEditing]);
+  }, [shown.number, isEditing]);
 
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setInputValue(e.target.value);
@@ -44,16 +56,17 @@ export const KnobControl: React.FC<KnobControlProps> = ({
   }
 
   const commitValue = () => {
-      let num = parseFloat(inputValue);
-      // If NaN, revert to current prop value
-      if (isNaN(num)) {
-        num = value;
-      }
+      // Read in the UI language; a bare number keeps the prefix on screen.
+      // Anything unreadable reverts to the current prop value
+      const typed = engineering
+        ? parseSI(inputValue, unit, siPrefix(Number((value || 0).toPrecision(READOUT_DIGITS))).factor, locale)
+        : parse(inputValue);
+      let num = typed ?? value;
       // Clamp
       num = Math.max(min, Math.min(max, num));
       
       onChange(num);
-      setInputValue(num.toFixed(2));
+      setInputValue(readout(num).number);
       setIsEditing(false);
   }
 
@@ -83,7 +96,7 @@ export const KnobControl: React.FC<KnobControlProps> = ({
                     onKeyDown={handleKeyDown}
                     className="w-16 bg-transparent text-right text-sm font-mono text-white focus:outline-none"
                 />
-                <span className="text-xs font-mono text-gray-500 select-none">{unit}</span>
+                <span className="text-xs font-mono text-gray-500 select-none">{shown.unit}</span>
              </div>
         </div>
       </div>
@@ -93,7 +106,7 @@ export const KnobControl: React.FC<KnobControlProps> = ({
             type="range"
             min={min}
             max={max}
-            step={step}
+            step={sliderStep}
             value={value}
             onChange={(e) => onChange(parseFloat(e.target.value))}
             style={{ accentColor: getAccentColor() }}
@@ -105,9 +118,9 @@ export const KnobControl: React.FC<KnobControlProps> = ({
         <span 
             onClick={() => onChange(min)} 
             className="cursor-pointer hover:text-gray-300 transition-colors"
-            title="Min"
+            title={t.knob.min}
         >
-            {min}
+            {engineering ? si(min, unit) : fmt(min)}
         </span>
         
         {/* Zero marker if within range (helpful for Phase) */}
@@ -115,7 +128,7 @@ export const KnobControl: React.FC<KnobControlProps> = ({
              <div 
                 onClick={() => onChange(0)} 
                 className="cursor-pointer text-gray-600 hover:text-white font-bold transition-colors flex flex-col items-center -mt-1 z-10"
-                title="Reset to 0"
+                title={t.knob.resetZero}
             >
                 <span className="text-[8px] mb-px">▲</span>
                 0
@@ -125,9 +138,9 @@ export const KnobControl: React.FC<KnobControlProps> = ({
         <span 
             onClick={() => onChange(max)} 
             className="cursor-pointer hover:text-gray-300 transition-colors"
-            title="Max"
+            title={t.knob.max}
         >
-            {max}
+            {engineering ? si(max, unit) : fmt(max)}
         </span>
       </div>
     </div>
@@ -0,0 +1,66 @@
+import React from 'react';
+import { KnobControl } from './KnobControl';
+import { KnobRanges, RLCLoad, LoadTopology } from '../types';
+import { Impedance } from '../services/loadModel';
+import { useI18n } from '../i18n';
+
+interface LoadEditorProps {
+  load: RLCLoad;
+  impedance: Impedance;
+  ranges: KnobRanges;
+  onChange: (updates: Partial<RLCLoad>) => void;
+}
+
+export const LoadEditor: React.FC<LoadEditorProps> = ({ load, impedance, ranges, onChange }) => {
+  const { t, fmt, si } = useI18n();
+  const topologies: { id: LoadTopology; label: string }[] = [
+    { id: 'series', label: t.load.series },
+    { id: 'parallel', label: t.load.parallel },
+  ];
+
+  const formatOhms = (value: number) => isFinite(value) ? si(value, 'Ω', 4) : '∞ Ω';
+
+  return (
+    <div className="space-y-3">
+      {/* Topology Selector */}
+      <div className="grid grid-cols-2 gap-1 p-1 bg-gray-800 rounded-lg border border-gray-700">
+        {topologies.map(t => (
+          <button
+            key={t.id}
+            onClick={() => onChange({ topology: t.id })}
+            className={`py-1 rounded-md text-xs font-semibold uppercase tracking-wider transition-colors ${load.topology === t.id ? 'bg-cyan-500/20 text-cyan-400' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {t.label}
+          </button>
+        ))}
+      </div>
+
+      <KnobControl label={t.load.resistance} value={load.resistance} min={0} max={ranges.resistanceMax} unit="Ω" colorClass="text-cyan-500" engineering onChange={(v) => onChange({ resistance: v })} />
+      {/* L and C are stored in mH and µF; the knobs work in H and F so the prefix can follow the value */}
+      <KnobControl label={t.load.inductance} value={load.inductance / 1000} min={0} max={ranges.inductanceMax / 1000} unit="H" colorClass="text-cyan-500" engineering onChange={(v) => onChange({ inductance: v * 1000 })} />
+      <KnobControl label={t.load.capacitance} value={load.capacitance * 1e-6} min={0} max={ranges.capacitanceMax * 1e-6} unit="F" colorClass="text-cyan-500" engineering onChange={(v) => onChange({ capacitance: v * 1e6 })} />
+
+      {/* Impedance Readout */}
+      <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 font-mono text-[10px] space-y-1">
+        <div className="flex justify-between text-gray-400">
+          <span>X<sub>L</sub> = ωL</span>
+          <span>{formatOhms(impedance.inductiveReactance)}</span>
+        </div>
+        <div className="flex justify-between text-gray-400">
+          <span>X<sub>C</sub> = 1/ωC</span>
+          <span>{formatOhms(impedance.capacitiveReactance)}</span>
+        </div>
+        <div className="flex justify-between text-cyan-400 text-xs pt-1 border-t border-gray-700">
+          <span>Z</span>
+          <span>{formatOhms(impedance.magnitude)} ∠ {fmt(impedance.angle, 1)}°</span>
+        </div>
+        {impedance.isShort && (
+          <div className="text-red-400 uppercase tracking-wider">{t.load.short}</div>
+        )}
+        {impedance.isOpen && (
+          <div className="text-red-400 uppercase tracking-wider">{t.load.open}</div>
+        )}
+      </div>
+    </div>
+  );
+};
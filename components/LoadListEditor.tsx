@@ -0,0 +1,142 @@
+import React from 'react';
+import { LoadItem, LoadItemKind } from '../types';
+import { LOAD_ITEM_COLORS, LOAD_ITEM_DEFAULTS, MAX_LOAD_ITEMS } from '../constants';
+import { MultiLoadResult, loadItemLabel } from '../services/multiLoad';
+import { abs, arg } from '../services/complex';
+import { NumberCell } from './NumberCell';
+import { useI18n } from '../i18n';
+
+interface LoadListEditorProps {
+  items: LoadItem[];
+  result: MultiLoadResult;
+  onChange: (items: LoadItem[]) => void;
+}
+
+const KINDS: LoadItemKind[] = ['resistive', 'motor', 'capacitor', 'custom'];
+
+export const LoadListEditor: React.FC<LoadListEditorProps> = ({ items, result, onChange }) => {
+  const { t, fmt, si } = useI18n();
+
+  const updateItem = (index: number, updates: Partial<LoadItem>) =>
+    onChange(items.map((item, k) => (k === index ? { ...item, ...updates } : item)));
+
+  // A new kind starts from its default rating; the name is kept
+  const changeKind = (index: number, kind: LoadItemKind) =>
+    updateItem(index, { ...LOAD_ITEM_DEFAULTS[kind], name: items[index].name });
+
+  const full = items.length >= MAX_LOAD_ITEMS;
+  const totalPF = result.S > 0 ? result.P / result.S : 1;
+
+  return (
+    <div className="space-y-2">
+      {items.length === 0 && (
+        <div className="p-2 text-[10px] text-gray-500 text-center">{t.loads.empty}</div>
+      )}
+
+      {items.map((item, k) => {
+        const contribution = result.contributions[k];
+        const hasPF = item.kind === 'motor' || item.kind === 'custom';
+        return (
+          <div key={k} className="p-2 bg-gray-800 rounded-lg border border-gray-700 space-y-1.5">
+            <div className="flex items-center gap-1.5">
+              <span className="w-2 h-2 rounded-full shrink-0" style={{ backgroundColor: LOAD_ITEM_COLORS[k] }}></span>
+              <select
+                value={item.kind}
+                onChange={(e) => changeKind(k, e.target.value as LoadItemKind)}
+                className="bg-gray-900 border border-gray-700 rounded px-1 py-0.5 text-[10px] text-white"
+              >
+                {KINDS.map(kind => <option key={kind} value={kind}>{t.loads.kinds[kind]}</option>)}
+              </select>
+              <input
+                type="text"
+                value={item.name}
+                placeholder={loadItemLabel({ ...item, name: '' }, k, t.loads.kinds)}
+                onChange={(e) => updateItem(k, { name: e.target.value })}
+                className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-1.5 py-0.5 text-[10px] text-white"
+              />
+              <button
+                onClick={() => onChange(items.filter((_, j) => j !== k))}
+                title={t.loads.remove}
+                className="px-1.5 text-xs text-gray-500 hover:text-red-400 transition-colors"
+              >
+                ✕
+              </button>
+            </div>
+
+            <div className="flex items-center gap-2 text-[10px] text-gray-400">
+              <label className="flex items-center gap-1">
+                {item.kind === 'capacitor' ? 'Q' : 'P'}
+                <NumberCell value={item.power} decimals={1} min={0} max={1e9} onChange={(v) => updateItem(k, { power: v })} className="w-20" />
+                {item.kind === 'capacitor' ? 'VAR' : 'W'}
+              </label>
+              {hasPF && (
+                <label className="flex items-center gap-1">
+                  {t.loads.powerFactor}
+                  <NumberCell value={item.powerFactor} decimals={3} min={0.01} max={1} onChange={(v) => updateItem(k, { powerFactor: v })} className="w-14" />
+                </label>
+              )}
+              {item.kind === 'custom' && (
+                <label className="flex items-center gap-1" title={t.loads.leadingHint}>
+                  <input type="checkbox" checked={item.leading} onChange={(e) => updateItem(k, { leading: e.target.checked })} className="accent-cyan-500" />
+                  {t.loads.leading}
+                </label>
+              )}
+            </div>
+
+            {contribution && (
+              <div className="flex justify-between font-mono text-[10px] text-cyan-400">
+                <span>I = {si(abs(contribution.current), 'A', 4)} ∠ {fmt(arg(contribution.current), 1)}°</span>
+                <span className="text-gray-400">S = {si(abs(contribution.S), 'VA', 4)}</span>
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {/* One button per kind, starting from its default rating */}
+      <div className="grid grid-cols-2 gap-1">
+        {KINDS.map(kind => (
+          <button
+            key={kind}
+            disabled={full}
+            onClick={() => onChange([...items, LOAD_ITEM_DEFAULTS[kind]])}
+            title={full ? t.loads.limit(MAX_LOAD_ITEMS) : undefined}
+            className="py-1 rounded-md text-[10px] font-semibold uppercase tracking-wider bg-gray-800 text-gray-400 hover:text-white border border-gray-700 transition-colors disabled:opacity-40 disabled:hover:text-gray-400"
+          >
+            + {t.loads.kinds[kind]}
+          </button>
+        ))}
+      </div>
+
+      {/* Boucherot: P and Q add up load by load, S does not */}
+      <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 font-mono text-[10px] space-y-1">
+        <div className="text-gray-500 uppercase tracking-wider font-sans font-bold">{t.loads.totals}</div>
+        <div className="flex justify-between text-green-400">
+          <span>P = ΣP<sub>k</sub></span>
+          <span>{si(result.P, 'W', 4)}</span>
+        </div>
+        <div className="flex justify-between text-purple-400">
+          <span>Q = ΣQ<sub>k</sub></span>
+          <span>{si(result.Q, 'VAR', 4)}</span>
+        </div>
+        <div className="flex justify-between text-blue-400">
+          <span>S = √(P² + Q²)</span>
+          <span>{si(result.S, 'VA', 4)}</span>
+        </div>
+        <div className="flex justify-between text-gray-500">
+          <span>Σ|S<sub>k</sub>|</span>
+          <span>{si(result.arithmeticS, 'VA', 4)}</span>
+        </div>
+        <div className="flex justify-between text-yellow-400">
+          <span>{t.loads.powerFactor} = P / S</span>
+          <span>{fmt(totalPF, 3)}</span>
+        </div>
+        <div className="flex justify-between text-cyan-400 text-xs pt-1 border-t border-gray-700">
+          <span>I = ΣI<sub>k</sub></span>
+          <span>{si(result.current.amplitude, 'A', 4)} ∠ {fmt(result.current.phase, 1)}°</span>
+        </div>
+        <div className="text-[9px] text-gray-500 font-sans pt-1">{t.loads.hint}</div>
+      </div>
+    </div>
+  );
+};
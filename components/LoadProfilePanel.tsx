@@ -0,0 +1,231 @@
+import React, { useRef, useState } from 'react';
+import { Bar, CartesianGrid, ComposedChart, Legend, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { LoadProfileSettings, ProfileHour, Tariff } from '../types';
+import { ProfileAnalysis, parseProfileCsv, profileRows } from '../services/loadProfile';
+import { ExportContext, toCsv } from '../services/export';
+import { ExportButtons, downloadText } from './ExportButtons';
+import { NumberCell } from './NumberCell';
+import { useI18n } from '../i18n';
+
+const hourLabel = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+interface LoadProfilePanelProps {
+  settings: LoadProfileSettings;
+  analysis: ProfileAnalysis | null; // Null while the profile is off
+  exportContext?: ExportContext;
+  onChange: (updates: Partial<LoadProfileSettings>) => void;
+  onApplyHour: (hour: number) => void; // Sets the lab current to that hour's load
+}
+
+export const LoadProfilePanel: React.FC<LoadProfilePanelProps> = ({ settings, analysis, exportContext, onChange, onApplyHour }) => {
+  const { t, fmt, si } = useI18n();
+  const [errors, setErrors] = useState<string[]>([]);
+  const fileInput = useRef<HTMLInputElement>(null);
+  const { tariff } = settings;
+
+  const updateHour = (hour: number, updates: Partial<ProfileHour>) =>
+    onChange({ hours: settings.hours.map((entry, k) => (k === hour ? { ...entry, ...updates } : entry)) });
+
+  const updateTariff = (updates: Partial<Tariff>) => onChange({ tariff: { ...tariff, ...updates } });
+
+  const openFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow reopening the same file
+    if (!file) return;
+    const result = parseProfileCsv(await file.text(), t.profileErrors);
+    if (result.status === 'ok') {
+      setErrors([]);
+      onChange({ hours: result.hours });
+    } else {
+      setErrors([t.profile.failed(file.name), ...result.errors]);
+    }
+  };
+
+  const money = (amount: number) => `${tariff.currency} ${fmt(amount, 2)}`;
+  const buttonClass = 'px-3 py-1 rounded-md text-xs font-semibold uppercase tracking-wider transition-colors';
+
+  const chartData = analysis?.hours.map(h => ({
+    hour: h.hour,
+    P: h.P / 1000,
+    Q: h.Q / 1000,
+    PF: h.PF,
+  }));
+
+  const cards = analysis && [
+    { label: t.profile.activeEnergy, value: `${si(analysis.activeEnergy * 1000, 'Wh', 4)}${t.profile.perDay}`, color: 'text-green-400' },
+    {
+      label: t.profile.reactiveEnergy,
+      value: `${si(analysis.inductiveEnergy * 1000, 'VARh', 4)} ${t.profile.inductive}`,
+      detail: `${si(analysis.capacitiveEnergy * 1000, 'VARh', 4)} ${t.profile.capacitive}`,
+      color: 'text-purple-400',
+    },
+    { label: t.profile.peakDemand, value: si(analysis.peakDemand * 1000, 'W', 4), detail: t.profile.atHour(hourLabel(analysis.peakHour)), color: 'text-orange-400' },
+    { label: t.profile.averagePF, value: fmt(analysis.averagePF, 3), color: analysis.averagePF < tariff.pfThreshold ? 'text-red-400' : 'text-cyan-400' },
+    { label: t.profile.loadFactor, value: `${fmt(analysis.loadFactor * 100, 1)} %`, color: 'text-gray-200' },
+  ];
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-700 p-4 shadow-inner shadow-black/50">
+      <div className="flex justify-between items-start mb-3 gap-2">
+        <h3 className="text-xs font-bold text-orange-400 uppercase tracking-wider flex items-center gap-2">
+          <span className="w-2 h-2 rounded-full bg-orange-400"></span> {t.profile.title}
+        </h3>
+        <div className="flex gap-1 items-center">
+          {settings.enabled && analysis && exportContext && (
+            <ExportButtons actions={[{
+              label: 'CSV',
+              onClick: () => downloadText(`${t.profile.file}.csv`, toCsv(t.profile.csvHeader, profileRows(analysis, settings), exportContext.parameters), 'text/csv'),
+            }]} />
+          )}
+          {settings.enabled && (
+            <button onClick={() => fileInput.current?.click()} className={`${buttonClass} bg-gray-800 text-gray-400 hover:text-gray-200`}>
+              {t.profile.import}
+            </button>
+          )}
+          <button
+            onClick={() => onChange({ enabled: !settings.enabled })}
+            className={`${buttonClass} ${settings.enabled ? 'bg-orange-500/20 text-orange-400 hover:bg-orange-500/30' : 'bg-gray-800 text-gray-500 hover:text-gray-300'}`}
+          >
+            {settings.enabled ? t.profile.enabled : t.profile.disabled}
+          </button>
+        </div>
+        <input ref={fileInput} type="file" accept=".csv,.txt,text/csv" onChange={openFile} className="hidden" />
+      </div>
+
+      {!settings.enabled && <p className="text-[10px] text-gray-500">{t.profile.hint}</p>}
+
+      {errors.length > 0 && (
+        <div className="mb-3 p-3 bg-red-500/10 rounded-lg border border-red-500/30 text-[10px] text-red-300 space-y-1">
+          {errors.map((error, k) => <div key={k}>{error}</div>)}
+        </div>
+      )}
+
+      {settings.enabled && analysis && cards && (
+        <div className="space-y-4">
+          {/* Daily totals */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
+            {cards.map(card => (
+              <div key={card.label} className="p-2 bg-gray-800 rounded-lg border border-gray-700">
+                <div className="text-[9px] text-gray-500 uppercase font-bold tracking-wider">{card.label}</div>
+                <div className={`font-mono text-sm ${card.color}`}>{card.value}</div>
+                {card.detail && <div className="font-mono text-[10px] text-gray-500">{card.detail}</div>}
+              </div>
+            ))}
+          </div>
+
+          {/* P and Q bars, PF line against the penalty threshold */}
+          <div className="h-[220px]">
+            <ResponsiveContainer width="100%" height="100%">
+              <ComposedChart data={chartData} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
+                <XAxis dataKey="hour" stroke="#6B7280" tick={{ fontSize: 10 }} tickFormatter={(hour) => `${hour}h`} />
+                <YAxis yAxisId="power" stroke="#6B7280" tick={{ fontSize: 10 }} tickFormatter={(value) => fmt(Number(value.toPrecision(3)))} />
+                <YAxis yAxisId="pf" orientation="right" domain={[0, 1]} stroke="#22D3EE" tick={{ fontSize: 10, fill: '#22D3EE' }} tickFormatter={(value) => fmt(value, 1)} />
+                <Tooltip
+                  contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', fontSize: '12px' }}
+                  formatter={(value: number) => fmt(value, 3)}
+                  labelFormatter={(hour) => hourLabel(Number(hour))}
+                />
+                <Legend wrapperStyle={{ fontSize: '10px' }} />
+                <ReferenceLine y={0} yAxisId="power" stroke="#6B7280" />
+                <ReferenceLine y={tariff.pfThreshold} yAxisId="pf" stroke="#F87171" strokeDasharray="4 3" label={{ value: t.profile.threshold, position: 'insideTopRight', fill: '#F87171', fontSize: 10 }} />
+                <Bar yAxisId="power" dataKey="P" name={t.profile.activePower} fill="#4ADE80" isAnimationActive={false} />
+                <Bar yAxisId="power" dataKey="Q" name={t.profile.reactivePower} fill="#A78BFA" isAnimationActive={false} />
+                <Line yAxisId="pf" type="stepAfter" dataKey="PF" name={t.profile.powerFactor} stroke="#22D3EE" strokeWidth={2} dot={false} isAnimationActive={false} />
+              </ComposedChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            {/* Hourly table */}
+            <div className="lg:col-span-2 max-h-[340px] overflow-y-auto">
+              <table className="w-full font-mono text-[10px] text-right">
+                <thead className="text-gray-500 sticky top-0 bg-gray-900">
+                  <tr>
+                    <th className="text-left font-bold">{t.profile.hour}</th>
+                    <th className="font-bold">{t.profile.activePower}</th>
+                    <th className="font-bold">{t.profile.powerFactor}</th>
+                    <th className="font-bold" title={t.profile.leadingHint}>{t.profile.leading}</th>
+                    <th className="font-bold">{t.profile.reactivePower}</th>
+                    <th className="font-bold">I</th>
+                    <th></th>
+                  </tr>
+                </thead>
+                <tbody className="text-gray-300">
+                  {settings.hours.map((entry, hour) => {
+                    const result = analysis.hours[hour];
+                    return (
+                      <tr key={hour} className={`border-t border-gray-800 ${hour === analysis.peakHour ? 'bg-orange-500/5' : ''}`}>
+                        <td className="text-left py-0.5">{hourLabel(hour)}</td>
+                        <td><NumberCell value={entry.activePower} decimals={3} min={0} max={1e9} onChange={(v) => updateHour(hour, { activePower: v })} /></td>
+                        <td><NumberCell value={entry.powerFactor} decimals={3} min={0.01} max={1} onChange={(v) => updateHour(hour, { powerFactor: v })} className="w-14" /></td>
+                        <td>
+                          <input type="checkbox" checked={entry.leading} onChange={(e) => updateHour(hour, { leading: e.target.checked })} className="accent-orange-500" />
+                        </td>
+                        <td className={result.excessQ > 0 ? 'text-red-400' : 'text-purple-400'}>{fmt(result.Q / 1000, 3)}</td>
+                        <td className="text-cyan-400">{si(result.current.amplitude, 'A', 3)}</td>
+                        <td>
+                          <button onClick={() => onApplyHour(hour)} title={t.profile.apply} className="px-1 text-gray-500 hover:text-orange-400">▶</button>
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            </div>
+
+            {/* Tariff and bill */}
+            <div className="space-y-3">
+              <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 space-y-1.5">
+                <div className="text-[10px] font-bold uppercase tracking-wider text-gray-400">{t.profile.tariff}</div>
+                <label className="flex items-center justify-between gap-2 text-[10px] text-gray-400">
+                  <span>{t.profile.currency}</span>
+                  <input
+                    type="text"
+                    value={tariff.currency}
+                    onChange={(e) => updateTariff({ currency: e.target.value })}
+                    className="w-16 bg-gray-900 border border-gray-700 rounded px-1.5 py-0.5 text-[10px] text-white font-mono text-right"
+                  />
+                </label>
+                {([
+                  ['energyPrice', t.profile.energyPrice, 4, 0, 1e9],
+                  ['demandPrice', t.profile.demandPrice, 2, 0, 1e9],
+                  ['reactivePrice', t.profile.reactivePrice, 4, 0, 1e9],
+                  ['pfThreshold', t.profile.pfThreshold, 2, 0.01, 1],
+                  ['billingDays', t.profile.billingDays, 0, 1, 366],
+                ] as const).map(([field, label, decimals, min, max]) => (
+                  <label key={field} className="flex items-center justify-between gap-2 text-[10px] text-gray-400">
+                    <span>{label}</span>
+                    <NumberCell value={tariff[field]} decimals={decimals} min={min} max={max} onChange={(v) => updateTariff({ [field]: v })} />
+                  </label>
+                ))}
+              </div>
+
+              <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 font-mono text-[10px] space-y-1">
+                <div className="text-[10px] font-bold uppercase tracking-wider text-gray-400 font-sans">{t.profile.bill(fmt(tariff.billingDays))}</div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">{t.profile.energyCharge} · {si(analysis.bill.activeEnergy * 1000, 'Wh', 4)}</span>
+                  <span className="text-white">{money(analysis.bill.energyCharge)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">{t.profile.demandCharge} · {si(analysis.peakDemand * 1000, 'W', 4)}</span>
+                  <span className="text-white">{money(analysis.bill.demandCharge)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-gray-400">{t.profile.reactiveCharge} · {t.profile.excess(si(analysis.bill.excessReactiveEnergy * 1000, 'VARh', 4))}</span>
+                  <span className={analysis.bill.reactiveCharge > 0 ? 'text-red-400' : 'text-white'}>{money(analysis.bill.reactiveCharge)}</span>
+                </div>
+                <div className="flex justify-between border-t border-gray-700 pt-1 font-bold">
+                  <span className="text-gray-300">{t.profile.total}</span>
+                  <span className="text-orange-400">{money(analysis.bill.total)}</span>
+                </div>
+              </div>
+              <p className="text-[9px] text-gray-500">{t.profile.penaltyHint}</p>
+              <p className="text-[9px] text-gray-500">{t.profile.csvHint}</p>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,123 @@
+import React from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { KnobControl } from './KnobControl';
+import { KnobRanges, MotorOperatingPoint, MotorSettings } from '../types';
+import { MOTOR_LOAD_MAX, MOTOR_POLE_OPTIONS, MOTOR_RATED_POWER_MAX } from '../constants';
+import { MOTOR_CURVE_MAX_LOAD, MotorCurvePoint, MotorResult } from '../services/motor';
+import { abs, arg } from '../services/complex';
+import { useI18n } from '../i18n';
+
+interface MotorEditorProps {
+  settings: MotorSettings;
+  result: MotorResult;
+  curve: MotorCurvePoint[]; // No load to overload at the motor's own terminal voltage
+  stalled: boolean; // The shaft load exceeds the breakdown point: shown at standstill
+  ranges: KnobRanges;
+  onChange: (updates: Partial<MotorSettings>) => void;
+}
+
+export const MotorEditor: React.FC<MotorEditorProps> = ({ settings, result, curve, stalled, ranges, onChange }) => {
+  const { t, fmt, si } = useI18n();
+  const load = (result.shaftPower / settings.ratedPower) * 100;
+
+  const rows = [
+    { label: t.motor.speed, value: `${fmt(result.speed, 0)} / ${fmt(result.synchronousSpeed, 0)} rpm` },
+    { label: `${t.motor.slip} s`, value: `${fmt(result.slip * 100, 2)} %` },
+    { label: 'I₁', value: `${si(abs(result.current), 'A', 4)} ∠ ${fmt(arg(result.current), 1)}°` },
+    { label: "I₂' / I_m", value: `${si(abs(result.rotorCurrent), 'A', 3)} / ${si(abs(result.magnetizingCurrent), 'A', 3)}` },
+    { label: `${t.motor.torque} (P_ag/ω_s)`, value: `${fmt(result.torque, 3)} N·m` },
+    { label: t.motor.shaftTorque, value: `${fmt(result.shaftTorque, 3)} N·m` },
+    { label: t.motor.shaftPower, value: si(result.shaftPower, 'W', 4) },
+    { label: `${t.motor.losses} (I₁²R₁ + sP_ag)`, value: si(result.statorCopperLosses + result.rotorCopperLosses, 'W', 4) },
+    { label: t.motor.efficiency, value: `${fmt(result.efficiency * 100, 1)} %` },
+    { label: t.motor.powerFactor, value: fmt(result.powerFactor, 3) },
+  ];
+
+  return (
+    <div className="space-y-3">
+      {/* Operating Point */}
+      <div className="grid grid-cols-2 gap-1 p-1 bg-gray-800 rounded-lg border border-gray-700">
+        {(['load', 'slip'] as MotorOperatingPoint[]).map(point => (
+          <button
+            key={point}
+            onClick={() => onChange({ operatingPoint: point })}
+            className={`py-1 rounded-md text-xs font-semibold uppercase tracking-wider transition-colors ${settings.operatingPoint === point ? 'bg-cyan-500/20 text-cyan-400' : 'text-gray-500 hover:text-gray-300'}`}
+          >
+            {t.motor.operatingPoints[point]}
+          </button>
+        ))}
+      </div>
+
+      {settings.operatingPoint === 'load' ? (
+        <KnobControl label={t.motor.load} value={settings.loadPercent} min={0} max={MOTOR_LOAD_MAX} step={1} unit="%" colorClass="text-cyan-500" onChange={(v) => onChange({ loadPercent: v })} />
+      ) : (
+        <KnobControl label={t.motor.slip} value={settings.slip} min={0} max={100} step={0.1} unit="%" colorClass="text-cyan-500" onChange={(v) => onChange({ slip: v })} />
+      )}
+      <KnobControl label={t.motor.ratedPower} value={settings.ratedPower} min={1} max={MOTOR_RATED_POWER_MAX} unit="W" colorClass="text-cyan-500" engineering onChange={(v) => onChange({ ratedPower: v })} />
+
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-xs text-gray-400">{t.motor.poles}</span>
+        <div className="flex gap-1">
+          {MOTOR_POLE_OPTIONS.map(poles => (
+            <button
+              key={poles}
+              onClick={() => onChange({ poles })}
+              className={`px-2 py-0.5 rounded text-xs font-mono transition-colors ${settings.poles === poles ? 'bg-cyan-500/20 text-cyan-400' : 'bg-gray-800 text-gray-500 hover:text-gray-300'}`}
+            >
+              {poles}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Per-phase equivalent circuit */}
+      <KnobControl label={t.motor.statorResistance} value={settings.statorResistance} min={0} max={ranges.resistanceMax} unit="Ω" colorClass="text-cyan-500" engineering onChange={(v) => onChange({ statorResistance: v })} />
+      <KnobControl label={t.motor.statorReactance} value={settings.statorReactance} min={0} max={ranges.resistanceMax} unit="Ω" colorClass="text-cyan-500" engineering onChange={(v) => onChange({ statorReactance: v })} />
+      <KnobControl label={t.motor.rotorResistance} value={settings.rotorResistance} min={0} max={ranges.resistanceMax} unit="Ω" colorClass="text-cyan-500" engineering onChange={(v) => onChange({ rotorResistance: v })} />
+      <KnobControl label={t.motor.rotorReactance} value={settings.rotorReactance} min={0} max={ranges.resistanceMax} unit="Ω" colorClass="text-cyan-500" engineering onChange={(v) => onChange({ rotorReactance: v })} />
+      <KnobControl label={t.motor.magnetizingReactance} value={settings.magnetizingReactance} min={0.01} max={ranges.resistanceMax} unit="Ω" colorClass="text-cyan-500" engineering onChange={(v) => onChange({ magnetizingReactance: v })} />
+      <KnobControl label={t.motor.rotationalLosses} value={settings.rotationalLosses} min={0} max={settings.ratedPower} unit="W" colorClass="text-cyan-500" engineering onChange={(v) => onChange({ rotationalLosses: v })} />
+      <div className="text-[10px] text-gray-500">{t.motor.circuitHint}</div>
+
+      {stalled && (
+        <div className="p-2 rounded-lg border border-red-500/30 bg-red-500/10 text-[10px] text-red-400">
+          {t.motor.stalled}
+        </div>
+      )}
+
+      <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 font-mono text-[10px] space-y-1">
+        {rows.map(r => (
+          <div key={r.label} className="flex justify-between gap-2">
+            <span className="text-gray-400">{r.label}</span>
+            <span className="text-cyan-400 text-right">{r.value}</span>
+          </div>
+        ))}
+      </div>
+
+      {/* Efficiency, PF and torque from no load to overload */}
+      <div>
+        <div className="text-[10px] text-gray-500 uppercase tracking-wider mb-1">{t.motor.curveTitle}</div>
+        <div className="h-44">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={curve} margin={{ top: 5, right: 0, left: -20, bottom: 0 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
+              <XAxis dataKey="load" type="number" domain={[0, MOTOR_CURVE_MAX_LOAD]} stroke="#6B7280" tick={{ fontSize: 10 }} tickFormatter={(value) => `${value}%`} />
+              <YAxis yAxisId="percent" domain={[0, 100]} stroke="#6B7280" tick={{ fontSize: 10 }} />
+              <YAxis yAxisId="torque" orientation="right" stroke="#F472B6" tick={{ fontSize: 10, fill: '#F472B6' }} tickFormatter={(value) => fmt(Number(value.toPrecision(2)))} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', fontSize: '12px' }}
+                formatter={(value: number) => fmt(value, 3)}
+                labelFormatter={(value) => `${t.motor.load}: ${fmt(Number(value), 0)} %`}
+              />
+              <Legend wrapperStyle={{ fontSize: '10px' }} />
+              {!stalled && <ReferenceLine x={load} yAxisId="percent" stroke="#22D3EE" strokeDasharray="4 3" />}
+              <Line yAxisId="percent" dataKey="efficiency" name={`${t.motor.efficiency} (%)`} stroke="#4ADE80" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line yAxisId="percent" dataKey={(point: MotorCurvePoint) => point.powerFactor * 100} name={`${t.motor.powerFactor} (%)`} stroke="#A78BFA" strokeWidth={2} dot={false} isAnimationActive={false} />
+              <Line yAxisId="torque" dataKey="torque" name={`${t.motor.shaftTorque} (N·m)`} stroke="#F472B6" strokeWidth={2} dot={false} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+    </div>
+  );
+};
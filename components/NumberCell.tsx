@@ -0,0 +1,37 @@
+import React, { useEffect, useState } from 'react';
+import { useI18n } from '../i18n';
+
+interface NumberCellProps {
+  value: number;
+  decimals: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+  className?: string;
+}
+
+// Typed number in the locale's notation; out-of-range input snaps back
+export const NumberCell: React.FC<NumberCellProps> = ({ value, decimals, min, max, onChange, className = 'w-16' }) => {
+  const { fmt, parse } = useI18n();
+  const [text, setText] = useState(fmt(value, decimals));
+
+  useEffect(() => setText(fmt(value, decimals)), [value, decimals, fmt]);
+
+  const commit = () => {
+    const typed = parse(text);
+    if (typed !== null && typed >= min && typed <= max) onChange(typed);
+    else setText(fmt(value, decimals));
+  };
+
+  return (
+    <input
+      type="text"
+      inputMode="decimal"
+      value={text}
+      onChange={(e) => setText(e.target.value)}
+      onBlur={commit}
+      onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+      className={`${className} bg-gray-900 border border-gray-700 rounded px-1.5 py-0.5 text-[10px] text-white font-mono text-right`}
+    />
+  );
+};
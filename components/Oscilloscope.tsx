@@ -1,197 +1,534 @@
 
-import React, { useMemo } from 'react';
-import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend, ReferenceLine } from 'recharts';
-import { SimulationState, Waveform } from '../types';
-import { SAMPLE_RATE } from '../constants';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend, ReferenceLine, ComposedChart, Area } from 'recharts';
+import { SimulationState, SignalParams, ScopeSettings } from '../types';
+import { SAMPLE_RATE, SCOPE_AMP_STEPS, SCOPE_H_DIVISIONS, SCOPE_TIME_STEPS, SCOPE_V_DIVISIONS, SCOPE_VOLT_STEPS } from '../constants';
+import { getPeakAmplitude, sampleSignal, Sampler } from '../services/signal';
+import { analyzeEnergy, loadCharacter } from '../services/power';
+import { measureSamples, measurePhaseDelay } from '../services/measurements';
+import { findTriggerTime } from '../services/trigger';
+import { traceLissajous } from '../services/lissajous';
+import { isSinusoidal } from '../services/spectrum';
+import { ExportContext, toCsv } from '../services/export';
+import { ScopeCursorLayer, CursorPositions } from './ScopeCursors';
+import { ScopeControls } from './ScopeControls';
+import { ExportButtons, downloadText } from './ExportButtons';
+import { useI18n } from '../i18n';
+
+// Record length used for automatic measurements (independent of the plotted resolution)
+const MEASURE_POINTS = 4000;
+const PEAK_SCAN_POINTS = 500;
+
+// A single trace; voltage channels use the left axis, current channels the right one
+export interface ScopeChannel {
+  key: string;
+  name: string;
+  signal: SignalParams;
+  color: string;
+  axis: 'voltage' | 'current';
+  dashed?: boolean;
+  sample?: Sampler; // Measured data playback; `signal` then only describes its fundamental
+}
+
+const samplerOf = (ch: ScopeChannel): Sampler => ch.sample ?? (t => sampleSignal(ch.signal, t));
+
+// Largest excursion of a trace over one period of its fundamental
+const channelPeak = (ch: ScopeChannel) => {
+  if (!ch.sample) return getPeakAmplitude(ch.signal.amplitude, ch.signal.waveform) + Math.abs(ch.signal.dcOffset);
+  const period = 1 / ch.signal.frequency;
+  let peak = 0;
+  for (let k = 0; k < PEAK_SCAN_POINTS; k++) peak = Math.max(peak, Math.abs(ch.sample((k * period) / PEAK_SCAN_POINTS)));
+  return peak;
+};
+
+// What is on screen: the traces and the simulation time (s) at the left edge
+interface Acquisition {
+  start: number;
+  traces: ScopeChannel[];
+  triggered: boolean;
+}
 
 interface OscilloscopeProps {
   state: SimulationState;
   timeOffset?: number;
+  channels?: ScopeChannel[]; // Overrides the default voltage/current pair
+  extraChannels?: ScopeChannel[]; // Drawn along with the default pair (e.g. the sending-end voltage of a line)
+  onScopeChange: (updates: Partial<ScopeSettings>) => void;
+  exportContext?: ExportContext; // Enables the CSV export of the visible window
 }
 
-export const Oscilloscope: React.FC<OscilloscopeProps> = ({ state, timeOffset = 0 }) => {
-  
-  const getPeakAmplitude = (rms: number, waveform: Waveform) => {
-     // Calculates Peak from RMS based on waveform physics
-     switch (waveform) {
-        case 'square': 
-           // For a square wave centered at 0, Peak = RMS
-           return rms;
-        case 'triangle':
-        case 'sawtooth':
-           // For Triangle/Sawtooth, Peak = RMS * sqrt(3)
-           return rms * Math.sqrt(3);
-        case 'sine':
-        default: 
-           // Standard Sine: Peak = RMS * sqrt(2)
-           return rms * Math.SQRT2;
-     }
-  };
+// Smallest step that fits `target`, or the largest one available
+const stepAtLeast = (steps: number[], target: number) => steps.find(s => s >= target) ?? steps[steps.length - 1];
+
+// Evenly spaced tick values, one per graticule line
+const graticule = (divisions: number, perDiv: number, from: number) =>
+  Array.from({ length: divisions + 1 }, (_, k) => from + k * perDiv);
+
+export const Oscilloscope: React.FC<OscilloscopeProps> = ({ state, timeOffset = 0, channels, extraChannels, onScopeChange, exportContext }) => {
+  const { t, fmt, si } = useI18n();
+  // Graticule label in engineering notation; float residue of a zero crossing reads as 0
+  const axisTick = (perDiv: number) => (value: number) => (Math.abs(value) < perDiv * 1e-6 ? '0' : si(value, ''));
+  const { scope } = state;
+  const { trigger } = scope;
+  const timeWindow = scope.timePerDiv * SCOPE_H_DIVISIONS; // ms
+  const [showPower, setShowPower] = useState(false);
+  // p(t) = v·i only makes sense for the default single voltage/current pair
+  const powerAvailable = !channels;
+  const powerVisible = powerAvailable && showPower;
+  const [showCursors, setShowCursors] = useState(false);
+  const [showMeasurements, setShowMeasurements] = useState(false);
+  const [xyMode, setXyMode] = useState(false);
+  const [cursors, setCursors] = useState<CursorPositions>({ t1: 5, t2: 15, y1: 50, y2: -50 });
+
+  const updateCursors = (updates: Partial<CursorPositions>) => setCursors(prev => ({ ...prev, ...updates }));
 
-  const calculateSignal = (
-    t_sec: number,
-    peakAmp: number, // This must be the PEAK value, not RMS
-    freq: number,
-    phaseDeg: number,
-    dc: number,
-    waveform: Waveform
-  ) => {
-    const phaseRad = (phaseDeg * Math.PI) / 180;
-    const omega = 2 * Math.PI * freq;
-    const t = t_sec;
-    const argument = omega * t + phaseRad;
-
-    let acValue = 0;
-
-    switch (waveform) {
-      case 'sine':
-        acValue = Math.sin(argument);
-        break;
-      case 'square':
-        acValue = Math.sign(Math.sin(argument));
-        break;
-      case 'triangle':
-        // arcsin(sin(x)) creates a triangle wave normalized to -PI/2 to PI/2
-        acValue = (2 / Math.PI) * Math.asin(Math.sin(argument));
-        break;
-      case 'sawtooth':
-        // Normalize argument to 0-1 range for calculation
-        const period = 1 / freq;
-        const shiftedT = t + (phaseDeg / 360) * period;
-        acValue = 2 * ((shiftedT * freq) - Math.floor(shiftedT * freq + 0.5));
-        break;
-      default:
-        acValue = Math.sin(argument);
+  const traces = useMemo<ScopeChannel[]>(() => channels ?? [
+    { key: 'voltage', name: t.scope.voltage, signal: state.voltage, color: '#EAB308', axis: 'voltage' },
+    { key: 'current', name: t.scope.current, signal: state.current, color: '#22D3EE', axis: 'current' },
+    ...(extraChannels ?? []),
+  ], [channels, extraChannels, state.voltage, state.current, t]);
+
+  // Single-shot capture; null while armed
+  const [capture, setCapture] = useState<Acquisition | null>(null);
+  // Normal mode keeps showing the last triggered sweep while no new edge arrives
+  const lastTriggered = useRef<Acquisition | null>(null);
+
+  const triggerSource = traces.find(ch => ch.axis === trigger.source) ?? traces[0];
+  const triggerTime = useMemo(
+    () => (trigger.enabled ? findTriggerTime(triggerSource.signal, trigger, timeOffset, samplerOf(triggerSource)) : null),
+    [trigger, triggerSource, timeOffset]
+  );
+
+  useEffect(() => {
+    setCapture(null);
+    lastTriggered.current = null;
+  }, [trigger.enabled, trigger.mode]);
+
+  useEffect(() => {
+    if (trigger.enabled && trigger.mode === 'single' && !capture && triggerTime !== null) {
+      setCapture({ start: triggerTime, traces, triggered: true });
     }
+  }, [trigger.enabled, trigger.mode, capture, triggerTime, traces]);
 
-    return (peakAmp * acValue) + dc;
-  };
+  const acquisition = useMemo<Acquisition | null>(() => {
+    // Horizontal position moves the trigger point (or the free-running origin) into the screen
+    const position = scope.horizontalPosition / 1000;
+    const freeRun: Acquisition = { start: timeOffset - position, traces, triggered: false };
+    if (!trigger.enabled) return freeRun;
+
+    if (trigger.mode === 'single') {
+      return capture ? { ...capture, start: capture.start - position } : null;
+    }
+    if (triggerTime !== null) return { start: triggerTime - position, traces, triggered: true };
+    return trigger.mode === 'auto' ? freeRun : lastTriggered.current;
+  }, [trigger.enabled, trigger.mode, triggerTime, capture, traces, timeOffset, scope.horizontalPosition]);
+
+  // Remembered once on screen: refs are written after rendering, never during it
+  useEffect(() => {
+    if (acquisition?.triggered) lastTriggered.current = acquisition;
+  }, [acquisition]);
+
+  // XY mode plots the first current trace against the first voltage trace, ignoring the timebase
+  const xSource = traces.find(ch => ch.axis === 'voltage');
+  const ySource = traces.find(ch => ch.axis === 'current');
+  const xyAvailable = !!xSource && !!ySource;
+  const xyVisible = xyAvailable && xyMode;
+  const lissajous = useMemo(
+    () => (xyVisible && xSource && ySource ? traceLissajous(xSource.signal, ySource.signal, samplerOf(xSource), samplerOf(ySource)) : null),
+    [xyVisible, xSource, ySource]
+  );
+  const ellipse = lissajous?.ellipse ?? null;
+  const ellipseApproximate = !!xSource && !!ySource &&
+    [xSource, ySource].some(ch => !!ch.sample || !isSinusoidal(ch.signal));
+
+  const triggerStatus = !trigger.enabled
+    ? null
+    : acquisition?.triggered
+      ? (trigger.mode === 'single' ? t.scope.singleShot : t.scope.triggered)
+      : (trigger.mode === 'auto' ? t.scope.autoUntriggered : t.scope.waiting);
 
   const data = useMemo(() => {
-    const points = [];
-    const { voltage, current, timeWindow } = state;
+    const points: Record<string, number>[] = [];
     const totalPoints = SAMPLE_RATE;
     const timeStep = timeWindow / totalPoints; // in ms
+    const shown = acquisition?.traces ?? [];
 
-    // Convert RMS state inputs to Peak for graphing
-    const vPeak = getPeakAmplitude(voltage.amplitude, voltage.waveform);
-    const iPeak = getPeakAmplitude(current.amplitude, current.waveform);
+    const samplers = shown.map(samplerOf);
 
     for (let i = 0; i <= totalPoints; i++) {
       const t_ms = i * timeStep;
       const t_sec = t_ms / 1000;
-      // Add timeOffset to create the travelling wave effect
-      const effectiveTime = t_sec + timeOffset;
-
-      const vInst = calculateSignal(
-        effectiveTime, 
-        vPeak, 
-        voltage.frequency, 
-        voltage.phase, 
-        voltage.dcOffset, 
-        voltage.waveform
-      );
-      
-      const iInst = calculateSignal(
-        effectiveTime, 
-        iPeak, 
-        current.frequency, 
-        current.phase, 
-        current.dcOffset, 
-        current.waveform
-      );
-
-      points.push({
-        time: t_ms.toFixed(1),
-        voltage: vInst,
-        current: iInst
+      // Free-running, the start follows timeOffset to create the travelling wave effect
+      const effectiveTime = t_sec + (acquisition?.start ?? 0);
+
+      const point: Record<string, number> = { time: t_ms };
+      shown.forEach((ch, idx) => {
+        point[ch.key] = samplers[idx](effectiveTime);
       });
+      if (powerVisible && acquisition) {
+        // Split into positive/negative parts so each area can be shaded on its own
+        const p = point.voltage * point.current;
+        point.power = p;
+        point.powerPos = Math.max(p, 0);
+        point.powerNeg = Math.min(p, 0);
+      }
+      points.push(point);
     }
     return points;
-  }, [state, timeOffset]);
+  }, [timeWindow, acquisition, powerVisible]);
+
+  const energy = useMemo(
+    () => (powerVisible ? analyzeEnergy(state.voltage, state.current) : null),
+    [powerVisible, state.voltage, state.current]
+  );
+
+  // Vertical scale comes from V/div and A/div; the position offsets slide the window so traces move up
+  const halfScreen = SCOPE_V_DIVISIONS / 2;
+  const voltageTicks = graticule(SCOPE_V_DIVISIONS, scope.voltsPerDiv, -halfScreen * scope.voltsPerDiv - scope.voltageOffset);
+  const currentTicks = graticule(SCOPE_V_DIVISIONS, scope.ampsPerDiv, -halfScreen * scope.ampsPerDiv - scope.currentOffset);
+  const timeTicks = graticule(SCOPE_H_DIVISIONS, scope.timePerDiv, 0);
+  // In XY mode voltage runs horizontally across the full graticule width
+  const xyVoltageTicks = graticule(SCOPE_H_DIVISIONS, scope.voltsPerDiv, -(SCOPE_H_DIVISIONS / 2) * scope.voltsPerDiv - scope.voltageOffset);
+
+  // Peak excursion of the traces on one axis, used by the autoset
+  const axisPeak = (axis: ScopeChannel['axis']) => Math.max(0, ...traces.filter(ch => ch.axis === axis).map(channelPeak));
+
+  // Fits every trace vertically, shows about two cycles and triggers on the source's mean level
+  const autoset = () => {
+    onScopeChange({
+      timePerDiv: stepAtLeast(SCOPE_TIME_STEPS, 2000 / triggerSource.signal.frequency / SCOPE_H_DIVISIONS),
+      voltsPerDiv: stepAtLeast(SCOPE_VOLT_STEPS, axisPeak('voltage') / halfScreen),
+      ampsPerDiv: stepAtLeast(SCOPE_AMP_STEPS, axisPeak('current') / halfScreen),
+      voltageOffset: 0,
+      currentOffset: 0,
+      horizontalPosition: 0,
+      trigger: { ...trigger, level: triggerSource.signal.dcOffset },
+    });
+  };
+
+  // Automatic measurements on a dense record of the visible window
+  const measurements = useMemo(() => {
+    if (!showMeasurements || !acquisition) return [];
+    const dt = timeWindow / 1000 / (MEASURE_POINTS - 1);
+    const records = acquisition.traces.map(ch => {
+      const samples = new Float64Array(MEASURE_POINTS);
+      const sample = samplerOf(ch);
+      for (let k = 0; k < MEASURE_POINTS; k++) samples[k] = sample(k * dt + acquisition.start);
+      return samples;
+    });
+    return acquisition.traces.map((ch, idx) => ({
+      channel: ch,
+      ...measureSamples(records[idx], dt),
+      // Delay relative to the first trace (the voltage in the default view)
+      phaseDelay: idx === 0 ? null : measurePhaseDelay(records[0], records[idx], dt),
+    }));
+  }, [showMeasurements, acquisition, timeWindow]);
+
+  // The plotted samples of the visible window, with absolute time so sweeps can be lined up
+  const exportCsv = () => {
+    if (!acquisition || !exportContext) return;
+    const shown = acquisition.traces;
+    const header = ['t (s)', ...shown.map(ch => ch.name), ...(powerVisible ? ['p(t) (W)'] : [])];
+    const rows = data.map(point => [
+      acquisition.start + point.time / 1000,
+      ...shown.map(ch => point[ch.key]),
+      ...(powerVisible ? [point.power] : []),
+    ]);
+    const comments = [
+      ...exportContext.parameters,
+      t.scope.csvSettings(scope.timePerDiv, scope.voltsPerDiv, scope.ampsPerDiv, data.length),
+    ];
+    downloadText(`${t.scope.file}.csv`, toCsv(header, rows, comments), 'text/csv');
+  };
+
+  // Cursor readouts: horizontal cursors live on the voltage axis; ΔI uses the same screen span on the current axis
+  const deltaT = Math.abs(cursors.t2 - cursors.t1);
+  const deltaV = Math.abs(cursors.y2 - cursors.y1);
+  const deltaI = deltaV * (scope.ampsPerDiv / scope.voltsPerDiv);
 
-  // Calculate symmetric domains to ensure 0 is always in the center.
-  // Note: We must use PEAK values here for axis scaling, otherwise the wave will clip.
-  const vPeakForScale = getPeakAmplitude(state.voltage.amplitude, state.voltage.waveform);
-  const iPeakForScale = getPeakAmplitude(state.current.amplitude, state.current.waveform);
-  
-  const maxVoltage = Math.max(10, (vPeakForScale + Math.abs(state.voltage.dcOffset)) * 1.1);
-  const maxCurrent = Math.max(1, (iPeakForScale + Math.abs(state.current.dcOffset)) * 1.1);
+  const toggleClass = (active: boolean, activeColor: string) =>
+    `px-2 py-0.5 rounded text-[10px] font-mono font-bold transition-colors ${active ? activeColor : 'bg-gray-800 text-gray-500 hover:text-gray-300'}`;
 
   return (
-    <div className="w-full h-[400px] bg-gray-900 rounded-xl border border-gray-700 p-4 shadow-inner shadow-black/50 relative overflow-hidden">
-      <div className="absolute top-2 left-4 z-10 flex items-center space-x-4">
-         <span className={`text-xs font-mono animate-pulse ${state.isPlaying ? "text-cyan-500" : "text-yellow-500"}`}>
-            {state.isPlaying ? "● CAPTURA EN VIVO" : "○ PAUSADO"}
-         </span>
-         <span className="text-xs text-gray-500 font-mono">VENTANA: {state.timeWindow}ms</span>
-      </div>
+    <div className="space-y-4">
+      <div className="w-full h-[400px] bg-gray-900 rounded-xl border border-gray-700 p-4 shadow-inner shadow-black/50 relative overflow-hidden">
+        <div className="absolute top-2 left-4 z-10 flex items-center space-x-4">
+           <span className={`text-xs font-mono animate-pulse ${state.isPlaying ? "text-cyan-500" : "text-yellow-500"}`}>
+              {state.isPlaying ? t.scope.live : t.scope.paused}
+           </span>
+           <span className="text-xs text-gray-500 font-mono">{xyVisible ? t.scope.xyMode : `${scope.timePerDiv} ms/div`}</span>
+           {triggerStatus && !xyVisible && (
+             <span className={`text-xs font-mono ${acquisition?.triggered ? 'text-orange-400' : 'text-gray-500'}`}>T: {triggerStatus}</span>
+           )}
+        </div>
+        <div className="absolute top-2 right-4 z-10 flex items-center gap-1">
+          {exportContext && !xyVisible && acquisition && (
+            <ExportButtons actions={[{ label: 'CSV', onClick: exportCsv }]} />
+          )}
+          {xyAvailable && (
+            <button onClick={() => setXyMode(v => !v)} className={toggleClass(xyMode, 'bg-purple-500/20 text-purple-400')}>
+              XY
+            </button>
+          )}
+          {!xyVisible && (
+            <button onClick={() => setShowCursors(v => !v)} className={toggleClass(showCursors, 'bg-pink-500/20 text-pink-400')}>
+              {t.scope.cursors}
+            </button>
+          )}
+          <button onClick={() => setShowMeasurements(v => !v)} className={toggleClass(showMeasurements, 'bg-white/10 text-white')}>
+            {t.scope.measurements}
+          </button>
+          {powerAvailable && (
+            <button onClick={() => setShowPower(v => !v)} className={toggleClass(showPower, 'bg-green-500/20 text-green-400')}>
+              p(t)
+            </button>
+          )}
+        </div>
+        {showCursors && !xyVisible && (
+          <div className="absolute bottom-2 left-4 z-10 flex gap-4 font-mono text-[10px] text-pink-400">
+            <span>Δt = {si(deltaT / 1000, 's', 4)}</span>
+            <span>1/Δt = {deltaT > 0 ? si(1000 / deltaT, 'Hz', 4) : '∞'}</span>
+            <span>ΔV = {si(deltaV, 'V', 4)}</span>
+            <span>ΔI = {si(deltaI, 'A', 4)}</span>
+          </div>
+        )}
       
-      <ResponsiveContainer width="100%" height="100%">
-        <LineChart data={data} margin={{ top: 20, right: 20, left: 0, bottom: 30 }}>
-          <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
+        <ResponsiveContainer width="100%" height="100%">
+          {xyVisible && lissajous && xSource && ySource ? (
+          <LineChart data={lissajous.points} margin={{ top: 20, right: 20, left: 0, bottom: 30 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
+            <ReferenceLine x={0} yAxisId="current" stroke="#6B7280" strokeWidth={1} opacity={0.8} />
+            <ReferenceLine y={0} yAxisId="current" stroke="#6B7280" strokeWidth={1} opacity={0.8} />
+
+            {/* Ellipse intercepts ±Y₀ on the figure's vertical centre line and its extremes ±Y_max */}
+            {ellipse && [1, -1].map(sign => (
+              <React.Fragment key={sign}>
+                <ReferenceLine y={ellipse.yMean + sign * ellipse.yIntercept} yAxisId="current" stroke="#C084FC" strokeDasharray="4 3" label={sign > 0 ? { value: 'Y₀', position: 'insideLeft', fill: '#C084FC', fontSize: 10 } : undefined} />
+                <ReferenceLine y={ellipse.yMean + sign * ellipse.yMax} yAxisId="current" stroke="#C084FC" strokeDasharray="1 3" label={sign > 0 ? { value: t.scope.xy.yMax, position: 'insideLeft', fill: '#C084FC', fontSize: 10 } : undefined} />
+              </React.Fragment>
+            ))}
+
+            <XAxis
+              dataKey="x"
+              type="number"
+              domain={[xyVoltageTicks[0], xyVoltageTicks[SCOPE_H_DIVISIONS]]}
+              ticks={xyVoltageTicks}
+              allowDataOverflow={true}
+              stroke="#EAB308"
+              tick={{fontSize: 10, fill: '#EAB308'}}
+              tickFormatter={axisTick(scope.voltsPerDiv)}
+              label={{ value: `${xSource.name} →`, position: 'insideBottomRight', offset: -10, fill: '#EAB308', fontSize: 10 }}
+            />
+            <YAxis
+              yAxisId="current"
+              stroke="#22D3EE"
+              tick={{fontSize: 10, fill: '#22D3EE'}}
+              domain={[currentTicks[0], currentTicks[SCOPE_V_DIVISIONS]]}
+              ticks={currentTicks}
+              allowDataOverflow={true}
+              tickFormatter={axisTick(scope.ampsPerDiv)}
+              label={{ value: `${ySource.name} →`, angle: -90, position: 'insideLeft', fill: '#22D3EE', fontSize: 10 }}
+            />
+            <Line yAxisId="current" type="linear" dataKey="y" stroke="#C084FC" strokeWidth={2} dot={false} isAnimationActive={false} legendType="none" />
+          </LineChart>
+          ) : (
+          <LineChart data={data} margin={{ top: 20, right: 20, left: 0, bottom: 30 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" />
           
-          {/* Zero Reference Line - Visual Anchor */}
-          <ReferenceLine y={0} yAxisId="left" stroke="#6B7280" strokeWidth={1} opacity={0.8} />
-
-          <XAxis 
-            dataKey="time" 
-            hide={false} 
-            stroke="#6B7280" 
-            tick={{fontSize: 10}} 
-            label={{ value: 'Tiempo (ms)', position: 'insideBottomRight', offset: -10, fill: '#6B7280', fontSize: 10 }}
-          />
-          <YAxis 
-            yAxisId="left" 
-            stroke="#EAB308" 
-            tick={{fontSize: 10, fill: '#EAB308'}}
-            domain={[-maxVoltage, maxVoltage]}
-            tickCount={9}
-            allowDataOverflow={false}
-            tickFormatter={(value) => Math.abs(value) < 0.01 ? "0" : value.toFixed(2)}
-            label={{ value: 'Tensión (V)', angle: -90, position: 'insideLeft', fill: '#EAB308', fontSize: 10 }}
-          />
-          <YAxis 
-            yAxisId="right" 
-            orientation="right" 
-            stroke="#22D3EE" 
-            tick={{fontSize: 10, fill: '#22D3EE'}}
-            domain={[-maxCurrent, maxCurrent]}
-            tickCount={9}
-            allowDataOverflow={false}
-            tickFormatter={(value) => Math.abs(value) < 0.01 ? "0" : value.toFixed(2)}
-            label={{ value: 'Corriente (A)', angle: 90, position: 'insideRight', fill: '#22D3EE', fontSize: 10 }}
-          />
-          <Tooltip 
-            contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', fontSize: '12px' }}
-            itemStyle={{ padding: 0 }}
-            formatter={(value: number) => value.toFixed(2)}
-            labelFormatter={(label) => `t: ${label} ms`}
-          />
-          <Legend verticalAlign="top" height={36} iconType="plainline" wrapperStyle={{ top: -5 }} />
+            {/* Zero Reference Line - Visual Anchor */}
+            <ReferenceLine y={0} yAxisId="left" stroke="#6B7280" strokeWidth={1} opacity={0.8} />
+
+            {/* Trigger level and trigger point markers */}
+            {trigger.enabled && (
+              <ReferenceLine y={trigger.level} yAxisId={trigger.source === 'voltage' ? 'left' : 'right'} stroke="#FB923C" strokeDasharray="2 4" opacity={0.7} />
+            )}
+            {acquisition?.triggered && (
+              <ReferenceLine x={scope.horizontalPosition} yAxisId="left" stroke="#FB923C" strokeDasharray="2 4" opacity={0.7} label={{ value: 'T', position: 'insideTopRight', fill: '#FB923C', fontSize: 10 }} />
+            )}
+
+            <XAxis 
+              dataKey="time" 
+              type="number"
+              domain={[0, timeWindow]}
+              ticks={timeTicks}
+              hide={false} 
+              stroke="#6B7280" 
+              tick={{fontSize: 10}} 
+              tickFormatter={(value) => fmt(value, 1)}
+              label={{ value: t.scope.time, position: 'insideBottomRight', offset: -10, fill: '#6B7280', fontSize: 10 }}
+            />
+            <YAxis 
+              yAxisId="left" 
+              stroke="#EAB308" 
+              tick={{fontSize: 10, fill: '#EAB308'}}
+              domain={[voltageTicks[0], voltageTicks[SCOPE_V_DIVISIONS]]}
+              ticks={voltageTicks}
+              allowDataOverflow={true}
+              tickFormatter={axisTick(scope.voltsPerDiv)}
+              label={{ value: t.scope.voltage, angle: -90, position: 'insideLeft', fill: '#EAB308', fontSize: 10 }}
+            />
+            <YAxis 
+              yAxisId="right" 
+              orientation="right" 
+              stroke="#22D3EE" 
+              tick={{fontSize: 10, fill: '#22D3EE'}}
+              domain={[currentTicks[0], currentTicks[SCOPE_V_DIVISIONS]]}
+              ticks={currentTicks}
+              allowDataOverflow={true}
+              tickFormatter={axisTick(scope.ampsPerDiv)}
+              label={{ value: t.scope.current, angle: 90, position: 'insideRight', fill: '#22D3EE', fontSize: 10 }}
+            />
+            <Tooltip 
+              contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', fontSize: '12px' }}
+              itemStyle={{ padding: 0 }}
+              formatter={(value: number) => si(value, '', 4)}
+              labelFormatter={(label) => `t: ${fmt(Number(label), 1)} ms`}
+            />
+            <Legend verticalAlign="top" height={36} iconType="plainline" wrapperStyle={{ top: -5 }} />
           
-          <Line 
-            yAxisId="left"
-            type="monotone" 
-            dataKey="voltage" 
-            stroke="#EAB308" 
-            strokeWidth={2} 
-            dot={false} 
-            name="Tensión (V)"
-            isAnimationActive={false}
-          />
-          <Line 
-            yAxisId="right"
-            type="monotone" 
-            dataKey="current" 
-            stroke="#22D3EE" 
-            strokeWidth={2} 
-            dot={false} 
-            name="Corriente (A)"
-            isAnimationActive={false}
-          />
-        </LineChart>
-      </ResponsiveContainer>
+            {acquisition?.traces.map(ch => (
+              <Line 
+                key={ch.key}
+                yAxisId={ch.axis === 'voltage' ? 'left' : 'right'}
+                type="monotone" 
+                dataKey={ch.key} 
+                stroke={ch.color} 
+                strokeWidth={2} 
+                strokeDasharray={ch.dashed ? '5 3' : undefined}
+                dot={false} 
+                name={ch.name}
+                isAnimationActive={false}
+              />
+            ))}
+
+            {showCursors && <ScopeCursorLayer cursors={cursors} onChange={updateCursors} />}
+          </LineChart>
+          )}
+        </ResponsiveContainer>
+      </div>
+
+      {/* XY Figure Analysis */}
+      {xyVisible && lissajous && (
+        <div className="w-full bg-gray-900 rounded-xl border border-gray-700 p-4 shadow-inner shadow-black/50">
+          <div className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.scope.xy.title}</div>
+          {ellipse ? (
+            <div className="font-mono text-[11px] text-gray-300 space-y-1">
+              <div>{t.symbols.sin} φ = Y₀ / {t.scope.xy.yMax} = {si(ellipse.yIntercept, 'A', 4)} / {si(ellipse.yMax, 'A', 4)} = {fmt(ellipse.sinPhi, 4)}</div>
+              <div>
+                {t.scope.xy.arcsin}({fmt(ellipse.sinPhi, 4)}) = {fmt(ellipse.principalAngle, 1)}°
+                {ellipse.obtuse && <> → {t.scope.xy.fallsRight}, |φ| = 180° − {fmt(ellipse.principalAngle, 1)}° = {fmt(180 - ellipse.principalAngle, 1)}°</>}
+              </div>
+              <div>
+                {t.scope.xy.crossing} {ellipse.phi > 0 ? t.scope.xy.lagging : ellipse.phi < 0 ? t.scope.xy.leading : t.scope.xy.inPhase}:
+                <span className="text-purple-400 font-bold"> φ = {fmt(ellipse.phi, 1)}°</span>
+              </div>
+              <div>
+                |Z| = {t.scope.xy.xMax} / {t.scope.xy.yMax} = {si(ellipse.xMax, 'V', 4)} / {si(ellipse.yMax, 'A', 4)} = <span className="text-purple-400 font-bold">{si(ellipse.impedance, 'Ω', 4)}</span>
+                {' '}· {t.scope.xy.character} {t.scope.xy.characters[loadCharacter(ellipse.phi, 1)]}
+              </div>
+              {ellipseApproximate && (
+                <div className="text-amber-400 text-[10px]">
+                  {t.scope.xy.approximate}
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="font-mono text-[11px] text-gray-300">
+              {t.scope.xy.ratio} f<sub>V</sub> : f<sub>I</sub> = {lissajous.ratio[0]} : {lissajous.ratio[1]}.
+              <span className="text-gray-500"> {t.scope.xy.equalOnly}</span>
+            </div>
+          )}
+        </div>
+      )}
+
+      <ScopeControls settings={scope} onChange={onScopeChange} onAutoset={autoset} onRearm={() => setCapture(null)} />
+
+      {/* Automatic Measurements */}
+      {showMeasurements && (
+        <div className="w-full bg-gray-900 rounded-xl border border-gray-700 p-4 shadow-inner shadow-black/50 overflow-x-auto">
+          <div className="text-xs font-bold text-gray-400 uppercase tracking-wider mb-2">{t.scope.table.title}</div>
+          <table className="w-full font-mono text-[10px] text-right">
+            <thead className="text-gray-500 uppercase tracking-wider">
+              <tr>
+                <th className="text-left font-bold py-1">{t.scope.table.channel}</th>
+                <th className="font-bold">{t.scope.table.peakToPeak}</th>
+                <th className="font-bold">{t.scope.table.rms}</th>
+                <th className="font-bold">{t.scope.table.mean}</th>
+                <th className="font-bold">{t.scope.table.frequency}</th>
+                <th className="font-bold">{t.scope.table.period}</th>
+                <th className="font-bold">{t.scope.table.riseTime}</th>
+                <th className="font-bold">{t.scope.table.delay}</th>
+              </tr>
+            </thead>
+            <tbody className="text-gray-300">
+              {measurements.map(m => {
+                const unit = m.channel.axis === 'voltage' ? 'V' : 'A';
+                return (
+                  <tr key={m.channel.key} className="border-t border-gray-800">
+                    <td className="text-left py-0.5 font-bold" style={{ color: m.channel.color }}>{m.channel.name}</td>
+                    <td>{si(m.peakToPeak, unit, 4)}</td>
+                    <td>{si(m.rms, unit, 4)}</td>
+                    <td>{si(m.mean, unit, 4)}</td>
+                    <td>{m.frequency !== null ? si(m.frequency, 'Hz', 4) : '—'}</td>
+                    <td>{m.period !== null ? si(m.period, 's', 4) : '—'}</td>
+                    <td>{m.riseTime !== null ? si(m.riseTime, 's', 4) : '—'}</td>
+                    <td>{m.phaseDelay !== null ? `${fmt(m.phaseDelay, 1)}°` : '—'}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+          <div className="text-[9px] text-gray-600 font-mono mt-2">
+            {t.scope.table.note(MEASURE_POINTS)}
+          </div>
+        </div>
+      )}
+
+      {/* Instantaneous Power Channel */}
+      {powerVisible && energy && (
+        <div className="w-full h-[240px] bg-gray-900 rounded-xl border border-gray-700 p-4 shadow-inner shadow-black/50 relative overflow-hidden">
+          <div className="absolute top-2 left-4 right-4 z-10 flex justify-between items-start font-mono text-[10px]">
+            <span className="text-green-400 font-bold">{t.scope.instantPower.title}</span>
+            <div className="text-right space-y-0.5">
+              <div className="text-green-400">{t.scope.instantPower.delivered}: {si(energy.delivered, 'J', 4)}{t.scope.instantPower.perCycle}</div>
+              <div className="text-red-400">{t.scope.instantPower.returned}: {si(energy.returned, 'J', 4)}{t.scope.instantPower.perCycle}</div>
+              <div className="text-white">{t.scope.instantPower.net}: {si(energy.net, 'J', 4)}{t.scope.instantPower.perCycle}</div>
+            </div>
+          </div>
+
+          <ResponsiveContainer width="100%" height="100%">
+            <ComposedChart data={data} margin={{ top: 40, right: 20, left: 0, bottom: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
+              <ReferenceLine y={0} yAxisId="power" stroke="#6B7280" strokeWidth={1} opacity={0.8} />
+              {/* Average power P: the mean of p(t) over whole periods */}
+              <ReferenceLine 
+                y={energy.net * state.voltage.frequency} 
+                yAxisId="power" 
+                stroke="#FFFFFF" 
+                strokeDasharray="6 3" 
+                label={{ value: `P = ${si(energy.net * state.voltage.frequency, 'W', 4)}`, position: 'insideTopLeft', fill: '#FFFFFF', fontSize: 10 }} 
+              />
+              <XAxis dataKey="time" type="number" domain={[0, timeWindow]} ticks={timeTicks} stroke="#6B7280" tick={{fontSize: 10}} tickFormatter={(value) => fmt(value, 1)} />
+              <YAxis 
+                yAxisId="power" 
+                stroke="#4ADE80" 
+                tick={{fontSize: 10, fill: '#4ADE80'}}
+                domain={[Math.min(0, energy.pMin) * 1.1, Math.max(1, energy.pMax) * 1.1]}
+                tickFormatter={(value) => si(Number(value.toPrecision(3)), '')}
+                label={{ value: t.scope.power, angle: -90, position: 'insideLeft', fill: '#4ADE80', fontSize: 10 }}
+              />
+              <Tooltip 
+                contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', fontSize: '12px' }}
+                formatter={(value: number) => si(value, 'W', 4)}
+                labelFormatter={(label) => `t: ${fmt(Number(label), 1)} ms`}
+              />
+              <Area yAxisId="power" type="monotone" dataKey="powerPos" stroke="none" fill="#22C55E" fillOpacity={0.25} isAnimationActive={false} legendType="none" tooltipType="none" />
+              <Area yAxisId="power" type="monotone" dataKey="powerNeg" stroke="none" fill="#EF4444" fillOpacity={0.3} isAnimationActive={false} legendType="none" tooltipType="none" />
+              <Line yAxisId="power" type="monotone" dataKey="power" stroke="#4ADE80" strokeWidth={2} dot={false} name="p(t) (W)" isAnimationActive={false} />
+            </ComposedChart>
+          </ResponsiveContainer>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,87 @@
+import React from 'react';
+import { KnobControl } from './KnobControl';
+import { PFCSettings } from '../types';
+import { PFCResult } from '../services/pfc';
+import { STANDARD_KVAR_STEPS } from '../constants';
+import { useI18n } from '../i18n';
+
+interface PFCDesignerProps {
+  settings: PFCSettings;
+  result: PFCResult;
+  pfBefore: number;
+  currentBefore: number; // A (RMS)
+  currentAfter: number; // A (RMS)
+  onChange: (updates: Partial<PFCSettings>) => void;
+}
+
+export const PFCDesigner: React.FC<PFCDesignerProps> = ({ settings, result, pfBefore, currentBefore, currentAfter, onChange }) => {
+  const { t, fmt, si } = useI18n();
+  const rows = [
+    { label: t.pfc.required, value: si(result.requiredQc, 'VAR', 4) },
+    { label: t.pfc.installed, value: settings.useSteps ? `${result.steps} × ${si(settings.stepKvar * 1000, 'VAR')}` : si(result.installedQc, 'VAR', 4) },
+    { label: t.pfc.capacitance, value: si(result.capacitance * 1e-6, 'F', 4) },
+    { label: t.pfc.capacitorCurrent, value: si(result.capacitorCurrent, 'A', 4) },
+    { label: t.pfc.pfChange, value: `${fmt(pfBefore, 3)} → ${fmt(result.pfAfter, 3)}` },
+    { label: t.pfc.lineCurrentChange, value: `${si(currentBefore, 'A', 4)} → ${si(currentAfter, 'A', 4)}` },
+  ];
+
+  return (
+    <div className="bg-gray-900/50 rounded-xl border border-gray-800 p-5 backdrop-blur-sm">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-emerald-400 font-bold flex items-center gap-2">
+          <span className="w-2 h-2 rounded-full bg-emerald-400"></span> {t.pfc.title}
+        </h2>
+        <button
+          onClick={() => onChange({ enabled: !settings.enabled })}
+          className={`px-3 py-1 rounded-md text-xs font-semibold uppercase tracking-wider transition-colors ${settings.enabled ? 'bg-emerald-500/20 text-emerald-400 hover:bg-emerald-500/30' : 'bg-gray-800 text-gray-500 hover:text-gray-300'}`}
+        >
+          {settings.enabled ? t.pfc.enabled : t.pfc.disabled}
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <div className="space-y-3">
+          <KnobControl label={t.pfc.target} value={settings.targetPF} min={0.5} max={1} step={0.01} unit="" colorClass="text-green-500" onChange={(v) => onChange({ targetPF: v })} />
+
+          {/* Step Sizing */}
+          <div className="flex items-center justify-between gap-2 p-3 bg-gray-800 rounded-lg border border-gray-700">
+            <label className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-400 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={settings.useSteps}
+                onChange={(e) => onChange({ useSteps: e.target.checked })}
+                className="accent-emerald-500"
+              />
+              {t.pfc.standardSteps}
+            </label>
+            <select
+              value={settings.stepKvar}
+              disabled={!settings.useSteps}
+              onChange={(e) => onChange({ stepKvar: Number(e.target.value) })}
+              className="bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs font-mono text-white disabled:opacity-40"
+            >
+              {STANDARD_KVAR_STEPS.map(step => (
+                <option key={step} value={step}>{si(step * 1000, 'VAR')}</option>
+              ))}
+            </select>
+          </div>
+
+          {result.status === 'ok' ? (
+            <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 font-mono text-[10px] space-y-1">
+              {rows.map(r => (
+                <div key={r.label} className="flex justify-between">
+                  <span className="text-gray-400">{r.label}</span>
+                  <span className="text-emerald-400">{r.value}</span>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="p-2 rounded-lg border border-amber-500/30 bg-amber-500/10 text-[10px] text-amber-400">
+              {t.pfc.status[result.status]}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
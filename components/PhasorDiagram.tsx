@@ -1,13 +1,45 @@
 
-import React from 'react';
-import { SignalParams } from '../types';
+import React, { useRef } from 'react';
+import { AmplitudeView, SignalParams } from '../types';
+import { normalizeAngle } from '../services/complex';
+import { amplitudeFactor } from '../services/signal';
+import { ExportContext } from '../services/export';
+import { ExportButtons, ExportLine, downloadPng, downloadSvg, standaloneSvg } from './ExportButtons';
+import { useI18n } from '../i18n';
+
+// Free-form phasor; voltages and currents are scaled independently
+export interface PhasorVector {
+  key: string;
+  label: string;
+  magnitude: number; // RMS
+  angle: number; // Degrees
+  color: string;
+  kind: 'voltage' | 'current';
+  dashed?: boolean;
+}
 
 interface PhasorDiagramProps {
   voltage: SignalParams;
   current: SignalParams;
+  phasors?: PhasorVector[]; // Replaces the V/I pair (e.g. three-phase systems)
+  warning?: string; // Shown when the phasor picture is incomplete (harmonics, DC, mismatched frequencies)
+  correctedCurrent?: SignalParams; // Supply current after power factor correction
+  contributions?: PhasorVector[]; // Branch currents that add up to `current`, drawn head-to-tail
+  sendingVoltage?: SignalParams; // Source end of a line whose load end is `voltage`
+  exportContext?: ExportContext; // Enables SVG/PNG export
+  amplitudeView?: AmplitudeView; // Legend magnitudes as RMS (default), peak or peak-to-peak
 }
 
-export const PhasorDiagram: React.FC<PhasorDiagramProps> = ({ voltage, current }) => {
+export const PhasorDiagram: React.FC<PhasorDiagramProps> = ({ voltage, current, phasors, warning, correctedCurrent, contributions, sendingVoltage, exportContext, amplitudeView }) => {
+  const { t, fmt, si } = useI18n();
+  const view: AmplitudeView = amplitudeView ?? 'rms';
+  // Legend entry of one phasor; phasors are sinusoidal, so peak is √2 × RMS
+  const polar = (magnitude: number, unit: string, angle: number) => {
+    const suffix = view === 'rms' ? '' : ` (${t.app.amplitudeViews[view]})`;
+    return `${si(magnitude * amplitudeFactor('sine', view), unit, 4)}${suffix} ∠ ${fmt(angle, 1)}°`;
+  };
+  const svgRef = useRef<SVGSVGElement>(null);
+
   // SVG dimensions
   const CX = 150;
   const CY = 150;
@@ -25,6 +57,8 @@ export const PhasorDiagram: React.FC<PhasorDiagramProps> = ({ voltage, current }
 
   // Angle arc needs to be outside the longest vector to avoid being hidden
   const ARC_RADIUS = 90; 
+  // Farthest point of a head-to-tail chain of branch currents
+  const CHAIN_RADIUS = 80;
 
   // Helper: Polar to SVG Cartesian
   // Re-implementing getCoords safely
@@ -36,23 +70,52 @@ export const PhasorDiagram: React.FC<PhasorDiagramProps> = ({ voltage, current }
     };
   }
 
+  // --- Branch Currents ---
+  // Partial sums of the chain: each branch starts where the previous one ends
+  const branches: PhasorVector[] = contributions ?? [];
+  const chain = branches.reduce<{ re: number; im: number }[]>((points, p) => {
+    const last = points[points.length - 1];
+    const rad = (p.angle * Math.PI) / 180;
+    return [...points, { re: last.re + p.magnitude * Math.cos(rad), im: last.im + p.magnitude * Math.sin(rad) }];
+  }, [{ re: 0, im: 0 }]);
+  // With branches, one scale fits the whole chain and the total; otherwise the current has a fixed length
+  const chainExtent = Math.max(current.amplitude, ...chain.map(c => Math.hypot(c.re, c.im)));
+  const currentScale = contributions
+    ? (chainExtent > 0 ? CHAIN_RADIUS / chainExtent : 0)
+    : (current.amplitude > 0 ? I_RADIUS / current.amplitude : 0);
+  const currentRadius = contributions ? current.amplitude * currentScale : I_RADIUS;
+
+  // --- Line Voltage Drop ---
+  // Sending and receiving voltages share one scale, so the drop Z·I closes the triangle between their tips
+  const vScale = sendingVoltage
+    ? V_RADIUS / Math.max(voltage.amplitude, sendingVoltage.amplitude, 1e-300)
+    : 0;
+  const voltageRadius = sendingVoltage ? voltage.amplitude * vScale : V_RADIUS;
+  const sendingTip = sendingVoltage ? getCoordsSafe(sendingVoltage.amplitude * vScale, sendingVoltage.phase) : null;
+  const sendingLineEnd = sendingVoltage
+    ? getCoordsSafe(Math.max(0, sendingVoltage.amplitude * vScale - LINE_OFFSET), sendingVoltage.phase)
+    : null;
+  const receivingTip = getCoordsSafe(voltageRadius, voltage.phase);
+
   // Calculate line endpoints - shortened so the arrow tip lands exactly on the radius
-  const vLineEnd = getCoordsSafe(V_RADIUS - LINE_OFFSET, voltage.phase);
-  const cLineEnd = getCoordsSafe(I_RADIUS - LINE_OFFSET, current.phase);
+  const vLineEnd = getCoordsSafe(Math.max(0, voltageRadius - LINE_OFFSET), voltage.phase);
+  const cLineEnd = getCoordsSafe(Math.max(0, currentRadius - LINE_OFFSET), current.phase);
+
+  // Corrected current shares the current's scale so the reduction is visible
+  const correctedRadius = correctedCurrent ? correctedCurrent.amplitude * currentScale : 0;
+  const correctedLineEnd = correctedCurrent
+    ? getCoordsSafe(Math.max(0, correctedRadius - LINE_OFFSET), correctedCurrent.phase)
+    : null;
 
   // --- Phase Difference Arc Logic ---
   // delta is used for geometry (visual arc sweep)
-  let delta = current.phase - voltage.phase;
-  while (delta <= -180) delta += 360;
-  while (delta > 180) delta -= 360;
+  const delta = normalizeAngle(current.phase - voltage.phase);
   
   const absDelta = Math.abs(delta);
   
   // displayAngle is used for text (signed value as requested)
   // "Si la corriente adelanta la tension ponle un signo Negativo" -> Implies V - I
-  let displayAngle = voltage.phase - current.phase;
-  while (displayAngle <= -180) displayAngle += 360;
-  while (displayAngle > 180) displayAngle -= 360;
+  const displayAngle = normalizeAngle(voltage.phase - current.phase);
   
   // Draw arc from Voltage to Current or vice versa
   const arcStart = getCoordsSafe(ARC_RADIUS, voltage.phase);
@@ -72,28 +135,97 @@ export const PhasorDiagram: React.FC<PhasorDiagramProps> = ({ voltage, current }
   const labelRadius = ARC_RADIUS + 25; 
   const labelPos = getCoordsSafe(labelRadius, midAngle);
 
+  // --- Free-form Phasors ---
+  // The largest phasor of each kind reaches the standard V/I radius
+  const maxMagnitude = (kind: PhasorVector['kind']) =>
+    Math.max(0, ...(phasors ?? []).filter(p => p.kind === kind).map(p => p.magnitude));
+  const maxV = maxMagnitude('voltage');
+  const maxI = maxMagnitude('current');
+
+  const getPhasorLineEnd = (p: PhasorVector) => {
+    const maxR = p.kind === 'voltage' ? V_RADIUS : I_RADIUS;
+    const maxMag = p.kind === 'voltage' ? maxV : maxI;
+    const r = maxMag > 0 ? (p.magnitude / maxMag) * maxR : 0;
+    return getCoordsSafe(Math.max(0, r - LINE_OFFSET), p.angle);
+  };
+
+  // The HTML legend, redrawn inside exported files
+  const legend = (): ExportLine[] => {
+    const lines: ExportLine[] = phasors
+      ? phasors.map(p => ({ text: `${p.label}: ${polar(p.magnitude, p.kind === 'voltage' ? 'V' : 'A', p.angle)}`, color: p.color }))
+      : [
+          ...(sendingVoltage ? [{ text: `${t.phasors.sending}: ${polar(sendingVoltage.amplitude, 'V', sendingVoltage.phase)}`, color: '#F97316' }] : []),
+          { text: `${t.phasors.voltage}: ${polar(voltage.amplitude, 'V', voltage.phase)}`, color: '#EAB308' },
+          { text: `${t.phasors.current}: ${polar(current.amplitude, 'A', current.phase)}`, color: '#22D3EE' },
+          ...(correctedCurrent ? [{ text: `${t.phasors.corrected}: ${polar(correctedCurrent.amplitude, 'A', correctedCurrent.phase)}`, color: '#34D399' }] : []),
+          ...(contributions ?? []).map(p => ({ text: `${p.label}: ${polar(p.magnitude, 'A', p.angle)}`, color: p.color })),
+        ];
+    return warning ? [...lines, { text: `⚠ ${warning}`, color: '#FBBF24' }] : lines;
+  };
+
+  const exportImage = (format: 'svg' | 'png') => {
+    if (!svgRef.current || !exportContext) return;
+    const markup = standaloneSvg(svgRef.current, t.phasors.title, legend(), exportContext);
+    if (format === 'svg') downloadSvg(`${t.phasors.file}.svg`, markup);
+    else downloadPng(`${t.phasors.file}.png`, markup);
+  };
+
   return (
     <div className="w-full h-full min-h-[350px] bg-gray-900 rounded-xl border border-gray-700 p-4 flex flex-col items-center justify-center relative shadow-inner shadow-black/50">
         
         {/* Top Header with Values */}
         <div className="absolute top-3 left-0 w-full px-4 flex justify-between items-start z-10">
              <div>
-                <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider">Diagrama Fasorial</h3>
-                <span className="text-[10px] text-gray-600 font-mono">Coordenadas Polares</span>
+                <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t.phasors.title}</h3>
+                <span className="text-[10px] text-gray-600 font-mono">{t.phasors.subtitle}</span>
+                {exportContext && (
+                  <div className="mt-1">
+                    <ExportButtons actions={[{ label: 'SVG', onClick: () => exportImage('svg') }, { label: 'PNG', onClick: () => exportImage('png') }]} />
+                  </div>
+                )}
              </div>
+             {phasors ? (
+               <div className="grid grid-cols-2 gap-x-3 text-right font-mono text-[9px]">
+                 {phasors.map(p => (
+                   <div key={p.key} className="flex items-center gap-1 justify-end">
+                     <span className="w-2 h-2 rounded-full" style={{ backgroundColor: p.color }}></span>
+                     {p.label}: {polar(p.magnitude, p.kind === 'voltage' ? 'V' : 'A', p.angle)}
+                   </div>
+                 ))}
+               </div>
+             ) : (
              <div className="text-right font-mono text-[10px]">
+                {sendingVoltage && (
+                  <div className="flex items-center gap-2 justify-end text-orange-400">
+                      <span className="w-2 h-2 bg-orange-500 rounded-full"></span> 
+                      {t.phasors.sending}: {polar(sendingVoltage.amplitude, 'V', sendingVoltage.phase)}
+                  </div>
+                )}
                 <div className="flex items-center gap-2 justify-end">
                     <span className="w-2 h-2 bg-yellow-500 rounded-full"></span> 
-                    Tensión: {voltage.amplitude.toFixed(1)}V ∠ {voltage.phase.toFixed(1)}°
+                    {t.phasors.voltage}: {polar(voltage.amplitude, 'V', voltage.phase)}
                 </div>
                 <div className="flex items-center gap-2 justify-end">
                     <span className="w-2 h-2 bg-cyan-400 rounded-full"></span> 
-                    Corriente: {current.amplitude.toFixed(1)}A ∠ {current.phase.toFixed(1)}°
+                    {t.phasors.current}: {polar(current.amplitude, 'A', current.phase)}
                 </div>
+                {correctedCurrent && (
+                  <div className="flex items-center gap-2 justify-end text-emerald-400">
+                      <span className="w-2 h-2 bg-emerald-400 rounded-full"></span> 
+                      {t.phasors.corrected}: {polar(correctedCurrent.amplitude, 'A', correctedCurrent.phase)}
+                  </div>
+                )}
+                {contributions?.map(p => (
+                  <div key={p.key} className="flex items-center gap-2 justify-end text-[9px] text-gray-400">
+                      <span className="w-2 h-2 rounded-full" style={{ backgroundColor: p.color }}></span>
+                      {p.label}: {polar(p.magnitude, 'A', p.angle)}
+                  </div>
+                ))}
              </div>
+             )}
         </div>
         
-        <svg viewBox="0 0 300 300" className="w-full h-full max-w-[350px] mt-6">
+        <svg ref={svgRef} viewBox="0 0 300 300" className="w-full h-full max-w-[350px] mt-6">
             <defs>
                 {/* Sharp Arrowheads using userSpaceOnUse for consistent, crisp rendering */}
                 <marker 
@@ -118,6 +250,56 @@ export const PhasorDiagram: React.FC<PhasorDiagramProps> = ({ voltage, current }
                 >
                     <path d={`M0,0 L${ARROW_LEN},${ARROW_WIDTH/2} L0,${ARROW_WIDTH} z`} fill="#22D3EE" />
                 </marker>
+                <marker 
+                    id="arrow-c-corrected" 
+                    markerWidth={ARROW_LEN} 
+                    markerHeight={ARROW_WIDTH} 
+                    refX={ARROW_INSET} 
+                    refY={ARROW_WIDTH/2} 
+                    orient="auto" 
+                    markerUnits="userSpaceOnUse"
+                >
+                    <path d={`M0,0 L${ARROW_LEN},${ARROW_WIDTH/2} L0,${ARROW_WIDTH} z`} fill="#34D399" />
+                </marker>
+                <marker 
+                    id="arrow-v-sending" 
+                    markerWidth={ARROW_LEN} 
+                    markerHeight={ARROW_WIDTH} 
+                    refX={ARROW_INSET} 
+                    refY={ARROW_WIDTH/2} 
+                    orient="auto" 
+                    markerUnits="userSpaceOnUse"
+                >
+                    <path d={`M0,0 L${ARROW_LEN},${ARROW_WIDTH/2} L0,${ARROW_WIDTH} z`} fill="#F97316" />
+                </marker>
+                {phasors?.map(p => (
+                  <marker 
+                      key={p.key}
+                      id={`arrow-${p.key}`} 
+                      markerWidth={ARROW_LEN} 
+                      markerHeight={ARROW_WIDTH} 
+                      refX={ARROW_INSET} 
+                      refY={ARROW_WIDTH/2} 
+                      orient="auto" 
+                      markerUnits="userSpaceOnUse"
+                  >
+                      <path d={`M0,0 L${ARROW_LEN},${ARROW_WIDTH/2} L0,${ARROW_WIDTH} z`} fill={p.color} />
+                  </marker>
+                ))}
+                {contributions?.map(p => (
+                  <marker 
+                      key={p.key}
+                      id={`arrow-${p.key}`} 
+                      markerWidth={ARROW_LEN * 0.7} 
+                      markerHeight={ARROW_WIDTH * 0.7} 
+                      refX={ARROW_INSET} 
+                      refY={(ARROW_WIDTH * 0.7) / 2} 
+                      orient="auto" 
+                      markerUnits="userSpaceOnUse"
+                  >
+                      <path d={`M0,0 L${ARROW_LEN * 0.7},${(ARROW_WIDTH * 0.7) / 2} L0,${ARROW_WIDTH * 0.7} z`} fill={p.color} />
+                  </marker>
+                ))}
             </defs>
 
             {/* Polar Grid */}
@@ -136,7 +318,7 @@ export const PhasorDiagram: React.FC<PhasorDiagramProps> = ({ voltage, current }
             <text x={CX} y="290" fill="#6B7280" fontSize="10" textAnchor="middle">-90°</text>
 
              {/* Phase Difference Arc & Label (OUTSIDE the vectors) */}
-             {absDelta > 0.1 && (
+             {!phasors && absDelta > 0.1 && (
               <g>
                 <path 
                   d={arcPath} 
@@ -157,13 +339,52 @@ export const PhasorDiagram: React.FC<PhasorDiagramProps> = ({ voltage, current }
                   alignmentBaseline="middle"
                   style={{ textShadow: '0px 2px 4px rgba(0,0,0,1)' }}
                 >
-                  Δφ: {displayAngle.toFixed(1)}°
+                  Δφ: {fmt(displayAngle, 1)}°
                 </text>
               </g>
             )}
 
             {/* Vectors */}
+            {phasors ? (
+            <g className="transition-all duration-300 ease-out">
+              {phasors.filter(p => p.magnitude > 0).map(p => {
+                const end = getPhasorLineEnd(p);
+                return (
+                  <line 
+                      key={p.key}
+                      x1={CX} y1={CY} 
+                      x2={end.x} y2={end.y} 
+                      stroke={p.color} 
+                      strokeWidth={p.kind === 'voltage' ? 3 : 2} 
+                      strokeDasharray={p.dashed ? '4 2' : undefined}
+                      markerEnd={`url(#arrow-${p.key})`}
+                  />
+                );
+              })}
+            </g>
+            ) : (
             <g className="transition-all duration-300 ease-out">
+              {/* Sending-end Voltage and the line drop from the load voltage's tip to it */}
+              {sendingLineEnd && sendingTip && (
+                <g>
+                  <line 
+                      x1={CX} y1={CY} 
+                      x2={sendingLineEnd.x} y2={sendingLineEnd.y} 
+                      stroke="#F97316" 
+                      strokeWidth="3" 
+                      strokeDasharray="5 3"
+                      markerEnd="url(#arrow-v-sending)"
+                  />
+                  <line 
+                      x1={receivingTip.x} y1={receivingTip.y} 
+                      x2={sendingTip.x} y2={sendingTip.y} 
+                      stroke="#F97316" 
+                      strokeWidth="1.5" 
+                      opacity="0.8"
+                  />
+                  <text x={(receivingTip.x + sendingTip.x) / 2 + 4} y={(receivingTip.y + sendingTip.y) / 2 - 4} fill="#F97316" fontSize="9">ΔV</text>
+                </g>
+              )}
               {/* Voltage Vector */}
               <line 
                   x1={CX} y1={CY} 
@@ -182,11 +403,49 @@ export const PhasorDiagram: React.FC<PhasorDiagramProps> = ({ voltage, current }
                   markerEnd="url(#arrow-c)"
                   opacity="1"
               />
+              {/* Branch currents, head-to-tail; the last tip lands on the total current */}
+              {contributions?.map((p, k) => {
+                const from = chain[k];
+                const length = p.magnitude * currentScale;
+                if (length <= 0) return null;
+                // Shorten by the (smaller) arrow head unless the branch is shorter than its head
+                const shortened = length > LINE_OFFSET * 0.7 ? length - LINE_OFFSET * 0.7 : length;
+                const start = getCoordsSafe(Math.hypot(from.re, from.im) * currentScale, (Math.atan2(from.im, from.re) * 180) / Math.PI);
+                const rad = (p.angle * Math.PI) / 180;
+                return (
+                  <line 
+                      key={p.key}
+                      x1={start.x} y1={start.y} 
+                      x2={start.x + shortened * Math.cos(rad)} y2={start.y - shortened * Math.sin(rad)} 
+                      stroke={p.color} 
+                      strokeWidth="2" 
+                      markerEnd={shortened < length ? `url(#arrow-${p.key})` : undefined}
+                  />
+                );
+              })}
+              {/* Corrected Current Vector (after PFC) */}
+              {correctedLineEnd && correctedRadius > 0 && (
+                <line 
+                    x1={CX} y1={CY} 
+                    x2={correctedLineEnd.x} y2={correctedLineEnd.y} 
+                    stroke="#34D399" 
+                    strokeWidth="3" 
+                    strokeDasharray="5 3"
+                    markerEnd="url(#arrow-c-corrected)"
+                />
+              )}
             </g>
+            )}
             
             {/* Center Point */}
             <circle cx={CX} cy={CY} r={4} fill="#D1D5DB" />
         </svg>
+
+        {warning && (
+          <div className="absolute bottom-3 left-3 right-3 p-2 rounded-lg border border-amber-500/30 bg-amber-500/10 text-[10px] text-amber-400 text-center">
+            ⚠ {warning}
+          </div>
+        )}
     </div>
   );
 };
@@ -0,0 +1,90 @@
+import React from 'react';
+import { PowerAnalysis } from '../services/power';
+import { snapToZero } from '../services/format';
+import { useI18n } from '../i18n';
+
+interface PowerBreakdownProps {
+  analysis: PowerAnalysis;
+}
+
+export const PowerBreakdown: React.FC<PowerBreakdownProps> = ({ analysis: a }) => {
+  const { t, fmt, si } = useI18n();
+  const { pf, sin } = t.symbols;
+  // Non-fundamental terms of a clean sine are sampling residue
+  const residue = (value: number, total: number) => snapToZero(value, total);
+  const groups: { title: string; rows: { label: string; value: string; hint: string }[] }[] = [
+    {
+      title: t.breakdown.rms,
+      rows: [
+        { label: 'V', value: si(a.V, 'V', 4), hint: '√(V₁² + V_H²)' },
+        { label: 'V₁', value: si(a.V1, 'V', 4), hint: t.breakdown.fundamental },
+        { label: 'V_H', value: si(residue(a.VH, a.V), 'V', 4), hint: t.breakdown.harmonics },
+        { label: 'I', value: si(a.I, 'A', 4), hint: '√(I₁² + I_H²)' },
+        { label: 'I₁', value: si(a.I1, 'A', 4), hint: t.breakdown.fundamental },
+        { label: 'I_H', value: si(residue(a.IH, a.I), 'A', 4), hint: t.breakdown.harmonics },
+      ],
+    },
+    {
+      title: t.breakdown.fundamentalPowers,
+      rows: [
+        { label: 'S₁', value: si(a.S1, 'VA', 4), hint: 'V₁·I₁' },
+        { label: 'P₁', value: si(a.P1, 'W', 4), hint: 'V₁·I₁·cos θ₁' },
+        { label: 'Q₁', value: si(a.Q1, 'VAR', 4), hint: `V₁·I₁·${sin} θ₁` },
+        { label: `${pf}₁`, value: fmt(Math.abs(a.PF1), 3), hint: t.breakdown.displacement },
+      ],
+    },
+    {
+      title: t.breakdown.nonFundamentalPowers,
+      rows: [
+        { label: 'S_N', value: si(residue(a.SN, a.S), 'VA', 4), hint: '√(S² − S₁²)' },
+        { label: 'D_I', value: si(residue(a.DI, a.S), 'VA', 4), hint: 'V₁·I_H' },
+        { label: 'D_V', value: si(residue(a.DV, a.S), 'VA', 4), hint: 'V_H·I₁' },
+        { label: 'S_H', value: si(residue(a.SH, a.S), 'VA', 4), hint: 'V_H·I_H' },
+        { label: 'P_H', value: si(residue(a.PH, a.S), 'W', 4), hint: 'P − P₁' },
+      ],
+    },
+    {
+      title: t.breakdown.totals,
+      rows: [
+        { label: 'S', value: si(a.S, 'VA', 4), hint: 'V·I' },
+        { label: 'P', value: si(a.P, 'W', 4), hint: '(1/T)∫v·i dt' },
+        { label: 'N', value: si(a.N, 'VA', 4), hint: '√(S² − P²)' },
+        { label: pf, value: fmt(Math.abs(a.PF), 3), hint: 'P / S' },
+      ],
+    },
+  ];
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-700 p-4 shadow-inner shadow-black/50">
+      <div className="mb-3">
+        <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t.breakdown.title}</h3>
+        <span className="text-[10px] text-gray-600 font-mono">{t.breakdown.subtitle}</span>
+      </div>
+
+      {!a.exact && (
+        <div className="mb-3 p-2 rounded-lg border border-amber-500/30 bg-amber-500/10 text-[10px] text-amber-400">
+          {t.app.warnings.inexactWindow}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-4">
+        {groups.map(g => (
+          <div key={g.title}>
+            <div className="text-[10px] text-gray-500 uppercase font-bold tracking-wider mb-1">{g.title}</div>
+            <table className="w-full font-mono text-[10px]">
+              <tbody>
+                {g.rows.map(r => (
+                  <tr key={r.label} className="border-t border-gray-800">
+                    <td className="py-0.5 text-gray-300 font-bold">{r.label}</td>
+                    <td className="text-right text-white">{r.value}</td>
+                    <td className="text-right text-gray-600 pl-2">{r.hint}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -1,13 +1,35 @@
 
-import React from 'react';
+import React, { useRef } from 'react';
 import { SignalParams } from '../types';
+import { normalizeAngle } from '../services/complex';
+import { sinusoidalPower } from '../services/power';
+import { ExportContext } from '../services/export';
+import { ExportButtons, ExportLine, downloadPng, downloadSvg, standaloneSvg } from './ExportButtons';
+import { useI18n } from '../i18n';
+
+// Complex power of one branch; branches are drawn head-to-tail from the origin
+export interface PowerContribution {
+  key: string;
+  label: string;
+  P: number; // W
+  Q: number; // VAR
+  color: string;
+}
 
 interface PowerTriangleDiagramProps {
   voltage: SignalParams;
   current: SignalParams;
+  // Overrides the single V/I product (three-phase totals, sampled non-sinusoidal power).
+  // D is the part of S not covered by P and Q, drawn perpendicular to the P-Q hypotenuse.
+  power?: { P: number; Q: number; D?: number };
+  corrected?: { P: number; Q: number }; // After power factor correction, drawn as an overlay
+  contributions?: PowerContribution[]; // Branch powers whose sum is the total (Boucherot)
+  exportContext?: ExportContext; // Enables SVG/PNG export
 }
 
-export const PowerTriangleDiagram: React.FC<PowerTriangleDiagramProps> = ({ voltage, current }) => {
+export const PowerTriangleDiagram: React.FC<PowerTriangleDiagramProps> = ({ voltage, current, power, corrected, contributions, exportContext }) => {
+  const { t, fmt, si } = useI18n();
+  const svgRef = useRef<SVGSVGElement>(null);
   const CX = 150;
   const CY = 150;
   const MAX_R = 120; // Max radius for drawing
@@ -22,21 +44,32 @@ export const PowerTriangleDiagram: React.FC<PowerTriangleDiagramProps> = ({ volt
   const vRms = voltage.amplitude;
   const iRms = current.amplitude;
   
-  // Phase Difference (theta = vPhase - iPhase)
-  let theta = voltage.phase - current.phase;
-  
-  // Normalize theta to -180 to 180
-  while (theta <= -180) theta += 360;
-  while (theta > 180) theta -= 360;
+  // Phase Difference (theta = vPhase - iPhase), normalized to -180..180
+  const theta = normalizeAngle(power
+    ? (Math.atan2(power.Q, power.P) * 180) / Math.PI
+    : voltage.phase - current.phase);
 
   const thetaRad = (theta * Math.PI) / 180;
 
-  const S_mag = vRms * iRms;
-  const P_mag = S_mag * Math.cos(thetaRad);
-  const Q_mag = S_mag * Math.sin(thetaRad);
+  const { S: S_mag, P: P_mag, Q: Q_mag } = power
+    ? { ...power, S: Math.hypot(power.P, power.Q) }
+    : sinusoidalPower(vRms, iRms, theta);
+  const D_mag = power?.D ?? 0;
+  // Total apparent power: S² = P² + Q² + D²
+  const S_total = Math.hypot(S_mag, D_mag);
+  // Relative, so sampling noise is ignored at any power level
+  const hasDistortion = D_mag > 1e-5 * S_total;
+
+  // Running P + jQ sums of the branches; the chain may reach further out than the total
+  const branches: PowerContribution[] = contributions ?? [];
+  const chain = branches.reduce<{ P: number; Q: number }[]>(
+    (points, c) => [...points, { P: points[points.length - 1].P + c.P, Q: points[points.length - 1].Q + c.Q }],
+    [{ P: 0, Q: 0 }]
+  );
+  const extent = Math.max(S_total, ...chain.map(c => Math.hypot(c.P, c.Q)));
 
   // Auto-scaling logic
-  const scale = S_mag > 0 ? MAX_R / S_mag : 1;
+  const scale = extent > 0 ? MAX_R / extent : 1;
 
   // Vector lengths in pixels
   const pLen = P_mag * scale;
@@ -80,23 +113,77 @@ export const PowerTriangleDiagram: React.FC<PowerTriangleDiagramProps> = ({ volt
       y: CY + (sTip.y - CY) * sRatio
   };
 
+  // 4. D Vector (Distortion) - perpendicular to S, rotated +90° in math axes
+  const dLen = D_mag * scale;
+  const dTip = sLen > 0
+    ? { x: sTip.x - (qLen / sLen) * dLen, y: sTip.y - (pLen / sLen) * dLen }
+    : { x: CX, y: CY - dLen };
+  const dRatio = dLen > LINE_OFFSET ? (dLen - LINE_OFFSET) / dLen : 0;
+  const dLineEnd = {
+      x: sTip.x + (dTip.x - sTip.x) * dRatio,
+      y: sTip.y + (dTip.y - sTip.y) * dRatio
+  };
+  // 5. Corrected S' (after PFC) - the capacitor bank removes Qc from the Q leg
+  const cTip = corrected ? { x: CX + corrected.P * scale, y: CY - corrected.Q * scale } : null;
+  const cLen = cTip ? Math.hypot(cTip.x - CX, cTip.y - CY) : 0;
+  const cRatio = cLen > LINE_OFFSET ? (cLen - LINE_OFFSET) / cLen : 0;
+  const cLineEnd = cTip ? {
+      x: CX + (cTip.x - CX) * cRatio,
+      y: CY + (cTip.y - CY) * cRatio
+  } : null;
+
+  const totalLen = Math.hypot(dTip.x - CX, dTip.y - CY);
+  const totalRatio = totalLen > LINE_OFFSET ? (totalLen - LINE_OFFSET) / totalLen : 0;
+  const totalLineEnd = {
+      x: CX + (dTip.x - CX) * totalRatio,
+      y: CY + (dTip.y - CY) * totalRatio
+  };
+
+  const exportImage = (format: 'svg' | 'png') => {
+    if (!svgRef.current || !exportContext) return;
+    // Same values as the on-screen legend
+    const legend: ExportLine[] = [
+      { text: `P: ${si(P_mag, 'W', 4)}`, color: '#4ADE80' },
+      { text: `Q: ${si(Q_mag, 'VAR', 4)}`, color: '#C084FC' },
+      ...(hasDistortion ? [{ text: `D: ${si(D_mag, 'VA', 4)}`, color: '#FB923C' }] : []),
+      { text: `S: ${si(S_total, 'VA', 4)}`, color: '#60A5FA' },
+      ...(corrected ? [{ text: `S': ${si(Math.hypot(corrected.P, corrected.Q), 'VA', 4)}`, color: '#34D399' }] : []),
+      ...(contributions ?? []).map(c => ({ text: `${c.label}: ${si(Math.hypot(c.P, c.Q), 'VA', 4)}`, color: c.color })),
+    ];
+    const markup = standaloneSvg(svgRef.current, t.triangle.title, legend, exportContext);
+    if (format === 'svg') downloadSvg(`${t.triangle.file}.svg`, markup);
+    else downloadPng(`${t.triangle.file}.png`, markup);
+  };
 
   return (
     <div className="w-full h-full min-h-[350px] bg-gray-900 rounded-xl border border-gray-700 p-4 flex flex-col items-center justify-center relative shadow-inner shadow-black/50">
        {/* Header / Values at Top */}
        <div className="absolute top-3 left-0 w-full px-4 flex justify-between items-start z-10">
           <div>
-            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider">Triángulo de Potencia</h3>
-            <span className="text-[10px] text-gray-600 font-mono">Plano de Potencia Compleja</span>
+            <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t.triangle.title}</h3>
+            <span className="text-[10px] text-gray-600 font-mono">{t.triangle.subtitle}</span>
+            {exportContext && (
+              <div className="mt-1">
+                <ExportButtons actions={[{ label: 'SVG', onClick: () => exportImage('svg') }, { label: 'PNG', onClick: () => exportImage('png') }]} />
+              </div>
+            )}
           </div>
           <div className="text-right font-mono text-[10px]">
-             <div className="text-green-400">P: {P_mag.toFixed(1)} W</div>
-             <div className="text-purple-400">Q: {Q_mag.toFixed(1)} VAR</div>
-             <div className="text-blue-400">S: {S_mag.toFixed(1)} VA</div>
+             <div className="text-green-400">P: {si(P_mag, 'W', 4)}</div>
+             <div className="text-purple-400">Q: {si(Q_mag, 'VAR', 4)}</div>
+             {hasDistortion && <div className="text-orange-400">D: {si(D_mag, 'VA', 4)}</div>}
+             <div className="text-blue-400">S: {si(S_total, 'VA', 4)}</div>
+             {corrected && <div className="text-emerald-400">S': {si(Math.hypot(corrected.P, corrected.Q), 'VA', 4)}</div>}
+             {contributions?.map(c => (
+               <div key={c.key} className="flex items-center gap-1 justify-end text-[9px] text-gray-400">
+                 <span className="w-2 h-2 rounded-full" style={{ backgroundColor: c.color }}></span>
+                 {c.label}: {si(Math.hypot(c.P, c.Q), 'VA', 4)}
+               </div>
+             ))}
           </div>
        </div>
 
-        <svg viewBox="0 0 300 300" className="w-full h-full max-w-[350px] mt-6">
+        <svg ref={svgRef} viewBox="0 0 300 300" className="w-full h-full max-w-[350px] mt-6">
             <defs>
                 <marker 
                     id="arrow-p" 
@@ -131,13 +218,70 @@ export const PowerTriangleDiagram: React.FC<PowerTriangleDiagramProps> = ({ volt
                 >
                     <path d={`M0,0 L${ARROW_LEN},${ARROW_WIDTH/2} L0,${ARROW_WIDTH} z`} fill="#60A5FA" />
                 </marker>
+                 <marker 
+                    id="arrow-d" 
+                    markerWidth={ARROW_LEN} 
+                    markerHeight={ARROW_WIDTH} 
+                    refX={ARROW_INSET} 
+                    refY={ARROW_WIDTH/2} 
+                    orient="auto"
+                    markerUnits="userSpaceOnUse"
+                >
+                    <path d={`M0,0 L${ARROW_LEN},${ARROW_WIDTH/2} L0,${ARROW_WIDTH} z`} fill="#FB923C" />
+                </marker>
+                 <marker 
+                    id="arrow-corrected" 
+                    markerWidth={ARROW_LEN} 
+                    markerHeight={ARROW_WIDTH} 
+                    refX={ARROW_INSET} 
+                    refY={ARROW_WIDTH/2} 
+                    orient="auto"
+                    markerUnits="userSpaceOnUse"
+                >
+                    <path d={`M0,0 L${ARROW_LEN},${ARROW_WIDTH/2} L0,${ARROW_WIDTH} z`} fill="#34D399" />
+                </marker>
+                {contributions?.map(c => (
+                  <marker 
+                      key={c.key}
+                      id={`arrow-${c.key}`} 
+                      markerWidth={ARROW_LEN * 0.7} 
+                      markerHeight={ARROW_WIDTH * 0.7} 
+                      refX={ARROW_INSET} 
+                      refY={(ARROW_WIDTH * 0.7) / 2} 
+                      orient="auto"
+                      markerUnits="userSpaceOnUse"
+                  >
+                      <path d={`M0,0 L${ARROW_LEN * 0.7},${(ARROW_WIDTH * 0.7) / 2} L0,${ARROW_WIDTH * 0.7} z`} fill={c.color} />
+                  </marker>
+                ))}
             </defs>
 
             {/* Grid & Axes */}
             <line x1="20" y1={CY} x2="280" y2={CY} stroke="#374151" strokeWidth="1" /> {/* Real Axis */}
             <line x1={CX} y1="20" x2={CX} y2="280" stroke="#374151" strokeWidth="1" /> {/* Imag Axis */}
-            <text x="280" y={CY + 12} fill="#6B7280" fontSize="9" textAnchor="end">Activa (W)</text>
-            <text x={CX + 5} y="20" fill="#6B7280" fontSize="9" textAnchor="start">Reactiva (j)</text>
+            <text x="280" y={CY + 12} fill="#6B7280" fontSize="9" textAnchor="end">{t.triangle.activeAxis}</text>
+            <text x={CX + 5} y="20" fill="#6B7280" fontSize="9" textAnchor="start">{t.triangle.reactiveAxis}</text>
+
+            {/* Branch S_k vectors, head-to-tail: P and Q add separately, so the chain ends on the total S */}
+            {contributions?.map((c, k) => {
+              const from = { x: CX + chain[k].P * scale, y: CY - chain[k].Q * scale };
+              const to = { x: CX + chain[k + 1].P * scale, y: CY - chain[k + 1].Q * scale };
+              const length = Math.hypot(to.x - from.x, to.y - from.y);
+              if (length <= 0) return null;
+              const offset = LINE_OFFSET * 0.7;
+              const ratio = length > offset ? (length - offset) / length : 1;
+              return (
+                <line 
+                    key={c.key}
+                    x1={from.x} y1={from.y} 
+                    x2={from.x + (to.x - from.x) * ratio} y2={from.y + (to.y - from.y) * ratio} 
+                    stroke={c.color} 
+                    strokeWidth="2" 
+                    markerEnd={ratio < 1 ? `url(#arrow-${c.key})` : undefined}
+                    opacity="0.9"
+                />
+              );
+            })}
 
             {/* P Vector (Active Power) - Green */}
             <line 
@@ -162,15 +306,64 @@ export const PowerTriangleDiagram: React.FC<PowerTriangleDiagramProps> = ({ volt
             />
 
             {/* S Vector (Apparent Power) - Blue */}
+            {/* With distortion this is only the P-Q part; the total S closes the triangle through D */}
             <line 
                 x1={CX} y1={CY} 
                 x2={sLineEnd.x} y2={sLineEnd.y} 
                 stroke="#60A5FA" 
-                strokeWidth="3" 
-                markerEnd="url(#arrow-s)"
-                opacity="1"
+                strokeWidth={hasDistortion ? 1.5 : 3} 
+                strokeDasharray={hasDistortion ? '4 2' : undefined}
+                markerEnd={hasDistortion ? undefined : 'url(#arrow-s)'}
+                opacity={hasDistortion ? 0.6 : 1}
             />
+
+            {hasDistortion && (
+              <g>
+                {/* D Vector (Distortion Power) - Orange */}
+                <line 
+                    x1={sTip.x} y1={sTip.y} 
+                    x2={dLineEnd.x} y2={dLineEnd.y} 
+                    stroke="#FB923C" 
+                    strokeWidth="3" 
+                    strokeDasharray="4 2"
+                    markerEnd="url(#arrow-d)"
+                    opacity="0.9"
+                />
+                {/* Total S Vector */}
+                <line 
+                    x1={CX} y1={CY} 
+                    x2={totalLineEnd.x} y2={totalLineEnd.y} 
+                    stroke="#60A5FA" 
+                    strokeWidth="3" 
+                    markerEnd="url(#arrow-s)"
+                />
+              </g>
+            )}
             
+            {/* Power Factor Correction Overlay */}
+            {cTip && cLineEnd && (
+              <g>
+                {/* Qc: the bank's reactive power, from the original Q tip down to the corrected one */}
+                <line 
+                    x1={sTip.x} y1={sTip.y} 
+                    x2={cTip.x} y2={cTip.y} 
+                    stroke="#34D399" 
+                    strokeWidth="2" 
+                    strokeDasharray="2 3"
+                    opacity="0.8"
+                />
+                <text x={sTip.x + 6} y={(sTip.y + cTip.y) / 2} fill="#34D399" fontSize="9" textAnchor="start">Q_c</text>
+                <line 
+                    x1={CX} y1={CY} 
+                    x2={cLineEnd.x} y2={cLineEnd.y} 
+                    stroke="#34D399" 
+                    strokeWidth="2.5" 
+                    strokeDasharray="5 3"
+                    markerEnd="url(#arrow-corrected)"
+                />
+              </g>
+            )}
+
             {/* Angle Indicator (Power Factor Angle) */}
             {S_mag > 0 && (
               <path 
@@ -187,7 +380,7 @@ export const PowerTriangleDiagram: React.FC<PowerTriangleDiagramProps> = ({ volt
                 fontSize="10" 
                 textAnchor="start"
             >
-               {theta.toFixed(1)}°
+               {fmt(theta, 1)}°
             </text>
 
             {/* Center Point */}
@@ -0,0 +1,74 @@
+import React, { useEffect, useState } from 'react';
+import { KnobRanges } from '../types';
+import { parseSI } from '../services/format';
+import { useI18n } from '../i18n';
+
+interface RangeFieldProps {
+  label: string;
+  value: number; // In base units (V, A, Ω, H, F)
+  unit: string;
+  onChange: (value: number) => void;
+}
+
+// One upper limit, typed in engineering notation
+const RangeField: React.FC<RangeFieldProps> = ({ label, value, unit, onChange }) => {
+  const { locale, si } = useI18n();
+  const [text, setText] = useState(si(value, unit));
+
+  useEffect(() => setText(si(value, unit)), [value, unit, si]);
+
+  const commit = () => {
+    const typed = parseSI(text, unit, 1, locale);
+    if (typed !== null && typed > 0) onChange(typed);
+    else setText(si(value, unit));
+  };
+
+  return (
+    <label className="flex items-center justify-between gap-2 text-[10px] text-gray-400">
+      <span>{label}</span>
+      <input
+        type="text"
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => e.key === 'Enter' && (e.target as HTMLInputElement).blur()}
+        className="w-24 bg-gray-900 border border-gray-700 rounded px-2 py-0.5 text-xs text-white font-mono text-right"
+      />
+    </label>
+  );
+};
+
+interface RangeSettingsProps {
+  ranges: KnobRanges;
+  onChange: (updates: Partial<KnobRanges>) => void;
+}
+
+export const RangeSettings: React.FC<RangeSettingsProps> = ({ ranges, onChange }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 space-y-2">
+      <div className="flex justify-between items-center">
+        <span className="text-xs font-bold uppercase tracking-wider text-gray-400">{t.ranges.title}</span>
+        <button
+          onClick={() => setOpen(v => !v)}
+          className="px-2 py-0.5 rounded text-[10px] font-mono font-bold bg-gray-900 text-gray-500 hover:text-gray-300 transition-colors"
+        >
+          {open ? t.ranges.hide : t.ranges.show}
+        </button>
+      </div>
+      {open && (
+        <>
+          <RangeField label={t.ranges.voltage} value={ranges.voltageMax} unit="V" onChange={(v) => onChange({ voltageMax: v })} />
+          <RangeField label={t.ranges.current} value={ranges.currentMax} unit="A" onChange={(v) => onChange({ currentMax: v })} />
+          <RangeField label={t.ranges.resistance} value={ranges.resistanceMax} unit="Ω" onChange={(v) => onChange({ resistanceMax: v })} />
+          {/* Inductance and capacitance are stored in mH and µF */}
+          <RangeField label={t.ranges.inductance} value={ranges.inductanceMax / 1000} unit="H" onChange={(v) => onChange({ inductanceMax: v * 1000 })} />
+          <RangeField label={t.ranges.capacitance} value={ranges.capacitanceMax * 1e-6} unit="F" onChange={(v) => onChange({ capacitanceMax: v * 1e6 })} />
+          <p className="text-[9px] text-gray-500">{t.ranges.hint}</p>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,128 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Scenario, SimulationState } from '../types';
+import { PRESETS, SCENARIO_VERSION } from '../constants';
+import { createScenario, decodeScenarioHash, encodeScenarioHash, parseScenario, serializeScenario } from '../services/scenario';
+import { downloadText } from './ExportButtons';
+import { useI18n } from '../i18n';
+
+interface ScenarioManagerProps {
+  state: SimulationState;
+  simSpeed: number;
+  onLoad: (scenario: Scenario) => void;
+}
+
+type Message = { kind: 'ok' | 'error'; lines: string[] };
+
+// Lower-case ASCII file name from a free-form scenario name
+const toFileName = (name: string, fallback: string) =>
+  (name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || fallback) + '.json';
+
+export const ScenarioManager: React.FC<ScenarioManagerProps> = ({ state, simSpeed, onLoad }) => {
+  const { t } = useI18n();
+  // Library entries in the UI language, falling back to the names stored with the preset
+  const presetText = (preset: typeof PRESETS[number]) => t.presets[preset.id] ?? preset;
+  const [presetId, setPresetId] = useState(PRESETS[0].id);
+  const [name, setName] = useState(() => presetText(PRESETS[0]).name);
+  const [message, setMessage] = useState<Message | null>(null);
+  const fileInput = useRef<HTMLInputElement>(null);
+
+  const load = (scenario: Scenario, source: string) => {
+    onLoad(scenario);
+    setName(scenario.name);
+    setMessage({ kind: 'ok', lines: [t.scenarios.loaded(scenario.name || t.scenarios.unnamed, source)] });
+  };
+
+  // A shared link opens straight into its scenario
+  useEffect(() => {
+    const result = decodeScenarioHash(window.location.hash, t.scenarioErrors);
+    if (!result) return;
+    if (result.status === 'ok') load(result.scenario, t.scenarios.fromLink);
+    else setMessage({ kind: 'error', lines: [t.scenarios.linkFailed, ...result.errors] });
+  }, []);
+
+  const applyPreset = () => {
+    const preset = PRESETS.find(p => p.id === presetId);
+    if (!preset) return;
+    load({ version: SCENARIO_VERSION, name: presetText(preset).name, simSpeed: preset.simSpeed, state: preset.state }, t.scenarios.fromLibrary);
+  };
+
+  const saveFile = () => {
+    downloadText(toFileName(name, t.scenarios.defaultFile), serializeScenario(createScenario(state, simSpeed, name)), 'application/json');
+    setMessage({ kind: 'ok', lines: [t.scenarios.saved] });
+  };
+
+  const openFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow reopening the same file
+    if (!file) return;
+    const result = parseScenario(await file.text(), t.scenarioErrors);
+    if (result.status === 'ok') load(result.scenario, file.name);
+    else setMessage({ kind: 'error', lines: [t.scenarios.invalidFile(file.name), ...result.errors] });
+  };
+
+  const shareLink = async () => {
+    const { origin, pathname, search } = window.location;
+    const url = origin + pathname + search + encodeScenarioHash(createScenario(state, simSpeed, name));
+    window.history.replaceState(null, '', url);
+    try {
+      await navigator.clipboard.writeText(url);
+      setMessage({ kind: 'ok', lines: [t.scenarios.copied] });
+    } catch {
+      setMessage({ kind: 'ok', lines: [t.scenarios.copyManually] });
+    }
+  };
+
+  const buttonClass = 'px-2 py-1 rounded-md text-[10px] font-semibold uppercase tracking-wider bg-gray-900 hover:bg-gray-700 text-gray-300 transition-colors';
+  const selectedPreset = PRESETS.find(p => p.id === presetId);
+
+  return (
+    <div className="bg-gray-900/50 rounded-xl border border-gray-800 p-5 backdrop-blur-sm">
+      <h2 className="text-white font-bold flex items-center gap-2 mb-4">
+        <span className="w-2 h-2 rounded-full bg-white"></span> {t.scenarios.title}
+      </h2>
+
+      <div className="space-y-3">
+        {/* Preset Library */}
+        <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 space-y-2">
+          <div className="text-xs font-bold uppercase tracking-wider text-gray-400">{t.scenarios.library}</div>
+          <div className="flex gap-2">
+            <select
+              value={presetId}
+              onChange={(e) => setPresetId(e.target.value)}
+              className="flex-1 min-w-0 bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-white"
+            >
+              {PRESETS.map(p => (
+                <option key={p.id} value={p.id}>{presetText(p).name}</option>
+              ))}
+            </select>
+            <button onClick={applyPreset} className={buttonClass}>{t.scenarios.load}</button>
+          </div>
+          {selectedPreset && <p className="text-[10px] text-gray-500">{presetText(selectedPreset).description}</p>}
+        </div>
+
+        {/* Save / Open / Share */}
+        <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 space-y-2">
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder={t.scenarios.namePlaceholder}
+            className="w-full bg-gray-900 border border-gray-700 rounded px-2 py-1 text-xs text-white"
+          />
+          <div className="grid grid-cols-3 gap-1">
+            <button onClick={saveFile} className={buttonClass}>{t.scenarios.save}</button>
+            <button onClick={() => fileInput.current?.click()} className={buttonClass}>{t.scenarios.open}</button>
+            <button onClick={shareLink} className={buttonClass}>{t.scenarios.link}</button>
+          </div>
+          <input ref={fileInput} type="file" accept=".json,application/json" onChange={openFile} className="hidden" />
+        </div>
+
+        {message && (
+          <div className={`p-2 rounded-lg border text-[10px] space-y-0.5 ${message.kind === 'error' ? 'border-red-500/30 bg-red-500/10 text-red-400' : 'border-emerald-500/30 bg-emerald-500/10 text-emerald-400'}`}>
+            {message.lines.map((line, i) => <div key={i} className={i > 0 && message.kind === 'error' ? 'font-mono' : ''}>{line}</div>)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
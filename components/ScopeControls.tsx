@@ -0,0 +1,129 @@
+import React from 'react';
+import { KnobControl } from './KnobControl';
+import { ScopeSettings, TriggerMode, TriggerSettings } from '../types';
+import { SCOPE_AMP_STEPS, SCOPE_H_DIVISIONS, SCOPE_TIME_STEPS, SCOPE_V_DIVISIONS, SCOPE_VOLT_STEPS } from '../constants';
+import { useI18n } from '../i18n';
+
+interface DivisionStepperProps {
+  label: string;
+  value: number;
+  steps: number[];
+  unit: string;
+  scale?: number; // Factor from the stored value to the base unit (ms → s)
+  colorClass: string;
+  onChange: (value: number) => void;
+}
+
+// Stepped selector over a 1-2-5 sequence, like a bench scope's rotary switch
+const DivisionStepper: React.FC<DivisionStepperProps> = ({ label, value, steps, unit, scale = 1, colorClass, onChange }) => {
+  const { si } = useI18n();
+  // Values outside the sequence (e.g. loaded from elsewhere) snap to the closest step
+  const index = steps.reduce((best, step, i) => (Math.abs(step - value) < Math.abs(steps[best] - value) ? i : best), 0);
+  const buttonClass = 'w-6 h-6 rounded bg-gray-900 text-gray-300 hover:bg-gray-700 disabled:opacity-30 disabled:hover:bg-gray-900 font-mono text-xs';
+
+  return (
+    <div className="p-2 bg-gray-800 rounded-lg border border-gray-700">
+      <div className={`text-[10px] font-bold uppercase tracking-wider ${colorClass}`}>{label}</div>
+      <div className="flex items-center justify-between mt-1">
+        <button className={buttonClass} disabled={index === 0} onClick={() => onChange(steps[index - 1])}>‹</button>
+        <span className="font-mono text-sm text-white">{si(value * scale, unit)}/div</span>
+        <button className={buttonClass} disabled={index === steps.length - 1} onClick={() => onChange(steps[index + 1])}>›</button>
+      </div>
+    </div>
+  );
+};
+
+const TRIGGER_MODES: TriggerMode[] = ['auto', 'normal', 'single'];
+
+interface ScopeControlsProps {
+  settings: ScopeSettings;
+  onChange: (updates: Partial<ScopeSettings>) => void;
+  onAutoset: () => void;
+  onRearm: () => void;
+}
+
+export const ScopeControls: React.FC<ScopeControlsProps> = ({ settings, onChange, onAutoset, onRearm }) => {
+  const { t } = useI18n();
+  const { trigger } = settings;
+  const updateTrigger = (updates: Partial<TriggerSettings>) => onChange({ trigger: { ...trigger, ...updates } });
+
+  const halfScreen = SCOPE_V_DIVISIONS / 2;
+  const levelRange = halfScreen * (trigger.source === 'voltage' ? settings.voltsPerDiv : settings.ampsPerDiv);
+
+  const segmentClass = (active: boolean) =>
+    `flex-1 px-2 py-1 rounded-md text-[10px] font-semibold uppercase tracking-wider transition-colors ${active ? 'bg-orange-500/20 text-orange-400' : 'text-gray-500 hover:text-gray-300'}`;
+
+  return (
+    <div className="w-full bg-gray-900 rounded-xl border border-gray-700 p-4 shadow-inner shadow-black/50">
+      <div className="flex justify-between items-center mb-3">
+        <div className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t.scopeControls.title}</div>
+        <button
+          onClick={onAutoset}
+          className="px-3 py-1 rounded-md text-xs font-semibold uppercase tracking-wider bg-gray-800 hover:bg-gray-700 text-gray-300 transition-colors"
+        >
+          {t.scopeControls.autoset}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {/* Horizontal */}
+        <div className="space-y-2">
+          <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">{t.scopeControls.horizontal}</div>
+          <DivisionStepper label={t.scopeControls.timebase} value={settings.timePerDiv} steps={SCOPE_TIME_STEPS} unit="s" scale={1e-3} colorClass="text-gray-300" onChange={(v) => onChange({ timePerDiv: v })} />
+          <KnobControl label={t.scopeControls.position} value={settings.horizontalPosition} min={0} max={settings.timePerDiv * SCOPE_H_DIVISIONS} step={settings.timePerDiv / 10} unit="ms" colorClass="text-white" onChange={(v) => onChange({ horizontalPosition: v })} />
+        </div>
+
+        {/* Vertical */}
+        <div className="space-y-2">
+          <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">{t.scopeControls.vertical}</div>
+          <DivisionStepper label={t.scopeControls.voltage} value={settings.voltsPerDiv} steps={SCOPE_VOLT_STEPS} unit="V" colorClass="text-yellow-500" onChange={(v) => onChange({ voltsPerDiv: v })} />
+          <KnobControl label={t.scopeControls.voltagePosition} value={settings.voltageOffset} min={-halfScreen * settings.voltsPerDiv} max={halfScreen * settings.voltsPerDiv} step={settings.voltsPerDiv / 10} unit="V" engineering colorClass="text-yellow-500" onChange={(v) => onChange({ voltageOffset: v })} />
+          <DivisionStepper label={t.scopeControls.current} value={settings.ampsPerDiv} steps={SCOPE_AMP_STEPS} unit="A" colorClass="text-cyan-400" onChange={(v) => onChange({ ampsPerDiv: v })} />
+          <KnobControl label={t.scopeControls.currentPosition} value={settings.currentOffset} min={-halfScreen * settings.ampsPerDiv} max={halfScreen * settings.ampsPerDiv} step={settings.ampsPerDiv / 10} unit="A" engineering colorClass="text-cyan-400" onChange={(v) => onChange({ currentOffset: v })} />
+        </div>
+
+        {/* Trigger */}
+        <div className="space-y-2">
+          <div className="flex justify-between items-center">
+            <div className="text-[10px] font-bold text-gray-500 uppercase tracking-wider">{t.scopeControls.trigger}</div>
+            <button
+              onClick={() => updateTrigger({ enabled: !trigger.enabled })}
+              className={`px-2 py-0.5 rounded text-[10px] font-mono font-bold transition-colors ${trigger.enabled ? 'bg-orange-500/20 text-orange-400' : 'bg-gray-800 text-gray-500 hover:text-gray-300'}`}
+            >
+              {trigger.enabled ? t.scopeControls.armed : t.scopeControls.free}
+            </button>
+          </div>
+
+          <div className={`space-y-2 ${trigger.enabled ? '' : 'opacity-40 pointer-events-none'}`}>
+            <div className="flex gap-1 p-1 bg-gray-800 rounded-lg border border-gray-700">
+              {TRIGGER_MODES.map(m => (
+                <button key={m} onClick={() => updateTrigger({ mode: m })} className={segmentClass(trigger.mode === m)}>
+                  {t.scopeControls.modes[m]}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <div className="flex flex-1 gap-1 p-1 bg-gray-800 rounded-lg border border-gray-700">
+                <button onClick={() => updateTrigger({ source: 'voltage', level: 0 })} className={segmentClass(trigger.source === 'voltage')}>V</button>
+                <button onClick={() => updateTrigger({ source: 'current', level: 0 })} className={segmentClass(trigger.source === 'current')}>I</button>
+              </div>
+              <div className="flex flex-1 gap-1 p-1 bg-gray-800 rounded-lg border border-gray-700">
+                <button title={t.scopeControls.rising} onClick={() => updateTrigger({ slope: 'rising' })} className={segmentClass(trigger.slope === 'rising')}>↑</button>
+                <button title={t.scopeControls.falling} onClick={() => updateTrigger({ slope: 'falling' })} className={segmentClass(trigger.slope === 'falling')}>↓</button>
+              </div>
+            </div>
+            <KnobControl label={t.scopeControls.level} value={trigger.level} min={-levelRange} max={levelRange} step={levelRange / 40} unit={trigger.source === 'voltage' ? 'V' : 'A'} engineering colorClass="text-white" onChange={(v) => updateTrigger({ level: v })} />
+            {trigger.mode === 'single' && (
+              <button
+                onClick={onRearm}
+                className="w-full px-3 py-1 rounded-md text-xs font-semibold uppercase tracking-wider bg-orange-500/20 text-orange-400 hover:bg-orange-500/30 transition-colors"
+              >
+                {t.scopeControls.rearm}
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
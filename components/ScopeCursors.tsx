@@ -0,0 +1,112 @@
+import React, { useRef } from 'react';
+import { usePlotArea, useXAxisScale, useYAxisScale, useXAxisInverseScale, useYAxisInverseScale } from 'recharts';
+
+// Cursor pair positions: time in ms, amplitude in units of the voltage (left) axis
+export interface CursorPositions {
+  t1: number;
+  t2: number;
+  y1: number;
+  y2: number;
+}
+
+type CursorKey = keyof CursorPositions;
+
+interface ScopeCursorLayerProps {
+  cursors: CursorPositions;
+  onChange: (updates: Partial<CursorPositions>) => void;
+}
+
+const CURSOR_COLOR = '#F472B6';
+const HIT_WIDTH = 12; // px, invisible grab area around each cursor line
+
+/**
+ * Draggable vertical (time) and horizontal (amplitude) cursor pairs.
+ * Must be rendered as a child of a Recharts cartesian chart with a numeric X axis
+ * and a Y axis with id "left".
+ */
+export const ScopeCursorLayer: React.FC<ScopeCursorLayerProps> = ({ cursors, onChange }) => {
+  const plot = usePlotArea();
+  const xScale = useXAxisScale();
+  const yScale = useYAxisScale('left');
+  const xInverse = useXAxisInverseScale();
+  const yInverse = useYAxisInverseScale('left');
+  const dragging = useRef<CursorKey | null>(null);
+
+  if (!plot || !xScale || !yScale || !xInverse || !yInverse) return null;
+
+  // Converts a pointer event into chart (SVG user space) coordinates
+  const toChartPoint = (e: React.PointerEvent<SVGElement>) => {
+    const svg = (e.currentTarget as SVGElement).ownerSVGElement;
+    const ctm = svg?.getScreenCTM();
+    if (!svg || !ctm) return null;
+    const pt = svg.createSVGPoint();
+    pt.x = e.clientX;
+    pt.y = e.clientY;
+    return pt.matrixTransform(ctm.inverse());
+  };
+
+  const handlePointerDown = (key: CursorKey) => (e: React.PointerEvent<SVGElement>) => {
+    dragging.current = key;
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGElement>) => {
+    const key = dragging.current;
+    if (!key) return;
+    const pt = toChartPoint(e);
+    if (!pt) return;
+    if (key === 't1' || key === 't2') {
+      const x = Math.max(plot.x, Math.min(plot.x + plot.width, pt.x));
+      onChange({ [key]: Number(xInverse(x)) });
+    } else {
+      const y = Math.max(plot.y, Math.min(plot.y + plot.height, pt.y));
+      onChange({ [key]: Number(yInverse(y)) });
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<SVGElement>) => {
+    dragging.current = null;
+    (e.currentTarget as Element).releasePointerCapture(e.pointerId);
+  };
+
+  const renderVertical = (key: 't1' | 't2', label: string) => {
+    const x = xScale(cursors[key]);
+    if (x === undefined) return null;
+    return (
+      <g key={key}>
+        <line x1={x} y1={plot.y} x2={x} y2={plot.y + plot.height} stroke={CURSOR_COLOR} strokeWidth={1} strokeDasharray="4 3" />
+        <text x={x + 3} y={plot.y + 10} fill={CURSOR_COLOR} fontSize={10} fontFamily="monospace">{label}</text>
+        <rect
+          x={x - HIT_WIDTH / 2} y={plot.y} width={HIT_WIDTH} height={plot.height}
+          fill="transparent" style={{ cursor: 'ew-resize' }}
+          onPointerDown={handlePointerDown(key)} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp}
+        />
+      </g>
+    );
+  };
+
+  const renderHorizontal = (key: 'y1' | 'y2', label: string) => {
+    const y = yScale(cursors[key]);
+    if (y === undefined) return null;
+    return (
+      <g key={key}>
+        <line x1={plot.x} y1={y} x2={plot.x + plot.width} y2={y} stroke={CURSOR_COLOR} strokeWidth={1} strokeDasharray="4 3" />
+        <text x={plot.x + plot.width - 3} y={y - 3} fill={CURSOR_COLOR} fontSize={10} fontFamily="monospace" textAnchor="end">{label}</text>
+        <rect
+          x={plot.x} y={y - HIT_WIDTH / 2} width={plot.width} height={HIT_WIDTH}
+          fill="transparent" style={{ cursor: 'ns-resize' }}
+          onPointerDown={handlePointerDown(key)} onPointerMove={handlePointerMove} onPointerUp={handlePointerUp}
+        />
+      </g>
+    );
+  };
+
+  return (
+    <g className="scope-cursors">
+      {renderVertical('t1', 'T1')}
+      {renderVertical('t2', 'T2')}
+      {renderHorizontal('y1', 'Y1')}
+      {renderHorizontal('y2', 'Y2')}
+    </g>
+  );
+};
@@ -0,0 +1,64 @@
+import React from 'react';
+import { KnobControl } from './KnobControl';
+import { SignalParams, Waveform } from '../types';
+import { useI18n } from '../i18n';
+
+// Waveform Icon Helper
+export const WaveformIcon = ({ type, selected }: { type: Waveform; selected: boolean }) => {
+  const color = selected ? "stroke-white" : "stroke-gray-500";
+  return (
+    <svg width="24" height="24" viewBox="0 0 24 24" fill="none" xmlns="http://www.w3.org/2000/svg" className={selected ? "opacity-100" : "opacity-60"}>
+      {type === 'sine' && <path d="M2 12C2 12 5 4 9 4C13 4 15 20 19 20C23 20 22 12 22 12" strokeWidth="2" strokeLinecap="round" className={color} />}
+      {type === 'square' && <path d="M3 12V6H9V18H15V6H21V12" strokeWidth="2" strokeLinecap="round" className={color} />}
+      {type === 'triangle' && <path d="M3 12L7 4L11 20L15 4L19 20L21 12" strokeWidth="2" strokeLinecap="round" className={color} />}
+      {type === 'sawtooth' && <path d="M3 20L9 4V20L15 4V20L21 4" strokeWidth="2" strokeLinecap="round" className={color} />}
+    </svg>
+  );
+};
+
+const WAVEFORMS: Waveform[] = ['sine', 'square', 'triangle', 'sawtooth'];
+
+interface SignalShapeControlsProps {
+  signal: SignalParams;
+  unit: string;
+  range: number; // Amplitude knob limit; the DC offset spans ±range
+  colorClass: string;
+  onChange: (updates: Partial<SignalParams>) => void;
+}
+
+export const SignalShapeControls: React.FC<SignalShapeControlsProps> = ({ signal, unit, range, colorClass, onChange }) => {
+  const { t } = useI18n();
+  // Duty cycle only changes the shape of pulse and triangle waves
+  const hasDuty = signal.waveform === 'square' || signal.waveform === 'triangle';
+
+  return (
+    <div className="space-y-3">
+      <div className="grid grid-cols-4 gap-1 p-1 bg-gray-800 rounded-lg border border-gray-700">
+        {WAVEFORMS.map(w => (
+          <button
+            key={w}
+            title={t.signal.waveforms[w]}
+            onClick={() => onChange({ waveform: w })}
+            className={`flex justify-center py-1 rounded-md transition-colors ${signal.waveform === w ? 'bg-white/10' : 'hover:bg-white/5'}`}
+          >
+            <WaveformIcon type={w} selected={signal.waveform === w} />
+          </button>
+        ))}
+      </div>
+
+      <KnobControl label={t.signal.dc} value={signal.dcOffset} min={-range} max={range} unit={unit} colorClass={colorClass} engineering onChange={(v) => onChange({ dcOffset: v })} />
+      {hasDuty && (
+        <KnobControl
+          label={signal.waveform === 'square' ? t.signal.dutyCycle : t.signal.symmetry}
+          value={signal.dutyCycle}
+          min={1}
+          max={99}
+          step={1}
+          unit="%"
+          colorClass={colorClass}
+          onChange={(v) => onChange({ dutyCycle: v })}
+        />
+      )}
+    </div>
+  );
+};
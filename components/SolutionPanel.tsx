@@ -0,0 +1,44 @@
+import React, { useState } from 'react';
+import { SolutionStep } from '../services/solution';
+import { useI18n } from '../i18n';
+
+interface SolutionPanelProps {
+  steps: SolutionStep[];
+}
+
+export const SolutionPanel: React.FC<SolutionPanelProps> = ({ steps }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-700 p-4 shadow-inner shadow-black/50">
+      <div className="flex justify-between items-center">
+        <div>
+          <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t.solution.title}</h3>
+          <span className="text-[10px] text-gray-600 font-mono">{t.solution.subtitle}</span>
+        </div>
+        <button
+          onClick={() => setOpen(v => !v)}
+          className={`px-2 py-0.5 rounded text-[10px] font-mono font-bold transition-colors ${open ? 'bg-white/10 text-white' : 'bg-gray-800 text-gray-500 hover:text-gray-300'}`}
+        >
+          {open ? t.solution.hide : t.solution.show}
+        </button>
+      </div>
+
+      {open && (
+        <ol className="mt-4 space-y-2">
+          {steps.map((step, k) => (
+            <li key={step.title} className="grid grid-cols-1 md:grid-cols-12 gap-x-4 gap-y-0.5 p-2 bg-gray-800/60 rounded-lg border border-gray-800">
+              <div className="md:col-span-2 text-[10px] text-gray-500 uppercase font-bold tracking-wider">
+                {k + 1}. {step.title}
+              </div>
+              <div className="md:col-span-3 font-mono text-[11px] text-gray-300">{step.formula}</div>
+              <div className="md:col-span-5 font-mono text-[11px] text-gray-400">{step.substitution}</div>
+              <div className="md:col-span-2 font-mono text-[11px] text-emerald-400 md:text-right">{step.result}</div>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
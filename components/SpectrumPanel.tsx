@@ -0,0 +1,130 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, Tooltip, Legend } from 'recharts';
+import { SignalParams } from '../types';
+import { MAX_HARMONIC_ORDER } from '../constants';
+import { analyzeSignal, SpectrumAnalysis, THEORETICAL_THD, THEORETICAL_CREST_FACTOR } from '../services/spectrum';
+import { snapToZero } from '../services/format';
+import { useI18n } from '../i18n';
+
+interface SpectrumPanelProps {
+  voltage: SignalParams;
+  current: SignalParams;
+  measured?: { voltage: SpectrumAnalysis; current: SpectrumAnalysis }; // Replaces the synthetic analysis
+}
+
+// Harmonics below this fraction of the fundamental are left out of the table
+const TABLE_THRESHOLD = 0.001;
+const TABLE_ROWS = 12;
+
+export const SpectrumPanel: React.FC<SpectrumPanelProps> = ({ voltage, current, measured }) => {
+  const { t, fmt, si } = useI18n();
+  const vSpectrum = useMemo(() => measured?.voltage ?? analyzeSignal(voltage, MAX_HARMONIC_ORDER), [voltage, measured]);
+  const iSpectrum = useMemo(() => measured?.current ?? analyzeSignal(current, MAX_HARMONIC_ORDER), [current, measured]);
+
+  // Bar heights as % of each signal's own fundamental
+  const data = useMemo(() => {
+    const v1 = vSpectrum.harmonics[0].magnitude;
+    const i1 = iSpectrum.harmonics[0].magnitude;
+    return vSpectrum.harmonics.map((h, idx) => ({
+      order: h.order,
+      voltage: v1 > 0 ? (h.magnitude / v1) * 100 : 0,
+      current: i1 > 0 ? (iSpectrum.harmonics[idx].magnitude / i1) * 100 : 0,
+    }));
+  }, [vSpectrum, iSpectrum]);
+
+  const tableRows = vSpectrum.harmonics
+    .map((h, idx) => ({ v: h, i: iSpectrum.harmonics[idx] }))
+    .filter(({ v, i }) =>
+      v.magnitude > TABLE_THRESHOLD * vSpectrum.harmonics[0].magnitude ||
+      i.magnitude > TABLE_THRESHOLD * iSpectrum.harmonics[0].magnitude)
+    .slice(0, TABLE_ROWS);
+
+  // Closed-form series only cover the symmetric, zero-mean shapes
+  const hasTheory = (s: SignalParams) =>
+    !measured && s.dcOffset === 0 && (s.waveform === 'sine' || s.waveform === 'sawtooth' || s.dutyCycle === 50);
+  const theory = (s: SignalParams, value: number, format: (v: number) => string) =>
+    hasTheory(s) ? format(value) : '—';
+  const percent = (v: number) => `${fmt(v * 100, 2)} %`;
+  const ratio = (v: number) => fmt(v, 3);
+
+  const stats = [
+    { label: 'THD-V', value: percent(vSpectrum.thd), theory: theory(voltage, THEORETICAL_THD[voltage.waveform], percent), color: 'text-yellow-400' },
+    { label: 'THD-I', value: percent(iSpectrum.thd), theory: theory(current, THEORETICAL_THD[current.waveform], percent), color: 'text-cyan-400' },
+    { label: t.spectrum.crestV, value: ratio(vSpectrum.crestFactor), theory: theory(voltage, THEORETICAL_CREST_FACTOR[voltage.waveform], ratio), color: 'text-yellow-400' },
+    { label: t.spectrum.crestI, value: ratio(iSpectrum.crestFactor), theory: theory(current, THEORETICAL_CREST_FACTOR[current.waveform], ratio), color: 'text-cyan-400' },
+  ];
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-700 p-4 shadow-inner shadow-black/50">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t.spectrum.title}</h3>
+          <span className="text-[10px] text-gray-600 font-mono">{t.spectrum.subtitle}</span>
+        </div>
+        <div className="text-right font-mono text-[10px] text-gray-500">
+          <div>DC V: {si(snapToZero(vSpectrum.dc, vSpectrum.rms), 'V', 3)}</div>
+          <div>DC I: {si(snapToZero(iSpectrum.dc, iSpectrum.rms), 'A', 3)}</div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+        {/* Bar Chart */}
+        <div className="lg:col-span-2 h-[240px]">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={data} margin={{ top: 10, right: 10, left: 0, bottom: 10 }}>
+              <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
+              <XAxis dataKey="order" stroke="#6B7280" tick={{ fontSize: 10 }} />
+              <YAxis stroke="#6B7280" tick={{ fontSize: 10 }} domain={[0, 100]} unit="%" />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', fontSize: '12px' }}
+                formatter={(value: number) => `${fmt(value, 2)} %`}
+                labelFormatter={(label) => t.spectrum.harmonic(label)}
+                cursor={{ fill: '#1f2937' }}
+              />
+              <Legend verticalAlign="top" height={24} iconType="square" wrapperStyle={{ fontSize: 10 }} />
+              <Bar dataKey="voltage" name={t.spectrum.voltage} fill="#EAB308" isAnimationActive={false} />
+              <Bar dataKey="current" name={t.spectrum.current} fill="#22D3EE" isAnimationActive={false} />
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        {/* Distortion Metrics */}
+        <div className="grid grid-cols-2 gap-2 content-start">
+          {stats.map(s => (
+            <div key={s.label} className="bg-gray-800 border border-gray-700 p-2 rounded-lg">
+              <div className="text-gray-500 text-[9px] uppercase font-bold tracking-wider">{s.label}</div>
+              <div className={`font-mono text-lg ${s.color}`}>{s.value}</div>
+              <div className="text-[9px] text-gray-600 font-mono">{t.spectrum.theoretical}: {s.theory}</div>
+            </div>
+          ))}
+        </div>
+      </div>
+
+      {/* Harmonic Table */}
+      <table className="w-full mt-3 font-mono text-[10px] text-right">
+        <thead className="text-gray-500 uppercase tracking-wider">
+          <tr>
+            <th className="text-left font-bold py-1">n</th>
+            <th className="font-bold">f (Hz)</th>
+            <th className="font-bold">V<sub>n</sub> (RMS)</th>
+            <th className="font-bold">∠V<sub>n</sub></th>
+            <th className="font-bold">I<sub>n</sub> (RMS)</th>
+            <th className="font-bold">∠I<sub>n</sub></th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-300">
+          {tableRows.map(({ v, i }) => (
+            <tr key={v.order} className="border-t border-gray-800">
+              <td className="text-left py-0.5 font-bold">{v.order}</td>
+              <td className="text-gray-500">{fmt(v.order * voltage.frequency, 0)}</td>
+              <td className="text-yellow-400">{si(v.magnitude, 'V', 4)}</td>
+              <td className="text-yellow-400/70">{fmt(v.phase, 1)}°</td>
+              <td className="text-cyan-400">{si(i.magnitude, 'A', 4)}</td>
+              <td className="text-cyan-400/70">{fmt(i.phase, 1)}°</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
@@ -0,0 +1,105 @@
+import React, { useState } from 'react';
+import { KnobControl } from './KnobControl';
+import { LoadEditor } from './LoadEditor';
+import { AmplitudeView, KnobRanges, PhaseSource, RLCLoad, ThreePhaseConnection, ThreePhaseSystem } from '../types';
+import { ThreePhaseResult } from '../services/threePhase';
+import { amplitudeFactor } from '../services/signal';
+import { PHASE_COLORS, PHASE_LABELS } from '../constants';
+import { useI18n } from '../i18n';
+
+interface ThreePhasePanelProps {
+  system: ThreePhaseSystem;
+  result: ThreePhaseResult;
+  amplitudeView: AmplitudeView;
+  ranges: KnobRanges;
+  onChange: (updates: Partial<ThreePhaseSystem>) => void;
+}
+
+// Replaces one element of a per-phase tuple
+const replaceAt = <T,>(items: [T, T, T], index: number, value: T): [T, T, T] =>
+  items.map((item, k) => (k === index ? value : item)) as [T, T, T];
+
+export const ThreePhasePanel: React.FC<ThreePhasePanelProps> = ({ system, result, amplitudeView, ranges, onChange }) => {
+  const { t } = useI18n();
+  const [selected, setSelected] = useState(0);
+
+  // In balanced mode only phase A is editable
+  const phase = system.balanced ? 0 : selected;
+  const source = system.sources[phase];
+  const load = system.loads[phase];
+
+  // Phase sources are sinusoidal
+  const factor = amplitudeFactor('sine', amplitudeView);
+
+  const loadLabel = (k: number) =>
+    system.connection === 'wye' ? PHASE_LABELS[k] : `${PHASE_LABELS[k]}${PHASE_LABELS[(k + 1) % 3]}`;
+
+  const updateSource = (updates: Partial<PhaseSource>) => {
+    onChange({ sources: replaceAt(system.sources, phase, { ...source, ...updates }) });
+  };
+
+  const updateLoad = (updates: Partial<RLCLoad>) => {
+    onChange({ loads: replaceAt(system.loads, phase, { ...load, ...updates }) });
+  };
+
+  const toggleClass = (active: boolean) =>
+    `py-1 rounded-md text-xs font-semibold uppercase tracking-wider transition-colors ${active ? 'bg-white/10 text-white' : 'text-gray-500 hover:text-gray-300'}`;
+
+  const connections: { id: ThreePhaseConnection; label: string }[] = [
+    { id: 'wye', label: t.threePhase.wye },
+    { id: 'delta', label: t.threePhase.delta },
+  ];
+
+  return (
+    <div className="bg-gray-900/50 rounded-xl border border-gray-800 p-5 backdrop-blur-sm space-y-3">
+      <h2 className="text-white font-bold flex items-center gap-2 mb-1">
+        <span className="w-2 h-2 rounded-full bg-red-500"></span>
+        <span className="w-2 h-2 rounded-full bg-yellow-500 -ml-1"></span>
+        <span className="w-2 h-2 rounded-full bg-blue-500 -ml-1"></span>
+        {t.threePhase.title}
+      </h2>
+
+      {/* Load Connection */}
+      <div className="grid grid-cols-2 gap-1 p-1 bg-gray-800 rounded-lg border border-gray-700">
+        {connections.map(c => (
+          <button key={c.id} onClick={() => onChange({ connection: c.id })} className={toggleClass(system.connection === c.id)}>
+            {c.label}
+          </button>
+        ))}
+      </div>
+
+      {/* Balance */}
+      <div className="grid grid-cols-2 gap-1 p-1 bg-gray-800 rounded-lg border border-gray-700">
+        <button onClick={() => onChange({ balanced: true })} className={toggleClass(system.balanced)}>{t.threePhase.balanced}</button>
+        <button onClick={() => onChange({ balanced: false })} className={toggleClass(!system.balanced)}>{t.threePhase.unbalanced}</button>
+      </div>
+
+      {/* Phase Selector (unbalanced only) */}
+      {!system.balanced && (
+        <div className="grid grid-cols-3 gap-1 p-1 bg-gray-800 rounded-lg border border-gray-700">
+          {PHASE_LABELS.map((label, k) => (
+            <button
+              key={label}
+              onClick={() => setSelected(k)}
+              className={toggleClass(selected === k)}
+              style={selected === k ? { color: PHASE_COLORS[k].voltage } : undefined}
+            >
+              {t.threePhase.phase(label)}
+            </button>
+          ))}
+        </div>
+      )}
+
+      <div className="text-[10px] text-gray-500 uppercase tracking-wider font-bold">
+        {t.threePhase.source(PHASE_LABELS[phase])} {system.balanced && t.threePhase.shiftedPhases}
+      </div>
+      <KnobControl label={`${t.threePhase.phaseVoltage} (${t.app.amplitudeViews[amplitudeView]})`} value={source.amplitude * factor} min={0} max={ranges.voltageMax * factor} unit="V" colorClass="text-yellow-500" engineering onChange={(v) => updateSource({ amplitude: v / factor })} />
+      <KnobControl label={t.app.phase} value={source.phase} min={-180} max={180} step={1} unit="°" colorClass="text-yellow-500" onChange={(v) => updateSource({ phase: v })} />
+
+      <div className="text-[10px] text-gray-500 uppercase tracking-wider font-bold pt-1">
+        {t.threePhase.load(loadLabel(phase))} {system.balanced && t.threePhase.sameLoad}
+      </div>
+      <LoadEditor load={load} impedance={result.impedances[phase]} ranges={ranges} onChange={updateLoad} />
+    </div>
+  );
+};
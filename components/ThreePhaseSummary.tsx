@@ -0,0 +1,73 @@
+import React from 'react';
+import { ThreePhaseConnection } from '../types';
+import { ThreePhaseResult } from '../services/threePhase';
+import { Complex, abs, arg } from '../services/complex';
+import { snapToZero } from '../services/format';
+import { PHASE_COLORS, PHASE_LABELS } from '../constants';
+import { useI18n } from '../i18n';
+
+interface ThreePhaseSummaryProps {
+  result: ThreePhaseResult;
+  connection: ThreePhaseConnection;
+}
+
+export const ThreePhaseSummary: React.FC<ThreePhaseSummaryProps> = ({ result, connection }) => {
+  const { t, fmt, si } = useI18n();
+  const polar = (c: Complex, unit: string) => `${si(abs(c), unit, 4)} ∠ ${fmt(arg(c), 1)}°`;
+
+  // A balanced load leaves only float residue in the neutral, whose angle means nothing
+  const lineCurrent = Math.max(...result.lineCurrents.map(abs));
+  const neutral = snapToZero(abs(result.neutralCurrent), lineCurrent) === 0 ? si(0, 'A', 4) : polar(result.neutralCurrent, 'A');
+
+  const lineLabel = (k: number) => `${PHASE_LABELS[k]}${PHASE_LABELS[(k + 1) % 3]}`;
+  const phaseLabel = (k: number) => (connection === 'wye' ? PHASE_LABELS[k] : lineLabel(k));
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-700 p-4 shadow-inner shadow-black/50 overflow-x-auto">
+      <div className="flex justify-between items-start mb-3">
+        <div>
+          <h3 className="text-xs font-bold text-gray-400 uppercase tracking-wider">{t.threePhaseSummary.title}</h3>
+          <span className="text-[10px] text-gray-600 font-mono">
+            {connection === 'wye' ? t.threePhaseSummary.wyeLoad : t.threePhaseSummary.deltaLoad}
+          </span>
+        </div>
+        <div className="text-right font-mono text-[10px] text-gray-400">
+          <div>I<sub>N</sub> = {connection === 'wye' ? neutral : t.threePhaseSummary.noNeutral}</div>
+        </div>
+      </div>
+
+      <table className="w-full font-mono text-[10px] text-right">
+        <thead className="text-gray-500 uppercase tracking-wider">
+          <tr>
+            <th className="text-left font-bold py-1">{t.threePhaseSummary.phase}</th>
+            <th className="font-bold">{t.threePhaseSummary.phaseVoltage}</th>
+            <th className="font-bold">{t.threePhaseSummary.phaseCurrent}</th>
+            <th className="font-bold">{t.threePhaseSummary.lineVoltage}</th>
+            <th className="font-bold">{t.threePhaseSummary.lineCurrent}</th>
+            <th className="font-bold">P</th>
+            <th className="font-bold">Q</th>
+          </tr>
+        </thead>
+        <tbody className="text-gray-300">
+          {PHASE_LABELS.map((label, k) => (
+            <tr key={label} className="border-t border-gray-800">
+              <td className="text-left font-bold py-1" style={{ color: PHASE_COLORS[k].voltage }}>{phaseLabel(k)}</td>
+              <td>{polar(result.phaseVoltages[k], 'V')}</td>
+              <td>{polar(result.phaseCurrents[k], 'A')}</td>
+              <td>V<sub>{lineLabel(k)}</sub> {polar(result.lineVoltages[k], 'V')}</td>
+              <td>I<sub>{label}</sub> {polar(result.lineCurrents[k], 'A')}</td>
+              <td className="text-green-400">{si(result.phasePower[k].re, 'W', 4)}</td>
+              <td className="text-purple-400">{si(result.phasePower[k].im, 'VAR', 4)}</td>
+            </tr>
+          ))}
+          <tr className="border-t border-gray-600 font-bold">
+            <td className="text-left py-1 text-white">{t.threePhaseSummary.total}</td>
+            <td colSpan={4}></td>
+            <td className="text-green-400">{si(result.totalPower.re, 'W', 4)}</td>
+            <td className="text-purple-400">{si(result.totalPower.im, 'VAR', 4)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+};
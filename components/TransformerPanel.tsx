@@ -0,0 +1,82 @@
+import React from 'react';
+import { KnobControl } from './KnobControl';
+import { KnobRanges, TransformerSettings } from '../types';
+import { TRANSFORMER_RATIO_MAX, TRANSFORMER_SHUNT_MAX } from '../constants';
+import { TransformerResult } from '../services/transformer';
+import { abs, arg } from '../services/complex';
+import { useI18n } from '../i18n';
+
+interface TransformerPanelProps {
+  settings: TransformerSettings;
+  result: TransformerResult | null; // Null while there is no transformer
+  ranges: KnobRanges;
+  collapsed?: boolean; // The load's power cannot be delivered through the line and transformer
+  onChange: (updates: Partial<TransformerSettings>) => void;
+}
+
+export const TransformerPanel: React.FC<TransformerPanelProps> = ({ settings, result, ranges, collapsed, onChange }) => {
+  const { t, fmt, si } = useI18n();
+  const polar = (value: { re: number; im: number }, unit: string) =>
+    `${si(abs(value), unit, 4)} ∠ ${fmt(abs(value) > 0 ? arg(value) : 0, 1)}°`;
+  const percent = (value: number) => (Number.isFinite(value) ? `${fmt(value, 2)} %` : '∞');
+
+  const rows = result ? [
+    { label: `${t.transformer.primary} V₁`, value: polar(result.primaryVoltage, 'V') },
+    { label: `${t.transformer.primary} I₁`, value: polar(result.primaryCurrent, 'A') },
+    { label: `${t.transformer.secondary} V₂`, value: polar(result.secondaryVoltage, 'V') },
+    { label: `${t.transformer.secondary} I₂`, value: polar(result.secondaryCurrent, 'A') },
+    { label: `${t.transformer.noLoadCurrent} I₀`, value: polar(result.noLoadCurrent, 'A') },
+    { label: 'I_c / I_m', value: `${si(abs(result.coreCurrent), 'A', 3)} / ${si(abs(result.magnetizingCurrent), 'A', 3)}` },
+    { label: `${t.transformer.copperLosses} (I²R_eq)`, value: si(result.copperLosses, 'W', 4) },
+    { label: `${t.transformer.coreLosses} (V₁²/R_c)`, value: si(result.coreLosses, 'W', 4) },
+    { label: t.transformer.efficiency, value: `${fmt(result.efficiency * 100, 2)} %` },
+    { label: t.transformer.regulation, value: percent(result.regulation) },
+  ] : [];
+
+  return (
+    <div className="bg-gray-900/50 rounded-xl border border-gray-800 p-5 backdrop-blur-sm">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-violet-400 font-bold flex items-center gap-2">
+          <span className="w-2 h-2 rounded-full bg-violet-400"></span> {t.transformer.title}
+        </h2>
+        <button
+          onClick={() => onChange({ enabled: !settings.enabled })}
+          className={`px-3 py-1 rounded-md text-xs font-semibold uppercase tracking-wider transition-colors ${settings.enabled ? 'bg-violet-500/20 text-violet-400 hover:bg-violet-500/30' : 'bg-gray-800 text-gray-500 hover:text-gray-300'}`}
+        >
+          {settings.enabled ? t.transformer.enabled : t.transformer.disabled}
+        </button>
+      </div>
+
+      {settings.enabled && (
+        <div className="space-y-3">
+          <KnobControl label={t.transformer.ratio} value={settings.ratio} min={0.01} max={TRANSFORMER_RATIO_MAX} step={0.01} unit="" colorClass="text-violet-400" onChange={(v) => onChange({ ratio: v })} />
+
+          {/* Series branch, referred to the primary */}
+          <KnobControl label={t.transformer.resistance} value={settings.resistance} min={0} max={ranges.resistanceMax} unit="Ω" colorClass="text-violet-400" engineering onChange={(v) => onChange({ resistance: v })} />
+          <KnobControl label={t.transformer.reactance} value={settings.reactance} min={0} max={ranges.resistanceMax} unit="Ω" colorClass="text-violet-400" engineering onChange={(v) => onChange({ reactance: v })} />
+
+          {/* Magnetizing branch */}
+          <KnobControl label={t.transformer.coreResistance} value={settings.coreResistance} min={1} max={TRANSFORMER_SHUNT_MAX} unit="Ω" colorClass="text-violet-400" engineering onChange={(v) => onChange({ coreResistance: v })} />
+          <KnobControl label={t.transformer.magnetizingReactance} value={settings.magnetizingReactance} min={1} max={TRANSFORMER_SHUNT_MAX} unit="Ω" colorClass="text-violet-400" engineering onChange={(v) => onChange({ magnetizingReactance: v })} />
+
+          <div className="text-[10px] text-gray-500">{t.transformer.modelHint}</div>
+
+          {collapsed ? (
+            <div className="p-2 rounded-lg border border-red-500/30 bg-red-500/10 text-[10px] text-red-400">
+              {t.transformer.collapse}
+            </div>
+          ) : result && (
+            <div className="p-3 bg-gray-800 rounded-lg border border-gray-700 font-mono text-[10px] space-y-1">
+              {rows.map(r => (
+                <div key={r.label} className="flex justify-between gap-2">
+                  <span className="text-gray-400">{r.label}</span>
+                  <span className="text-violet-400 text-right">{r.value}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,160 @@
+import React from 'react';
+import { CartesianGrid, Legend, Line, LineChart, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { KnobControl } from './KnobControl';
+import { KnobRanges, TransientCircuit, TransientSettings } from '../types';
+import { TRANSIENT_CYCLES_MAX, TRANSIENT_CYCLES_MIN } from '../constants';
+import { SETTLING_BAND, TransientResult } from '../services/transient';
+import { ExportContext, toCsv } from '../services/export';
+import { ExportButtons, downloadText } from './ExportButtons';
+import { useI18n } from '../i18n';
+
+interface TransientPanelProps {
+  settings: TransientSettings;
+  result: TransientResult | null; // Null while the transient view is off
+  ranges: KnobRanges;
+  fundamentalOnly?: boolean; // The source carries harmonics or DC: i_ss is only its fundamental (and DC)
+  exportContext?: ExportContext;
+  onChange: (updates: Partial<TransientSettings>) => void;
+  onUseLoad: () => void; // Copies R, L and C from the lab's RLC load
+}
+
+const CIRCUITS: TransientCircuit[] = ['rl', 'rc', 'rlc'];
+
+export const TransientPanel: React.FC<TransientPanelProps> = ({ settings, result, ranges, fundamentalOnly, exportContext, onChange, onUseLoad }) => {
+  const { t, fmt, si } = useI18n();
+  const buttonClass = 'px-3 py-1 rounded-md text-xs font-semibold uppercase tracking-wider transition-colors';
+  const hasL = settings.circuit !== 'rc';
+  const hasC = settings.circuit !== 'rl';
+  const time = (ms: number | null) => (ms === null ? t.transient.notSettled : si(ms / 1000, 's', 3));
+
+  const cards = result && [
+    { label: t.transient.peakCurrent, value: si(result.peakCurrent, 'A', 4), detail: t.transient.at(time(result.peakTime)), color: 'text-red-400' },
+    { label: t.transient.steadyPeak, value: si(result.steadyPeak, 'A', 4), color: 'text-cyan-400' },
+    { label: t.transient.inrushRatio, value: Number.isFinite(result.inrushRatio) ? `${fmt(result.inrushRatio, 2)} ×` : '∞', color: 'text-orange-400' },
+    { label: t.transient.initialOffset, value: si(result.initialOffset, 'A', 4), detail: 'i(0⁺) − i_ss(0)', color: 'text-pink-400' },
+    { label: `${t.transient.timeConstant} τ`, value: Number.isFinite(result.timeConstant) ? si(result.timeConstant, 's', 3) : '∞', color: 'text-gray-200' },
+    { label: t.transient.settlingTime, value: time(result.settlingTime), detail: `± ${fmt(SETTLING_BAND * 100, 0)} % ${result.settlingReference === 'steady' ? t.transient.ofSteadyPeak : t.transient.cycleToCycle}`, color: 'text-green-400' },
+    ...(result.naturalFrequency !== null && result.damping !== null ? [
+      { label: 'f₀ = 1/(2π√LC)', value: si(result.naturalFrequency, 'Hz', 4), color: 'text-gray-200' },
+      {
+        label: `${t.transient.damping} ζ`,
+        value: fmt(result.damping, 3),
+        detail: result.damping < 1 ? t.transient.underdamped : result.damping > 1 ? t.transient.overdamped : t.transient.critical,
+        color: 'text-gray-200',
+      },
+    ] : []),
+    ...(result.peakCapacitorVoltage !== null ? [
+      { label: t.transient.peakCapacitorVoltage, value: si(result.peakCapacitorVoltage, 'V', 4), color: 'text-green-400' },
+    ] : []),
+  ];
+
+  const exportCsv = () => {
+    if (!result || !exportContext) return;
+    const rows = result.samples.map(s => [s.time, s.voltage, s.current, s.steadyCurrent, s.transientCurrent, s.capacitorVoltage ?? '']);
+    const circuit = `${t.transient.title}: ${settings.circuit.toUpperCase()}, ${t.transient.closingAngle} ${settings.closingAngle}°, R = ${settings.resistance} Ω` +
+      (hasL ? `, L = ${settings.inductance} mH` : '') +
+      (hasC ? `, C = ${settings.capacitance} µF, V_C(0) = ${settings.initialVoltage} V` : '');
+    downloadText(`${t.transient.file}.csv`, toCsv(t.transient.csvHeader, rows, [...exportContext.parameters, circuit]), 'text/csv');
+  };
+
+  return (
+    <div className="bg-gray-900 rounded-xl border border-gray-700 p-4 shadow-inner shadow-black/50">
+      <div className="flex justify-between items-start mb-3 gap-2">
+        <h3 className="text-xs font-bold text-red-400 uppercase tracking-wider flex items-center gap-2">
+          <span className="w-2 h-2 rounded-full bg-red-400"></span> {t.transient.title}
+        </h3>
+        <div className="flex gap-1 items-center">
+          {settings.enabled && result && exportContext && (
+            <ExportButtons actions={[{ label: 'CSV', onClick: exportCsv }]} />
+          )}
+          <button
+            onClick={() => onChange({ enabled: !settings.enabled })}
+            className={`${buttonClass} ${settings.enabled ? 'bg-red-500/20 text-red-400 hover:bg-red-500/30' : 'bg-gray-800 text-gray-500 hover:text-gray-300'}`}
+          >
+            {settings.enabled ? t.transient.enabled : t.transient.disabled}
+          </button>
+        </div>
+      </div>
+
+      {!settings.enabled && <p className="text-[10px] text-gray-500">{t.transient.hint}</p>}
+
+      {settings.enabled && result && cards && (
+        <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+          {/* Switch and circuit */}
+          <div className="space-y-3">
+            <div className="grid grid-cols-3 gap-1 p-1 bg-gray-800 rounded-lg border border-gray-700">
+              {CIRCUITS.map(circuit => (
+                <button
+                  key={circuit}
+                  onClick={() => onChange({ circuit })}
+                  className={`py-1 rounded-md text-xs font-semibold uppercase tracking-wider transition-colors ${settings.circuit === circuit ? 'bg-red-500/20 text-red-400' : 'text-gray-500 hover:text-gray-300'}`}
+                >
+                  {circuit.toUpperCase()}
+                </button>
+              ))}
+            </div>
+            <KnobControl label={t.transient.closingAngle} value={settings.closingAngle} min={-180} max={180} step={1} unit="°" colorClass="text-red-400" onChange={(v) => onChange({ closingAngle: v })} />
+            <KnobControl label={t.transient.resistance} value={settings.resistance} min={0} max={ranges.resistanceMax} unit="Ω" colorClass="text-red-400" engineering onChange={(v) => onChange({ resistance: v })} />
+            {hasL && (
+              <KnobControl label={t.transient.inductance} value={settings.inductance / 1000} min={0} max={ranges.inductanceMax / 1000} unit="H" colorClass="text-red-400" engineering onChange={(v) => onChange({ inductance: v * 1000 })} />
+            )}
+            {hasC && (
+              <>
+                <KnobControl label={t.transient.capacitance} value={settings.capacitance * 1e-6} min={0} max={ranges.capacitanceMax * 1e-6} unit="F" colorClass="text-red-400" engineering onChange={(v) => onChange({ capacitance: v * 1e6 })} />
+                <KnobControl label={t.transient.initialVoltage} value={settings.initialVoltage} min={-ranges.voltageMax} max={ranges.voltageMax} unit="V" colorClass="text-red-400" engineering onChange={(v) => onChange({ initialVoltage: v })} />
+              </>
+            )}
+            <KnobControl label={t.transient.cycles} value={settings.cycles} min={TRANSIENT_CYCLES_MIN} max={TRANSIENT_CYCLES_MAX} step={1} unit="" colorClass="text-red-400" onChange={(v) => onChange({ cycles: v })} />
+            <button onClick={onUseLoad} className={`${buttonClass} w-full bg-gray-800 text-gray-400 hover:text-gray-200`}>
+              {t.transient.useLoad}
+            </button>
+          </div>
+
+          <div className="lg:col-span-2 space-y-3">
+            {/* v, v_C on the left axis; i, i_ss and the decaying part on the right one */}
+            <div className="h-[260px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={result.samples} margin={{ top: 10, right: 10, left: 0, bottom: 0 }}>
+                  <CartesianGrid strokeDasharray="3 3" stroke="#1f2937" vertical={false} />
+                  <XAxis dataKey="time" type="number" domain={['dataMin', 'dataMax']} stroke="#6B7280" tick={{ fontSize: 10 }} tickFormatter={(ms) => si(ms / 1000, 's', 2)} />
+                  <YAxis yAxisId="voltage" stroke="#EAB308" tick={{ fontSize: 10, fill: '#EAB308' }} tickFormatter={(value) => si(value, '')} />
+                  <YAxis yAxisId="current" orientation="right" stroke="#22D3EE" tick={{ fontSize: 10, fill: '#22D3EE' }} tickFormatter={(value) => si(value, '')} />
+                  <Tooltip
+                    contentStyle={{ backgroundColor: '#111827', borderColor: '#374151', fontSize: '12px' }}
+                    formatter={(value: number) => fmt(value, 3)}
+                    labelFormatter={(ms) => si(Number(ms) / 1000, 's', 4)}
+                  />
+                  <Legend wrapperStyle={{ fontSize: '10px' }} />
+                  <ReferenceLine x={0} yAxisId="voltage" stroke="#F87171" strokeDasharray="4 3" label={{ value: t.transient.closing, position: 'insideTopLeft', fill: '#F87171', fontSize: 10 }} />
+                  <Line yAxisId="voltage" dataKey="voltage" name={`${t.transient.voltage} (V)`} stroke="#EAB308" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  {hasC && (
+                    <Line yAxisId="voltage" dataKey="capacitorVoltage" name={`${t.transient.capacitorVoltage} (V)`} stroke="#4ADE80" strokeWidth={1.5} dot={false} isAnimationActive={false} />
+                  )}
+                  <Line yAxisId="current" dataKey="current" name={`${t.transient.current} (A)`} stroke="#22D3EE" strokeWidth={2} dot={false} isAnimationActive={false} />
+                  <Line yAxisId="current" dataKey="steadyCurrent" name={`${t.transient.steadyCurrent} (A)`} stroke="#67E8F9" strokeWidth={1} strokeDasharray="4 3" dot={false} isAnimationActive={false} />
+                  <Line yAxisId="current" dataKey="transientCurrent" name={`${t.transient.transientCurrent} (A)`} stroke="#F472B6" strokeWidth={1} strokeDasharray="2 2" dot={false} isAnimationActive={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+              {cards.map(card => (
+                <div key={card.label} className="p-2 bg-gray-800 rounded-lg border border-gray-700">
+                  <div className="text-[9px] text-gray-500 uppercase font-bold tracking-wider">{card.label}</div>
+                  <div className={`font-mono text-sm ${card.color}`}>{card.value}</div>
+                  {card.detail && <div className="font-mono text-[10px] text-gray-500">{card.detail}</div>}
+                </div>
+              ))}
+            </div>
+
+            {fundamentalOnly && (
+              <div className="p-2 rounded-lg border border-amber-500/30 bg-amber-500/10 text-[10px] text-amber-400">
+                {t.transient.fundamentalOnly}
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,5 +1,5 @@
 
-import { SignalParams, SimulationState } from './types';
+import { ExerciseDifficulty, FeederSettings, KnobRanges, LoadItem, LoadItemKind, LoadProfileSettings, Locale, MotorSettings, PFCSettings, RLCLoad, ScenarioPreset, ScopeSettings, SignalParams, SimulationState, ThreePhaseSystem, TransformerSettings, TransientSettings } from './types';
 
 export const DEFAULT_VOLTAGE: SignalParams = {
   amplitude: 120.00, // Updated to standard mains voltage
@@ -7,6 +7,7 @@ export const DEFAULT_VOLTAGE: SignalParams = {
   phase: 0,
   dcOffset: 0,
   waveform: 'sine',
+  dutyCycle: 50,
 };
 
 export const DEFAULT_CURRENT: SignalParams = {
@@ -15,13 +16,342 @@ export const DEFAULT_CURRENT: SignalParams = {
   phase: -30, // Lagging
   dcOffset: 0,
   waveform: 'sine',
+  dutyCycle: 50,
 };
 
+// Knob limits of the source frequencies (Hz)
+export const FREQUENCY_MIN = 1;
+export const FREQUENCY_MAX = 200;
+
+export const DEFAULT_LOAD: RLCLoad = {
+  topology: 'series',
+  resistance: 20.78, // Gives roughly the default 5 A / -30° at 120 V, 60 Hz
+  inductance: 31.83,
+  capacitance: 0,
+};
+
+export const MAX_LOAD_ITEMS = 8;
+
+// Starting values of a new entry of each kind; 'custom' is also the template saved lists are checked against
+export const LOAD_ITEM_DEFAULTS: Record<LoadItemKind, LoadItem> = {
+  resistive: { kind: 'resistive', name: '', power: 300, powerFactor: 1, leading: false },
+  motor: { kind: 'motor', name: '', power: 400, powerFactor: 0.8, leading: false },
+  capacitor: { kind: 'capacitor', name: '', power: 150, powerFactor: 1, leading: false }, // Only the VAR rating is used
+  custom: { kind: 'custom', name: '', power: 200, powerFactor: 0.9, leading: false },
+};
+
+// Lighting, a motor and a small capacitor bank on the default 120 V supply
+export const DEFAULT_LOAD_ITEMS: LoadItem[] = [
+  LOAD_ITEM_DEFAULTS.resistive,
+  LOAD_ITEM_DEFAULTS.motor,
+  LOAD_ITEM_DEFAULTS.capacitor,
+];
+
+// Contribution colors, in list order
+export const LOAD_ITEM_COLORS = ['#F472B6', '#FB923C', '#A3E635', '#38BDF8', '#FACC15', '#F87171', '#2DD4BF', '#E879F9'];
+
+// A 1 hp, 4-pole motor on the 120 V supply: about 4.7 % slip, PF 0.82 and 86 % efficiency at full load
+export const DEFAULT_MOTOR: MotorSettings = {
+  operatingPoint: 'load',
+  statorResistance: 0.7,
+  statorReactance: 1,
+  rotorResistance: 0.7,
+  rotorReactance: 1,
+  magnetizingReactance: 25,
+  poles: 4,
+  rotationalLosses: 30,
+  ratedPower: 746,
+  slip: 4,
+  loadPercent: 100,
+};
+
+// Knob limits of the motor; the circuit's R and X follow the load's resistance range
+export const MOTOR_POLE_OPTIONS = [2, 4, 6, 8];
+export const MOTOR_RATED_POWER_MAX = 100e3; // W
+export const MOTOR_LOAD_MAX = 150; // % of rated output
+
+export const DEFAULT_THREE_PHASE: ThreePhaseSystem = {
+  connection: 'wye',
+  balanced: true,
+  // Positive (ABC) sequence
+  sources: [
+    { amplitude: 120.00, phase: 0 },
+    { amplitude: 120.00, phase: -120 },
+    { amplitude: 120.00, phase: 120 },
+  ],
+  loads: [DEFAULT_LOAD, DEFAULT_LOAD, DEFAULT_LOAD],
+};
+
+export const PHASE_LABELS = ['A', 'B', 'C'];
+
+// Per-phase trace/vector colors (voltage uses the solid tone, current the light one)
+export const PHASE_COLORS = [
+  { voltage: '#EF4444', current: '#FCA5A5' },
+  { voltage: '#EAB308', current: '#FDE047' },
+  { voltage: '#3B82F6', current: '#93C5FD' },
+];
+
+export const DEFAULT_PFC: PFCSettings = {
+  enabled: false,
+  targetPF: 0.95,
+  useSteps: false,
+  stepKvar: 0.05,
+};
+
+// Off by default (ideal source); a 200 m run of 25 mm² copper cable when turned on
+export const DEFAULT_FEEDER: FeederSettings = {
+  enabled: false,
+  input: 'perKm',
+  resistance: 0.3,
+  reactance: 0.05,
+  length: 0.2,
+  resistancePerKm: 0.727,
+  reactancePerKm: 0.08,
+};
+
+// Off by default; a 1 kVA 120/120 V isolation transformer (R_eq 2 %, X_eq 4 %, 10 W core loss, 0.2 A magnetizing current)
+export const DEFAULT_TRANSFORMER: TransformerSettings = {
+  enabled: false,
+  ratio: 1,
+  resistance: 0.29,
+  reactance: 0.58,
+  coreResistance: 1440,
+  magnetizingReactance: 600,
+};
+
+// Knob limits of the transformer; R_eq and X_eq follow the load's resistance range
+export const TRANSFORMER_RATIO_MAX = 100;
+export const TRANSFORMER_SHUNT_MAX = 1e6; // R_c and X_m (Ω)
+
+// Knob limits of the per-km line entry; the total R and X follow the load's resistance range
+export const FEEDER_LENGTH_MAX = 100; // km
+export const FEEDER_PER_KM_MAX = 20; // Ω/km (1.5 mm² copper is about 12 Ω/km)
+
+// Commercial capacitor step sizes (kVAR); the small ones suit the lab-scale loads
+export const STANDARD_KVAR_STEPS = [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 12.5, 25, 50];
+
+// Oscilloscope graticule: horizontal and vertical division count
+export const SCOPE_H_DIVISIONS = 10;
+export const SCOPE_V_DIVISIONS = 8;
+
+// 1-2-5 sequences for the time/div, V/div and A/div selectors
+export const SCOPE_TIME_STEPS = [0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50, 100];
+export const SCOPE_VOLT_STEPS = [0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50, 100, 200, 500, 1000, 2000, 5000, 10000];
+export const SCOPE_AMP_STEPS = [0.0001, 0.0002, 0.0005, 0.001, 0.002, 0.005, 0.01, 0.02, 0.05, 0.1, 0.2, 0.5, 1, 2, 5, 10, 20, 50, 100, 200, 500, 1000];
+
+export const DEFAULT_SCOPE: ScopeSettings = {
+  timePerDiv: 5, // 50 ms window: 3 cycles at 60 Hz, 2.5 at 50 Hz
+  voltsPerDiv: 50,
+  ampsPerDiv: 2,
+  voltageOffset: 0,
+  currentOffset: 0,
+  horizontalPosition: 0,
+  trigger: {
+    enabled: false,
+    mode: 'auto',
+    source: 'voltage',
+    slope: 'rising',
+    level: 0,
+  },
+};
+
+// Knob limits for mains-level lab loads
+export const DEFAULT_RANGES: KnobRanges = {
+  voltageMax: 400,
+  currentMax: 200,
+  resistanceMax: 200,
+  inductanceMax: 1000,
+  capacitanceMax: 1000,
+};
+
+// Small commercial day at lab scale: light night base, morning ramp and a midday peak driven
+// by motors (low PF); fixed PF capacitors overcompensate the lightest hours (01:00-03:00)
+const PROFILE_KW = [0.4, 0.35, 0.35, 0.35, 0.4, 0.5, 0.8, 1.1, 1.4, 1.6, 1.7, 1.8, 1.6, 1.7, 1.8, 1.7, 1.5, 1.3, 1.2, 1.1, 0.9, 0.7, 0.55, 0.45];
+const PROFILE_PF = [0.95, 0.96, 0.96, 0.96, 0.95, 0.9, 0.85, 0.82, 0.8, 0.78, 0.78, 0.8, 0.84, 0.8, 0.78, 0.79, 0.82, 0.86, 0.9, 0.92, 0.93, 0.94, 0.95, 0.95];
+const PROFILE_LEADING_HOURS = [1, 2, 3];
+
+export const DEFAULT_PROFILE: LoadProfileSettings = {
+  enabled: false,
+  hours: PROFILE_KW.map((activePower, hour) => ({
+    activePower,
+    powerFactor: PROFILE_PF[hour],
+    leading: PROFILE_LEADING_HOURS.includes(hour),
+  })),
+  tariff: {
+    currency: '$',
+    energyPrice: 0.15,
+    demandPrice: 8,
+    reactivePrice: 0.05,
+    pfThreshold: 0.92,
+    billingDays: 30,
+  },
+};
+
+// Off by default; an underdamped series RLC (f₀ ≈ 89 Hz, ζ ≈ 0.14) closed at the voltage zero crossing
+export const DEFAULT_TRANSIENT: TransientSettings = {
+  enabled: false,
+  circuit: 'rlc',
+  closingAngle: 0,
+  resistance: 5,
+  inductance: 31.83,
+  capacitance: 100,
+  initialVoltage: 0,
+  cycles: 6,
+};
+
+// Knob limits of the transient window
+export const TRANSIENT_CYCLES_MIN = 1;
+export const TRANSIENT_CYCLES_MAX = 30;
+// A run takes a good fraction of a second; it waits until the knobs have been still this long (ms)
+export const TRANSIENT_SETTLE_DELAY = 250;
+
 export const INITIAL_STATE: SimulationState = {
   voltage: DEFAULT_VOLTAGE,
   current: DEFAULT_CURRENT,
-  timeWindow: 40, // 2 cycles at 50Hz/60Hz
+  loadMode: 'manual',
+  load: DEFAULT_LOAD,
+  loadItems: DEFAULT_LOAD_ITEMS,
+  motor: DEFAULT_MOTOR,
+  systemMode: 'single',
+  threePhase: DEFAULT_THREE_PHASE,
+  pfc: DEFAULT_PFC,
+  feeder: DEFAULT_FEEDER,
+  transformer: DEFAULT_TRANSFORMER,
+  scope: DEFAULT_SCOPE,
+  amplitudeView: 'rms',
+  ranges: DEFAULT_RANGES,
+  profile: DEFAULT_PROFILE,
+  transient: DEFAULT_TRANSIENT,
   isPlaying: true,
 };
 
+export const DEFAULT_SIM_SPEED = 20; // Slow motion, about 0.05× real time
+
+// Version written into saved scenarios; bump it when SimulationState changes incompatibly
+export const SCENARIO_VERSION = 1;
+
+// Built-in lab cases; the first one is the state the app starts with
+export const PRESETS: ScenarioPreset[] = [
+  {
+    id: 'default',
+    name: 'Carga RL genérica',
+    description: 'Fuente de 120 V / 60 Hz con corriente de 5 A en atraso 30°.',
+    simSpeed: DEFAULT_SIM_SPEED,
+    state: INITIAL_STATE,
+  },
+  {
+    id: 'induction-motor',
+    name: 'Motor de inducción',
+    description: 'Motor de 1 HP a plena carga con su circuito equivalente: FP 0,82 inductivo, que empeora al descargarlo.',
+    simSpeed: DEFAULT_SIM_SPEED,
+    state: {
+      ...INITIAL_STATE,
+      loadMode: 'motor',
+      pfc: { ...DEFAULT_PFC, enabled: true },
+      scope: { ...DEFAULT_SCOPE, ampsPerDiv: 5 },
+    },
+  },
+  {
+    id: 'resistive-oven',
+    name: 'Horno resistivo',
+    description: 'Resistencia pura de 1,5 kW: tensión y corriente en fase, FP unitario.',
+    simSpeed: DEFAULT_SIM_SPEED,
+    state: {
+      ...INITIAL_STATE,
+      loadMode: 'rlc',
+      load: { topology: 'series', resistance: 9.6, inductance: 0, capacitance: 0 },
+      scope: { ...DEFAULT_SCOPE, ampsPerDiv: 5 },
+    },
+  },
+  {
+    id: 'capacitor-bank',
+    name: 'Banco de capacitores',
+    description: 'Carga capacitiva: la corriente adelanta a la tensión casi 90°.',
+    simSpeed: DEFAULT_SIM_SPEED,
+    state: {
+      ...INITIAL_STATE,
+      loadMode: 'rlc',
+      load: { topology: 'series', resistance: 2, inductance: 0, capacitance: 100 },
+    },
+  },
+  {
+    id: 'nonlinear-load',
+    name: 'Carga no lineal',
+    description: 'Corriente cuadrada en fase con la tensión: FP < 1 solo por distorsión armónica.',
+    simSpeed: DEFAULT_SIM_SPEED,
+    state: {
+      ...INITIAL_STATE,
+      current: { ...DEFAULT_CURRENT, waveform: 'square', phase: 0 },
+    },
+  },
+  {
+    id: 'three-phase-balanced',
+    name: 'Sistema trifásico equilibrado',
+    description: 'Tres cargas RL iguales en estrella: la corriente de neutro es nula.',
+    simSpeed: DEFAULT_SIM_SPEED,
+    state: { ...INITIAL_STATE, systemMode: 'three' },
+  },
+  {
+    id: 'three-phase-unbalanced',
+    name: 'Trifásico desequilibrado',
+    description: 'Estrella con una fase resistiva, una inductiva y una capacitiva.',
+    simSpeed: DEFAULT_SIM_SPEED,
+    state: {
+      ...INITIAL_STATE,
+      systemMode: 'three',
+      threePhase: {
+        ...DEFAULT_THREE_PHASE,
+        balanced: false,
+        loads: [
+          { topology: 'series', resistance: 24, inductance: 0, capacitance: 0 },
+          { topology: 'series', resistance: 10, inductance: 50, capacitance: 0 },
+          { topology: 'series', resistance: 10, inductance: 0, capacitance: 150 },
+        ],
+      },
+    },
+  },
+  {
+    id: 'distribution-feeder',
+    name: 'Alimentador de 13,8 kV',
+    description: 'Carga industrial de 2 MVA con FP 0,85 en una red de distribución: kV, cientos de A y MVA.',
+    simSpeed: DEFAULT_SIM_SPEED,
+    state: {
+      ...INITIAL_STATE,
+      voltage: { ...DEFAULT_VOLTAGE, amplitude: 13800 },
+      loadMode: 'rlc',
+      load: { topology: 'series', resistance: 80.94, inductance: 133.06, capacitance: 0 }, // Z = 80.94 + j50.16 Ω
+      pfc: { ...DEFAULT_PFC, enabled: true, useSteps: true, stepKvar: 50 },
+      scope: { ...DEFAULT_SCOPE, voltsPerDiv: 5000, ampsPerDiv: 100 },
+      ranges: { voltageMax: 20000, currentMax: 500, resistanceMax: 500, inductanceMax: 1000, capacitanceMax: 100 },
+    },
+  },
+  {
+    id: 'electronics-bench',
+    name: 'Circuito RC de banco',
+    description: 'Generador de 5 V a 100 Hz sobre R = 1 kΩ y C = 1 µF: corrientes de pocos mA.',
+    simSpeed: DEFAULT_SIM_SPEED,
+    state: {
+      ...INITIAL_STATE,
+      voltage: { ...DEFAULT_VOLTAGE, amplitude: 5, frequency: 100 },
+      current: { ...DEFAULT_CURRENT, frequency: 100 },
+      loadMode: 'rlc',
+      load: { topology: 'series', resistance: 1000, inductance: 0, capacitance: 1 }, // Z = 1000 − j1592 Ω
+      scope: { ...DEFAULT_SCOPE, timePerDiv: 2, voltsPerDiv: 2, ampsPerDiv: 0.001 },
+      ranges: { voltageMax: 20, currentMax: 0.02, resistanceMax: 10000, inductanceMax: 1000, capacitanceMax: 10 },
+    },
+  },
+];
+
 export const SAMPLE_RATE = 200; // Increased points for better resolution on square waves
+
+export const MAX_HARMONIC_ORDER = 25; // Highest harmonic shown in the spectrum view
+
+// Accepted answer error per difficulty: relative for magnitudes, degrees for angles
+export const EXERCISE_TOLERANCES: Record<ExerciseDifficulty, { relative: number; angle: number }> = {
+  basic: { relative: 0.05, angle: 2 },
+  intermediate: { relative: 0.02, angle: 1 },
+  advanced: { relative: 0.01, angle: 0.5 },
+};
+
+export const DEFAULT_LOCALE: Locale = 'es';
+export const LOCALE_STORAGE_KEY = 'acdc-lab.locale';
@@ -0,0 +1,659 @@
+import { Messages } from './es';
+
+export const en: Messages = {
+  app: {
+    title: 'Signal Lab',
+    systemModes: { single: 'Single-phase', three: 'Three-phase' },
+    speed: 'Speed',
+    pause: 'Pause',
+    resume: 'Resume',
+    reset: 'Reset',
+    language: 'Language',
+    voltageSource: 'VOLTAGE SOURCE',
+    loadCurrent: 'LOAD CURRENT',
+    globalParameters: 'GLOBAL PARAMETERS',
+    amplitudeView: 'Amplitudes',
+    amplitudeViews: { rms: 'RMS', peak: 'Peak', peakToPeak: 'Peak-to-peak' },
+    amplitude: { rms: 'RMS Value', peak: 'Peak Value', peakToPeak: 'Peak-to-Peak Value' },
+    phase: 'Phase',
+    frequency: 'Frequency',
+    currentFrequency: 'Current frequency',
+    loadModes: { manual: 'Manual', rlc: 'RLC Load', multi: 'Multiple loads', motor: 'Motor' },
+    fundamentalLoad: '⚠ The load is solved with the fundamental of the voltage only: the current shown is sinusoidal.',
+    measuredVoltage: 'Measured voltage (V)',
+    measuredCurrent: 'Measured current (A)',
+    warnings: {
+      measured: 'Measured data: the phasors of the fundamental component are shown.',
+      frequencyMismatch: 'Different frequencies: there is no constant phase shift between V and I.',
+      nonSinusoidal: 'Non-sinusoidal signals: only the fundamentals are shown (no harmonics or DC).',
+      inexactWindow: 'V and I share no common period: P, Q and PF are long-run averages, in which only the DC components exchange active power.',
+    },
+  },
+
+  loadStatus: {
+    resistive: { type: 'Resistive', lag: 'In phase' },
+    inductive: { type: 'Inductive', lag: 'Lagging' },
+    capacitive: { type: 'Capacitive', lag: 'Leading' },
+  },
+
+  symbols: {
+    pf: 'PF',
+    sin: 'sin',
+  },
+
+  powerCards: {
+    title: 'Power Summary',
+    active: 'Active Power',
+    activeHint: 'Useful Work',
+    reactive: 'Reactive Power',
+    reactiveHint: 'Stored Field',
+    apparent: 'Apparent Power',
+    apparentHint: 'Total Capacity',
+    powerFactor: 'Power Factor',
+    harmonicsHint: 'With harmonics, PF = P/S ≠ cos θ₁',
+    character: 'Character',
+    pfcCapacitance: 'Correction C',
+    pfAfter: 'Corrected PF',
+    file: 'power',
+  },
+
+  ranges: {
+    title: 'Control ranges',
+    show: 'EDIT',
+    hide: 'CLOSE',
+    voltage: 'Max voltage',
+    current: 'Max current',
+    resistance: 'Max resistance',
+    inductance: 'Max inductance',
+    capacitance: 'Max capacitance',
+    hint: 'RMS values. SI prefixes work: 13.8k, 500m, 2.2µ.',
+  },
+
+  knob: {
+    min: 'Minimum',
+    max: 'Maximum',
+    resetZero: 'Reset to 0',
+  },
+
+  signal: {
+    waveforms: { sine: 'Sine', square: 'Square', triangle: 'Triangle', sawtooth: 'Sawtooth' },
+    dc: 'DC Component',
+    dutyCycle: 'Duty Cycle',
+    symmetry: 'Symmetry (Rise)',
+  },
+
+  load: {
+    series: 'Series',
+    parallel: 'Parallel',
+    resistance: 'Resistance (R)',
+    inductance: 'Inductance (L)',
+    capacitance: 'Capacitance (C)',
+    short: 'Short circuit: add elements to the load',
+    open: 'Open circuit: add elements to the load',
+  },
+
+  loads: {
+    kinds: { resistive: 'Resistive', motor: 'Motor', capacitor: 'Capacitor bank', custom: 'P / PF' },
+    remove: 'Remove load',
+    powerFactor: 'PF',
+    leading: 'Lead.',
+    leadingHint: 'Capacitive load (leading current)',
+    limit: (max: number) => `At most ${max} loads`,
+    empty: 'No loads: the source current is zero.',
+    totals: 'Totals (Boucherot)',
+    hint: 'Active and reactive powers add up load by load; apparent powers do not: |ΣS| ≤ Σ|S|.',
+  },
+
+  motor: {
+    operatingPoints: { load: 'Shaft load', slip: 'Slip' },
+    load: 'Load',
+    slip: 'Slip',
+    ratedPower: 'Rated power (shaft)',
+    poles: 'Poles',
+    statorResistance: 'Stator R₁',
+    statorReactance: 'Stator X₁',
+    rotorResistance: "Rotor R₂' (ref. stator)",
+    rotorReactance: "Rotor X₂' (ref. stator)",
+    magnetizingReactance: 'Magnetizing X_m',
+    rotationalLosses: 'Mechanical losses',
+    circuitHint: "Per-phase equivalent circuit: R₁ + jX₁ in series with jX_m ∥ (R₂'/s + jX₂'). For a three-phase motor, multiply powers and torque by 3.",
+    stalled: 'The load exceeds the breakdown torque: the motor stalls (s = 1) and draws its locked-rotor current.',
+    speed: 'Speed / synchronous',
+    torque: 'Electromagnetic torque',
+    shaftTorque: 'Shaft torque',
+    shaftPower: 'Shaft power',
+    losses: 'Copper losses',
+    efficiency: 'Efficiency',
+    powerFactor: 'PF',
+    curveTitle: 'No load to overload',
+  },
+
+  feeder: {
+    title: 'LINE IMPEDANCE',
+    enabled: 'On',
+    disabled: 'Ideal source',
+    inputs: { total: 'R + jX', perKm: 'Per km' },
+    resistance: 'Loop resistance (R)',
+    reactance: 'Loop reactance (X)',
+    length: 'Route length',
+    resistancePerKm: 'R per conductor',
+    reactancePerKm: 'X per conductor',
+    loopHint: 'Out and back: Z = 2 · length · (r + jx)',
+    sending: 'Sending V',
+    receiving: 'Receiving V',
+    drop: 'Drop',
+    dropPercent: 'Voltage drop',
+    regulation: 'Regulation',
+    losses: 'Losses',
+    efficiency: 'Efficiency',
+    collapse: 'The line cannot deliver that power: the voltage collapses (past the nose of the P-V curve).',
+    fundamentalOnly: '⚠ The line is solved with the fundamentals only: the load voltage shown is sinusoidal.',
+  },
+
+  transformer: {
+    title: 'TRANSFORMER',
+    enabled: 'On',
+    disabled: 'No transformer',
+    tab: 'Transformer',
+    ratio: 'Turns ratio N₁:N₂',
+    resistance: 'R_eq (referred to primary)',
+    reactance: 'X_eq (referred to primary)',
+    coreResistance: 'R_c (core losses)',
+    magnetizingReactance: 'X_m (magnetizing)',
+    modelHint: 'Approximate equivalent circuit referred to the primary: magnetizing branch at the primary terminals, then R_eq + jX_eq and the ideal transformer.',
+    primary: 'Primary',
+    secondary: 'Secondary',
+    noLoadCurrent: 'No-load current',
+    copperLosses: 'Copper losses',
+    coreLosses: 'Core losses',
+    efficiency: 'Efficiency',
+    regulation: 'Regulation',
+    collapse: 'The transformer cannot deliver that power: the secondary voltage collapses.',
+  },
+
+  pfc: {
+    title: 'PF CORRECTION',
+    enabled: 'On',
+    disabled: 'Off',
+    target: 'Target PF',
+    standardSteps: 'Standard steps',
+    required: 'Required Q_c',
+    installed: 'Installed bank',
+    capacitance: 'Capacitance',
+    capacitorCurrent: 'Capacitor I',
+    pfChange: 'PF before → after',
+    lineCurrentChange: 'Line I before → after',
+    status: {
+      'already-met': 'The load already meets the target power factor.',
+      'leading': 'The load is capacitive: correcting it needs reactors, not capacitors.',
+      'no-load': 'There is no active power to correct.',
+    },
+  },
+
+  breakdown: {
+    title: 'Power Decomposition',
+    subtitle: 'IEEE 1459 · computed from sampled v(t)·i(t)',
+    rms: 'RMS Values',
+    fundamentalPowers: 'Fundamental Powers',
+    nonFundamentalPowers: 'Non-fundamental Powers',
+    totals: 'Totals',
+    fundamental: 'Fundamental',
+    harmonics: 'Harmonics + DC',
+    displacement: 'Displacement',
+  },
+
+  threePhase: {
+    title: 'THREE-PHASE SYSTEM',
+    wye: 'Wye (Y)',
+    delta: 'Delta (Δ)',
+    balanced: 'Balanced',
+    unbalanced: 'Unbalanced',
+    phase: (label: string) => `Phase ${label}`,
+    source: (label: string) => `Source ${label}N`,
+    shiftedPhases: '(B and C shifted ∓120°)',
+    phaseVoltage: 'Phase Voltage',
+    load: (label: string) => `Load Z${label}`,
+    sameLoad: '(same on all three phases)',
+  },
+
+  threePhaseSummary: {
+    title: 'Line and Phase Quantities',
+    wyeLoad: 'Wye-connected load (4 wires)',
+    deltaLoad: 'Delta-connected load',
+    noNeutral: '— (no neutral)',
+    phase: 'Phase',
+    phaseVoltage: 'Phase V',
+    phaseCurrent: 'Phase I',
+    lineVoltage: 'Line V',
+    lineCurrent: 'Line I',
+    total: 'Total',
+  },
+
+  scope: {
+    title: 'Oscilloscope',
+    voltage: 'Voltage (V)',
+    current: 'Current (A)',
+    sendingVoltage: 'Sending voltage (V)',
+    time: 'Time (ms)',
+    power: 'Power (W)',
+    live: '● LIVE CAPTURE',
+    paused: '○ PAUSED',
+    xyMode: 'XY MODE',
+    singleShot: 'SINGLE SHOT',
+    triggered: 'TRIGGERED',
+    autoUntriggered: 'AUTO (NO TRIGGER)',
+    waiting: 'WAITING FOR TRIGGER',
+    cursors: 'CURSORS',
+    measurements: 'MEASURE',
+    csvSettings: (timePerDiv: number, voltsPerDiv: number, ampsPerDiv: number, samples: number) =>
+      `Oscilloscope: ${timePerDiv} ms/div, ${voltsPerDiv} V/div, ${ampsPerDiv} A/div, ${samples} samples`,
+    file: 'oscilloscope',
+    xy: {
+      title: 'XY Figure Analysis',
+      arcsin: 'arcsin',
+      yMax: 'Y_max',
+      xMax: 'X_max',
+      fallsRight: 'the ellipse leans to the right',
+      crossing: 'Crossing the centre with v rising, i is',
+      lagging: 'negative → the current lags',
+      leading: 'positive → the current leads',
+      inPhase: 'zero → in phase',
+      character: 'Character',
+      characters: { resistive: 'resistive (straight line)', inductive: 'inductive', capacitive: 'capacitive' },
+      approximate: 'Non-sinusoidal signals or DC: the figure is not an ideal ellipse and φ is approximate.',
+      ratio: 'Frequency ratio',
+      equalOnly: 'The ellipse method only applies to equal frequencies.',
+    },
+    table: {
+      title: 'Automatic Measurements',
+      channel: 'Channel',
+      peakToPeak: 'Peak-peak',
+      rms: 'RMS',
+      mean: 'Mean',
+      frequency: 'Frequency',
+      period: 'Period',
+      riseTime: 'Rise time',
+      delay: 'Phase',
+      note: (samples: number) =>
+        `Measured over the visible window (${samples} samples). Phase is relative to the first channel; positive = lagging.`,
+    },
+    instantPower: {
+      title: 'INSTANTANEOUS POWER p(t) = v(t)·i(t)',
+      delivered: 'Delivered',
+      returned: 'Returned',
+      net: 'Net',
+      perCycle: '/cycle',
+    },
+  },
+
+  scopeControls: {
+    title: 'Oscilloscope Controls',
+    autoset: 'Autoset',
+    horizontal: 'Horizontal',
+    timebase: 'Timebase',
+    position: 'Position',
+    vertical: 'Vertical',
+    voltage: 'Voltage',
+    voltagePosition: 'V Position',
+    current: 'Current',
+    currentPosition: 'I Position',
+    trigger: 'Trigger',
+    armed: 'ON',
+    free: 'FREE',
+    modes: { auto: 'Auto', normal: 'Normal', single: 'Single' },
+    rising: 'Rising edge',
+    falling: 'Falling edge',
+    level: 'Level',
+    rearm: 'Re-arm',
+  },
+
+  spectrum: {
+    title: 'Harmonic Spectrum (FFT)',
+    subtitle: '% of the fundamental · DC excluded',
+    crestV: 'Crest Factor V',
+    crestI: 'Crest Factor I',
+    theoretical: 'Theory',
+    harmonic: (order: number | string) => `Harmonic ${order}`,
+    voltage: 'Voltage',
+    current: 'Current',
+  },
+
+  phasors: {
+    title: 'Phasor Diagram',
+    subtitle: 'Polar Coordinates',
+    voltage: 'Voltage',
+    current: 'Current',
+    corrected: 'Corrected',
+    sending: 'Sending',
+    file: 'phasor-diagram',
+    tab: 'Phasors',
+  },
+
+  complexPlane: {
+    tab: 'Complex Plane',
+    title: 'Complex Plane',
+    subtitle: 'Impedance and Admittance',
+    quantities: { V: 'Voltage', I: 'Current', Z: 'Impedance', S: 'Complex power' },
+    series: 'Series',
+    parallel: 'Parallel',
+    noReactance: 'purely resistive',
+    openCircuit: 'Open circuit: I = 0, Z → ∞',
+    shortCircuit: 'Short circuit: V = 0, Y → ∞',
+    singleFrequency: (f: string) => `Equivalents only hold at ${f} Hz`,
+    file: 'complex-plane',
+  },
+
+  triangle: {
+    title: 'Power Triangle',
+    subtitle: 'Complex Power Plane',
+    activeAxis: 'Active (W)',
+    reactiveAxis: 'Reactive (j)',
+    file: 'power-triangle',
+  },
+
+  exportButtons: {
+    action: (format: string) => `Export ${format}`,
+    summaryHeader: ['quantity', 'value', 'unit'],
+  },
+
+  scenarios: {
+    title: 'SCENARIOS',
+    library: 'Library',
+    load: 'Load',
+    namePlaceholder: 'Scenario name',
+    save: 'Save',
+    open: 'Open',
+    link: 'Link',
+    loaded: (name: string, source: string) => `Scenario "${name}" loaded from ${source}.`,
+    unnamed: 'untitled',
+    fromLink: 'the link',
+    fromLibrary: 'the library',
+    linkFailed: 'The shared link could not be opened:',
+    invalidFile: (file: string) => `"${file}" is not a valid scenario:`,
+    saved: 'Scenario saved.',
+    copied: 'Link copied to the clipboard.',
+    copyManually: 'The link is in the address bar; copy it from there.',
+    defaultFile: 'scenario',
+  },
+
+  presets: {
+    'default': {
+      name: 'Generic RL load',
+      description: '120 V / 60 Hz source with 5 A of current lagging by 30°.',
+    },
+    'induction-motor': {
+      name: 'Induction motor',
+      description: '1 hp motor at full load from its equivalent circuit: 0.82 lagging PF, worse as it unloads.',
+    },
+    'resistive-oven': {
+      name: 'Resistive oven',
+      description: 'Pure 1.5 kW resistance: voltage and current in phase, unity PF.',
+    },
+    'capacitor-bank': {
+      name: 'Capacitor bank',
+      description: 'Capacitive load: the current leads the voltage by almost 90°.',
+    },
+    'nonlinear-load': {
+      name: 'Non-linear load',
+      description: 'Square current in phase with the voltage: PF < 1 from harmonic distortion alone.',
+    },
+    'three-phase-balanced': {
+      name: 'Balanced three-phase system',
+      description: 'Three equal RL loads in wye: the neutral current is zero.',
+    },
+    'three-phase-unbalanced': {
+      name: 'Unbalanced three-phase',
+      description: 'Wye with one resistive, one inductive and one capacitive phase.',
+    },
+    'distribution-feeder': {
+      name: '13.8 kV feeder',
+      description: '2 MVA industrial load at 0.85 PF on a distribution network: kV, hundreds of A and MVA.',
+    },
+    'electronics-bench': {
+      name: 'Bench RC circuit',
+      description: '5 V, 100 Hz generator driving R = 1 kΩ and C = 1 µF: currents of a few mA.',
+    },
+  },
+
+  scenarioErrors: {
+    expectedList: (length: number) => `expected a list of ${length} items`,
+    expectedListUpTo: (max: number) => `expected a list of up to ${max} items`,
+    expectedObject: 'expected an object',
+    expectedNumber: 'expected a number',
+    outOfRange: (value: number, min: number, max: number) => `${value} is outside the range [${min}, ${max}]`,
+    expectedBoolean: 'expected true or false',
+    expectedText: 'expected a text',
+    invalidOption: (value: string, options: string) => `"${value}" is not valid (options: ${options})`,
+    notAScenario: 'The file does not contain a scenario (expected a JSON object).',
+    missingVersion: 'The scenario version number is missing.',
+    newerVersion: (version: number, supported: number) =>
+      `Version ${version} is newer than the supported one (${supported}). Update the application.`,
+    missingState: 'The scenario does not include the simulation state.',
+    invalidJson: (message: string) => `Invalid JSON: ${message}`,
+    brokenLink: 'The link is incomplete or damaged.',
+  },
+
+  capture: {
+    title: 'MEASURED DATA',
+    remove: 'Remove',
+    import: 'Import CSV',
+    hint: 'Oscilloscope captures with time, voltage and current columns. Separator, headers and units are detected.',
+    file: 'File',
+    sampling: 'Sampling',
+    samples: 'samples',
+    roles: { time: 'Time', voltage: 'Voltage', current: 'Current' },
+    frequency: 'Estimated frequency',
+    cycles: 'Cycles analysed',
+    phase: 'Phase shift θ₁',
+    failed: (file: string) => `"${file}" could not be imported:`,
+  },
+
+  captureErrors: {
+    empty: 'The file is empty.',
+    noDataBlock: (minRows: number) => `No block of numeric data was found (at least ${minRows} rows with two or more columns).`,
+    column: (index: number) => `Column ${index}`,
+    noTimeColumn: 'No increasing time column was found.',
+    timeNotIncreasing: (header: string) => `The time column "${header}" is not strictly increasing.`,
+    missingColumns: 'Time, voltage and current columns are required.',
+    currentInVolts: (header: string) => `"${header}" is in volts: it is read as a current through a 1 V/A probe.`,
+    noTimeUnit: 'No time unit in the header: seconds are assumed.',
+    resampled: (sampleRate: string) => `Uneven sampling: resampled at ${sampleRate} samples/s.`,
+    noFrequency: 'The frequency could not be estimated: the voltage does not show two full cycles.',
+    noFullCycle: 'The capture does not contain a full cycle.',
+  },
+
+  profile: {
+    title: '24 h LOAD PROFILE',
+    enabled: 'On',
+    disabled: 'Off',
+    hint: 'Hourly P and PF on the lab voltage, measured with the same analysis as the power cards: energy, demand, average PF and a bill with reactive penalties.',
+    import: 'Import CSV',
+    csvHint: 'CSV with hour, P (kW) and PF columns; a negative PF marks a leading hour.',
+    failed: (file: string) => `"${file}" could not be imported:`,
+    chartTitle: 'Daily profile',
+    hour: 'Hour',
+    activePower: 'P (kW)',
+    reactivePower: 'Q (kVAR)',
+    powerFactor: 'PF',
+    leading: 'Lead',
+    leadingHint: 'Leading hour (capacitive current)',
+    threshold: 'Minimum PF',
+    apply: 'Load this hour into the lab',
+    activeEnergy: 'Active energy',
+    reactiveEnergy: 'Reactive energy',
+    inductive: 'lag.',
+    capacitive: 'lead.',
+    perDay: '/day',
+    peakDemand: 'Peak demand',
+    atHour: (hour: string) => `at ${hour}`,
+    averagePF: 'Average PF',
+    loadFactor: 'Load factor',
+    tariff: 'Tariff',
+    currency: 'Currency',
+    energyPrice: 'Energy, per kWh',
+    demandPrice: 'Demand, per kW',
+    reactivePrice: 'Excess reactive, per kVARh',
+    pfThreshold: 'Minimum PF without penalty',
+    billingDays: 'Billed days',
+    bill: (days: string) => `${days}-day bill`,
+    energyCharge: 'Energy',
+    demandCharge: 'Peak demand',
+    reactiveCharge: 'Reactive penalty',
+    excess: (kvarh: string) => `${kvarh} in excess`,
+    total: 'Total',
+    penaltyHint: 'Each hour may draw up to P·tan(acos minimum PF) of reactive power free, lagging or leading; the excess is billed.',
+    csvHeader: ['hour', 'P_kW', 'PF', 'Q_kVAR', 'S_kVA', 'Q_excess_kVAR'],
+    file: 'load-profile',
+  },
+
+  profileErrors: {
+    noRows: 'No rows with hour, P and PF were found.',
+    wrongHourCount: (found: number) => `Expected 24 hours, the file has ${found}.`,
+    badHour: (line: number) => `Line ${line}: the hour must be a whole number from 0 to 23 (or 1 to 24).`,
+    duplicateHour: (hour: number) => `Hour ${hour} appears more than once.`,
+    negativePower: (line: number) => `Line ${line}: active power cannot be negative.`,
+    badPowerFactor: (line: number) => `Line ${line}: PF must lie between −1 and 1 and not be 0.`,
+  },
+
+  transient: {
+    title: 'SWITCHING TRANSIENT',
+    enabled: 'On',
+    disabled: 'Off',
+    hint: 'Closes a switch onto a series RL, RC or RLC circuit at a chosen point on the voltage wave and solves its equations step by step (Runge-Kutta 4): inrush current, decay of the DC offset and settling into the steady state the phasors describe.',
+    closingAngle: 'Closing angle',
+    resistance: 'Resistance (R)',
+    inductance: 'Inductance (L)',
+    capacitance: 'Capacitance (C)',
+    initialVoltage: 'Initial charge on C',
+    cycles: 'Cycles shown',
+    useLoad: 'Use R, L and C from the RLC load',
+    closing: 'closing',
+    voltage: 'source v',
+    capacitorVoltage: 'v_C',
+    current: 'i',
+    steadyCurrent: 'steady i',
+    transientCurrent: 'i − steady i',
+    peakCurrent: 'Peak current',
+    at: (time: string) => `at t = ${time}`,
+    steadyPeak: 'Steady-state peak',
+    inrushRatio: 'Peak / steady',
+    initialOffset: 'Initial transient component',
+    timeConstant: 'Time constant',
+    settlingTime: 'Settling time',
+    ofSteadyPeak: 'of the steady peak',
+    cycleToCycle: 'between successive cycles',
+    notSettled: 'beyond the window',
+    damping: 'Damping',
+    underdamped: 'underdamped',
+    overdamped: 'overdamped',
+    critical: 'critical',
+    peakCapacitorVoltage: 'Peak v_C',
+    fundamentalOnly: '⚠ The source is not sinusoidal: the simulation uses the actual wave, but the steady state shown only includes the fundamental and DC.',
+    csvHeader: ['t_ms', 'v_V', 'i_A', 'i_steady_A', 'i_transient_A', 'vC_V'],
+    file: 'transient',
+  },
+
+  exercise: {
+    title: 'EXERCISE MODE',
+    gradedCount: (count: number) => `${count} exercises graded`,
+    topic: 'Topic',
+    difficulty: 'Difficulty',
+    topics: { phasors: 'Phasors', power: 'Power triangle', pfc: 'PF correction' },
+    difficulties: { basic: 'Basic', intermediate: 'Intermediate', advanced: 'Advanced' },
+    seedPlaceholder: 'Code (optional)',
+    seedHint: 'The same code, topic and difficulty generate the same exercise',
+    start: 'New exercise',
+    code: 'Code',
+    statements: {
+      phasors: 'Compute the requested phasor quantities (φ = ∠V − ∠I, positive when inductive).',
+      power: 'Compute the powers of the load (Q positive when inductive).',
+      pfc: 'Size the parallel capacitor bank that brings the power factor to the target value.',
+    },
+    source: 'Source',
+    current: 'Current',
+    rlcLoad: 'RLC load',
+    series: 'series',
+    parallel: 'parallel',
+    targetPF: (pf: string) => `Target PF: ${pf} (lagging)`,
+    questions: {
+      z: 'Impedance magnitude |Z|',
+      i: 'RMS current I',
+      thetaI: 'Current phase ∠I',
+      phi: 'Phase shift φ',
+      p: 'Active power P',
+      q: 'Reactive power Q',
+      s: 'Apparent power S',
+      pf: 'Power factor',
+      qc: 'Bank power Qc',
+      c: 'Bank capacitance C',
+      iAfter: 'Corrected line current I′',
+    },
+    tolerance: (relative: string, angle: string) =>
+      `Tolerance: ±${relative} % on magnitudes, ±${angle}° on angles. Decimal point or comma accepted.`,
+    result: (correct: number, total: number) =>
+      `${correct} of ${total} answers correct. The diagrams now show the solution.`,
+    next: 'Next',
+    check: 'Check',
+    exit: 'Exit',
+    hidden: 'Hidden until the exercise is checked',
+  },
+
+  solution: {
+    title: 'Worked Solution',
+    subtitle: 'Step-by-step calculation with the current values',
+    show: 'SHOW',
+    hide: 'HIDE',
+  },
+
+  solutionSteps: {
+    phasors: 'Phasors (RMS values)',
+    phaseShift: 'Phase shift',
+    wrapped: 'brought into (−180°, 180°]',
+    complexPower: 'Complex power',
+    activePower: 'Active power',
+    reactivePower: 'Reactive power',
+    powerFactor: 'Power factor',
+    character: 'Lagging or leading',
+    distortion: 'With harmonics or DC',
+    pf: 'PF',
+    sin: 'sin',
+    noCurrent: 'S = 0: no current, PF = 1 by convention',
+    characterRule: 'φ > 0 → inductive,   φ < 0 → capacitive',
+    characters: {
+      resistive: 'Resistive: I in phase with V',
+      inductive: 'Inductive: I lags V',
+      capacitive: 'Capacitive: I leads V',
+    },
+    totalRms: '(total RMS values)',
+  },
+
+  parameters: {
+    waveforms: { sine: 'sine', square: 'square', triangle: 'triangle', sawtooth: 'sawtooth' },
+    voltage: 'Voltage',
+    current: 'Current',
+    series: 'series',
+    parallel: 'parallel',
+    rlcLoad: 'RLC load',
+    measured: 'Measured data',
+    threePhase: 'Three-phase system',
+    loadIn: 'load in',
+    wye: 'wye (Y)',
+    delta: 'delta (Δ)',
+    balanced: 'balanced',
+    unbalanced: 'unbalanced',
+    source: 'Source',
+    load: 'Load',
+    pfc: 'PF correction',
+    target: 'target',
+    steps: 'steps of',
+    multiLoad: 'Parallel loads',
+    loadKinds: { resistive: 'Resistive', motor: 'Motor', capacitor: 'Capacitor bank', custom: 'P / PF' },
+    lagging: 'lag.',
+    leading: 'lead.',
+    feeder: 'Line',
+    transformer: 'Transformer',
+    motor: 'Induction motor',
+    shaftLoad: 'load',
+    slip: 'slip',
+  },
+};
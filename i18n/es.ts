@@ -0,0 +1,668 @@
+import { SolutionText } from '../services/solution';
+import { ExportText } from '../services/export';
+import { ScenarioText } from '../services/scenario';
+import { CaptureText } from '../services/capture';
+import { ProfileText } from '../services/loadProfile';
+
+// Reference catalog: the other languages must provide exactly these keys
+export const es = {
+  app: {
+    title: 'Laboratorio de Señales',
+    systemModes: { single: 'Monofásico', three: 'Trifásico' },
+    speed: 'Velocidad',
+    pause: 'Detener',
+    resume: 'Reanudar',
+    reset: 'Reiniciar',
+    language: 'Idioma',
+    voltageSource: 'FUENTE DE TENSIÓN',
+    loadCurrent: 'CORRIENTE DE CARGA',
+    globalParameters: 'PARÁMETROS GLOBALES',
+    amplitudeView: 'Amplitudes',
+    amplitudeViews: { rms: 'RMS', peak: 'Pico', peakToPeak: 'Pico-pico' },
+    amplitude: { rms: 'Valor Eficaz (RMS)', peak: 'Valor de Pico', peakToPeak: 'Valor Pico a Pico' },
+    phase: 'Fase',
+    frequency: 'Frecuencia',
+    currentFrequency: 'Frecuencia de I',
+    loadModes: { manual: 'Manual', rlc: 'Carga RLC', multi: 'Varias cargas', motor: 'Motor' },
+    fundamentalLoad: '⚠ La carga se resuelve solo con la fundamental de la tensión: la corriente mostrada es senoidal.',
+    measuredVoltage: 'Tensión medida (V)',
+    measuredCurrent: 'Corriente medida (A)',
+    warnings: {
+      measured: 'Datos medidos: se muestran los fasores de la componente fundamental.',
+      frequencyMismatch: 'Frecuencias distintas: no existe un desfase constante entre V e I.',
+      nonSinusoidal: 'Señales no senoidales: se muestran solo las fundamentales (sin armónicos ni DC).',
+      inexactWindow: 'V e I no comparten un período común: P, Q y FP son promedios a largo plazo, en los que solo las componentes DC intercambian potencia activa.',
+    },
+  },
+
+  loadStatus: {
+    resistive: { type: 'Resistivo', lag: 'En fase' },
+    inductive: { type: 'Inductivo', lag: 'En atraso' },
+    capacitive: { type: 'Capacitivo', lag: 'En adelanto' },
+  },
+
+  // Symbols that change with the language
+  symbols: {
+    pf: 'FP',
+    sin: 'sen',
+  },
+
+  powerCards: {
+    title: 'Resumen de Potencias',
+    active: 'Potencia Activa',
+    activeHint: 'Trabajo Útil',
+    reactive: 'Potencia Reactiva',
+    reactiveHint: 'Campo Almacenado',
+    apparent: 'Potencia Aparente',
+    apparentHint: 'Capacidad Total',
+    powerFactor: 'Factor de Potencia',
+    harmonicsHint: 'Con armónicos, FP = P/S ≠ cos θ₁',
+    character: 'Carácter',
+    pfcCapacitance: 'C corrección',
+    pfAfter: 'FP corregido',
+    file: 'potencias',
+  },
+
+  ranges: {
+    title: 'Rangos de los controles',
+    show: 'EDITAR',
+    hide: 'CERRAR',
+    voltage: 'Tensión máx.',
+    current: 'Corriente máx.',
+    resistance: 'Resistencia máx.',
+    inductance: 'Inductancia máx.',
+    capacitance: 'Capacidad máx.',
+    hint: 'Valores eficaces. Admite prefijos SI: 13,8k, 500m, 2,2µ.',
+  },
+
+  knob: {
+    min: 'Mínimo',
+    max: 'Máximo',
+    resetZero: 'Volver a 0',
+  },
+
+  signal: {
+    waveforms: { sine: 'Senoidal', square: 'Cuadrada', triangle: 'Triangular', sawtooth: 'Diente de sierra' },
+    dc: 'Componente Continua (DC)',
+    dutyCycle: 'Ciclo de Trabajo',
+    symmetry: 'Simetría (Subida)',
+  },
+
+  load: {
+    series: 'Serie',
+    parallel: 'Paralelo',
+    resistance: 'Resistencia (R)',
+    inductance: 'Inductancia (L)',
+    capacitance: 'Capacitancia (C)',
+    short: 'Cortocircuito: agregue elementos a la carga',
+    open: 'Circuito abierto: agregue elementos a la carga',
+  },
+
+  loads: {
+    kinds: { resistive: 'Resistiva', motor: 'Motor', capacitor: 'Banco de capacitores', custom: 'P / FP' },
+    remove: 'Quitar carga',
+    powerFactor: 'FP',
+    leading: 'Cap.',
+    leadingHint: 'Carga capacitiva (corriente en adelanto)',
+    limit: (max: number) => `Máximo ${max} cargas`,
+    empty: 'Sin cargas: la corriente de la fuente es nula.',
+    totals: 'Totales (Boucherot)',
+    hint: 'Las potencias activas y reactivas se suman carga por carga; las aparentes no: |ΣS| ≤ Σ|S|.',
+  },
+
+  motor: {
+    operatingPoints: { load: 'Carga en el eje', slip: 'Deslizamiento' },
+    load: 'Carga',
+    slip: 'Deslizamiento',
+    ratedPower: 'Potencia nominal (eje)',
+    poles: 'Polos',
+    statorResistance: 'R₁ estator',
+    statorReactance: 'X₁ estator',
+    rotorResistance: "R₂' rotor (ref. estator)",
+    rotorReactance: "X₂' rotor (ref. estator)",
+    magnetizingReactance: 'X_m magnetizante',
+    rotationalLosses: 'Pérdidas mecánicas',
+    circuitHint: "Circuito equivalente por fase: R₁ + jX₁ en serie con jX_m ∥ (R₂'/s + jX₂'). En un motor trifásico, potencias y par se multiplican por 3.",
+    stalled: 'La carga supera el par máximo: el motor se detiene (s = 1) y toma la corriente de rotor bloqueado.',
+    speed: 'Velocidad / sincronismo',
+    torque: 'Par electromagnético',
+    shaftTorque: 'Par en el eje',
+    shaftPower: 'Potencia en el eje',
+    losses: 'Pérdidas en el cobre',
+    efficiency: 'Rendimiento',
+    powerFactor: 'FP',
+    curveTitle: 'De vacío a sobrecarga',
+  },
+
+  feeder: {
+    title: 'IMPEDANCIA DE LÍNEA',
+    enabled: 'Activa',
+    disabled: 'Fuente ideal',
+    inputs: { total: 'R + jX', perKm: 'Por km' },
+    resistance: 'Resistencia del lazo (R)',
+    reactance: 'Reactancia del lazo (X)',
+    length: 'Longitud del tendido',
+    resistancePerKm: 'R por conductor',
+    reactancePerKm: 'X por conductor',
+    loopHint: 'Ida y vuelta: Z = 2 · longitud · (r + jx)',
+    sending: 'V envío',
+    receiving: 'V recepción',
+    drop: 'Caída',
+    dropPercent: 'Caída de tensión',
+    regulation: 'Regulación',
+    losses: 'Pérdidas',
+    efficiency: 'Rendimiento',
+    collapse: 'La línea no puede entregar esa potencia: la tensión colapsa (más allá de la nariz de la curva P-V).',
+    fundamentalOnly: '⚠ La línea se resuelve solo con las fundamentales: la tensión en la carga mostrada es senoidal.',
+  },
+
+  transformer: {
+    title: 'TRANSFORMADOR',
+    enabled: 'Activo',
+    disabled: 'Sin transformador',
+    tab: 'Transformador',
+    ratio: 'Relación N₁:N₂',
+    resistance: 'R_eq (ref. primario)',
+    reactance: 'X_eq (ref. primario)',
+    coreResistance: 'R_c (pérdidas en el núcleo)',
+    magnetizingReactance: 'X_m (magnetización)',
+    modelHint: 'Circuito equivalente aproximado referido al primario: rama de magnetización en bornes del primario, luego R_eq + jX_eq y el transformador ideal.',
+    primary: 'Primario',
+    secondary: 'Secundario',
+    noLoadCurrent: 'Corriente de vacío',
+    copperLosses: 'Pérdidas en el cobre',
+    coreLosses: 'Pérdidas en el núcleo',
+    efficiency: 'Rendimiento',
+    regulation: 'Regulación',
+    collapse: 'El transformador no puede entregar esa potencia: la tensión del secundario colapsa.',
+  },
+
+  pfc: {
+    title: 'CORRECCIÓN DEL FP',
+    enabled: 'Activa',
+    disabled: 'Inactiva',
+    target: 'FP Objetivo',
+    standardSteps: 'Pasos estándar',
+    required: 'Q_c requerida',
+    installed: 'Banco instalado',
+    capacitance: 'Capacitancia',
+    capacitorCurrent: 'I capacitor',
+    pfChange: 'FP antes → después',
+    lineCurrentChange: 'I línea antes → después',
+    status: {
+      'already-met': 'La carga ya cumple el factor de potencia objetivo.',
+      'leading': 'La carga es capacitiva: la corrección requiere reactancias, no capacitores.',
+      'no-load': 'No hay potencia activa que corregir.',
+    },
+  },
+
+  breakdown: {
+    title: 'Descomposición de Potencia',
+    subtitle: 'IEEE 1459 · calculada a partir de v(t)·i(t) muestreadas',
+    rms: 'Valores Eficaces',
+    fundamentalPowers: 'Potencias Fundamentales',
+    nonFundamentalPowers: 'Potencias No Fundamentales',
+    totals: 'Totales',
+    fundamental: 'Fundamental',
+    harmonics: 'Armónicos + DC',
+    displacement: 'Desplazamiento',
+  },
+
+  threePhase: {
+    title: 'SISTEMA TRIFÁSICO',
+    wye: 'Estrella (Y)',
+    delta: 'Triángulo (Δ)',
+    balanced: 'Equilibrado',
+    unbalanced: 'Desequilibrado',
+    phase: (label: string) => `Fase ${label}`,
+    source: (label: string) => `Fuente ${label}N`,
+    shiftedPhases: '(B y C desfasadas ∓120°)',
+    phaseVoltage: 'Tensión de Fase',
+    load: (label: string) => `Carga Z${label}`,
+    sameLoad: '(igual en las tres fases)',
+  },
+
+  threePhaseSummary: {
+    title: 'Magnitudes de Línea y de Fase',
+    wyeLoad: 'Carga en estrella (4 hilos)',
+    deltaLoad: 'Carga en triángulo',
+    noNeutral: '— (sin neutro)',
+    phase: 'Fase',
+    phaseVoltage: 'V fase',
+    phaseCurrent: 'I fase',
+    lineVoltage: 'V línea',
+    lineCurrent: 'I línea',
+    total: 'Total',
+  },
+
+  scope: {
+    title: 'Osciloscopio',
+    voltage: 'Tensión (V)',
+    current: 'Corriente (A)',
+    sendingVoltage: 'Tensión de envío (V)',
+    time: 'Tiempo (ms)',
+    power: 'Potencia (W)',
+    live: '● CAPTURA EN VIVO',
+    paused: '○ PAUSADO',
+    xyMode: 'MODO XY',
+    singleShot: 'CAPTURA ÚNICA',
+    triggered: 'DISPARADO',
+    autoUntriggered: 'AUTO (SIN DISPARO)',
+    waiting: 'ESPERANDO DISPARO',
+    cursors: 'CURSORES',
+    measurements: 'MEDIDAS',
+    csvSettings: (timePerDiv: number, voltsPerDiv: number, ampsPerDiv: number, samples: number) =>
+      `Osciloscopio: ${timePerDiv} ms/div, ${voltsPerDiv} V/div, ${ampsPerDiv} A/div, ${samples} muestras`,
+    file: 'osciloscopio',
+    xy: {
+      title: 'Análisis de la Figura XY',
+      arcsin: 'arcsen',
+      yMax: 'Y_máx',
+      xMax: 'X_máx',
+      fallsRight: 'la elipse cae hacia la derecha',
+      crossing: 'Al cruzar el centro con v creciente, i es',
+      lagging: 'negativa → la corriente atrasa',
+      leading: 'positiva → la corriente adelanta',
+      inPhase: 'nula → en fase',
+      character: 'Carácter',
+      characters: { resistive: 'resistivo (recta)', inductive: 'inductivo', capacitive: 'capacitivo' },
+      approximate: 'Señales no senoidales o con continua: la figura no es una elipse ideal y φ es aproximado.',
+      ratio: 'Relación de frecuencias',
+      equalOnly: 'El método de la elipse solo se aplica con frecuencias iguales.',
+    },
+    table: {
+      title: 'Mediciones Automáticas',
+      channel: 'Canal',
+      peakToPeak: 'Pico-pico',
+      rms: 'RMS',
+      mean: 'Media',
+      frequency: 'Frecuencia',
+      period: 'Periodo',
+      riseTime: 'T. subida',
+      delay: 'Desfase',
+      note: (samples: number) =>
+        `Medidas sobre la ventana visible (${samples} muestras). El desfase es respecto del primer canal; positivo = atraso.`,
+    },
+    instantPower: {
+      title: 'POTENCIA INSTANTÁNEA p(t) = v(t)·i(t)',
+      delivered: 'Entregada',
+      returned: 'Devuelta',
+      net: 'Neta',
+      perCycle: '/ciclo',
+    },
+  },
+
+  scopeControls: {
+    title: 'Controles del Osciloscopio',
+    autoset: 'Autoajuste',
+    horizontal: 'Horizontal',
+    timebase: 'Base de tiempo',
+    position: 'Posición',
+    vertical: 'Vertical',
+    voltage: 'Tensión',
+    voltagePosition: 'Posición V',
+    current: 'Corriente',
+    currentPosition: 'Posición I',
+    trigger: 'Disparo',
+    armed: 'ACTIVO',
+    free: 'LIBRE',
+    modes: { auto: 'Auto', normal: 'Normal', single: 'Único' },
+    rising: 'Flanco de subida',
+    falling: 'Flanco de bajada',
+    level: 'Nivel',
+    rearm: 'Rearmar',
+  },
+
+  spectrum: {
+    title: 'Espectro Armónico (FFT)',
+    subtitle: '% de la fundamental · sin componente continua',
+    crestV: 'Factor de Cresta V',
+    crestI: 'Factor de Cresta I',
+    theoretical: 'Teórico',
+    harmonic: (order: number | string) => `Armónico ${order}`,
+    voltage: 'Tensión',
+    current: 'Corriente',
+  },
+
+  phasors: {
+    title: 'Diagrama Fasorial',
+    subtitle: 'Coordenadas Polares',
+    voltage: 'Tensión',
+    current: 'Corriente',
+    corrected: 'Corregida',
+    sending: 'Envío',
+    file: 'diagrama-fasorial',
+    tab: 'Fasores',
+  },
+
+  complexPlane: {
+    tab: 'Plano Complejo',
+    title: 'Plano Complejo',
+    subtitle: 'Impedancia y Admitancia',
+    quantities: { V: 'Tensión', I: 'Corriente', Z: 'Impedancia', S: 'Potencia compleja' },
+    series: 'Serie',
+    parallel: 'Paralelo',
+    noReactance: 'puramente resistivo',
+    openCircuit: 'Circuito abierto: I = 0, Z → ∞',
+    shortCircuit: 'Cortocircuito: V = 0, Y → ∞',
+    singleFrequency: (f: string) => `Equivalentes válidos solo a ${f} Hz`,
+    file: 'plano-complejo',
+  },
+
+  triangle: {
+    title: 'Triángulo de Potencia',
+    subtitle: 'Plano de Potencia Compleja',
+    activeAxis: 'Activa (W)',
+    reactiveAxis: 'Reactiva (j)',
+    file: 'triangulo-potencia',
+  },
+
+  exportButtons: {
+    action: (format: string) => `Exportar ${format}`,
+    summaryHeader: ['magnitud', 'valor', 'unidad'],
+  },
+
+  scenarios: {
+    title: 'ESCENARIOS',
+    library: 'Biblioteca',
+    load: 'Cargar',
+    namePlaceholder: 'Nombre del escenario',
+    save: 'Guardar',
+    open: 'Abrir',
+    link: 'Enlace',
+    loaded: (name: string, source: string) => `Escenario "${name}" cargado desde ${source}.`,
+    unnamed: 'sin nombre',
+    fromLink: 'el enlace',
+    fromLibrary: 'la biblioteca',
+    linkFailed: 'No se pudo abrir el enlace compartido:',
+    invalidFile: (file: string) => `"${file}" no es un escenario válido:`,
+    saved: 'Escenario guardado.',
+    copied: 'Enlace copiado al portapapeles.',
+    copyManually: 'El enlace está en la barra de direcciones; cópielo desde allí.',
+    defaultFile: 'escenario',
+  },
+
+  // Library entries by preset id
+  presets: {
+    'default': {
+      name: 'Carga RL genérica',
+      description: 'Fuente de 120 V / 60 Hz con corriente de 5 A en atraso 30°.',
+    },
+    'induction-motor': {
+      name: 'Motor de inducción',
+      description: 'Motor de 1 HP a plena carga con su circuito equivalente: FP 0,82 inductivo, que empeora al descargarlo.',
+    },
+    'resistive-oven': {
+      name: 'Horno resistivo',
+      description: 'Resistencia pura de 1,5 kW: tensión y corriente en fase, FP unitario.',
+    },
+    'capacitor-bank': {
+      name: 'Banco de capacitores',
+      description: 'Carga capacitiva: la corriente adelanta a la tensión casi 90°.',
+    },
+    'nonlinear-load': {
+      name: 'Carga no lineal',
+      description: 'Corriente cuadrada en fase con la tensión: FP < 1 solo por distorsión armónica.',
+    },
+    'three-phase-balanced': {
+      name: 'Sistema trifásico equilibrado',
+      description: 'Tres cargas RL iguales en estrella: la corriente de neutro es nula.',
+    },
+    'three-phase-unbalanced': {
+      name: 'Trifásico desequilibrado',
+      description: 'Estrella con una fase resistiva, una inductiva y una capacitiva.',
+    },
+    'distribution-feeder': {
+      name: 'Alimentador de 13,8 kV',
+      description: 'Carga industrial de 2 MVA con FP 0,85 en una red de distribución: kV, cientos de A y MVA.',
+    },
+    'electronics-bench': {
+      name: 'Circuito RC de banco',
+      description: 'Generador de 5 V a 100 Hz sobre R = 1 kΩ y C = 1 µF: corrientes de pocos mA.',
+    },
+  } as Record<string, { name: string; description: string }>,
+
+  scenarioErrors: {
+    expectedList: (length: number) => `se esperaba una lista de ${length} elementos`,
+    expectedListUpTo: (max: number) => `se esperaba una lista de hasta ${max} elementos`,
+    expectedObject: 'se esperaba un objeto',
+    expectedNumber: 'se esperaba un número',
+    outOfRange: (value: number, min: number, max: number) => `${value} está fuera del rango [${min}, ${max}]`,
+    expectedBoolean: 'se esperaba verdadero o falso',
+    expectedText: 'se esperaba un texto',
+    invalidOption: (value: string, options: string) => `"${value}" no es válido (opciones: ${options})`,
+    notAScenario: 'El archivo no contiene un escenario (se esperaba un objeto JSON).',
+    missingVersion: 'Falta el número de versión del escenario.',
+    newerVersion: (version: number, supported: number) =>
+      `La versión ${version} es más nueva que la soportada (${supported}). Actualice la aplicación.`,
+    missingState: 'El escenario no incluye el estado de la simulación.',
+    invalidJson: (message: string) => `JSON inválido: ${message}`,
+    brokenLink: 'El enlace está incompleto o dañado.',
+  } satisfies ScenarioText,
+
+  capture: {
+    title: 'DATOS MEDIDOS',
+    remove: 'Quitar',
+    import: 'Importar CSV',
+    hint: 'Capturas de osciloscopio con columnas de tiempo, tensión y corriente. Se detectan separador, encabezados y unidades.',
+    file: 'Archivo',
+    sampling: 'Muestreo',
+    samples: 'muestras',
+    roles: { time: 'Tiempo', voltage: 'Tensión', current: 'Corriente' },
+    frequency: 'Frecuencia estimada',
+    cycles: 'Ciclos analizados',
+    phase: 'Desfase θ₁',
+    failed: (file: string) => `"${file}" no se pudo importar:`,
+  },
+
+  captureErrors: {
+    empty: 'El archivo está vacío.',
+    noDataBlock: (minRows: number) => `No se encontró un bloque de datos numéricos (mínimo ${minRows} filas con al menos dos columnas).`,
+    column: (index: number) => `Columna ${index}`,
+    noTimeColumn: 'No se encontró una columna de tiempo creciente.',
+    timeNotIncreasing: (header: string) => `La columna de tiempo "${header}" no es estrictamente creciente.`,
+    missingColumns: 'Se necesitan columnas de tiempo, tensión y corriente.',
+    currentInVolts: (header: string) => `"${header}" está en voltios: se interpreta como corriente con una sonda de 1 V/A.`,
+    noTimeUnit: 'Sin unidad de tiempo en el encabezado: se asumen segundos.',
+    resampled: (sampleRate: string) => `Muestreo no uniforme: se remuestreó a ${sampleRate} muestras/s.`,
+    noFrequency: 'No se pudo estimar la frecuencia: la tensión no muestra dos ciclos completos.',
+    noFullCycle: 'La captura no contiene un ciclo completo.',
+  } satisfies CaptureText,
+
+  profile: {
+    title: 'PERFIL DE CARGA 24 h',
+    enabled: 'Activo',
+    disabled: 'Inactivo',
+    hint: 'P y FP hora a hora sobre la tensión del laboratorio, medidos con el mismo análisis que las tarjetas de potencia: energía, demanda, FP medio y factura con recargo por reactiva.',
+    import: 'Importar CSV',
+    csvHint: 'CSV con columnas hora, P (kW) y FP; un FP negativo indica una hora capacitiva.',
+    failed: (file: string) => `"${file}" no se pudo importar:`,
+    chartTitle: 'Perfil diario',
+    hour: 'Hora',
+    activePower: 'P (kW)',
+    reactivePower: 'Q (kVAR)',
+    powerFactor: 'FP',
+    leading: 'Cap.',
+    leadingHint: 'Hora capacitiva (corriente en adelanto)',
+    threshold: 'FP mínimo',
+    apply: 'Llevar esta hora al laboratorio',
+    activeEnergy: 'Energía activa',
+    reactiveEnergy: 'Energía reactiva',
+    inductive: 'ind.',
+    capacitive: 'cap.',
+    perDay: '/día',
+    peakDemand: 'Demanda máxima',
+    atHour: (hour: string) => `a las ${hour}`,
+    averagePF: 'FP medio',
+    loadFactor: 'Factor de carga',
+    tariff: 'Tarifa',
+    currency: 'Moneda',
+    energyPrice: 'Energía, por kWh',
+    demandPrice: 'Demanda, por kW',
+    reactivePrice: 'Reactiva excedente, por kVARh',
+    pfThreshold: 'FP mínimo sin recargo',
+    billingDays: 'Días facturados',
+    bill: (days: string) => `Factura de ${days} días`,
+    energyCharge: 'Energía',
+    demandCharge: 'Demanda máxima',
+    reactiveCharge: 'Recargo por reactiva',
+    excess: (kvarh: string) => `${kvarh} excedentes`,
+    total: 'Total',
+    penaltyHint: 'Cada hora puede tomar hasta P·tan(acos FP mínimo) de reactiva sin cargo, inductiva o capacitiva; el excedente se factura.',
+    csvHeader: ['hora', 'P_kW', 'FP', 'Q_kVAR', 'S_kVA', 'Q_excedente_kVAR'],
+    file: 'perfil-carga',
+  },
+
+  profileErrors: {
+    noRows: 'No se encontraron filas con hora, P y FP.',
+    wrongHourCount: (found: number) => `Se esperaban 24 horas y el archivo tiene ${found}.`,
+    badHour: (line: number) => `Línea ${line}: la hora debe ser un entero de 0 a 23 (o de 1 a 24).`,
+    duplicateHour: (hour: number) => `La hora ${hour} aparece más de una vez.`,
+    negativePower: (line: number) => `Línea ${line}: la potencia activa no puede ser negativa.`,
+    badPowerFactor: (line: number) => `Línea ${line}: el FP debe estar entre −1 y 1, sin ser 0.`,
+  } satisfies ProfileText,
+
+  transient: {
+    title: 'TRANSITORIO DE CONEXIÓN',
+    enabled: 'Activo',
+    disabled: 'Inactivo',
+    hint: 'Cierra un interruptor sobre un circuito RL, RC o RLC serie en un punto elegido de la onda de tensión y resuelve sus ecuaciones paso a paso (Runge-Kutta 4): corriente de arranque, decaimiento de la componente continua y llegada al régimen permanente que describen los fasores.',
+    closingAngle: 'Ángulo de cierre',
+    resistance: 'Resistencia (R)',
+    inductance: 'Inductancia (L)',
+    capacitance: 'Capacitancia (C)',
+    initialVoltage: 'Carga inicial de C',
+    cycles: 'Ciclos mostrados',
+    useLoad: 'Usar R, L y C de la carga RLC',
+    closing: 'cierre',
+    voltage: 'v fuente',
+    capacitorVoltage: 'v_C',
+    current: 'i',
+    steadyCurrent: 'i régimen',
+    transientCurrent: 'i − i régimen',
+    peakCurrent: 'Pico de corriente',
+    at: (time: string) => `en t = ${time}`,
+    steadyPeak: 'Pico en régimen',
+    inrushRatio: 'Pico / régimen',
+    initialOffset: 'Componente transitoria inicial',
+    timeConstant: 'Constante de tiempo',
+    settlingTime: 'Tiempo de establecimiento',
+    ofSteadyPeak: 'del pico en régimen',
+    cycleToCycle: 'entre ciclos sucesivos',
+    notSettled: 'fuera de la ventana',
+    damping: 'Amortiguamiento',
+    underdamped: 'subamortiguado',
+    overdamped: 'sobreamortiguado',
+    critical: 'crítico',
+    peakCapacitorVoltage: 'Pico de v_C',
+    fundamentalOnly: '⚠ La fuente no es senoidal: la simulación usa la onda real, pero el régimen permanente mostrado solo incluye la fundamental y la continua.',
+    csvHeader: ['t_ms', 'v_V', 'i_A', 'i_regimen_A', 'i_transitoria_A', 'vC_V'],
+    file: 'transitorio',
+  },
+
+  exercise: {
+    title: 'MODO EJERCICIO',
+    gradedCount: (count: number) => `${count} ejercicios corregidos`,
+    topic: 'Tema',
+    difficulty: 'Dificultad',
+    topics: { phasors: 'Fasores', power: 'Triángulo de potencia', pfc: 'Corrección del FP' },
+    difficulties: { basic: 'Básico', intermediate: 'Intermedio', advanced: 'Avanzado' },
+    seedPlaceholder: 'Código (opcional)',
+    seedHint: 'El mismo código, tema y dificultad generan el mismo ejercicio',
+    start: 'Nuevo ejercicio',
+    code: 'Código',
+    statements: {
+      phasors: 'Calcule las magnitudes fasoriales indicadas (φ = ∠V − ∠I, positivo inductivo).',
+      power: 'Calcule las potencias de la carga (Q positiva si es inductiva).',
+      pfc: 'Dimensione el banco de capacitores en paralelo que lleva el factor de potencia al valor objetivo.',
+    },
+    source: 'Fuente',
+    current: 'Corriente',
+    rlcLoad: 'Carga RLC',
+    series: 'serie',
+    parallel: 'paralelo',
+    targetPF: (pf: string) => `FP objetivo: ${pf} (inductivo)`,
+    questions: {
+      z: 'Módulo de la impedancia |Z|',
+      i: 'Corriente eficaz I',
+      thetaI: 'Fase de la corriente ∠I',
+      phi: 'Desfase φ',
+      p: 'Potencia activa P',
+      q: 'Potencia reactiva Q',
+      s: 'Potencia aparente S',
+      pf: 'Factor de potencia',
+      qc: 'Potencia del banco Qc',
+      c: 'Capacidad del banco C',
+      iAfter: 'Corriente de línea corregida I′',
+    },
+    tolerance: (relative: string, angle: string) =>
+      `Tolerancia: ±${relative} % en magnitudes, ±${angle}° en ángulos. Se admite coma o punto decimal.`,
+    result: (correct: number, total: number) =>
+      `${correct} de ${total} respuestas correctas. Los diagramas muestran ahora la solución.`,
+    next: 'Siguiente',
+    check: 'Corregir',
+    exit: 'Salir',
+    hidden: 'Oculto hasta corregir el ejercicio',
+  },
+
+  solution: {
+    title: 'Desarrollo',
+    subtitle: 'Cálculo paso a paso con los valores actuales',
+    show: 'MOSTRAR',
+    hide: 'OCULTAR',
+  },
+
+  solutionSteps: {
+    phasors: 'Fasores (valores eficaces)',
+    phaseShift: 'Desfase',
+    wrapped: 'llevado a (−180°, 180°]',
+    complexPower: 'Potencia compleja',
+    activePower: 'Potencia activa',
+    reactivePower: 'Potencia reactiva',
+    powerFactor: 'Factor de potencia',
+    character: 'Atraso o adelanto',
+    distortion: 'Con armónicos o DC',
+    pf: 'FP',
+    sin: 'sen',
+    noCurrent: 'S = 0: sin corriente, FP = 1 por convención',
+    characterRule: 'φ > 0 → inductiva,   φ < 0 → capacitiva',
+    characters: {
+      resistive: 'Resistiva: I en fase con V',
+      inductive: 'Inductiva: I en atraso respecto de V',
+      capacitive: 'Capacitiva: I en adelanto respecto de V',
+    },
+    totalRms: '(eficaces totales)',
+  } satisfies SolutionText,
+
+  parameters: {
+    waveforms: { sine: 'senoidal', square: 'cuadrada', triangle: 'triangular', sawtooth: 'diente de sierra' },
+    voltage: 'Tensión',
+    current: 'Corriente',
+    series: 'serie',
+    parallel: 'paralelo',
+    rlcLoad: 'Carga RLC',
+    measured: 'Datos medidos',
+    threePhase: 'Sistema trifásico',
+    loadIn: 'carga en',
+    wye: 'estrella (Y)',
+    delta: 'triángulo (Δ)',
+    balanced: 'equilibrado',
+    unbalanced: 'desequilibrado',
+    source: 'Fuente',
+    load: 'Carga',
+    pfc: 'Corrección del FP',
+    target: 'objetivo',
+    steps: 'escalones de',
+    multiLoad: 'Cargas en paralelo',
+    loadKinds: { resistive: 'Resistiva', motor: 'Motor', capacitor: 'Banco de capacitores', custom: 'P / FP' },
+    lagging: 'ind.',
+    leading: 'cap.',
+    feeder: 'Línea',
+    transformer: 'Transformador',
+    motor: 'Motor de inducción',
+    shaftLoad: 'carga',
+    slip: 'deslizamiento',
+  } satisfies ExportText,
+};
+
+export type Messages = typeof es;
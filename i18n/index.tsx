@@ -0,0 +1,80 @@
+import React, { createContext, useContext, useEffect, useMemo, useState } from 'react';
+import { Locale } from '../types';
+import { DEFAULT_LOCALE, LOCALE_STORAGE_KEY } from '../constants';
+import { formatNumber, formatSI, parseNumber, scaleSI, ScaledValue } from '../services/format';
+import { es, Messages } from './es';
+import { en } from './en';
+import { pt } from './pt';
+
+export type { Messages } from './es';
+
+export const CATALOGS: Record<Locale, Messages> = { es, en, pt };
+
+// Switcher entries, each in its own language
+export const LANGUAGES: { id: Locale; label: string; name: string }[] = [
+  { id: 'es', label: 'ES', name: 'Español' },
+  { id: 'en', label: 'EN', name: 'English' },
+  { id: 'pt', label: 'PT', name: 'Português' },
+];
+
+const isLocale = (value: unknown): value is Locale => typeof value === 'string' && value in CATALOGS;
+
+// Saved choice first, then the browser language, then the default
+const initialLocale = (): Locale => {
+  if (typeof window === 'undefined') return DEFAULT_LOCALE;
+  try {
+    const saved = window.localStorage.getItem(LOCALE_STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage can be blocked (private mode, sandboxed iframes)
+  }
+  const browser = window.navigator.language?.slice(0, 2).toLowerCase();
+  return isLocale(browser) ? browser : DEFAULT_LOCALE;
+};
+
+interface I18nValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Messages;
+  fmt: (value: number, decimals?: number) => string; // Number with the locale's decimal mark
+  parse: (text: string) => number | null; // Locale's decimal mark, the other one grouping thousands
+  si: (value: number, unit: string, digits?: number) => string; // Engineering notation, "13,80 kV"
+  siParts: (value: number, unit: string, digits?: number) => ScaledValue; // Same, number and unit apart
+}
+
+const I18nContext = createContext<I18nValue>({
+  locale: DEFAULT_LOCALE,
+  setLocale: () => {},
+  t: CATALOGS[DEFAULT_LOCALE],
+  fmt: (value, decimals) => formatNumber(value, DEFAULT_LOCALE, decimals),
+  parse: text => parseNumber(text, DEFAULT_LOCALE),
+  si: (value, unit, digits) => formatSI(value, unit, DEFAULT_LOCALE, digits),
+  siParts: (value, unit, digits) => scaleSI(value, unit, DEFAULT_LOCALE, digits),
+});
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocale] = useState<Locale>(initialLocale);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    try {
+      window.localStorage.setItem(LOCALE_STORAGE_KEY, locale);
+    } catch {
+      // The choice then only lasts for this visit
+    }
+  }, [locale]);
+
+  const value = useMemo<I18nValue>(() => ({
+    locale,
+    setLocale,
+    t: CATALOGS[locale],
+    fmt: (n, decimals) => formatNumber(n, locale, decimals),
+    parse: text => parseNumber(text, locale),
+    si: (value, unit, digits) => formatSI(value, unit, locale, digits),
+    siParts: (value, unit, digits) => scaleSI(value, unit, locale, digits),
+  }), [locale]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nValue => useContext(I18nContext);
@@ -0,0 +1,659 @@
+import { Messages } from './es';
+
+export const pt: Messages = {
+  app: {
+    title: 'Laboratório de Sinais',
+    systemModes: { single: 'Monofásico', three: 'Trifásico' },
+    speed: 'Velocidade',
+    pause: 'Pausar',
+    resume: 'Retomar',
+    reset: 'Reiniciar',
+    language: 'Idioma',
+    voltageSource: 'FONTE DE TENSÃO',
+    loadCurrent: 'CORRENTE DE CARGA',
+    globalParameters: 'PARÂMETROS GLOBAIS',
+    amplitudeView: 'Amplitudes',
+    amplitudeViews: { rms: 'RMS', peak: 'Pico', peakToPeak: 'Pico a pico' },
+    amplitude: { rms: 'Valor Eficaz (RMS)', peak: 'Valor de Pico', peakToPeak: 'Valor Pico a Pico' },
+    phase: 'Fase',
+    frequency: 'Frequência',
+    currentFrequency: 'Frequência de I',
+    loadModes: { manual: 'Manual', rlc: 'Carga RLC', multi: 'Várias cargas', motor: 'Motor' },
+    fundamentalLoad: '⚠ A carga é resolvida apenas com a fundamental da tensão: a corrente mostrada é senoidal.',
+    measuredVoltage: 'Tensão medida (V)',
+    measuredCurrent: 'Corrente medida (A)',
+    warnings: {
+      measured: 'Dados medidos: são mostrados os fasores da componente fundamental.',
+      frequencyMismatch: 'Frequências diferentes: não existe uma defasagem constante entre V e I.',
+      nonSinusoidal: 'Sinais não senoidais: são mostradas apenas as fundamentais (sem harmônicos nem CC).',
+      inexactWindow: 'V e I não compartilham um período comum: P, Q e FP são médias de longo prazo, nas quais apenas as componentes CC trocam potência ativa.',
+    },
+  },
+
+  loadStatus: {
+    resistive: { type: 'Resistivo', lag: 'Em fase' },
+    inductive: { type: 'Indutivo', lag: 'Atrasado' },
+    capacitive: { type: 'Capacitivo', lag: 'Adiantado' },
+  },
+
+  symbols: {
+    pf: 'FP',
+    sin: 'sen',
+  },
+
+  powerCards: {
+    title: 'Resumo de Potências',
+    active: 'Potência Ativa',
+    activeHint: 'Trabalho Útil',
+    reactive: 'Potência Reativa',
+    reactiveHint: 'Campo Armazenado',
+    apparent: 'Potência Aparente',
+    apparentHint: 'Capacidade Total',
+    powerFactor: 'Fator de Potência',
+    harmonicsHint: 'Com harmônicos, FP = P/S ≠ cos θ₁',
+    character: 'Caráter',
+    pfcCapacitance: 'C de correção',
+    pfAfter: 'FP corrigido',
+    file: 'potencias',
+  },
+
+  ranges: {
+    title: 'Faixas dos controles',
+    show: 'EDITAR',
+    hide: 'FECHAR',
+    voltage: 'Tensão máx.',
+    current: 'Corrente máx.',
+    resistance: 'Resistência máx.',
+    inductance: 'Indutância máx.',
+    capacitance: 'Capacitância máx.',
+    hint: 'Valores eficazes. Aceita prefixos SI: 13,8k, 500m, 2,2µ.',
+  },
+
+  knob: {
+    min: 'Mínimo',
+    max: 'Máximo',
+    resetZero: 'Voltar a 0',
+  },
+
+  signal: {
+    waveforms: { sine: 'Senoidal', square: 'Quadrada', triangle: 'Triangular', sawtooth: 'Dente de serra' },
+    dc: 'Componente Contínua (CC)',
+    dutyCycle: 'Ciclo de Trabalho',
+    symmetry: 'Simetria (Subida)',
+  },
+
+  load: {
+    series: 'Série',
+    parallel: 'Paralelo',
+    resistance: 'Resistência (R)',
+    inductance: 'Indutância (L)',
+    capacitance: 'Capacitância (C)',
+    short: 'Curto-circuito: adicione elementos à carga',
+    open: 'Circuito aberto: adicione elementos à carga',
+  },
+
+  loads: {
+    kinds: { resistive: 'Resistiva', motor: 'Motor', capacitor: 'Banco de capacitores', custom: 'P / FP' },
+    remove: 'Remover carga',
+    powerFactor: 'FP',
+    leading: 'Cap.',
+    leadingHint: 'Carga capacitiva (corrente adiantada)',
+    limit: (max: number) => `No máximo ${max} cargas`,
+    empty: 'Sem cargas: a corrente da fonte é nula.',
+    totals: 'Totais (Boucherot)',
+    hint: 'As potências ativas e reativas somam-se carga a carga; as aparentes não: |ΣS| ≤ Σ|S|.',
+  },
+
+  motor: {
+    operatingPoints: { load: 'Carga no eixo', slip: 'Escorregamento' },
+    load: 'Carga',
+    slip: 'Escorregamento',
+    ratedPower: 'Potência nominal (eixo)',
+    poles: 'Polos',
+    statorResistance: 'R₁ estator',
+    statorReactance: 'X₁ estator',
+    rotorResistance: "R₂' rotor (ref. estator)",
+    rotorReactance: "X₂' rotor (ref. estator)",
+    magnetizingReactance: 'X_m magnetizante',
+    rotationalLosses: 'Perdas mecânicas',
+    circuitHint: "Circuito equivalente por fase: R₁ + jX₁ em série com jX_m ∥ (R₂'/s + jX₂'). Em um motor trifásico, potências e torque são multiplicados por 3.",
+    stalled: 'A carga supera o torque máximo: o motor para (s = 1) e absorve a corrente de rotor bloqueado.',
+    speed: 'Velocidade / síncrona',
+    torque: 'Torque eletromagnético',
+    shaftTorque: 'Torque no eixo',
+    shaftPower: 'Potência no eixo',
+    losses: 'Perdas no cobre',
+    efficiency: 'Rendimento',
+    powerFactor: 'FP',
+    curveTitle: 'Do vazio à sobrecarga',
+  },
+
+  feeder: {
+    title: 'IMPEDÂNCIA DE LINHA',
+    enabled: 'Ativa',
+    disabled: 'Fonte ideal',
+    inputs: { total: 'R + jX', perKm: 'Por km' },
+    resistance: 'Resistência do laço (R)',
+    reactance: 'Reatância do laço (X)',
+    length: 'Comprimento do trecho',
+    resistancePerKm: 'R por condutor',
+    reactancePerKm: 'X por condutor',
+    loopHint: 'Ida e volta: Z = 2 · comprimento · (r + jx)',
+    sending: 'V envio',
+    receiving: 'V recepção',
+    drop: 'Queda',
+    dropPercent: 'Queda de tensão',
+    regulation: 'Regulação',
+    losses: 'Perdas',
+    efficiency: 'Rendimento',
+    collapse: 'A linha não consegue entregar essa potência: a tensão colapsa (além do nariz da curva P-V).',
+    fundamentalOnly: '⚠ A linha é resolvida apenas com as fundamentais: a tensão na carga mostrada é senoidal.',
+  },
+
+  transformer: {
+    title: 'TRANSFORMADOR',
+    enabled: 'Ativo',
+    disabled: 'Sem transformador',
+    tab: 'Transformador',
+    ratio: 'Relação N₁:N₂',
+    resistance: 'R_eq (ref. primário)',
+    reactance: 'X_eq (ref. primário)',
+    coreResistance: 'R_c (perdas no núcleo)',
+    magnetizingReactance: 'X_m (magnetização)',
+    modelHint: 'Circuito equivalente aproximado referido ao primário: ramo de magnetização nos terminais do primário, depois R_eq + jX_eq e o transformador ideal.',
+    primary: 'Primário',
+    secondary: 'Secundário',
+    noLoadCurrent: 'Corrente a vazio',
+    copperLosses: 'Perdas no cobre',
+    coreLosses: 'Perdas no núcleo',
+    efficiency: 'Rendimento',
+    regulation: 'Regulação',
+    collapse: 'O transformador não consegue entregar essa potência: a tensão do secundário colapsa.',
+  },
+
+  pfc: {
+    title: 'CORREÇÃO DO FP',
+    enabled: 'Ativa',
+    disabled: 'Inativa',
+    target: 'FP Alvo',
+    standardSteps: 'Passos padrão',
+    required: 'Q_c necessária',
+    installed: 'Banco instalado',
+    capacitance: 'Capacitância',
+    capacitorCurrent: 'I capacitor',
+    pfChange: 'FP antes → depois',
+    lineCurrentChange: 'I linha antes → depois',
+    status: {
+      'already-met': 'A carga já atende ao fator de potência alvo.',
+      'leading': 'A carga é capacitiva: a correção exige reatores, não capacitores.',
+      'no-load': 'Não há potência ativa a corrigir.',
+    },
+  },
+
+  breakdown: {
+    title: 'Decomposição da Potência',
+    subtitle: 'IEEE 1459 · calculada a partir de v(t)·i(t) amostradas',
+    rms: 'Valores Eficazes',
+    fundamentalPowers: 'Potências Fundamentais',
+    nonFundamentalPowers: 'Potências Não Fundamentais',
+    totals: 'Totais',
+    fundamental: 'Fundamental',
+    harmonics: 'Harmônicos + CC',
+    displacement: 'Deslocamento',
+  },
+
+  threePhase: {
+    title: 'SISTEMA TRIFÁSICO',
+    wye: 'Estrela (Y)',
+    delta: 'Triângulo (Δ)',
+    balanced: 'Equilibrado',
+    unbalanced: 'Desequilibrado',
+    phase: (label: string) => `Fase ${label}`,
+    source: (label: string) => `Fonte ${label}N`,
+    shiftedPhases: '(B e C defasadas ∓120°)',
+    phaseVoltage: 'Tensão de Fase',
+    load: (label: string) => `Carga Z${label}`,
+    sameLoad: '(igual nas três fases)',
+  },
+
+  threePhaseSummary: {
+    title: 'Grandezas de Linha e de Fase',
+    wyeLoad: 'Carga em estrela (4 fios)',
+    deltaLoad: 'Carga em triângulo',
+    noNeutral: '— (sem neutro)',
+    phase: 'Fase',
+    phaseVoltage: 'V fase',
+    phaseCurrent: 'I fase',
+    lineVoltage: 'V linha',
+    lineCurrent: 'I linha',
+    total: 'Total',
+  },
+
+  scope: {
+    title: 'Osciloscópio',
+    voltage: 'Tensão (V)',
+    current: 'Corrente (A)',
+    sendingVoltage: 'Tensão de envio (V)',
+    time: 'Tempo (ms)',
+    power: 'Potência (W)',
+    live: '● CAPTURA AO VIVO',
+    paused: '○ PAUSADO',
+    xyMode: 'MODO XY',
+    singleShot: 'CAPTURA ÚNICA',
+    triggered: 'DISPARADO',
+    autoUntriggered: 'AUTO (SEM DISPARO)',
+    waiting: 'AGUARDANDO DISPARO',
+    cursors: 'CURSORES',
+    measurements: 'MEDIDAS',
+    csvSettings: (timePerDiv: number, voltsPerDiv: number, ampsPerDiv: number, samples: number) =>
+      `Osciloscópio: ${timePerDiv} ms/div, ${voltsPerDiv} V/div, ${ampsPerDiv} A/div, ${samples} amostras`,
+    file: 'osciloscopio',
+    xy: {
+      title: 'Análise da Figura XY',
+      arcsin: 'arcsen',
+      yMax: 'Y_máx',
+      xMax: 'X_máx',
+      fallsRight: 'a elipse cai para a direita',
+      crossing: 'Ao cruzar o centro com v crescente, i é',
+      lagging: 'negativa → a corrente atrasa',
+      leading: 'positiva → a corrente adianta',
+      inPhase: 'nula → em fase',
+      character: 'Caráter',
+      characters: { resistive: 'resistivo (reta)', inductive: 'indutivo', capacitive: 'capacitivo' },
+      approximate: 'Sinais não senoidais ou com CC: a figura não é uma elipse ideal e φ é aproximado.',
+      ratio: 'Relação de frequências',
+      equalOnly: 'O método da elipse só se aplica com frequências iguais.',
+    },
+    table: {
+      title: 'Medições Automáticas',
+      channel: 'Canal',
+      peakToPeak: 'Pico a pico',
+      rms: 'RMS',
+      mean: 'Média',
+      frequency: 'Frequência',
+      period: 'Período',
+      riseTime: 'T. subida',
+      delay: 'Defasagem',
+      note: (samples: number) =>
+        `Medidas sobre a janela visível (${samples} amostras). A defasagem é relativa ao primeiro canal; positivo = atraso.`,
+    },
+    instantPower: {
+      title: 'POTÊNCIA INSTANTÂNEA p(t) = v(t)·i(t)',
+      delivered: 'Entregue',
+      returned: 'Devolvida',
+      net: 'Líquida',
+      perCycle: '/ciclo',
+    },
+  },
+
+  scopeControls: {
+    title: 'Controles do Osciloscópio',
+    autoset: 'Autoajuste',
+    horizontal: 'Horizontal',
+    timebase: 'Base de tempo',
+    position: 'Posição',
+    vertical: 'Vertical',
+    voltage: 'Tensão',
+    voltagePosition: 'Posição V',
+    current: 'Corrente',
+    currentPosition: 'Posição I',
+    trigger: 'Disparo',
+    armed: 'ATIVO',
+    free: 'LIVRE',
+    modes: { auto: 'Auto', normal: 'Normal', single: 'Único' },
+    rising: 'Borda de subida',
+    falling: 'Borda de descida',
+    level: 'Nível',
+    rearm: 'Rearmar',
+  },
+
+  spectrum: {
+    title: 'Espectro Harmônico (FFT)',
+    subtitle: '% da fundamental · sem componente contínua',
+    crestV: 'Fator de Crista V',
+    crestI: 'Fator de Crista I',
+    theoretical: 'Teórico',
+    harmonic: (order: number | string) => `Harmônico ${order}`,
+    voltage: 'Tensão',
+    current: 'Corrente',
+  },
+
+  phasors: {
+    title: 'Diagrama Fasorial',
+    subtitle: 'Coordenadas Polares',
+    voltage: 'Tensão',
+    current: 'Corrente',
+    corrected: 'Corrigida',
+    sending: 'Envio',
+    file: 'diagrama-fasorial',
+    tab: 'Fasores',
+  },
+
+  complexPlane: {
+    tab: 'Plano Complexo',
+    title: 'Plano Complexo',
+    subtitle: 'Impedância e Admitância',
+    quantities: { V: 'Tensão', I: 'Corrente', Z: 'Impedância', S: 'Potência complexa' },
+    series: 'Série',
+    parallel: 'Paralelo',
+    noReactance: 'puramente resistivo',
+    openCircuit: 'Circuito aberto: I = 0, Z → ∞',
+    shortCircuit: 'Curto-circuito: V = 0, Y → ∞',
+    singleFrequency: (f: string) => `Equivalentes válidos apenas em ${f} Hz`,
+    file: 'plano-complexo',
+  },
+
+  triangle: {
+    title: 'Triângulo de Potências',
+    subtitle: 'Plano de Potência Complexa',
+    activeAxis: 'Ativa (W)',
+    reactiveAxis: 'Reativa (j)',
+    file: 'triangulo-potencias',
+  },
+
+  exportButtons: {
+    action: (format: string) => `Exportar ${format}`,
+    summaryHeader: ['grandeza', 'valor', 'unidade'],
+  },
+
+  scenarios: {
+    title: 'CENÁRIOS',
+    library: 'Biblioteca',
+    load: 'Carregar',
+    namePlaceholder: 'Nome do cenário',
+    save: 'Salvar',
+    open: 'Abrir',
+    link: 'Link',
+    loaded: (name: string, source: string) => `Cenário "${name}" carregado de ${source}.`,
+    unnamed: 'sem nome',
+    fromLink: 'o link',
+    fromLibrary: 'a biblioteca',
+    linkFailed: 'Não foi possível abrir o link compartilhado:',
+    invalidFile: (file: string) => `"${file}" não é um cenário válido:`,
+    saved: 'Cenário salvo.',
+    copied: 'Link copiado para a área de transferência.',
+    copyManually: 'O link está na barra de endereços; copie-o de lá.',
+    defaultFile: 'cenario',
+  },
+
+  presets: {
+    'default': {
+      name: 'Carga RL genérica',
+      description: 'Fonte de 120 V / 60 Hz com corrente de 5 A atrasada 30°.',
+    },
+    'induction-motor': {
+      name: 'Motor de indução',
+      description: 'Motor de 1 HP a plena carga com seu circuito equivalente: FP 0,82 indutivo, que piora ao descarregá-lo.',
+    },
+    'resistive-oven': {
+      name: 'Forno resistivo',
+      description: 'Resistência pura de 1,5 kW: tensão e corrente em fase, FP unitário.',
+    },
+    'capacitor-bank': {
+      name: 'Banco de capacitores',
+      description: 'Carga capacitiva: a corrente adianta a tensão em quase 90°.',
+    },
+    'nonlinear-load': {
+      name: 'Carga não linear',
+      description: 'Corrente quadrada em fase com a tensão: FP < 1 apenas por distorção harmônica.',
+    },
+    'three-phase-balanced': {
+      name: 'Sistema trifásico equilibrado',
+      description: 'Três cargas RL iguais em estrela: a corrente de neutro é nula.',
+    },
+    'three-phase-unbalanced': {
+      name: 'Trifásico desequilibrado',
+      description: 'Estrela com uma fase resistiva, uma indutiva e uma capacitiva.',
+    },
+    'distribution-feeder': {
+      name: 'Alimentador de 13,8 kV',
+      description: 'Carga industrial de 2 MVA com FP 0,85 em uma rede de distribuição: kV, centenas de A e MVA.',
+    },
+    'electronics-bench': {
+      name: 'Circuito RC de bancada',
+      description: 'Gerador de 5 V a 100 Hz sobre R = 1 kΩ e C = 1 µF: correntes de poucos mA.',
+    },
+  },
+
+  scenarioErrors: {
+    expectedList: (length: number) => `esperava-se uma lista de ${length} elementos`,
+    expectedListUpTo: (max: number) => `esperava-se uma lista de até ${max} elementos`,
+    expectedObject: 'esperava-se um objeto',
+    expectedNumber: 'esperava-se um número',
+    outOfRange: (value: number, min: number, max: number) => `${value} está fora do intervalo [${min}, ${max}]`,
+    expectedBoolean: 'esperava-se verdadeiro ou falso',
+    expectedText: 'esperava-se um texto',
+    invalidOption: (value: string, options: string) => `"${value}" não é válido (opções: ${options})`,
+    notAScenario: 'O arquivo não contém um cenário (esperava-se um objeto JSON).',
+    missingVersion: 'Falta o número de versão do cenário.',
+    newerVersion: (version: number, supported: number) =>
+      `A versão ${version} é mais nova que a suportada (${supported}). Atualize o aplicativo.`,
+    missingState: 'O cenário não inclui o estado da simulação.',
+    invalidJson: (message: string) => `JSON inválido: ${message}`,
+    brokenLink: 'O link está incompleto ou danificado.',
+  },
+
+  capture: {
+    title: 'DADOS MEDIDOS',
+    remove: 'Remover',
+    import: 'Importar CSV',
+    hint: 'Capturas de osciloscópio com colunas de tempo, tensão e corrente. Separador, cabeçalhos e unidades são detectados.',
+    file: 'Arquivo',
+    sampling: 'Amostragem',
+    samples: 'amostras',
+    roles: { time: 'Tempo', voltage: 'Tensão', current: 'Corrente' },
+    frequency: 'Frequência estimada',
+    cycles: 'Ciclos analisados',
+    phase: 'Defasagem θ₁',
+    failed: (file: string) => `"${file}" não pôde ser importado:`,
+  },
+
+  captureErrors: {
+    empty: 'O arquivo está vazio.',
+    noDataBlock: (minRows: number) => `Não foi encontrado um bloco de dados numéricos (mínimo de ${minRows} linhas com pelo menos duas colunas).`,
+    column: (index: number) => `Coluna ${index}`,
+    noTimeColumn: 'Não foi encontrada uma coluna de tempo crescente.',
+    timeNotIncreasing: (header: string) => `A coluna de tempo "${header}" não é estritamente crescente.`,
+    missingColumns: 'São necessárias colunas de tempo, tensão e corrente.',
+    currentInVolts: (header: string) => `"${header}" está em volts: é interpretada como corrente com uma sonda de 1 V/A.`,
+    noTimeUnit: 'Sem unidade de tempo no cabeçalho: assumem-se segundos.',
+    resampled: (sampleRate: string) => `Amostragem não uniforme: reamostrado a ${sampleRate} amostras/s.`,
+    noFrequency: 'Não foi possível estimar a frequência: a tensão não mostra dois ciclos completos.',
+    noFullCycle: 'A captura não contém um ciclo completo.',
+  },
+
+  profile: {
+    title: 'PERFIL DE CARGA 24 h',
+    enabled: 'Ativo',
+    disabled: 'Inativo',
+    hint: 'P e FP hora a hora sobre a tensão do laboratório, medidos com a mesma análise dos cartões de potência: energia, demanda, FP médio e fatura com multa por reativo.',
+    import: 'Importar CSV',
+    csvHint: 'CSV com colunas hora, P (kW) e FP; um FP negativo indica uma hora capacitiva.',
+    failed: (file: string) => `"${file}" não pôde ser importado:`,
+    chartTitle: 'Perfil diário',
+    hour: 'Hora',
+    activePower: 'P (kW)',
+    reactivePower: 'Q (kVAR)',
+    powerFactor: 'FP',
+    leading: 'Cap.',
+    leadingHint: 'Hora capacitiva (corrente adiantada)',
+    threshold: 'FP mínimo',
+    apply: 'Levar esta hora ao laboratório',
+    activeEnergy: 'Energia ativa',
+    reactiveEnergy: 'Energia reativa',
+    inductive: 'ind.',
+    capacitive: 'cap.',
+    perDay: '/dia',
+    peakDemand: 'Demanda máxima',
+    atHour: (hour: string) => `às ${hour}`,
+    averagePF: 'FP médio',
+    loadFactor: 'Fator de carga',
+    tariff: 'Tarifa',
+    currency: 'Moeda',
+    energyPrice: 'Energia, por kWh',
+    demandPrice: 'Demanda, por kW',
+    reactivePrice: 'Reativo excedente, por kVARh',
+    pfThreshold: 'FP mínimo sem multa',
+    billingDays: 'Dias faturados',
+    bill: (days: string) => `Fatura de ${days} dias`,
+    energyCharge: 'Energia',
+    demandCharge: 'Demanda máxima',
+    reactiveCharge: 'Multa por reativo',
+    excess: (kvarh: string) => `${kvarh} excedentes`,
+    total: 'Total',
+    penaltyHint: 'Cada hora pode consumir até P·tan(acos FP mínimo) de reativo sem custo, indutivo ou capacitivo; o excedente é faturado.',
+    csvHeader: ['hora', 'P_kW', 'FP', 'Q_kVAR', 'S_kVA', 'Q_excedente_kVAR'],
+    file: 'perfil-carga',
+  },
+
+  profileErrors: {
+    noRows: 'Nenhuma linha com hora, P e FP foi encontrada.',
+    wrongHourCount: (found: number) => `Eram esperadas 24 horas e o arquivo tem ${found}.`,
+    badHour: (line: number) => `Linha ${line}: a hora deve ser um inteiro de 0 a 23 (ou de 1 a 24).`,
+    duplicateHour: (hour: number) => `A hora ${hour} aparece mais de uma vez.`,
+    negativePower: (line: number) => `Linha ${line}: a potência ativa não pode ser negativa.`,
+    badPowerFactor: (line: number) => `Linha ${line}: o FP deve estar entre −1 e 1, sem ser 0.`,
+  },
+
+  transient: {
+    title: 'TRANSITÓRIO DE CHAVEAMENTO',
+    enabled: 'Ativo',
+    disabled: 'Inativo',
+    hint: 'Fecha uma chave sobre um circuito RL, RC ou RLC série em um ponto escolhido da onda de tensão e resolve suas equações passo a passo (Runge-Kutta 4): corrente de partida, decaimento da componente contínua e chegada ao regime permanente descrito pelos fasores.',
+    closingAngle: 'Ângulo de fechamento',
+    resistance: 'Resistência (R)',
+    inductance: 'Indutância (L)',
+    capacitance: 'Capacitância (C)',
+    initialVoltage: 'Carga inicial de C',
+    cycles: 'Ciclos exibidos',
+    useLoad: 'Usar R, L e C da carga RLC',
+    closing: 'fechamento',
+    voltage: 'v fonte',
+    capacitorVoltage: 'v_C',
+    current: 'i',
+    steadyCurrent: 'i regime',
+    transientCurrent: 'i − i regime',
+    peakCurrent: 'Pico de corrente',
+    at: (time: string) => `em t = ${time}`,
+    steadyPeak: 'Pico em regime',
+    inrushRatio: 'Pico / regime',
+    initialOffset: 'Componente transitória inicial',
+    timeConstant: 'Constante de tempo',
+    settlingTime: 'Tempo de acomodação',
+    ofSteadyPeak: 'do pico em regime',
+    cycleToCycle: 'entre ciclos sucessivos',
+    notSettled: 'fora da janela',
+    damping: 'Amortecimento',
+    underdamped: 'subamortecido',
+    overdamped: 'sobreamortecido',
+    critical: 'crítico',
+    peakCapacitorVoltage: 'Pico de v_C',
+    fundamentalOnly: '⚠ A fonte não é senoidal: a simulação usa a onda real, mas o regime permanente mostrado inclui apenas a fundamental e a contínua.',
+    csvHeader: ['t_ms', 'v_V', 'i_A', 'i_regime_A', 'i_transitoria_A', 'vC_V'],
+    file: 'transitorio',
+  },
+
+  exercise: {
+    title: 'MODO EXERCÍCIO',
+    gradedCount: (count: number) => `${count} exercícios corrigidos`,
+    topic: 'Tema',
+    difficulty: 'Dificuldade',
+    topics: { phasors: 'Fasores', power: 'Triângulo de potências', pfc: 'Correção do FP' },
+    difficulties: { basic: 'Básico', intermediate: 'Intermediário', advanced: 'Avançado' },
+    seedPlaceholder: 'Código (opcional)',
+    seedHint: 'O mesmo código, tema e dificuldade geram o mesmo exercício',
+    start: 'Novo exercício',
+    code: 'Código',
+    statements: {
+      phasors: 'Calcule as grandezas fasoriais indicadas (φ = ∠V − ∠I, positivo indutivo).',
+      power: 'Calcule as potências da carga (Q positiva se for indutiva).',
+      pfc: 'Dimensione o banco de capacitores em paralelo que leva o fator de potência ao valor alvo.',
+    },
+    source: 'Fonte',
+    current: 'Corrente',
+    rlcLoad: 'Carga RLC',
+    series: 'série',
+    parallel: 'paralelo',
+    targetPF: (pf: string) => `FP alvo: ${pf} (indutivo)`,
+    questions: {
+      z: 'Módulo da impedância |Z|',
+      i: 'Corrente eficaz I',
+      thetaI: 'Fase da corrente ∠I',
+      phi: 'Defasagem φ',
+      p: 'Potência ativa P',
+      q: 'Potência reativa Q',
+      s: 'Potência aparente S',
+      pf: 'Fator de potência',
+      qc: 'Potência do banco Qc',
+      c: 'Capacitância do banco C',
+      iAfter: 'Corrente de linha corrigida I′',
+    },
+    tolerance: (relative: string, angle: string) =>
+      `Tolerância: ±${relative} % nas grandezas, ±${angle}° nos ângulos. Aceita-se vírgula ou ponto decimal.`,
+    result: (correct: number, total: number) =>
+      `${correct} de ${total} respostas corretas. Os diagramas agora mostram a solução.`,
+    next: 'Próximo',
+    check: 'Corrigir',
+    exit: 'Sair',
+    hidden: 'Oculto até corrigir o exercício',
+  },
+
+  solution: {
+    title: 'Desenvolvimento',
+    subtitle: 'Cálculo passo a passo com os valores atuais',
+    show: 'MOSTRAR',
+    hide: 'OCULTAR',
+  },
+
+  solutionSteps: {
+    phasors: 'Fasores (valores eficazes)',
+    phaseShift: 'Defasagem',
+    wrapped: 'levado a (−180°, 180°]',
+    complexPower: 'Potência complexa',
+    activePower: 'Potência ativa',
+    reactivePower: 'Potência reativa',
+    powerFactor: 'Fator de potência',
+    character: 'Atraso ou avanço',
+    distortion: 'Com harmônicos ou CC',
+    pf: 'FP',
+    sin: 'sen',
+    noCurrent: 'S = 0: sem corrente, FP = 1 por convenção',
+    characterRule: 'φ > 0 → indutiva,   φ < 0 → capacitiva',
+    characters: {
+      resistive: 'Resistiva: I em fase com V',
+      inductive: 'Indutiva: I atrasada em relação a V',
+      capacitive: 'Capacitiva: I adiantada em relação a V',
+    },
+    totalRms: '(eficazes totais)',
+  },
+
+  parameters: {
+    waveforms: { sine: 'senoidal', square: 'quadrada', triangle: 'triangular', sawtooth: 'dente de serra' },
+    voltage: 'Tensão',
+    current: 'Corrente',
+    series: 'série',
+    parallel: 'paralelo',
+    rlcLoad: 'Carga RLC',
+    measured: 'Dados medidos',
+    threePhase: 'Sistema trifásico',
+    loadIn: 'carga em',
+    wye: 'estrela (Y)',
+    delta: 'triângulo (Δ)',
+    balanced: 'equilibrado',
+    unbalanced: 'desequilibrado',
+    source: 'Fonte',
+    load: 'Carga',
+    pfc: 'Correção do FP',
+    target: 'alvo',
+    steps: 'degraus de',
+    multiLoad: 'Cargas em paralelo',
+    loadKinds: { resistive: 'Resistiva', motor: 'Motor', capacitor: 'Banco de capacitores', custom: 'P / FP' },
+    lagging: 'ind.',
+    leading: 'cap.',
+    feeder: 'Linha',
+    transformer: 'Transformador',
+    motor: 'Motor de indução',
+    shaftLoad: 'carga',
+    slip: 'escorregamento',
+  },
+};
@@ -0,0 +1,270 @@
+import { SignalParams } from "../types";
+import { Sampler } from "./signal";
+import { FFT_SIZE, SpectrumAnalysis, analyzeSamples } from "./spectrum";
+import { PowerAnalysis, analyzeSampledPower, fundamentalComponent } from "./power";
+import { measureSamples } from "./measurements";
+
+// Oscilloscope CSV captures (time, voltage, current) and their analysis
+
+export type CaptureRole = 'time' | 'voltage' | 'current';
+
+export interface CaptureColumn {
+  role: CaptureRole;
+  header: string; // As written in the file ("CH1 Volt", "Tiempo (ms)", ...)
+  unit: string; // Detected unit, '' when none
+  scale: number; // Multiplier to SI (s, V, A)
+}
+
+export interface MeasuredCapture {
+  fileName: string;
+  dt: number; // s, uniform sample spacing
+  sampleRate: number; // Hz
+  voltage: Float64Array; // V
+  current: Float64Array; // A
+  columns: CaptureColumn[];
+  warnings: string[];
+}
+
+export interface CaptureAnalysis {
+  frequency: number; // Hz, estimated fundamental
+  cycles: number; // Whole cycles used for the analysis
+  samples: number; // Samples in those cycles
+  voltage: SignalParams; // Fundamental of the voltage as an equivalent sine
+  current: SignalParams;
+  power: PowerAnalysis;
+  spectra: { voltage: SpectrumAnalysis; current: SpectrumAnalysis };
+  sampleVoltage: Sampler; // Periodic playback of the analysed cycles
+  sampleCurrent: Sampler;
+}
+
+export interface Measurement {
+  capture: MeasuredCapture;
+  analysis: CaptureAnalysis;
+}
+
+export type CaptureImportResult =
+  | { status: 'ok'; measurement: Measurement }
+  | { status: 'invalid'; errors: string[] };
+
+// Import errors and warnings in the UI language
+export interface CaptureText {
+  empty: string;
+  noDataBlock: (minRows: number) => string;
+  column: (index: number) => string; // Name of a column without a header
+  noTimeColumn: string;
+  timeNotIncreasing: (header: string) => string;
+  missingColumns: string;
+  currentInVolts: (header: string) => string;
+  noTimeUnit: string;
+  resampled: (sampleRate: string) => string;
+  noFrequency: string;
+  noFullCycle: string;
+}
+
+const MIN_SAMPLES = 16;
+const UNIFORM_TOLERANCE = 0.01; // Relative dt spread accepted without resampling
+
+const UNIT_SCALES: Record<CaptureRole, Record<string, number>> = {
+  time: { s: 1, sec: 1, seg: 1, second: 1, seconds: 1, segundos: 1, ms: 1e-3, us: 1e-6, 'µs': 1e-6, 'μs': 1e-6, ns: 1e-9 },
+  voltage: { v: 1, volt: 1, volts: 1, voltios: 1, mv: 1e-3, kv: 1e3 },
+  current: { a: 1, amp: 1, amps: 1, ampere: 1, amperios: 1, ma: 1e-3, ka: 1e3 },
+};
+
+// Column names that identify a role regardless of the unit
+const ROLE_NAMES: Record<CaptureRole, string[]> = {
+  time: ['t', 'x', 'time', 'tiempo'],
+  voltage: ['v', 'u', 'voltage', 'tension', 'vin', 'vout'],
+  current: ['i', 'current', 'corriente', 'iin', 'iout'],
+};
+
+const tokenize = (header: string) =>
+  header.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().split(/[^a-z0-9µμ]+/).filter(Boolean);
+
+const detectRole = (tokens: string[]): CaptureRole | null => {
+  const roles: CaptureRole[] = ['time', 'voltage', 'current'];
+  return roles.find(r => tokens.some(t => ROLE_NAMES[r].includes(t)))
+    ?? roles.find(r => tokens.some(t => t in UNIT_SCALES[r]))
+    ?? null;
+};
+
+const detectUnit = (tokens: string[], role: CaptureRole): { unit: string; scale: number } => {
+  const unit = tokens.find(t => t in UNIT_SCALES[role]);
+  return unit ? { unit, scale: UNIT_SCALES[role][unit] } : { unit: '', scale: 1 };
+};
+
+export const detectDelimiter = (lines: string[]): string => {
+  const sample = lines.slice(0, 50).join('\n');
+  const count = (d: string) => sample.split(d).length - 1;
+  if (count('\t') > 0) return '\t';
+  if (count(';') > 0) return ';';
+  return ',';
+};
+
+// Linear interpolation of a uniformly sampled record at fractional index x
+const interpolate = (samples: ArrayLike<number>, x: number, length = samples.length) => {
+  const k = Math.floor(x);
+  const frac = x - k;
+  return samples[k % length] + frac * (samples[(k + 1) % length] - samples[k % length]);
+};
+
+export const parseCaptureCsv = (csv: string, fileName: string, text: CaptureText): { status: 'ok'; capture: MeasuredCapture } | { status: 'invalid'; errors: string[] } => {
+  const lines = csv.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0);
+  if (lines.length === 0) return { status: 'invalid', errors: [text.empty] };
+
+  const delimiter = detectDelimiter(lines);
+  // With ';' or tab separators a comma is the decimal mark (European locale exports)
+  const decimalComma = delimiter !== ',';
+  const rows = lines.map(l => {
+    const fields = l.split(delimiter).map(f => f.trim().replace(/^"|"$/g, ''));
+    while (fields.length > 0 && fields[fields.length - 1] === '') fields.pop();
+    return fields;
+  });
+  const toNumber = (field: string) => (field === '' ? NaN : Number(decimalComma ? field.replace(',', '.') : field));
+  const isNumeric = (row: string[]) => row.length >= 2 && row.every(f => Number.isFinite(toNumber(f)));
+
+  // Longest run of numeric rows with a constant column count is the data block
+  let best = { start: 0, length: 0 };
+  for (let r = 0; r < rows.length; ) {
+    if (!isNumeric(rows[r])) { r++; continue; }
+    let end = r + 1;
+    while (end < rows.length && isNumeric(rows[end]) && rows[end].length === rows[r].length) end++;
+    if (end - r > best.length) best = { start: r, length: end - r };
+    r = end;
+  }
+  if (best.length < MIN_SAMPLES) {
+    return { status: 'invalid', errors: [text.noDataBlock(MIN_SAMPLES)] };
+  }
+
+  const width = rows[best.start].length;
+  const data = rows.slice(best.start, best.start + best.length).map(row => row.map(toNumber));
+
+  // Up to two header rows (name + unit, as Rigol/Keysight exports) sit right above the data
+  const headers = Array.from({ length: width }, (_, c) =>
+    [rows[best.start - 2], rows[best.start - 1]]
+      .filter(row => row && !isNumeric(row))
+      .map(row => row[c] ?? '')
+      .join(' ')
+      .trim() || text.column(c + 1));
+  const tokens = headers.map(tokenize);
+  const roles = tokens.map(detectRole);
+  const warnings: string[] = [];
+
+  // Time: a named column, otherwise the first one if it increases
+  const increasing = (c: number) => data.every((row, k) => k === 0 || row[c] > data[k - 1][c]);
+  let timeCol = roles.indexOf('time');
+  if (timeCol < 0 && increasing(0)) timeCol = 0;
+  if (timeCol < 0) return { status: 'invalid', errors: [text.noTimeColumn] };
+  if (!increasing(timeCol)) return { status: 'invalid', errors: [text.timeNotIncreasing(headers[timeCol])] };
+
+  const free = headers.map((_, c) => c).filter(c => c !== timeCol);
+  const pick = (role: CaptureRole) => {
+    const named = free.find(c => roles[c] === role);
+    const col = named ?? free[0];
+    if (col !== undefined) free.splice(free.indexOf(col), 1);
+    return col;
+  };
+  const voltageCol = pick('voltage');
+  const currentCol = pick('current');
+  if (voltageCol === undefined || currentCol === undefined) {
+    return { status: 'invalid', errors: [text.missingColumns] };
+  }
+  if (roles[currentCol] === 'voltage') {
+    warnings.push(text.currentInVolts(headers[currentCol]));
+  }
+
+  const columns: CaptureColumn[] = ([['time', timeCol], ['voltage', voltageCol], ['current', currentCol]] as [CaptureRole, number][])
+    .map(([role, c]) => ({ role, header: headers[c], ...detectUnit(tokens[c], role) }));
+  const [timeInfo, voltageInfo, currentInfo] = columns;
+  if (!timeInfo.unit) warnings.push(text.noTimeUnit);
+
+  const time = data.map(row => (row[timeCol] - data[0][timeCol]) * timeInfo.scale);
+  const rawV = data.map(row => row[voltageCol] * voltageInfo.scale);
+  const rawI = data.map(row => row[currentCol] * currentInfo.scale);
+
+  // Uniform grid at the median spacing; uneven records are resampled onto it
+  const steps = time.slice(1).map((t, k) => t - time[k]).sort((a, b) => a - b);
+  const dt = steps[Math.floor(steps.length / 2)];
+  const uniform = steps[0] >= dt * (1 - UNIFORM_TOLERANCE) && steps[steps.length - 1] <= dt * (1 + UNIFORM_TOLERANCE);
+  let voltage = Float64Array.from(rawV);
+  let current = Float64Array.from(rawI);
+  if (!uniform) {
+    const n = Math.floor(time[time.length - 1] / dt) + 1;
+    voltage = new Float64Array(n);
+    current = new Float64Array(n);
+    let j = 0;
+    for (let k = 0; k < n; k++) {
+      const t = k * dt;
+      while (j < time.length - 2 && time[j + 1] < t) j++;
+      const frac = Math.min(1, Math.max(0, (t - time[j]) / (time[j + 1] - time[j])));
+      voltage[k] = rawV[j] + frac * (rawV[j + 1] - rawV[j]);
+      current[k] = rawI[j] + frac * (rawI[j + 1] - rawI[j]);
+    }
+    warnings.push(text.resampled((1 / dt).toFixed(0)));
+  }
+
+  return {
+    status: 'ok',
+    capture: { fileName, dt, sampleRate: 1 / dt, voltage, current, columns, warnings },
+  };
+};
+
+// Resamples the first period onto the FFT grid (midpoint rule, as analyzeSignal does)
+const periodSpectrum = (samples: Float64Array, dt: number, frequency: number, length: number) => {
+  const period = 1 / frequency;
+  const spectrum = new Float64Array(FFT_SIZE);
+  for (let k = 0; k < FFT_SIZE; k++) {
+    spectrum[k] = interpolate(samples, (((k + 0.5) * period) / FFT_SIZE) / dt, length);
+  }
+  return spectrum;
+};
+
+export const analyzeCapture = (capture: MeasuredCapture, maxHarmonic: number, text: CaptureText): { status: 'ok'; analysis: CaptureAnalysis } | { status: 'invalid'; errors: string[] } => {
+  const { dt, voltage, current } = capture;
+  const estimate = measureSamples(voltage, dt).frequency;
+  if (!estimate) {
+    return { status: 'invalid', errors: [text.noFrequency] };
+  }
+
+  // Analyse whole cycles only, and refine f so they fit the kept samples exactly
+  const cycles = Math.floor(voltage.length * dt * estimate + 1e-6);
+  if (cycles < 1) return { status: 'invalid', errors: [text.noFullCycle] };
+  const samples = Math.min(voltage.length, Math.round(cycles / estimate / dt));
+  const frequency = cycles / (samples * dt);
+  const v = voltage.subarray(0, samples);
+  const i = current.subarray(0, samples);
+
+  const asSine = (samplesOf: Float64Array): SignalParams => {
+    const { rms, phase } = fundamentalComponent(samplesOf, dt, frequency);
+    return { amplitude: rms, frequency, phase, dcOffset: 0, waveform: 'sine', dutyCycle: 50 };
+  };
+  const window = samples * dt;
+  const playback = (samplesOf: Float64Array): Sampler => t =>
+    interpolate(samplesOf, ((((t % window) + window) % window) / dt), samples);
+
+  return {
+    status: 'ok',
+    analysis: {
+      frequency,
+      cycles,
+      samples,
+      voltage: asSine(v),
+      current: asSine(i),
+      power: analyzeSampledPower(v, i, dt, frequency),
+      spectra: {
+        voltage: analyzeSamples(periodSpectrum(v, dt, frequency, samples), maxHarmonic),
+        current: analyzeSamples(periodSpectrum(i, dt, frequency, samples), maxHarmonic),
+      },
+      sampleVoltage: playback(v),
+      sampleCurrent: playback(i),
+    },
+  };
+};
+
+// Parses and analyses a CSV capture in one step
+export const importCapture = (csv: string, fileName: string, maxHarmonic: number, text: CaptureText): CaptureImportResult => {
+  const parsed = parseCaptureCsv(csv, fileName, text);
+  if (parsed.status !== 'ok') return parsed;
+  const analyzed = analyzeCapture(parsed.capture, maxHarmonic, text);
+  if (analyzed.status !== 'ok') return analyzed;
+  return { status: 'ok', measurement: { capture: parsed.capture, analysis: analyzed.analysis } };
+};
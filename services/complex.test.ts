@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest';
+import { abs, add, arg, complex, conj, div, fromPolar, mul, normalizeAngle, sub } from './complex';
+
+describe('complex arithmetic', () => {
+  it('adds, subtracts and conjugates component-wise', () => {
+    expect(add(complex(1, 2), complex(3, -5))).toEqual({ re: 4, im: -3 });
+    expect(sub(complex(1, 2), complex(3, -5))).toEqual({ re: -2, im: 7 });
+    expect(conj(complex(1, 2))).toEqual({ re: 1, im: -2 });
+  });
+
+  it('multiplies and divides: (1 + 2j)(3 − j) = 5 + 5j', () => {
+    const product = mul(complex(1, 2), complex(3, -1));
+    expect(product.re).toBeCloseTo(5, 12);
+    expect(product.im).toBeCloseTo(5, 12);
+    const quotient = div(product, complex(3, -1));
+    expect(quotient.re).toBeCloseTo(1, 12);
+    expect(quotient.im).toBeCloseTo(2, 12);
+  });
+
+  it('returns zero when dividing by zero', () => {
+    expect(div(complex(1, 1), complex(0))).toEqual({ re: 0, im: 0 });
+  });
+
+  it('converts between polar and rectangular form', () => {
+    expect(abs(complex(3, 4))).toBe(5);
+    expect(arg(complex(3, 4))).toBeCloseTo(53.1301, 4);
+    const p = fromPolar(2, 90);
+    expect(p.re).toBeCloseTo(0, 12);
+    expect(p.im).toBeCloseTo(2, 12);
+  });
+
+  it('wraps angles into (−180°, 180°]', () => {
+    expect(normalizeAngle(270)).toBe(-90);
+    expect(normalizeAngle(-180)).toBe(180);
+    expect(normalizeAngle(180)).toBe(180);
+    expect(normalizeAngle(-450)).toBe(-90);
+  });
+});
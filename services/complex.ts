@@ -0,0 +1,46 @@
+// Minimal complex arithmetic for phasor calculations (angles in degrees)
+export interface Complex {
+  re: number;
+  im: number;
+}
+
+export const complex = (re: number, im: number = 0): Complex => ({ re, im });
+
+export const fromPolar = (magnitude: number, angleDeg: number): Complex => {
+  const rad = (angleDeg * Math.PI) / 180;
+  return { re: magnitude * Math.cos(rad), im: magnitude * Math.sin(rad) };
+};
+
+export const add = (a: Complex, b: Complex): Complex => ({ re: a.re + b.re, im: a.im + b.im });
+
+export const sub = (a: Complex, b: Complex): Complex => ({ re: a.re - b.re, im: a.im - b.im });
+
+export const mul = (a: Complex, b: Complex): Complex => ({
+  re: a.re * b.re - a.im * b.im,
+  im: a.re * b.im + a.im * b.re,
+});
+
+export const div = (a: Complex, b: Complex): Complex => {
+  const denom = b.re * b.re + b.im * b.im;
+  if (denom === 0) return { re: 0, im: 0 };
+  return {
+    re: (a.re * b.re + a.im * b.im) / denom,
+    im: (a.im * b.re - a.re * b.im) / denom,
+  };
+};
+
+export const conj = (a: Complex): Complex => ({ re: a.re, im: -a.im });
+
+export const scale = (a: Complex, k: number): Complex => ({ re: a.re * k, im: a.im * k });
+
+export const abs = (a: Complex): number => Math.hypot(a.re, a.im);
+
+export const arg = (a: Complex): number => (Math.atan2(a.im, a.re) * 180) / Math.PI;
+
+// Wraps an angle into (-180°, 180°], so the sign tells lead from lag
+export const normalizeAngle = (deg: number): number => {
+  let a = deg % 360;
+  if (a <= -180) a += 360;
+  if (a > 180) a -= 360;
+  return a;
+};
@@ -0,0 +1,79 @@
+import { SignalParams } from "../types";
+import { Complex, div, fromPolar } from "./complex";
+
+export type EquivalentStatus = 'ok' | 'open' | 'short';
+
+// The single L or C that produces a reactance at one frequency
+export interface ReactiveElement {
+  kind: 'inductor' | 'capacitor' | 'none';
+  value: number; // H or F (0 for 'none')
+}
+
+export interface EquivalentBranch {
+  resistance: number; // Ω (Infinity when a parallel branch has no conductance)
+  reactance: number; // Ω, positive = inductive (Infinity when a parallel branch has no susceptance)
+  element: ReactiveElement;
+}
+
+export interface EquivalentCircuit {
+  status: EquivalentStatus;
+  impedance: Complex; // Z = V/I (Ω)
+  admittance: Complex; // Y = I/V (S)
+  series: EquivalentBranch; // Z = R_s + jX_s
+  parallel: EquivalentBranch; // Y = 1/R_p + 1/(jX_p)
+}
+
+// Relative to the larger of |V| and |I|, below this a phasor counts as zero
+const ZERO_TOLERANCE = 1e-9;
+
+const reactiveElement = (reactance: number, omega: number): ReactiveElement => {
+  if (reactance === 0 || !Number.isFinite(reactance) || omega === 0) return { kind: 'none', value: 0 };
+  // X_L = ωL, X_C = −1/(ωC)
+  return reactance > 0
+    ? { kind: 'inductor', value: reactance / omega }
+    : { kind: 'capacitor', value: -1 / (omega * reactance) };
+};
+
+/**
+ * Reduces whatever sits behind the terminals to the two-element circuits that draw the
+ * same current at this frequency: R_s in series with X_s, and R_p in parallel with X_p.
+ * Both are fitted from the fundamental V and I phasors, so they hold at one frequency only.
+ */
+export const equivalentCircuit = (voltage: SignalParams, current: SignalParams): EquivalentCircuit => {
+  const omega = 2 * Math.PI * voltage.frequency;
+  const v = fromPolar(voltage.amplitude, voltage.phase);
+  const i = fromPolar(current.amplitude, current.phase);
+  const tolerance = ZERO_TOLERANCE * Math.max(voltage.amplitude, current.amplitude, 1e-300);
+
+  const none: EquivalentBranch = { resistance: 0, reactance: 0, element: { kind: 'none', value: 0 } };
+  if (current.amplitude <= tolerance) {
+    return { status: 'open', impedance: { re: Infinity, im: 0 }, admittance: { re: 0, im: 0 }, series: none, parallel: none };
+  }
+  if (voltage.amplitude <= tolerance) {
+    return { status: 'short', impedance: { re: 0, im: 0 }, admittance: { re: Infinity, im: 0 }, series: none, parallel: none };
+  }
+
+  const impedance = div(v, i);
+  const admittance = div(i, v);
+  // Float residue of a purely reactive or purely resistive load should not read as a huge R_p or X_p
+  const clean = (x: number, magnitude: number) => (Math.abs(x) < 1e-9 * magnitude ? 0 : x);
+  const R = clean(impedance.re, Math.hypot(impedance.re, impedance.im));
+  const X = clean(impedance.im, Math.hypot(impedance.re, impedance.im));
+  const G = clean(admittance.re, Math.hypot(admittance.re, admittance.im));
+  const B = clean(admittance.im, Math.hypot(admittance.re, admittance.im));
+
+  // Y = G + jB = 1/R_p + 1/(jX_p), so X_p = −1/B
+  const parallelReactance = B === 0 ? Infinity : -1 / B;
+
+  return {
+    status: 'ok',
+    impedance: { re: R, im: X },
+    admittance: { re: G, im: B },
+    series: { resistance: R, reactance: X, element: reactiveElement(X, omega) },
+    parallel: {
+      resistance: G === 0 ? Infinity : 1 / G,
+      reactance: parallelReactance,
+      element: reactiveElement(parallelReactance, omega),
+    },
+  };
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { ExerciseDifficulty, ExerciseTopic } from '../types';
+import { abs, div, fromPolar } from './complex';
+import { Exercise, ExerciseQuestion, generateExercise, gradeAnswer, gradeExercise } from './exercise';
+import { calculateImpedance, deriveCurrent } from './loadModel';
+import { analyzePower } from './power';
+
+const topics: ExerciseTopic[] = ['phasors', 'power', 'pfc'];
+const difficulties: ExerciseDifficulty[] = ['basic', 'intermediate', 'advanced'];
+const answerOf = (exercise: Exercise, key: ExerciseQuestion['key']) => exercise.questions.find(q => q.key === key)?.answer;
+
+describe('generateExercise', () => {
+  it('gives the same problem for the same seed and another for the next seed', () => {
+    expect(generateExercise('power', 'intermediate', 123456)).toEqual(generateExercise('power', 'intermediate', 123456));
+    expect(generateExercise('power', 'intermediate', 123457)).not.toEqual(generateExercise('power', 'intermediate', 123456));
+  });
+
+  it('sets up the lab so its own analysis gives the expected answers', () => {
+    for (const topic of topics) {
+      for (const difficulty of difficulties) {
+        for (const seed of [100000, 424242, 999999]) {
+          const exercise = generateExercise(topic, difficulty, seed);
+          const { voltage, load, loadMode } = exercise.state;
+          // Problems that give a load leave the lab to draw the current through it
+          const current = loadMode === 'rlc' ? deriveCurrent(voltage, exercise.state.current, load) : exercise.state.current;
+          expect(exercise.questions.length).toBeGreaterThan(0);
+          expect(current.frequency).toBe(voltage.frequency);
+          if (topic !== 'power') continue;
+          const a = analyzePower(voltage, current);
+          expect(a.P).toBeCloseTo(answerOf(exercise, 'p')!, 6);
+          expect(a.Q1).toBeCloseTo(answerOf(exercise, 'q')!, 6);
+        }
+      }
+    }
+  });
+
+  it('draws the current of the given load in advanced problems', () => {
+    const exercise = generateExercise('phasors', 'advanced', 271828);
+    const { voltage, load } = exercise.given;
+    const z = calculateImpedance(load!, voltage.frequency);
+    const i = div(fromPolar(voltage.amplitude, voltage.phase), fromPolar(z.magnitude, z.angle));
+    expect(answerOf(exercise, 'z')).toBeCloseTo(z.magnitude, 9);
+    expect(answerOf(exercise, 'i')).toBeCloseTo(abs(i), 9);
+  });
+
+  it('hides the results the student has to find', () => {
+    const exercise = generateExercise('pfc', 'basic', 314159);
+    expect(exercise.hidden).toEqual(expect.arrayContaining(['scope', 'power', 'pfc', 'phasors']));
+    expect(exercise.given.targetPF).toBeDefined();
+  });
+});
+
+describe('gradeAnswer', () => {
+  const power: ExerciseQuestion = { key: 'p', unit: 'W', kind: 'magnitude', answer: 1150 };
+  const angle: ExerciseQuestion = { key: 'phi', unit: '°', kind: 'angle', answer: 179 };
+
+  it('accepts a relative error up to the difficulty tolerance', () => {
+    expect(gradeAnswer(power, '1200', 'basic', 'en').status).toBe('correct'); // 4.3 %
+    expect(gradeAnswer(power, '1200', 'intermediate', 'en').status).toBe('incorrect');
+    expect(gradeAnswer(power, '1160', 'advanced', 'en').status).toBe('correct'); // 0.9 %
+  });
+
+  it('compares angles modulo 360°', () => {
+    expect(gradeAnswer(angle, '-179', 'basic', 'en').status).toBe('correct');
+    expect(gradeAnswer(angle, '539,5', 'advanced', 'es').status).toBe('correct');
+    expect(gradeAnswer(angle, '-177', 'intermediate', 'en').status).toBe('incorrect');
+  });
+
+  it('reads the answer in the UI language', () => {
+    const big: ExerciseQuestion = { ...power, answer: 1234.5 };
+    expect(gradeAnswer(big, '1.234,5', 'advanced', 'es')).toMatchObject({ status: 'correct', value: 1234.5 });
+    expect(gradeAnswer(big, '1,234.5', 'advanced', 'en')).toMatchObject({ status: 'correct', value: 1234.5 });
+    expect(gradeAnswer(big, '1234,5', 'advanced', 'pt')).toMatchObject({ status: 'correct', value: 1234.5 });
+  });
+
+  it('marks unreadable input invalid instead of wrong', () => {
+    expect(gradeAnswer(power, 'mil', 'basic', 'es')).toEqual({ status: 'invalid' });
+    expect(gradeAnswer(power, '', 'basic', 'es')).toEqual({ status: 'invalid' });
+  });
+});
+
+describe('gradeExercise', () => {
+  it('counts the correct answers', () => {
+    const exercise = generateExercise('power', 'basic', 161803);
+    const answers = Object.fromEntries(exercise.questions.map(q => [q.key, String(q.answer)]));
+    answers[exercise.questions[0].key] = '0';
+    const grade = gradeExercise(exercise, answers, 'en');
+    expect(grade.total).toBe(exercise.questions.length);
+    expect(grade.correct).toBe(exercise.questions.length - 1);
+  });
+});
@@ -0,0 +1,230 @@
+import { ExerciseDifficulty, ExerciseQuantity, ExerciseTopic, ExerciseView, Locale, RLCLoad, SignalParams, SimulationState } from "../types";
+import {
+  DEFAULT_CURRENT, DEFAULT_PFC, DEFAULT_SCOPE, DEFAULT_VOLTAGE, EXERCISE_TOLERANCES, INITIAL_STATE,
+  SCOPE_AMP_STEPS, SCOPE_V_DIVISIONS, SCOPE_VOLT_STEPS,
+} from "../constants";
+import { normalizeAngle } from "./complex";
+import { calculateImpedance, deriveCurrent } from "./loadModel";
+import { sinusoidalPower } from "./power";
+import { correctedCurrent, designCorrection } from "./pfc";
+import { parseNumber } from "./format";
+
+export interface ExerciseQuestion {
+  key: ExerciseQuantity;
+  unit: string;
+  kind: 'magnitude' | 'angle'; // Angles are compared modulo 360° with an absolute tolerance
+  answer: number;
+}
+
+export interface Exercise {
+  seed: number; // Same seed, topic and difficulty always give the same problem
+  topic: ExerciseTopic;
+  difficulty: ExerciseDifficulty;
+  given: ExerciseData; // What the statement provides; the UI words it
+  state: SimulationState; // Loaded into the lab; the diagrams show the solution once graded
+  questions: ExerciseQuestion[];
+  hidden: ExerciseView[];
+}
+
+export interface ExerciseData {
+  voltage: SignalParams;
+  current?: SignalParams; // Either the current or the load that draws it
+  load?: RLCLoad;
+  targetPF?: number; // Lagging, for PF correction problems
+}
+
+export type AnswerGrade =
+  | { status: 'correct'; value: number; error: number }
+  | { status: 'incorrect'; value: number; error: number }
+  | { status: 'invalid' };
+
+export interface ExerciseGrade {
+  answers: Record<string, AnswerGrade>;
+  correct: number;
+  total: number;
+}
+
+// Supply voltages found in the field (RMS)
+const MAINS = [
+  { amplitude: 120, frequency: 60 },
+  { amplitude: 127, frequency: 60 },
+  { amplitude: 220, frequency: 60 },
+  { amplitude: 230, frequency: 50 },
+  { amplitude: 240, frequency: 50 },
+];
+const TARGET_PFS = [0.92, 0.95, 0.98];
+
+type Random = () => number;
+
+// mulberry32: small, fast and identical on every browser
+const createRandom = (seed: number): Random => {
+  let a = seed >>> 0;
+  return () => {
+    a = (a + 0x6d2b79f5) >>> 0;
+    let t = a;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Six digits, short enough to dictate in class
+export const randomSeed = (): number => 100000 + Math.floor(Math.random() * 900000);
+
+const pick = <T>(random: Random, items: readonly T[]): T => items[Math.floor(random() * items.length)];
+
+// Multiple of `step` in [min, max]
+const randomStep = (random: Random, min: number, max: number, step: number): number =>
+  min + step * Math.floor(random() * (Math.floor((max - min) / step) + 1));
+
+const round = (value: number, decimals: number) => Number(value.toFixed(decimals));
+
+// Smallest graticule step that keeps a peak of `rms·√2` on screen
+const fitStep = (steps: number[], rms: number) =>
+  steps.find(s => s * (SCOPE_V_DIVISIONS / 2) >= rms * Math.SQRT2) ?? steps[steps.length - 1];
+
+/**
+ * Series or parallel load whose impedance angle is `angle` degrees (positive = inductive):
+ * R is chosen first and the reactance follows from tan φ.
+ */
+const loadWithAngle = (random: Random, frequency: number, angle: number, parallel: boolean, withBoth: boolean): RLCLoad => {
+  const omega = 2 * Math.PI * frequency;
+  const resistance = randomStep(random, 5, 40, 1);
+  const tan = Math.tan((Math.abs(angle) * Math.PI) / 180);
+  // Net reactance seen in series (Ω) or net susceptance in parallel (S)
+  const net = parallel ? tan / resistance : resistance * tan;
+  // With both elements present, the opposing one cancels part of the dominant one
+  const opposing = withBoth ? net * randomStep(random, 0.2, 0.6, 0.1) : 0;
+
+  const inductive = angle > 0;
+  // Inductive: series X_L = net + X_C; parallel B_L = net + B_C
+  const main = net + opposing;
+  const reactanceToL = (x: number) => round((x / omega) * 1000, 2); // mH
+  const reactanceToC = (x: number) => round(1e6 / (omega * x), 1); // µF
+  const susceptanceToL = (b: number) => round(1000 / (omega * b), 2);
+  const susceptanceToC = (b: number) => round((b / omega) * 1e6, 1);
+
+  const L = parallel ? susceptanceToL(inductive ? main : opposing) : reactanceToL(inductive ? main : opposing);
+  const C = parallel ? susceptanceToC(inductive ? opposing : main) : reactanceToC(inductive ? opposing : main);
+
+  return {
+    topology: parallel ? 'parallel' : 'series',
+    resistance,
+    inductance: inductive || withBoth ? L : 0,
+    capacitance: !inductive || withBoth ? C : 0,
+  };
+};
+
+export const generateExercise = (topic: ExerciseTopic, difficulty: ExerciseDifficulty, seed: number = randomSeed()): Exercise => {
+  const random = createRandom(seed);
+  const mains = pick(random, MAINS);
+  const voltage: SignalParams = {
+    ...DEFAULT_VOLTAGE,
+    ...mains,
+    phase: difficulty === 'advanced' ? randomStep(random, -60, 60, 10) : 0,
+  };
+
+  // Basic and intermediate problems give the current directly, advanced ones a load to solve
+  const useLoad = difficulty === 'advanced' || (topic === 'phasors' && difficulty === 'intermediate');
+  // PF correction only makes sense for lagging loads well below the target
+  const phi = topic === 'pfc'
+    ? randomStep(random, 30, 60, 5)
+    : randomStep(random, 10, 75, 5) * (random() < 0.5 ? -1 : 1);
+
+  let load = INITIAL_STATE.load;
+  let current: SignalParams;
+  if (useLoad) {
+    const parallel = difficulty === 'advanced' && topic !== 'pfc' && random() < 0.5;
+    const withBoth = difficulty === 'advanced' && topic === 'phasors';
+    load = loadWithAngle(random, voltage.frequency, phi, parallel, withBoth);
+    current = deriveCurrent(voltage, DEFAULT_CURRENT, load);
+  } else {
+    const amplitude = difficulty === 'basic' ? randomStep(random, 2, 20, 1) : randomStep(random, 1, 25, 0.5);
+    current = { ...DEFAULT_CURRENT, frequency: voltage.frequency, amplitude, phase: voltage.phase - phi };
+  }
+
+  const Z = calculateImpedance(load, voltage.frequency);
+  const theta = normalizeAngle(voltage.phase - current.phase);
+  const power = sinusoidalPower(voltage.amplitude, current.amplitude, theta);
+
+  const q = (key: ExerciseQuantity, unit: string, answer: number, kind: ExerciseQuestion['kind'] = 'magnitude'): ExerciseQuestion =>
+    ({ key, unit, kind, answer });
+  const questions: ExerciseQuestion[] = [];
+  const given: ExerciseData = useLoad ? { voltage, load } : { voltage, current };
+  const hidden: ExerciseView[] = ['scope', 'power', 'pfc'];
+  if (useLoad || topic === 'phasors' || topic === 'pfc') hidden.push('phasors');
+
+  let targetPF = DEFAULT_PFC.targetPF;
+  if (topic === 'phasors') {
+    if (useLoad) {
+      questions.push(
+        q('z', 'Ω', Z.magnitude),
+        q('i', 'A', current.amplitude),
+        q('thetaI', '°', normalizeAngle(current.phase), 'angle'),
+      );
+      if (difficulty === 'advanced') questions.push(q('phi', '°', theta, 'angle'));
+    } else {
+      questions.push(
+        q('phi', '°', theta, 'angle'),
+        q('z', 'Ω', voltage.amplitude / current.amplitude),
+      );
+    }
+  } else if (topic === 'power') {
+    if (useLoad) questions.push(q('i', 'A', current.amplitude));
+    questions.push(
+      q('p', 'W', power.P),
+      q('q', 'VAR', power.Q),
+    );
+    if (!useLoad) questions.push(q('s', 'VA', power.S));
+    if (difficulty !== 'basic') questions.push(q('pf', '', Math.abs(power.PF)));
+  } else {
+    targetPF = pick(random, TARGET_PFS);
+    given.targetPF = targetPF;
+    const design = designCorrection(power.P, power.Q, voltage.amplitude, voltage.frequency, { ...DEFAULT_PFC, targetPF });
+    questions.push(q('qc', 'VAR', design.installedQc));
+    if (difficulty !== 'basic') questions.push(q('c', 'µF', design.capacitance));
+    if (difficulty === 'advanced') {
+      questions.push(q('iAfter', 'A', correctedCurrent(voltage, current, design.capacitance).amplitude));
+    }
+  }
+
+  const state: SimulationState = {
+    ...INITIAL_STATE,
+    voltage,
+    current: useLoad ? DEFAULT_CURRENT : current,
+    loadMode: useLoad ? 'rlc' : 'manual',
+    load,
+    pfc: { ...DEFAULT_PFC, enabled: topic === 'pfc', targetPF },
+    scope: {
+      ...DEFAULT_SCOPE,
+      voltsPerDiv: fitStep(SCOPE_VOLT_STEPS, voltage.amplitude),
+      ampsPerDiv: fitStep(SCOPE_AMP_STEPS, current.amplitude),
+    },
+  };
+
+  return { seed, topic, difficulty, given, state, questions, hidden };
+};
+
+export const gradeAnswer = (question: ExerciseQuestion, text: string, difficulty: ExerciseDifficulty, locale: Locale): AnswerGrade => {
+  const value = parseNumber(text, locale);
+  if (value === null) return { status: 'invalid' };
+  const tolerance = EXERCISE_TOLERANCES[difficulty];
+
+  if (question.kind === 'angle') {
+    const error = Math.abs(normalizeAngle(value - question.answer));
+    return { status: error <= tolerance.angle ? 'correct' : 'incorrect', value, error };
+  }
+  // Relative error; an exact zero answer falls back to an absolute comparison
+  const error = question.answer !== 0 ? Math.abs(value - question.answer) / Math.abs(question.answer) : Math.abs(value);
+  return { status: error <= tolerance.relative ? 'correct' : 'incorrect', value, error };
+};
+
+export const gradeExercise = (exercise: Exercise, answers: Record<string, string>, locale: Locale): ExerciseGrade => {
+  const graded: Record<string, AnswerGrade> = {};
+  let correct = 0;
+  for (const question of exercise.questions) {
+    graded[question.key] = gradeAnswer(question, answers[question.key] ?? '', exercise.difficulty, locale);
+    if (graded[question.key].status === 'correct') correct++;
+  }
+  return { answers: graded, correct, total: exercise.questions.length };
+};
@@ -0,0 +1,158 @@
+import { LoadItem, LoadItemKind, MotorSettings, RLCLoad, Scenario, SignalParams, SimulationState, Waveform } from "../types";
+import { PHASE_LABELS } from "../constants";
+import { loadItemLabel } from "./multiLoad";
+
+// Everything an exported file needs to be reproduced: readable lines plus the full scenario
+export interface ExportContext {
+  parameters: string[];
+  scenario: Scenario;
+}
+
+export interface ExportValue {
+  name: string;
+  value: number | string;
+  unit: string;
+}
+
+// Words of the parameter lines in the UI language
+export interface ExportText {
+  waveforms: Record<Waveform, string>;
+  voltage: string;
+  current: string;
+  series: string;
+  parallel: string;
+  rlcLoad: string;
+  measured: string;
+  threePhase: string;
+  loadIn: string;
+  wye: string;
+  delta: string;
+  balanced: string;
+  unbalanced: string;
+  source: string;
+  load: string;
+  pfc: string;
+  target: string;
+  steps: string;
+  multiLoad: string;
+  loadKinds: Record<LoadItemKind, string>;
+  lagging: string;
+  leading: string;
+  feeder: string;
+  transformer: string;
+  motor: string;
+  shaftLoad: string;
+  slip: string;
+}
+
+const describeSignal = (label: string, signal: SignalParams, unit: string, text: ExportText): string => {
+  const shape = signal.waveform === 'sine'
+    ? text.waveforms.sine
+    : `${text.waveforms[signal.waveform]} (${signal.dutyCycle} %)`;
+  return `${label}: ${signal.amplitude} ${unit} RMS ∠ ${signal.phase}°, ${signal.frequency} Hz, ${shape}, DC ${signal.dcOffset} ${unit}`;
+};
+
+const describeLoad = (load: RLCLoad, text: ExportText): string =>
+  `${load.topology === 'series' ? text.series : text.parallel} R = ${load.resistance} Ω, L = ${load.inductance} mH, C = ${load.capacitance} µF`;
+
+const describeMotor = (motor: MotorSettings, text: ExportText): string => {
+  const point = motor.operatingPoint === 'load'
+    ? `${motor.loadPercent} % ${text.shaftLoad}`
+    : `${text.slip} ${motor.slip} %`;
+  return `${text.motor} ${motor.poles}p ${motor.ratedPower} W (${point}): R₁ = ${motor.statorResistance} Ω, X₁ = ${motor.statorReactance} Ω, ` +
+    `R₂' = ${motor.rotorResistance} Ω, X₂' = ${motor.rotorReactance} Ω, X_m = ${motor.magnetizingReactance} Ω, P_rot = ${motor.rotationalLosses} W`;
+};
+
+const describeLoadItem = (item: LoadItem, index: number, text: ExportText): string => {
+  const label = loadItemLabel(item, index, text.loadKinds);
+  switch (item.kind) {
+    case 'resistive':
+      return `${label}: ${item.power} W`;
+    case 'capacitor':
+      return `${label}: ${item.power} VAR`;
+    default:
+      return `${label}: ${item.power} W, cos φ ${item.powerFactor} ${item.kind === 'custom' && item.leading ? text.leading : text.lagging}`;
+  }
+};
+
+/**
+ * Human-readable settings behind the displayed results, one line each.
+ * `measuredFile` replaces the source/load description for imported captures.
+ */
+export const describeParameters = (state: SimulationState, text: ExportText, measuredFile?: string): string[] => {
+  const lines: string[] = [];
+
+  if (state.systemMode === 'three') {
+    const { threePhase } = state;
+    lines.push(
+      `${text.threePhase}, ${state.voltage.frequency} Hz, ${text.loadIn} ${threePhase.connection === 'wye' ? text.wye : text.delta}, ` +
+      (threePhase.balanced ? text.balanced : text.unbalanced)
+    );
+    threePhase.sources.forEach((s, k) => lines.push(`${text.source} ${PHASE_LABELS[k]}: ${s.amplitude} V RMS ∠ ${s.phase}°`));
+    threePhase.loads.forEach((l, k) => {
+      const name = threePhase.connection === 'wye' ? PHASE_LABELS[k] : `${PHASE_LABELS[k]}${PHASE_LABELS[(k + 1) % 3]}`;
+      lines.push(`${text.load} ${name}: ${describeLoad(l, text)}`);
+    });
+    return lines;
+  }
+
+  if (measuredFile) {
+    lines.push(`${text.measured}: ${measuredFile}`);
+  } else {
+    lines.push(describeSignal(text.voltage, state.voltage, 'V', text));
+    if (state.loadMode === 'multi') {
+      lines.push(`${text.multiLoad}: ${state.loadItems.length}`);
+      state.loadItems.forEach((item, k) => lines.push(describeLoadItem(item, k, text)));
+    } else if (state.loadMode === 'motor') {
+      lines.push(describeMotor(state.motor, text));
+    } else {
+      lines.push(state.loadMode === 'rlc'
+        ? `${text.rlcLoad} ${describeLoad(state.load, text)}`
+        : describeSignal(text.current, state.current, 'A', text));
+    }
+    if (state.feeder.enabled) {
+      const { feeder } = state;
+      lines.push(feeder.input === 'total'
+        ? `${text.feeder}: R = ${feeder.resistance} Ω, X = ${feeder.reactance} Ω`
+        : `${text.feeder}: 2 × ${feeder.length} km × (${feeder.resistancePerKm} + j${feeder.reactancePerKm}) Ω/km`);
+    }
+    if (state.transformer.enabled) {
+      const { transformer } = state;
+      lines.push(`${text.transformer} ${transformer.ratio}:1, R_eq = ${transformer.resistance} Ω, X_eq = ${transformer.reactance} Ω, ` +
+        `R_c = ${transformer.coreResistance} Ω, X_m = ${transformer.magnetizingReactance} Ω`);
+    }
+  }
+  if (state.pfc.enabled) {
+    lines.push(`${text.pfc}: ${text.target} ${state.pfc.targetPF}` +
+      (state.pfc.useSteps ? `, ${text.steps} ${state.pfc.stepKvar} kvar` : ''));
+  }
+  return lines;
+};
+
+// RFC 4180 quoting: only fields with separators, quotes or line breaks
+const csvField = (value: number | string): string => {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Comma-separated table preceded by `# ` comment lines (the parameters), which
+ * spreadsheet and numpy/pandas importers can skip.
+ */
+export const toCsv = (header: string[], rows: (number | string)[][], comments: string[] = []): string =>
+  [
+    ...comments.map(c => `# ${c}`),
+    header.map(csvField).join(','),
+    ...rows.map(row => row.map(csvField).join(',')),
+  ].join('\n') + '\n';
+
+// `header` names the quantity, value and unit columns
+export const summaryToCsv = (values: ExportValue[], context: ExportContext, header: string[]): string =>
+  toCsv(header, values.map(v => [v.name, v.value, v.unit]), context.parameters);
+
+export const summaryToJson = (values: ExportValue[], context: ExportContext): string =>
+  JSON.stringify({
+    parameters: context.parameters,
+    results: values,
+    scenario: context.scenario,
+  }, null, 2);
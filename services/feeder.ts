@@ -0,0 +1,61 @@
+import { FeederSettings, SignalParams } from "../types";
+import { Complex, abs, complex, conj, fromPolar, mul, sub } from "./complex";
+import { fundamentalOf } from "./spectrum";
+import { PortLoad, PortStatus, seriesPort, solvePort } from "./twoPort";
+
+export interface FeederResult {
+  status: PortStatus; // 'collapse': no receiving voltage can deliver a constant-power load
+  impedance: Complex; // Loop impedance Z = R + jX (Ω)
+  sending: Complex; // Source voltage phasor (V RMS)
+  receiving: Complex; // Load-end voltage phasor (V RMS), the transformer primary when there is one
+  current: Complex; // Line current phasor (A RMS)
+  drop: Complex; // ΔV = Z·I (V)
+  dropPercent: number; // (|Vs| − |Vr|) / |Vs| × 100
+  regulation: number; // (|Vs| − |Vr|) / |Vr| × 100; without load Vr = Vs (Infinity when Vr = 0)
+  losses: number; // I²R (W)
+  reactiveLosses: number; // I²X (VAR)
+  sendingPower: Complex; // Vs·I* (VA)
+  receivingPower: Complex; // Vr·I* (VA)
+}
+
+// Loop impedance: with per-km values both conductors of the route carry the current
+export const feederImpedance = (settings: FeederSettings): Complex =>
+  settings.input === 'total'
+    ? complex(settings.resistance, settings.reactance)
+    : complex(2 * settings.length * settings.resistancePerKm, 2 * settings.length * settings.reactancePerKm);
+
+/**
+ * Line quantities from its terminals: `sending` is the source end, `receiving` and
+ * `current` come from solving whatever the line feeds (possibly through more ports).
+ */
+export const analyzeFeeder = (settings: FeederSettings, sending: Complex, receiving: Complex, current: Complex, status: PortStatus = 'ok'): FeederResult => {
+  const Z = feederImpedance(settings);
+  const I2 = abs(current) ** 2;
+  const vs = abs(sending);
+  const vr = abs(receiving);
+  return {
+    status,
+    impedance: Z,
+    sending,
+    receiving,
+    current,
+    drop: sub(sending, receiving),
+    dropPercent: vs > 0 ? ((vs - vr) / vs) * 100 : 0,
+    regulation: vr > 0 ? ((vs - vr) / vr) * 100 : (vs > 0 ? Infinity : 0),
+    losses: I2 * Z.re,
+    reactiveLosses: I2 * Z.im,
+    sendingPower: mul(sending, conj(current)),
+    receivingPower: mul(receiving, conj(current)),
+  };
+};
+
+/**
+ * Solves the source → line → load loop at the fundamental of `voltage`: the line current,
+ * the load-end voltage and what the line itself takes (I²R, I²X).
+ */
+export const solveFeeder = (settings: FeederSettings, voltage: SignalParams, load: PortLoad): FeederResult => {
+  const v1 = fundamentalOf(voltage);
+  const sending = fromPolar(v1.amplitude, v1.phase);
+  const solution = solvePort(seriesPort(feederImpedance(settings)), sending, load);
+  return analyzeFeeder(settings, sending, solution.voltage, solution.current, solution.status);
+};
@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { formatNumber, formatSI, parseNumber, parseSI, scaleSI, snapToZero } from './format';
+
+describe('formatNumber', () => {
+  it('writes the locale\'s decimal mark', () => {
+    expect(formatNumber(1234.5, 'es', 2)).toBe('1234,50');
+    expect(formatNumber(1234.5, 'en', 2)).toBe('1234.50');
+    expect(formatNumber(0.25, 'pt')).toBe('0,25');
+  });
+});
+
+describe('parseNumber', () => {
+  it('reads Spanish and Portuguese input: comma decimals, dot thousands', () => {
+    for (const locale of ['es', 'pt'] as const) {
+      expect(parseNumber('2,5', locale)).toBe(2.5);
+      expect(parseNumber('1.234,5', locale)).toBe(1234.5);
+      expect(parseNumber('1.234', locale)).toBe(1234);
+      expect(parseNumber('1.234.567', locale)).toBe(1234567);
+      expect(parseNumber('−0,75', locale)).toBe(-0.75);
+    }
+  });
+
+  it('reads English input: dot decimals, comma thousands', () => {
+    expect(parseNumber('2.5', 'en')).toBe(2.5);
+    expect(parseNumber('1,234.5', 'en')).toBe(1234.5);
+    expect(parseNumber('1,234', 'en')).toBe(1234);
+    expect(parseNumber('12,345,678', 'en')).toBe(12345678);
+  });
+
+  it('takes the other mark as the decimal one when it cannot be grouping', () => {
+    expect(parseNumber('2.5', 'es')).toBe(2.5);
+    expect(parseNumber('0.125', 'pt')).toBe(0.125);
+    expect(parseNumber('2,5', 'en')).toBe(2.5);
+  });
+
+  it('rejects misgrouped, mixed-up and non-numeric input', () => {
+    expect(parseNumber('1,23,4', 'en')).toBeNull();
+    expect(parseNumber('1,234.5', 'es')).toBeNull();
+    expect(parseNumber('1.234,5', 'en')).toBeNull();
+    expect(parseNumber('12a', 'es')).toBeNull();
+    expect(parseNumber('  ', 'en')).toBeNull();
+  });
+
+  it('infers the decimal mark without a locale', () => {
+    expect(parseNumber('1,5')).toBe(1.5);
+    expect(parseNumber('1.234,5')).toBe(1234.5);
+    expect(parseNumber('1,234.5')).toBe(1234.5);
+    expect(parseNumber('2e3')).toBe(2000);
+  });
+});
+
+describe('engineering notation', () => {
+  it('picks the prefix that leaves 1 ≤ mantissa < 1000', () => {
+    expect(formatSI(13800, 'V', 'es', 4)).toBe('13,80 kV');
+    expect(formatSI(0.00266, 'A', 'en', 4)).toBe('2.660 mA');
+    expect(formatSI(20000, 'V', 'en')).toBe('20 kV');
+    expect(formatSI(0, 'W', 'es', 4)).toBe('0,000 W');
+  });
+
+  it('rounds before choosing the prefix', () => {
+    expect(scaleSI(999.96, 'V', 'en', 4)).toEqual({ number: '1.000', unit: 'kV' });
+  });
+
+  it('reads typed prefixes and units, and the field\'s prefix for bare numbers', () => {
+    expect(parseSI('13,8k', 'V', 1, 'es')).toBeCloseTo(13800, 9);
+    expect(parseSI('500 mA', 'A', 1, 'en')).toBeCloseTo(0.5, 12);
+    expect(parseSI('2.2 uF', 'F', 1, 'en')).toBeCloseTo(2.2e-6, 18);
+    expect(parseSI('1,5', 'V', 1000, 'pt')).toBe(1500);
+    expect(parseSI('1,500', 'W', 1, 'en')).toBe(1500);
+    expect(parseSI('abc', 'V')).toBeNull();
+  });
+});
+
+describe('snapToZero', () => {
+  it('drops values below the tolerance of the reference', () => {
+    expect(snapToZero(1e-7, 230)).toBe(0);
+    expect(snapToZero(0.01, 230)).toBe(0.01);
+  });
+});
@@ -0,0 +1,133 @@
+import { Locale } from '../types';
+
+// Decimal mark of each UI language; digits are never grouped, so readouts stay compact
+export const DECIMAL_SEPARATORS: Record<Locale, string> = {
+  es: ',',
+  en: '.',
+  pt: ',',
+};
+
+/**
+ * `value` with the locale's decimal mark: `decimals` fixed digits, or as many as
+ * the number needs when omitted (axis limits, step sizes).
+ */
+export const formatNumber = (value: number, locale: Locale, decimals?: number): string => {
+  const text = decimals === undefined ? String(value) : value.toFixed(decimals);
+  return text.replace('.', DECIMAL_SEPARATORS[locale]);
+};
+
+// "1,234,567" grouped by `mark` in threes, sign excluded
+const isGrouped = (integer: string, mark: string): boolean =>
+  new RegExp(`^[1-9]\\d{0,2}(\\${mark}\\d{3})+$`).test(integer);
+
+/**
+ * Decimal mark of a number typed in `locale`: the locale's own, unless only the other
+ * mark appears and not in groups of three, so "2.5" still works on a Spanish keyboard.
+ */
+const decimalMark = (text: string, locale: Locale): string => {
+  const own = DECIMAL_SEPARATORS[locale];
+  const other = own === ',' ? '.' : ',';
+  if (text.includes(own) || !text.includes(other)) return own;
+  return isGrouped(text.replace(/^[-+]/, ''), other) ? own : other;
+};
+
+/**
+ * Reads a typed number. In a `locale` its decimal mark is the decimal mark and the other
+ * one groups thousands: "1,234.5" in en, "1.234,5" in es and pt. Without a locale (imported
+ * files) the last mark is the decimal one. Null for empty, non-numeric or misgrouped input.
+ */
+export const parseNumber = (text: string, locale?: Locale): number | null => {
+  let clean = text.trim().replace(/\s/g, '').replace(/^−/, '-');
+  if (clean === '') return null;
+
+  const mark = locale ? decimalMark(clean, locale) : clean.lastIndexOf(',') > clean.lastIndexOf('.') ? ',' : '.';
+  const grouping = mark === ',' ? '.' : ',';
+  const markAt = clean.indexOf(mark);
+  const integer = (markAt < 0 ? clean : clean.slice(0, markAt)).replace(/^[-+]/, '');
+  if (integer.includes(grouping) && !isGrouped(integer, grouping)) return null;
+  if (markAt >= 0 && clean.slice(markAt + 1).includes(grouping)) return null;
+  clean = clean.split(grouping).join('').replace(mark, '.');
+
+  if (!/^[-+]?(\d+\.?\d*|\.\d+)(e[-+]?\d+)?$/i.test(clean)) return null;
+  return Number(clean);
+};
+
+/**
+ * Zero when `value` is below `tolerance` × `reference`. Sampled analyses leave float
+ * residue (a few µV of "harmonics" on a pure sine) that engineering notation would
+ * otherwise print at full precision.
+ */
+export const snapToZero = (value: number, reference: number, tolerance = 1e-6): number =>
+  Math.abs(value) < tolerance * Math.abs(reference) ? 0 : value;
+
+// Engineering-notation prefixes, smallest first
+const SI_PREFIXES = [
+  { exponent: -12, symbol: 'p' },
+  { exponent: -9, symbol: 'n' },
+  { exponent: -6, symbol: 'µ' },
+  { exponent: -3, symbol: 'm' },
+  { exponent: 0, symbol: '' },
+  { exponent: 3, symbol: 'k' },
+  { exponent: 6, symbol: 'M' },
+  { exponent: 9, symbol: 'G' },
+];
+
+// Prefix that leaves 1 ≤ |mantissa| < 1000 (zero and non-finite values keep the bare unit)
+export const siPrefix = (value: number): { symbol: string; factor: number } => {
+  const magnitude = Math.abs(value);
+  if (magnitude === 0 || !Number.isFinite(magnitude)) return { symbol: '', factor: 1 };
+  const exponent = Math.floor(Math.log10(magnitude) / 3 + 1e-9) * 3;
+  const prefix = SI_PREFIXES.find(p => p.exponent === exponent)
+    ?? (exponent < SI_PREFIXES[0].exponent ? SI_PREFIXES[0] : SI_PREFIXES[SI_PREFIXES.length - 1]);
+  return { symbol: prefix.symbol, factor: Math.pow(10, prefix.exponent) };
+};
+
+export interface ScaledValue {
+  number: string; // Mantissa with the locale's decimal mark
+  unit: string; // Prefixed unit, e.g. "kV"
+}
+
+/**
+ * `value` in engineering notation: "13,80 kV", "2,660 mA". `digits` significant digits
+ * (trailing zeros kept, like a meter readout), or as many as needed when omitted
+ * ("20 kV" for axis limits and range ends).
+ */
+export const scaleSI = (value: number, unit: string, locale: Locale, digits?: number): ScaledValue => {
+  if (!Number.isFinite(value)) return { number: value > 0 ? '∞' : value < 0 ? '−∞' : '—', unit };
+  // Round first so 999.96 becomes 1.000 k rather than 1000 with the smaller prefix
+  const rounded = digits === undefined ? value : Number(value.toPrecision(digits));
+  const { symbol, factor } = siPrefix(rounded);
+  const mantissa = rounded / factor;
+  if (digits === undefined) {
+    return { number: formatNumber(Number(mantissa.toPrecision(12)), locale), unit: symbol + unit };
+  }
+  const integerDigits = mantissa === 0 ? 1 : Math.floor(Math.log10(Math.abs(mantissa)) + 1e-9) + 1;
+  return { number: formatNumber(mantissa, locale, Math.max(0, digits - integerDigits)), unit: symbol + unit };
+};
+
+export const formatSI = (value: number, unit: string, locale: Locale, digits?: number): string => {
+  const scaled = scaleSI(value, unit, locale, digits);
+  return `${scaled.number} ${scaled.unit}`.trim();
+};
+
+/**
+ * Reads an entry such as "13,8k", "500 mA" or "2.2 µF" (`u` works for µ). A typed
+ * prefix or unit wins; a bare number is taken in `defaultFactor` units, i.e. the
+ * prefix the field was showing. Null for unreadable input.
+ */
+export const parseSI = (text: string, unit: string, defaultFactor = 1, locale?: Locale): number | null => {
+  let rest = text.trim();
+  let factor: number | null = null;
+  if (unit && rest.endsWith(unit)) {
+    rest = rest.slice(0, -unit.length).trimEnd();
+    factor = 1;
+  }
+  const symbol = rest.slice(-1) === 'u' ? 'µ' : rest.slice(-1);
+  const prefix = SI_PREFIXES.find(p => p.symbol !== '' && p.symbol === symbol);
+  if (prefix) {
+    rest = rest.slice(0, -1);
+    factor = Math.pow(10, prefix.exponent);
+  }
+  const number = parseNumber(rest, locale);
+  return number === null ? null : number * (factor ?? defaultFactor);
+};
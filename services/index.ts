@@ -0,0 +1,27 @@
+// Framework-free electrical math: phasors, impedance, signal generation, RMS and power.
+// Everything here depends only on ../types and ../constants, never on React or the DOM.
+export * from "./complex";
+export * from "./signal";
+export * from "./spectrum";
+export * from "./power";
+export * from "./loadModel";
+export * from "./threePhase";
+export * from "./pfc";
+export * from "./measurements";
+export * from "./trigger";
+export * from "./lissajous";
+export * from "./scenario";
+export * from "./capture";
+export * from "./export";
+export * from "./exercise";
+export * from "./solution";
+export * from "./format";
+export * from "./equivalent";
+export * from "./loadProfile";
+export * from "./ode";
+export * from "./transient";
+export * from "./multiLoad";
+export * from "./motor";
+export * from "./twoPort";
+export * from "./feeder";
+export * from "./transformer";
@@ -0,0 +1,111 @@
+import { SignalParams } from "../types";
+import { sampleSignal, Sampler } from "./signal";
+import { commonPeriod } from "./power";
+
+const POINTS_PER_CYCLE = 200; // Plotted points per cycle of the faster signal
+const MAX_POINTS = 8000;
+const ANALYSIS_SAMPLES = 2048; // Samples per period for the intercept method
+
+/**
+ * Ellipse (intercept) method: with the means removed, the figure crosses x = 0 at ±Y₀
+ * and reaches ±Y_max, so sin φ = Y₀ / Y_max. Exact for two sines of the same frequency.
+ */
+export interface EllipseAnalysis {
+  xMean: number; // Centre of the figure
+  yMean: number;
+  xMax: number; // Peak excursion from the centre
+  yMax: number;
+  yIntercept: number; // Y₀: |y| where the figure crosses x = xMean
+  sinPhi: number;
+  principalAngle: number; // arcsin(Y₀ / Y_max), 0-90°
+  obtuse: boolean; // Figure tilts down-right, so |φ| = 180° − arcsin
+  phi: number; // Degrees, positive = y lags x (same sign as φ = ∠V − ∠I)
+  impedance: number; // X_max / Y_max (Ω for a voltage/current pair)
+}
+
+export interface LissajousFigure {
+  points: { x: number; y: number }[];
+  ratio: [number, number]; // x cycles : y cycles to close the figure
+  ellipse: EllipseAnalysis | null; // Only when both signals share a frequency
+}
+
+const analyzeEllipse = (frequency: number, sampleX: Sampler, sampleY: Sampler): EllipseAnalysis | null => {
+  const n = ANALYSIS_SAMPLES;
+  const period = 1 / frequency;
+  const xs = new Float64Array(n);
+  const ys = new Float64Array(n);
+  let xMean = 0;
+  let yMean = 0;
+  for (let k = 0; k < n; k++) {
+    const t = ((k + 0.5) * period) / n;
+    xs[k] = sampleX(t);
+    ys[k] = sampleY(t);
+    xMean += xs[k] / n;
+    yMean += ys[k] / n;
+  }
+
+  let xMax = 0;
+  let yMax = 0;
+  let correlation = 0;
+  for (let k = 0; k < n; k++) {
+    xs[k] -= xMean;
+    ys[k] -= yMean;
+    xMax = Math.max(xMax, Math.abs(xs[k]));
+    yMax = Math.max(yMax, Math.abs(ys[k]));
+    correlation += xs[k] * ys[k];
+  }
+  if (xMax < 1e-12 || yMax < 1e-12) return null;
+
+  // y at every x zero crossing (the figure is closed, so wrap around)
+  let interceptSum = 0;
+  let crossings = 0;
+  let yAtRising = 0;
+  for (let k = 0; k < n; k++) {
+    const a = xs[k];
+    const b = xs[(k + 1) % n];
+    const rising = a < 0 && b >= 0;
+    if (!rising && !(a > 0 && b <= 0)) continue;
+    const frac = a / (a - b);
+    const yc = ys[k] + frac * (ys[(k + 1) % n] - ys[k]);
+    interceptSum += Math.abs(yc);
+    crossings++;
+    if (rising) yAtRising = yc;
+  }
+  if (crossings === 0) return null;
+
+  const yIntercept = interceptSum / crossings;
+  const sinPhi = Math.min(1, yIntercept / yMax);
+  const principalAngle = (Math.asin(sinPhi) * 180) / Math.PI;
+  const obtuse = correlation < 0;
+  const magnitude = obtuse ? 180 - principalAngle : principalAngle;
+  // A lagging y is still negative when x rises through its centre
+  const phi = yAtRising > 0 ? -magnitude : magnitude;
+
+  return { xMean, yMean, xMax, yMax, yIntercept, sinPhi, principalAngle, obtuse, phi, impedance: xMax / yMax };
+};
+
+// Parametric x(t)–y(t) figure over the shortest window that closes it
+export const traceLissajous = (
+  x: SignalParams,
+  y: SignalParams,
+  sampleX: Sampler = t => sampleSignal(x, t),
+  sampleY: Sampler = t => sampleSignal(y, t)
+): LissajousFigure => {
+  const { period, cycles } = commonPeriod(x.frequency, y.frequency);
+  const n = Math.min(MAX_POINTS, cycles * POINTS_PER_CYCLE);
+
+  const points: { x: number; y: number }[] = [];
+  for (let k = 0; k <= n; k++) {
+    const t = (k * period) / n;
+    points.push({ x: sampleX(t), y: sampleY(t) });
+  }
+
+  const fast = Math.max(x.frequency, y.frequency);
+  const ratio: [number, number] = [
+    Math.round((cycles * x.frequency) / fast),
+    Math.round((cycles * y.frequency) / fast),
+  ];
+  const sameFrequency = Math.abs(x.frequency - y.frequency) < 1e-9;
+
+  return { points, ratio, ellipse: sameFrequency ? analyzeEllipse(x.frequency, sampleX, sampleY) : null };
+};
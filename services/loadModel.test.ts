@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { calculateImpedance, deriveCurrent } from './loadModel';
+import { capacitanceFor, inductanceFor, load, signal } from './testFixtures';
+
+// Element values with X = 10 Ω at 50 Hz
+const L_10 = inductanceFor(10); // 31.83 mH
+const C_10 = capacitanceFor(10); // 318.3 µF
+const V = signal();
+
+describe('calculateImpedance', () => {
+  it('adds series R and X_L: 10 + j10 Ω = 14.142 Ω ∠45°', () => {
+    const z = calculateImpedance(load({ resistance: 10, inductance: L_10 }), 50);
+    expect(z.resistance).toBe(10);
+    expect(z.reactance).toBeCloseTo(10, 9);
+    expect(z.magnitude).toBeCloseTo(14.1421, 4);
+    expect(z.angle).toBeCloseTo(45, 9);
+  });
+
+  it('cancels X_L and X_C at resonance', () => {
+    const z = calculateImpedance(load({ resistance: 5, inductance: L_10, capacitance: C_10 }), 50);
+    expect(z.reactance).toBeCloseTo(0, 9);
+    expect(z.magnitude).toBeCloseTo(5, 9);
+  });
+
+  it('adds parallel admittances: 10 Ω ∥ −j10 Ω = 5 − j5 Ω', () => {
+    const z = calculateImpedance(load({ topology: 'parallel', resistance: 10, capacitance: C_10 }), 50);
+    expect(z.resistance).toBeCloseTo(5, 9);
+    expect(z.reactance).toBeCloseTo(-5, 9);
+    expect(z.angle).toBeCloseTo(-45, 9);
+  });
+
+  it('flags an empty series load as a short and an empty parallel one as open', () => {
+    expect(calculateImpedance(load({}), 50).isShort).toBe(true);
+    const open = calculateImpedance(load({ topology: 'parallel' }), 50);
+    expect(open.isOpen).toBe(true);
+    expect(open.magnitude).toBe(Infinity);
+  });
+});
+
+describe('deriveCurrent', () => {
+  it('applies I = V / Z', () => {
+    const i = deriveCurrent(V, V, load({ resistance: 10, inductance: L_10 }));
+    expect(i.amplitude).toBeCloseTo(230 / Math.hypot(10, 10), 9); // 16.263 A
+    expect(i.phase).toBeCloseTo(-45, 9);
+    expect(i.waveform).toBe('sine');
+  });
+
+  it('uses only the fundamental of a distorted voltage', () => {
+    const i = deriveCurrent({ ...V, waveform: 'square', amplitude: 10, dcOffset: 4 }, V, load({ resistance: 10 }));
+    expect(i.amplitude).toBeCloseTo(0.90032, 4);
+    expect(i.dcOffset).toBe(0);
+  });
+
+  it('draws no current through a short or an open load', () => {
+    expect(deriveCurrent(V, V, load({})).amplitude).toBe(0);
+    expect(deriveCurrent(V, V, load({ topology: 'parallel' })).amplitude).toBe(0);
+  });
+});
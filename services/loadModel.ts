@@ -0,0 +1,82 @@
+import { RLCLoad, SignalParams } from "../types";
+import { fundamentalOf } from "./spectrum";
+
+export interface Impedance {
+  resistance: number; // Real part (Ω)
+  reactance: number; // Imaginary part (Ω), positive = inductive
+  magnitude: number; // |Z| (Ω)
+  angle: number; // Degrees
+  inductiveReactance: number; // X_L = ωL (Ω)
+  capacitiveReactance: number; // X_C = 1/(ωC) (Ω)
+  isShort: boolean; // Z = 0 (series load with no elements)
+  isOpen: boolean; // Z = ∞ (parallel load with no elements)
+}
+
+// Below this magnitude the load is considered a short circuit
+const SHORT_THRESHOLD = 1e-9;
+
+/**
+ * Computes the equivalent impedance of an RLC load at the given frequency.
+ * A value of 0 for R, L or C means the element is not part of the circuit.
+ */
+export const calculateImpedance = (load: RLCLoad, frequency: number): Impedance => {
+  const omega = 2 * Math.PI * frequency;
+  const L = load.inductance / 1000; // mH -> H
+  const C = load.capacitance / 1e6; // µF -> F
+
+  const XL = L > 0 ? omega * L : 0;
+  const XC = C > 0 ? 1 / (omega * C) : 0;
+
+  let re = 0;
+  let im = 0;
+  let isOpen = false;
+
+  if (load.topology === 'series') {
+    re = load.resistance;
+    im = XL - XC;
+  } else {
+    // Parallel: add admittances, then invert
+    const G = load.resistance > 0 ? 1 / load.resistance : 0;
+    const B = (C > 0 ? omega * C : 0) - (L > 0 ? 1 / XL : 0);
+    const denom = G * G + B * B;
+    if (denom < SHORT_THRESHOLD * SHORT_THRESHOLD) {
+      isOpen = true;
+    } else {
+      re = G / denom;
+      im = -B / denom;
+    }
+  }
+
+  const magnitude = isOpen ? Infinity : Math.hypot(re, im);
+
+  return {
+    resistance: re,
+    reactance: im,
+    magnitude,
+    angle: isOpen ? 0 : (Math.atan2(im, re) * 180) / Math.PI,
+    inductiveReactance: XL,
+    capacitiveReactance: XC,
+    isShort: !isOpen && magnitude < SHORT_THRESHOLD,
+    isOpen,
+  };
+};
+
+/**
+ * Derives the load current from the source voltage using I = V / Z.
+ * Only the fundamental of the voltage is applied, so the current is always a pure sine.
+ * Short and open circuits yield zero current; the caller is expected to flag them.
+ */
+export const deriveCurrent = (voltage: SignalParams, current: SignalParams, load: RLCLoad): SignalParams => {
+  const Z = calculateImpedance(load, voltage.frequency);
+  const valid = !Z.isShort && !Z.isOpen;
+  const v1 = fundamentalOf(voltage);
+
+  return {
+    ...current,
+    amplitude: valid ? v1.amplitude / Z.magnitude : 0,
+    phase: valid ? v1.phase - Z.angle : v1.phase,
+    frequency: voltage.frequency,
+    dcOffset: 0,
+    waveform: 'sine',
+  };
+};
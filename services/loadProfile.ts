@@ -0,0 +1,197 @@
+import { LoadProfileSettings, ProfileHour, SignalParams } from "../types";
+import { analyzePower } from "./power";
+import { fundamentalOf } from "./spectrum";
+import { detectDelimiter } from "./capture";
+import { parseNumber } from "./format";
+
+export const PROFILE_HOURS = 24;
+
+export interface ProfileHourResult {
+  hour: number; // 0-23, start of the hour
+  current: SignalParams; // Sinusoidal current that draws this hour's P and PF at the lab voltage
+  P: number; // W
+  Q: number; // Fundamental reactive power (VAR), negative when leading
+  S: number; // VA
+  PF: number;
+  allowedQ: number; // VAR drawn free of charge: P·tan(acos(pfThreshold))
+  excessQ: number; // |Q| beyond the allowance (VAR)
+}
+
+export interface ProfileBill {
+  activeEnergy: number; // kWh over the billing period
+  reactiveEnergy: number; // kVARh over the billing period (inductive + capacitive)
+  excessReactiveEnergy: number; // kVARh over the billing period
+  energyCharge: number;
+  demandCharge: number;
+  reactiveCharge: number;
+  total: number;
+}
+
+export interface ProfileAnalysis {
+  hours: ProfileHourResult[];
+  activeEnergy: number; // kWh per day
+  inductiveEnergy: number; // kVARh per day, lagging hours
+  capacitiveEnergy: number; // kVARh per day, leading hours
+  peakDemand: number; // kW, highest hourly mean
+  peakHour: number;
+  averagePF: number; // kWh / √(kWh² + kVARh²) with both reactive registers added
+  loadFactor: number; // Mean / peak demand
+  bill: ProfileBill;
+}
+
+/**
+ * Current that makes the lab voltage deliver `entry`: I₁ = P/(V₁·PF) at the fundamental
+ * frequency, lagging (or leading) the voltage fundamental by acos(PF).
+ */
+export const profileCurrent = (entry: ProfileHour, voltage: SignalParams): SignalParams => {
+  const v1 = fundamentalOf(voltage);
+  const phi = (Math.acos(entry.powerFactor) * 180) / Math.PI;
+  return {
+    amplitude: v1.amplitude > 0 ? (entry.activePower * 1000) / (v1.amplitude * entry.powerFactor) : 0,
+    frequency: v1.frequency,
+    phase: v1.phase + (entry.leading ? phi : -phi),
+    dcOffset: 0,
+    waveform: 'sine',
+    dutyCycle: 50,
+  };
+};
+
+/**
+ * Runs every hour through the same sampled power analysis as the live lab, then
+ * integrates the hourly means into daily energies and the bill. Each hour's excess
+ * reactive energy (|Q| above P·tan(acos(pfThreshold))) is billed at the reactive price.
+ */
+export const analyzeProfile = (settings: LoadProfileSettings, voltage: SignalParams): ProfileAnalysis => {
+  const { tariff } = settings;
+  const tanLimit = Math.tan(Math.acos(tariff.pfThreshold));
+
+  const hours = settings.hours.map((entry, hour): ProfileHourResult => {
+    const current = profileCurrent(entry, voltage);
+    const power = analyzePower(voltage, current);
+    // θ₁ > 0 is lagging, which is positive reactive power
+    const Q = power.Q1;
+    const allowedQ = Math.max(0, power.P) * tanLimit;
+    return {
+      hour,
+      current,
+      P: power.P,
+      Q,
+      S: power.S,
+      PF: power.PF,
+      allowedQ,
+      excessQ: Math.max(0, Math.abs(Q) - allowedQ),
+    };
+  });
+
+  // Each entry lasts one hour, so W summed over the day is Wh
+  const sum = (f: (h: ProfileHourResult) => number) => hours.reduce((acc, h) => acc + f(h), 0) / 1000;
+  const activeEnergy = sum(h => h.P);
+  const inductiveEnergy = sum(h => Math.max(0, h.Q));
+  const capacitiveEnergy = sum(h => Math.max(0, -h.Q));
+  const excessEnergy = sum(h => h.excessQ);
+  const reactiveEnergy = inductiveEnergy + capacitiveEnergy;
+
+  const peak = hours.reduce((best, h) => (h.P > best.P ? h : best), hours[0]);
+  const peakDemand = peak.P / 1000;
+  const apparentEnergy = Math.hypot(activeEnergy, reactiveEnergy);
+
+  const days = tariff.billingDays;
+  const energyCharge = activeEnergy * days * tariff.energyPrice;
+  const demandCharge = peakDemand * tariff.demandPrice;
+  const reactiveCharge = excessEnergy * days * tariff.reactivePrice;
+
+  return {
+    hours,
+    activeEnergy,
+    inductiveEnergy,
+    capacitiveEnergy,
+    peakDemand,
+    peakHour: peak.hour,
+    averagePF: apparentEnergy > 0 ? activeEnergy / apparentEnergy : 1,
+    loadFactor: peakDemand > 0 ? activeEnergy / PROFILE_HOURS / peakDemand : 0,
+    bill: {
+      activeEnergy: activeEnergy * days,
+      reactiveEnergy: reactiveEnergy * days,
+      excessReactiveEnergy: excessEnergy * days,
+      energyCharge,
+      demandCharge,
+      reactiveCharge,
+      total: energyCharge + demandCharge + reactiveCharge,
+    },
+  };
+};
+
+export type ProfileImportResult =
+  | { status: 'ok'; hours: ProfileHour[] }
+  | { status: 'invalid'; errors: string[] };
+
+// Import messages in the UI language
+export interface ProfileText {
+  noRows: string;
+  wrongHourCount: (found: number) => string;
+  badHour: (line: number) => string;
+  duplicateHour: (hour: number) => string;
+  negativePower: (line: number) => string;
+  badPowerFactor: (line: number) => string;
+}
+
+// Scale of the power column to kW, from its header
+const POWER_UNITS: Record<string, number> = { w: 1e-3, kw: 1 };
+
+/**
+ * Reads an hourly profile: hour, P, PF columns (more columns are ignored, so an
+ * exported profile loads back). A negative PF marks a leading hour. Hours may run
+ * 0-23 or 1-24; P is in kW unless its header says W.
+ */
+export const parseProfileCsv = (csv: string, text: ProfileText): ProfileImportResult => {
+  const lines = csv.split(/\r?\n/).map(l => l.trim()).filter(l => l.length > 0 && !l.startsWith('#'));
+  if (lines.length === 0) return { status: 'invalid', errors: [text.noRows] };
+
+  const delimiter = detectDelimiter(lines);
+  const rows = lines.map((l, k) => ({
+    line: k + 1,
+    fields: l.split(delimiter).map(f => f.trim().replace(/^"|"$/g, '')),
+  }));
+  const isData = (fields: string[]) => fields.length >= 3 && fields.slice(0, 3).every(f => parseNumber(f) !== null);
+
+  const header = rows.find(r => !isData(r.fields));
+  const powerUnit = (header?.fields[1] ?? '').toLowerCase().split(/[^a-z]+/).find(t => t in POWER_UNITS);
+  const powerScale = powerUnit ? POWER_UNITS[powerUnit] : 1;
+
+  const data = rows.filter(r => isData(r.fields));
+  if (data.length === 0) return { status: 'invalid', errors: [text.noRows] };
+  if (data.length !== PROFILE_HOURS) return { status: 'invalid', errors: [text.wrongHourCount(data.length)] };
+
+  const hourNumbers = data.map(r => parseNumber(r.fields[0]) as number);
+  const offset = Math.min(...hourNumbers) === 1 ? 1 : 0;
+  const errors: string[] = [];
+  const hours: (ProfileHour | undefined)[] = Array(PROFILE_HOURS).fill(undefined);
+
+  data.forEach((r, k) => {
+    const hour = hourNumbers[k] - offset;
+    const P = (parseNumber(r.fields[1]) as number) * powerScale;
+    const pf = parseNumber(r.fields[2]) as number;
+    if (!Number.isInteger(hour) || hour < 0 || hour >= PROFILE_HOURS) { errors.push(text.badHour(r.line)); return; }
+    if (hours[hour]) { errors.push(text.duplicateHour(hourNumbers[k])); return; }
+    if (P < 0) { errors.push(text.negativePower(r.line)); return; }
+    if (pf === 0 || Math.abs(pf) > 1) { errors.push(text.badPowerFactor(r.line)); return; }
+    hours[hour] = { activePower: P, powerFactor: Math.abs(pf), leading: pf < 0 };
+  });
+
+  if (errors.length > 0) return { status: 'invalid', errors };
+  return { status: 'ok', hours: hours as ProfileHour[] };
+};
+
+// Table that parseProfileCsv reads back: hour, P, signed PF, then the computed columns
+export const profileRows = (analysis: ProfileAnalysis, settings: LoadProfileSettings): (number | string)[][] =>
+  analysis.hours.map(h => {
+    const entry = settings.hours[h.hour];
+    return [
+      h.hour,
+      entry.activePower,
+      entry.leading ? -entry.powerFactor : entry.powerFactor,
+      +(h.Q / 1000).toFixed(6),
+      +(h.S / 1000).toFixed(6),
+      +(h.excessQ / 1000).toFixed(6),
+    ];
+  });
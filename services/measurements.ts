@@ -0,0 +1,108 @@
+import { normalizeAngle } from "./complex";
+
+// Automatic oscilloscope measurements taken from a sampled record (uniform spacing dt, seconds)
+
+export interface ChannelMeasurements {
+  max: number;
+  min: number;
+  peakToPeak: number;
+  rms: number;
+  mean: number;
+  frequency: number | null; // Hz, null with fewer than two like edges on screen
+  period: number | null; // s
+  riseTime: number | null; // s, 10 % → 90 % of the peak-to-peak span
+}
+
+/**
+ * Interpolated times where the record crosses `level` in the given direction.
+ * After each crossing the signal must first move `hysteresis` past the level the
+ * other way, so noise riding on an edge counts as a single crossing.
+ */
+const crossingsOf = (samples: ArrayLike<number>, dt: number, level: number, rising: boolean, hysteresis = 0): number[] => {
+  const times: number[] = [];
+  let armed = false;
+  for (let k = 1; k < samples.length; k++) {
+    const a = samples[k - 1];
+    const b = samples[k];
+    if (rising ? a < level - hysteresis : a > level + hysteresis) armed = true;
+    if (armed && (rising ? a < level && b >= level : a > level && b <= level)) {
+      times.push((k - 1 + (level - a) / (b - a)) * dt);
+      armed = false;
+    }
+  }
+  return times;
+};
+
+const risingCrossings = (samples: ArrayLike<number>, dt: number, level: number, hysteresis = 0) =>
+  crossingsOf(samples, dt, level, true, hysteresis);
+
+// Edge timing ignores ripple smaller than this fraction of the peak-to-peak span
+const EDGE_HYSTERESIS = 0.1;
+
+const averageSpacing = (times: number[]): number | null =>
+  times.length >= 2 ? (times[times.length - 1] - times[0]) / (times.length - 1) : null;
+
+export const measureSamples = (samples: ArrayLike<number>, dt: number): ChannelMeasurements => {
+  const n = samples.length;
+  let max = -Infinity;
+  let min = Infinity;
+  let sum = 0;
+  let sumSq = 0;
+  for (let k = 0; k < n; k++) {
+    max = Math.max(max, samples[k]);
+    min = Math.min(min, samples[k]);
+    sum += samples[k];
+    sumSq += samples[k] * samples[k];
+  }
+  const peakToPeak = max - min;
+  // Mid-level between the extremes is used for edge timing; unlike the mean
+  // it does not drift with a partial cycle on screen
+  const mid = (max + min) / 2;
+  const hysteresis = EDGE_HYSTERESIS * peakToPeak;
+  // Falling edges are the fallback when a window that starts on an edge only shows one rising edge
+  const period = peakToPeak > 1e-12
+    ? averageSpacing(risingCrossings(samples, dt, mid, hysteresis)) ?? averageSpacing(crossingsOf(samples, dt, mid, false, hysteresis))
+    : null;
+
+  // Rise time: first 10 % crossing followed by a 90 % crossing before the signal falls back
+  let riseTime: number | null = null;
+  if (peakToPeak > 1e-12) {
+    const low = min + 0.1 * peakToPeak;
+    const high = min + 0.9 * peakToPeak;
+    const lowTimes = risingCrossings(samples, dt, low);
+    const highTimes = risingCrossings(samples, dt, high);
+    for (const t10 of lowTimes) {
+      const t90 = highTimes.find(t => t >= t10);
+      if (t90 !== undefined) {
+        riseTime = t90 - t10;
+        break;
+      }
+    }
+  }
+
+  return {
+    max,
+    min,
+    peakToPeak,
+    rms: Math.sqrt(sumSq / n),
+    mean: sum / n,
+    frequency: period ? 1 / period : null,
+    period,
+    riseTime,
+  };
+};
+
+/**
+ * Phase delay of `b` relative to `a` from their first rising mid-level crossings,
+ * in degrees of `a`'s period. Positive means `b` lags `a` (same sign as φ = ∠V − ∠I).
+ */
+export const measurePhaseDelay = (a: ArrayLike<number>, b: ArrayLike<number>, dt: number): number | null => {
+  const ma = measureSamples(a, dt);
+  const mb = measureSamples(b, dt);
+  if (!ma.period) return null;
+  const ta = risingCrossings(a, dt, (ma.max + ma.min) / 2, EDGE_HYSTERESIS * ma.peakToPeak);
+  const tb = risingCrossings(b, dt, (mb.max + mb.min) / 2, EDGE_HYSTERESIS * mb.peakToPeak);
+  if (ta.length === 0 || tb.length === 0) return null;
+
+  return normalizeAngle(((tb[0] - ta[0]) / ma.period) * 360);
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_MOTOR } from '../constants';
+import { MotorSettings } from '../types';
+import { abs, complex } from './complex';
+import { analyzeMotor, motorImpedance, motorSlipForLoad, synchronousSpeed } from './motor';
+
+// Only R₂' (1 Ω) and an open magnetizing branch: Z = R₂'/s
+const ideal: MotorSettings = {
+  ...DEFAULT_MOTOR,
+  statorResistance: 0,
+  statorReactance: 0,
+  rotorResistance: 1,
+  rotorReactance: 0,
+  magnetizingReactance: 1e12,
+  rotationalLosses: 0,
+};
+const V = complex(200);
+const stiff = () => V;
+
+describe('induction motor', () => {
+  it('turns 120·f/p rpm synchronously', () => {
+    expect(synchronousSpeed(DEFAULT_MOTOR, 50)).toBe(1500);
+    expect(synchronousSpeed({ ...DEFAULT_MOTOR, poles: 2 }, 60)).toBe(3600);
+  });
+
+  it('draws only magnetizing current at synchronous speed', () => {
+    const z = motorImpedance(DEFAULT_MOTOR, 0);
+    expect(z.re).toBeCloseTo(0.7, 12);
+    expect(z.im).toBeCloseTo(26, 12);
+  });
+
+  it('follows the power from the air gap to the shaft', () => {
+    // s = 5 %: Z = 20 Ω, I = 10 A, P_ag = 2000 W, s·P_ag = 100 W, P_mech = 1900 W
+    const r = analyzeMotor(ideal, 0.05, V, 50);
+    expect(abs(r.current)).toBeCloseTo(10, 6);
+    expect(r.airGapPower).toBeCloseTo(2000, 4);
+    expect(r.rotorCopperLosses).toBeCloseTo(100, 4);
+    expect(r.shaftPower).toBeCloseTo(1900, 4);
+    expect(r.speed).toBeCloseTo(1425, 9);
+    expect(r.torque).toBeCloseTo(2000 / (50 * Math.PI), 4); // 12.73 N·m
+    expect(r.efficiency).toBeCloseTo(0.95, 6);
+  });
+
+  it('balances the input against the losses and the shaft', () => {
+    const r = analyzeMotor(DEFAULT_MOTOR, 0.04, complex(230), 50);
+    const losses = r.statorCopperLosses + r.rotorCopperLosses + DEFAULT_MOTOR.rotationalLosses;
+    expect(r.inputPower.re).toBeCloseTo(r.shaftPower + losses, 6);
+    expect(r.powerFactor).toBeGreaterThan(0);
+    expect(r.powerFactor).toBeLessThan(1);
+  });
+
+  it('finds the slip that delivers a shaft load', () => {
+    expect(motorSlipForLoad(ideal, 50, 1900, stiff)).toBeCloseTo(0.05, 6);
+    const slip = motorSlipForLoad(DEFAULT_MOTOR, 50, DEFAULT_MOTOR.ratedPower, () => complex(230));
+    expect(slip).not.toBeNull();
+    expect(analyzeMotor(DEFAULT_MOTOR, slip!, complex(230), 50).shaftPower).toBeCloseTo(DEFAULT_MOTOR.ratedPower, 3);
+  });
+
+  it('stalls when the load exceeds the breakdown point', () => {
+    expect(motorSlipForLoad(DEFAULT_MOTOR, 50, 100 * DEFAULT_MOTOR.ratedPower, () => complex(230))).toBeNull();
+  });
+});
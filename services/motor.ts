@@ -0,0 +1,161 @@
+import { MotorSettings } from "../types";
+import { Complex, abs, add, complex, conj, div, mul, sub } from "./complex";
+
+export interface MotorResult {
+  slip: number; // s, 0-1
+  speed: number; // Shaft speed (rpm)
+  synchronousSpeed: number; // 120·f/p (rpm)
+  impedance: Complex; // Input impedance of the equivalent circuit (Ω)
+  current: Complex; // Stator current I₁ (A RMS)
+  rotorCurrent: Complex; // Referred rotor current I₂' (A RMS)
+  magnetizingCurrent: Complex; // I₁ − I₂' (A RMS)
+  inputPower: Complex; // V·I₁* (VA)
+  statorCopperLosses: number; // I₁²R₁ (W)
+  airGapPower: number; // I₂'²R₂'/s (W)
+  rotorCopperLosses: number; // s·P_ag = I₂'²R₂' (W)
+  mechanicalPower: number; // (1 − s)·P_ag (W), before friction and windage
+  shaftPower: number; // P_mech − rotational losses (W), negative when they are not covered
+  torque: number; // Electromagnetic torque P_ag/ω_s (N·m)
+  shaftTorque: number; // P_shaft/ω_r (N·m)
+  efficiency: number; // P_shaft/P_in, 0 while the shaft delivers nothing
+  powerFactor: number; // P_in/|S_in|, always lagging
+}
+
+// One point of the no-load to overload sweep
+export interface MotorCurvePoint {
+  load: number; // Shaft output, % of rated
+  slip: number; // %
+  torque: number; // Shaft torque (N·m)
+  efficiency: number; // %
+  powerFactor: number;
+  current: number; // |I₁| (A RMS)
+}
+
+// Shaft loads the curve spans, as % of rated output
+export const MOTOR_CURVE_MAX_LOAD = 125;
+
+// Rotor branch seen from the air gap: R₂'/s + jX₂'; open at synchronous speed (s = 0)
+const rotorImpedance = (settings: MotorSettings, slip: number): Complex | null =>
+  slip > 0 ? complex(settings.rotorResistance / slip, settings.rotorReactance) : null;
+
+export const synchronousSpeed = (settings: MotorSettings, frequency: number): number =>
+  (120 * frequency) / settings.poles;
+
+// Z_in = R₁ + jX₁ + jX_m ∥ (R₂'/s + jX₂')
+export const motorImpedance = (settings: MotorSettings, slip: number): Complex => {
+  const stator = complex(settings.statorResistance, settings.statorReactance);
+  const magnetizing = complex(0, settings.magnetizingReactance);
+  const rotor = rotorImpedance(settings, slip);
+  if (!rotor) return add(stator, magnetizing);
+  return add(stator, div(mul(magnetizing, rotor), add(magnetizing, rotor)));
+};
+
+/**
+ * Solves the equivalent circuit at `slip` with `voltage` across the stator terminals and
+ * follows the power from the input through the stator and rotor losses to the shaft.
+ */
+export const analyzeMotor = (settings: MotorSettings, slip: number, voltage: Complex, frequency: number): MotorResult => {
+  const impedance = motorImpedance(settings, slip);
+  const current = div(voltage, impedance);
+  const rotor = rotorImpedance(settings, slip);
+  const magnetizing = complex(0, settings.magnetizingReactance);
+  // Current divider between the magnetizing and rotor branches
+  const rotorCurrent = rotor ? div(mul(current, magnetizing), add(magnetizing, rotor)) : complex(0);
+
+  const inputPower = mul(voltage, conj(current));
+  const airGapPower = rotor ? abs(rotorCurrent) ** 2 * rotor.re : 0;
+  const mechanicalPower = (1 - slip) * airGapPower;
+  // Friction and windage need the rotor turning
+  const shaftPower = mechanicalPower - (slip < 1 ? settings.rotationalLosses : 0);
+  const ns = synchronousSpeed(settings, frequency);
+  const speed = (1 - slip) * ns;
+  const omegaS = (2 * Math.PI * ns) / 60;
+  const omegaR = (2 * Math.PI * speed) / 60;
+
+  return {
+    slip,
+    speed,
+    synchronousSpeed: ns,
+    impedance,
+    current,
+    rotorCurrent,
+    magnetizingCurrent: sub(current, rotorCurrent),
+    inputPower,
+    statorCopperLosses: abs(current) ** 2 * settings.statorResistance,
+    airGapPower,
+    rotorCopperLosses: slip * airGapPower,
+    mechanicalPower,
+    shaftPower,
+    torque: omegaS > 0 ? airGapPower / omegaS : 0,
+    shaftTorque: omegaR > 0 ? shaftPower / omegaR : 0,
+    efficiency: inputPower.re > 0 && shaftPower > 0 ? shaftPower / inputPower.re : 0,
+    powerFactor: abs(inputPower) > 0 ? inputPower.re / abs(inputPower) : 0,
+  };
+};
+
+// Slips probed for the most power the shaft can give, log-spaced from 0.001 % to standstill
+const SLIP_SAMPLES = Array.from({ length: 161 }, (_, k) => 10 ** (-5 + k / 32));
+
+/**
+ * Slip at which the shaft delivers `shaftPower`. `voltageAt` returns the stator voltage for a
+ * given motor impedance, so a line or transformer ahead of the motor is taken into account.
+ * Searches the stable side of the curve (below the slip of maximum output); null when the load
+ * exceeds what the motor can give at that voltage, i.e. it stalls.
+ */
+export const motorSlipForLoad = (
+  settings: MotorSettings,
+  frequency: number,
+  shaftPower: number,
+  voltageAt: (impedance: Complex) => Complex,
+): number | null => {
+  const outputAt = (slip: number) =>
+    analyzeMotor(settings, slip, voltageAt(motorImpedance(settings, slip)), frequency).shaftPower;
+
+  let peakSlip = SLIP_SAMPLES[0];
+  let peak = -Infinity;
+  for (const slip of SLIP_SAMPLES) {
+    const output = outputAt(slip);
+    if (output > peak) {
+      peak = output;
+      peakSlip = slip;
+    }
+  }
+  if (peak < shaftPower) return null;
+
+  let low = 0;
+  let high = peakSlip;
+  for (let k = 0; k < 60; k++) {
+    const mid = (low + high) / 2;
+    if (outputAt(mid) < shaftPower) low = mid;
+    else high = mid;
+  }
+  return high;
+};
+
+/**
+ * Shaft torque, efficiency, PF and current from no load up to MOTOR_CURVE_MAX_LOAD % of the
+ * rated output, stopping where the motor would stall.
+ */
+export const motorLoadCurve = (
+  settings: MotorSettings,
+  frequency: number,
+  voltageAt: (impedance: Complex) => Complex,
+  steps = 25,
+): MotorCurvePoint[] => {
+  const points: MotorCurvePoint[] = [];
+  for (let k = 0; k <= steps; k++) {
+    const load = (MOTOR_CURVE_MAX_LOAD * k) / steps;
+    const slip = motorSlipForLoad(settings, frequency, (settings.ratedPower * load) / 100, voltageAt);
+    if (slip === null) break;
+    const result = analyzeMotor(settings, slip, voltageAt(motorImpedance(settings, slip)), frequency);
+    points.push({
+      load,
+      slip: slip * 100,
+      torque: Math.max(result.shaftTorque, 0),
+      efficiency: result.efficiency * 100,
+      powerFactor: result.powerFactor,
+      current: abs(result.current),
+    });
+  }
+  return points;
+};
@@ -0,0 +1,67 @@
+import { LoadItem, LoadItemKind, SignalParams } from "../types";
+import { Complex, abs, add, complex, conj, div, fromPolar } from "./complex";
+import { phasorToSignal } from "./threePhase";
+import { fundamentalOf } from "./spectrum";
+
+export interface LoadContribution {
+  P: number; // W
+  Q: number; // VAR, negative when leading
+  S: Complex; // P + jQ (VA)
+  current: Complex; // RMS phasor drawn by this load (A)
+}
+
+export interface MultiLoadResult {
+  contributions: LoadContribution[]; // In list order
+  P: number; // ΣP_k (W)
+  Q: number; // ΣQ_k (VAR)
+  S: number; // |ΣS_k| (VA), less than Σ|S_k| whenever reactive powers cancel
+  arithmeticS: number; // Σ|S_k| (VA)
+  current: SignalParams; // Supply current: the phasor sum of the load currents
+}
+
+// Unnamed loads are called after their kind and position in the list
+export const loadItemLabel = (item: LoadItem, index: number, kinds: Record<LoadItemKind, string>): string =>
+  item.name.trim() || `${kinds[item.kind]} ${index + 1}`;
+
+// Complex power the load takes at its rating
+export const loadItemPower = (item: LoadItem): Complex => {
+  switch (item.kind) {
+    case 'resistive':
+      return complex(item.power, 0);
+    case 'capacitor':
+      return complex(0, -item.power);
+    case 'motor':
+    case 'custom': {
+      const tanPhi = Math.tan(Math.acos(item.powerFactor));
+      const leading = item.kind === 'custom' && item.leading;
+      return complex(item.power, (leading ? -1 : 1) * item.power * tanPhi);
+    }
+  }
+};
+
+/**
+ * Aggregates loads in parallel on one supply (Boucherot's theorem): active and reactive
+ * powers add up separately, while apparent powers do not. Each load draws
+ * I_k = (S_k / V)* from the fundamental of `voltage`, and the supply current is ΣI_k.
+ */
+export const aggregateLoads = (items: LoadItem[], voltage: SignalParams): MultiLoadResult => {
+  const v1 = fundamentalOf(voltage);
+  const v = fromPolar(v1.amplitude, v1.phase);
+
+  const contributions = items.map((item): LoadContribution => {
+    const S = loadItemPower(item);
+    return { P: S.re, Q: S.im, S, current: v1.amplitude > 0 ? conj(div(S, v)) : complex(0) };
+  });
+
+  const total = contributions.reduce((sum, c) => add(sum, c.S), complex(0));
+  const current = contributions.reduce((sum, c) => add(sum, c.current), complex(0));
+
+  return {
+    contributions,
+    P: total.re,
+    Q: total.im,
+    S: abs(total),
+    arithmeticS: contributions.reduce((sum, c) => sum + abs(c.S), 0),
+    current: phasorToSignal(current, v1.frequency),
+  };
+};
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { integrate, rk4Step } from './ode';
+
+describe('rk4Step', () => {
+  it('is exact for a quartic solution: y\' = 4t³', () => {
+    const [y] = rk4Step(t => [4 * t ** 3], 0, [0], 2);
+    expect(y).toBeCloseTo(16, 12);
+  });
+});
+
+describe('integrate', () => {
+  it('solves y\' = −y to RK4 accuracy', () => {
+    const solution = integrate((_, y) => [-y[0]], [1], 0, 1, 10, 0.01);
+    expect(solution).toHaveLength(11);
+    expect(solution[10].t).toBeCloseTo(1, 12);
+    expect(solution[10].y[0]).toBeCloseTo(Math.exp(-1), 9);
+  });
+
+  it('splits each output interval into substeps no longer than maxStep', () => {
+    // A harmonic oscillator over one period returns to its start only with fine steps
+    const oscillator = (_: number, [x, v]: number[]) => [v, -x];
+    const [coarse, fine] = [Math.PI, 0.01].map(maxStep => integrate(oscillator, [1, 0], 0, 2 * Math.PI, 2, maxStep)[2].y[0]);
+    expect(Math.abs(coarse - 1)).toBeGreaterThan(0.01);
+    expect(fine).toBeCloseTo(1, 8);
+  });
+});
@@ -0,0 +1,35 @@
+// Right-hand side of a first-order system y' = f(t, y)
+export type OdeSystem = (t: number, y: number[]) => number[];
+
+export interface OdeSample {
+  t: number;
+  y: number[];
+}
+
+// One classical fourth-order Runge-Kutta step of size h from (t, y)
+export const rk4Step = (f: OdeSystem, t: number, y: number[], h: number): number[] => {
+  const shifted = (k: number[], scale: number) => y.map((value, n) => value + scale * k[n]);
+  const k1 = f(t, y);
+  const k2 = f(t + h / 2, shifted(k1, h / 2));
+  const k3 = f(t + h / 2, shifted(k2, h / 2));
+  const k4 = f(t + h, shifted(k3, h));
+  return y.map((value, n) => value + (h / 6) * (k1[n] + 2 * k2[n] + 2 * k3[n] + k4[n]));
+};
+
+/**
+ * Integrates `f` from (t0, y0) over `duration` with fixed RK4 steps no longer than `maxStep`,
+ * returning the state at `samples` + 1 evenly spaced times, both ends included.
+ */
+export const integrate = (f: OdeSystem, y0: number[], t0: number, duration: number, samples: number, maxStep: number): OdeSample[] => {
+  const interval = duration / samples;
+  const substeps = Math.max(1, Math.ceil(interval / maxStep));
+  const h = interval / substeps;
+  const result: OdeSample[] = [{ t: t0, y: y0 }];
+  let y = y0;
+  for (let k = 0; k < samples; k++) {
+    const start = t0 + k * interval;
+    for (let n = 0; n < substeps; n++) y = rk4Step(f, start + n * h, y, h);
+    result.push({ t: start + interval, y });
+  }
+  return result;
+};
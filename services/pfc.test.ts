@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { PFCSettings } from '../types';
+import { correctedCurrent, designCorrection } from './pfc';
+import { signal } from './testFixtures';
+
+const settings = (updates: Partial<PFCSettings>): PFCSettings => ({ enabled: true, targetPF: 0.95, useSteps: false, stepKvar: 0.05, ...updates });
+
+describe('designCorrection', () => {
+  it('sizes Qc = P·(tan φ₁ − tan φ₂) and C = Qc / (ωV²)', () => {
+    // PF 0.707 → 0.95: Qc = 1000 − 1000·tan(acos 0.95) = 671.32 VAR, C = 40.39 µF at 230 V 50 Hz
+    const r = designCorrection(1000, 1000, 230, 50, settings({}));
+    expect(r.status).toBe('ok');
+    expect(r.requiredQc).toBeCloseTo(671.32, 2);
+    expect(r.capacitance).toBeCloseTo(40.39, 2);
+    expect(r.capacitorCurrent).toBeCloseTo(671.32 / 230, 4);
+    expect(r.pfAfter).toBeCloseTo(0.95, 9);
+  });
+
+  it('rounds the bank up to whole steps', () => {
+    const r = designCorrection(1000, 1000, 230, 50, settings({ useSteps: true }));
+    expect(r.steps).toBe(14);
+    expect(r.installedQc).toBeCloseTo(700, 9);
+    expect(r.pfAfter).toBeGreaterThan(0.95);
+  });
+
+  it('leaves loads alone that are leading, already corrected or idle', () => {
+    expect(designCorrection(1000, -500, 230, 50, settings({})).status).toBe('leading');
+    expect(designCorrection(1000, 100, 230, 50, settings({})).status).toBe('already-met');
+    expect(designCorrection(0, 0, 230, 50, settings({})).status).toBe('no-load');
+  });
+});
+
+describe('correctedCurrent', () => {
+  it('adds the capacitor current jωCV to the load current', () => {
+    const V = signal();
+    // 10 A at −90°; 138.4 µF draws 230·ω·C = 10 A at +90° and cancels it
+    const C = (10 / (230 * 2 * Math.PI * 50)) * 1e6;
+    const i = correctedCurrent(V, { ...V, amplitude: 10, phase: -90 }, C);
+    expect(i.amplitude).toBeCloseTo(0, 9);
+  });
+});
@@ -0,0 +1,72 @@
+import { PFCSettings, SignalParams } from "../types";
+import { add, fromPolar } from "./complex";
+import { phasorToSignal } from "./threePhase";
+
+export type PFCStatus = 'ok' | 'already-met' | 'leading' | 'no-load';
+
+export interface PFCResult {
+  status: PFCStatus;
+  requiredQc: number; // VAR needed to exactly reach the target
+  installedQc: number; // VAR actually installed (rounded up to whole steps if enabled)
+  steps: number; // Number of capacitor steps (0 when steps are disabled)
+  capacitance: number; // µF at the system voltage and frequency
+  capacitorCurrent: number; // A (RMS)
+  qAfter: number; // VAR
+  sAfter: number; // VA
+  pfAfter: number;
+}
+
+/**
+ * Sizes a shunt capacitor bank that raises a lagging load to the target PF:
+ * Qc = P·(tan φ1 − tan φ2), C = Qc / (ω·V²).
+ * P and Q are the load powers, V the RMS (fundamental) voltage across the bank.
+ */
+export const designCorrection = (
+  P: number,
+  Q: number,
+  V: number,
+  frequency: number,
+  settings: PFCSettings
+): PFCResult => {
+  const S = Math.hypot(P, Q);
+  const pfBefore = S > 0 ? Math.abs(P) / S : 1;
+  const omega = 2 * Math.PI * frequency;
+
+  const result = (status: PFCStatus, requiredQc: number, installedQc: number, steps: number): PFCResult => {
+    const qAfter = Q - installedQc;
+    const sAfter = Math.hypot(P, qAfter);
+    return {
+      status,
+      requiredQc,
+      installedQc,
+      steps,
+      capacitance: V > 0 ? (installedQc / (omega * V * V)) * 1e6 : 0,
+      capacitorCurrent: V > 0 ? installedQc / V : 0,
+      qAfter,
+      sAfter,
+      pfAfter: sAfter > 0 ? Math.abs(P) / sAfter : 1,
+    };
+  };
+
+  if (P <= 0 || S === 0) return result('no-load', 0, 0, 0);
+  // A capacitor only makes a leading load worse; that needs a reactor instead
+  if (Q < 0) return result('leading', 0, 0, 0);
+  if (pfBefore >= settings.targetPF) return result('already-met', 0, 0, 0);
+
+  const phi2 = Math.acos(settings.targetPF);
+  const requiredQc = Q - P * Math.tan(phi2);
+
+  if (!settings.useSteps) return result('ok', requiredQc, requiredQc, 0);
+
+  const stepVar = settings.stepKvar * 1000;
+  const steps = Math.ceil(requiredQc / stepVar - 1e-9);
+  return result('ok', requiredQc, steps * stepVar, steps);
+};
+
+// Supply current once the bank is connected: I' = I + jωC·V
+export const correctedCurrent = (voltage: SignalParams, current: SignalParams, capacitanceUF: number): SignalParams => {
+  const omega = 2 * Math.PI * voltage.frequency;
+  const ic = fromPolar(omega * (capacitanceUF / 1e6) * voltage.amplitude, voltage.phase + 90);
+  const total = add(fromPolar(current.amplitude, current.phase), ic);
+  return phasorToSignal(total, voltage.frequency);
+};
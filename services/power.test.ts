@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+import { analyzeEnergy, analyzePower, analyzeSampledPower, commonPeriod, loadCharacter, sinusoidalPower } from './power';
+import { sampleSignal } from './signal';
+import { signal } from './testFixtures';
+
+const V = signal({});
+
+describe('commonPeriod', () => {
+  it('spans one period when both frequencies match', () => {
+    expect(commonPeriod(50, 50)).toEqual({ period: 0.02, cycles: 1, exact: true });
+  });
+
+  it('counts cycles of the faster signal', () => {
+    const window = commonPeriod(50, 150);
+    expect(window.period).toBeCloseTo(0.02, 12);
+    expect(window.cycles).toBe(3);
+    expect(window.exact).toBe(true);
+  });
+
+  it('trades samples per cycle for a longer window', () => {
+    // 50 Hz and 50.3 Hz line up after 10 s (503 cycles)
+    expect(commonPeriod(50, 50.3)).toMatchObject({ cycles: 503, exact: true });
+  });
+
+  it('flags frequencies with no common period in reach', () => {
+    // 50 Hz and 50.01 Hz only line up after 100 s (5001 cycles)
+    expect(commonPeriod(50, 50.01).exact).toBe(false);
+  });
+});
+
+describe('sinusoidalPower', () => {
+  it('splits S = V·I into P and Q by the displacement angle', () => {
+    const { P, Q, S, PF } = sinusoidalPower(230, 10, 60);
+    expect(S).toBe(2300);
+    expect(P).toBeCloseTo(1150, 9);
+    expect(Q).toBeCloseTo(1991.858, 3);
+    expect(PF).toBeCloseTo(0.5, 12);
+  });
+
+  it('tells lead from lag', () => {
+    expect(loadCharacter(30)).toBe('inductive');
+    expect(loadCharacter(-30)).toBe('capacitive');
+    expect(loadCharacter(0.05)).toBe('resistive');
+  });
+});
+
+describe('analyzePower', () => {
+  it('gives P = V·I for a resistive sine load', () => {
+    const a = analyzePower(V, signal({ amplitude: 10 }));
+    expect(a.V).toBeCloseTo(230, 6);
+    expect(a.I).toBeCloseTo(10, 6);
+    expect(a.P).toBeCloseTo(2300, 4);
+    expect(a.Q1).toBeCloseTo(0, 4);
+    expect(a.PF).toBeCloseTo(1, 9);
+    expect(a.exact).toBe(true);
+  });
+
+  it('gives P = S·cos θ and Q = S·sin θ for a lagging current', () => {
+    const a = analyzePower(V, signal({ amplitude: 10, phase: -60 }));
+    expect(a.theta1).toBeCloseTo(60, 6);
+    expect(a.P).toBeCloseTo(1150, 4);
+    expect(a.Q1).toBeCloseTo(1991.858, 3);
+    expect(a.PF1).toBeCloseTo(0.5, 9);
+  });
+
+  it('decomposes a square current on a sine voltage (IEEE 1459)', () => {
+    // I₁ = (2√2/π)·I = 9.0032 A, I_H = √(I² − I₁²) = 4.3524 A
+    const a = analyzePower(V, signal({ amplitude: 10, waveform: 'square' }));
+    expect(a.I1).toBeCloseTo(9.0032, 3);
+    expect(a.IH).toBeCloseTo(4.3524, 3);
+    expect(a.P).toBeCloseTo(230 * 9.0032, 0);
+    expect(a.PF).toBeCloseTo(0.90032, 4);
+    expect(a.DI).toBeCloseTo(230 * 4.3524, 0);
+    expect(a.S).toBeCloseTo(2300, 3);
+  });
+
+  it('counts DC power', () => {
+    const a = analyzePower(signal({ amplitude: 0, dcOffset: 10 }), signal({ amplitude: 0, dcOffset: 2 }));
+    expect(a.P).toBeCloseTo(20, 9);
+    expect(a.V1).toBeCloseTo(0, 9);
+    expect(a.VH).toBeCloseTo(10, 9);
+  });
+
+  it('finds no average power between sines of different frequencies', () => {
+    const a = analyzePower(V, signal({ amplitude: 10, frequency: 100 }));
+    expect(a.P).toBeCloseTo(0, 6);
+    expect(a.S).toBeCloseTo(2300, 3);
+  });
+
+  it('treats a current 1 Hz off the voltage as non-fundamental', () => {
+    const a = analyzePower(signal({ amplitude: 120, frequency: 60 }), signal({ amplitude: 5, frequency: 61 }));
+    expect(a.exact).toBe(true);
+    expect(a.I1).toBeCloseTo(0, 6);
+    expect(a.IH).toBeCloseTo(5, 6);
+    expect(a.P).toBeCloseTo(0, 6);
+    expect(a.Q1).toBeCloseTo(0, 6);
+  });
+
+  it('falls back to long-run averages with no common period', () => {
+    const a = analyzePower(signal({ dcOffset: 10 }), signal({ amplitude: 10, frequency: 50.01, dcOffset: 2 }));
+    expect(a.exact).toBe(false);
+    expect(a.V).toBeCloseTo(Math.hypot(230, 10), 6);
+    expect(a.V1).toBeCloseTo(230, 6);
+    expect(a.I).toBeCloseTo(Math.hypot(10, 2), 6);
+    expect(a.I1).toBe(0);
+    // Only the DC terms exchange power
+    expect(a.P).toBeCloseTo(20, 6);
+    expect(a.Q1).toBe(0);
+  });
+});
+
+describe('analyzeSampledPower', () => {
+  it('matches the closed form on one sampled period', () => {
+    const n = 400;
+    const dt = 0.02 / n;
+    const v = Float64Array.from({ length: n }, (_, k) => sampleSignal(V, k * dt));
+    const i = Float64Array.from({ length: n }, (_, k) => sampleSignal(signal({ amplitude: 5, phase: 30 }), k * dt));
+    const a = analyzeSampledPower(v, i, dt, 50);
+    // Current leads by 30°: capacitive, Q < 0
+    expect(a.P).toBeCloseTo(1150 * Math.cos(Math.PI / 6), 6);
+    expect(a.Q1).toBeCloseTo(-575, 6);
+    expect(a.theta1).toBeCloseTo(-30, 6);
+  });
+});
+
+describe('analyzeEnergy', () => {
+  it('delivers P·T per cycle to a resistor and returns nothing', () => {
+    const e = analyzeEnergy(V, signal({ amplitude: 10 }));
+    expect(e.delivered).toBeCloseTo(46, 6);
+    expect(e.returned).toBeCloseTo(0, 9);
+    expect(e.pMax).toBeCloseTo(4600, 0);
+  });
+
+  it('exchanges 2S/ω each way with a pure inductance', () => {
+    const e = analyzeEnergy(V, signal({ amplitude: 10, phase: -90 }));
+    const expected = (2 * 2300) / (2 * Math.PI * 50); // 14.642 J
+    expect(e.delivered).toBeCloseTo(expected, 4);
+    expect(e.returned).toBeCloseTo(expected, 4);
+    expect(e.net).toBeCloseTo(0, 6);
+  });
+
+  it('reports energy per voltage cycle when the current is faster', () => {
+    // p = 4VI·sin²(ωt)·cos(ωt): ∫ over cos > 0 gives 8VI/(3ω) per voltage cycle
+    const e = analyzeEnergy(V, signal({ amplitude: 10, frequency: 100 }));
+    const expected = (8 * 2300) / (3 * 2 * Math.PI * 50); // 19.523 J
+    expect(e.delivered).toBeCloseTo(expected, 4);
+    expect(e.returned).toBeCloseTo(expected, 4);
+  });
+});
@@ -0,0 +1,265 @@
+import { SignalParams } from "../types";
+import { sampleSignal } from "./signal";
+import { normalizeAngle } from "./complex";
+
+/**
+ * Single-phase power quantities following IEEE Std 1459-2010.
+ * Subscript 1 = fundamental (the voltage frequency), H = everything else (DC included).
+ */
+export interface PowerAnalysis {
+  V: number; // True RMS voltage
+  I: number; // True RMS current
+  V1: number;
+  I1: number;
+  VH: number;
+  IH: number;
+  theta1: number; // Fundamental displacement angle θ1 = ∠V1 - ∠I1 (degrees)
+  P: number; // Active power: mean of v·i over whole periods (W)
+  P1: number; // Fundamental active power (W)
+  PH: number; // Harmonic active power, P - P1 (W)
+  Q1: number; // Fundamental reactive power (VAR)
+  S: number; // Apparent power V·I (VA)
+  S1: number; // Fundamental apparent power V1·I1 (VA)
+  SN: number; // Non-fundamental apparent power √(S² - S1²) (VA)
+  DI: number; // Current distortion power V1·IH (VA)
+  DV: number; // Voltage distortion power VH·I1 (VA)
+  SH: number; // Harmonic apparent power VH·IH (VA)
+  N: number; // Non-active power √(S² - P²) (VA)
+  PF: number; // P / S
+  PF1: number; // Displacement power factor P1 / S1
+  exact: boolean; // A common period of v and i was found; false when the result is their long-run average
+}
+
+// Numerical integration resolution; long windows trade samples per cycle down to the minimum
+const SAMPLES_PER_CYCLE = 2048;
+const MIN_SAMPLES_PER_CYCLE = 64;
+const MAX_SAMPLES = 65536;
+// Frequencies are matched to this resolution when looking for a common period
+const FREQ_RESOLUTION = 100; // 0.01 Hz
+
+const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+
+/**
+ * Shortest window holding a whole number of periods of both signals.
+ * Returns the window length in seconds and how many cycles of the faster signal it spans.
+ * The window is capped at MAX_SAMPLES / MIN_SAMPLES_PER_CYCLE of those cycles; when the
+ * frequencies share no common period that short (or are off the 0.01 Hz grid), `exact` is
+ * false and the capped window cuts through a period.
+ */
+export const commonPeriod = (f1: number, f2: number): { period: number; cycles: number; exact: boolean } => {
+  if (Math.abs(f1 - f2) < 1e-9) return { period: 1 / f1, cycles: 1, exact: true };
+  const a = Math.round(f1 * FREQ_RESOLUTION);
+  const b = Math.round(f2 * FREQ_RESOLUTION);
+  const g = gcd(a, b) / FREQ_RESOLUTION;
+  const maxCycles = MAX_SAMPLES / MIN_SAMPLES_PER_CYCLE;
+  const needed = Math.round(Math.max(f1, f2) / g);
+  const onGrid = Math.abs(f1 * FREQ_RESOLUTION - a) < 1e-6 && Math.abs(f2 * FREQ_RESOLUTION - b) < 1e-6;
+  const cycles = Math.min(needed, maxCycles);
+  return { period: cycles / Math.max(f1, f2), cycles, exact: onGrid && needed <= maxCycles };
+};
+
+export interface SinusoidalPower {
+  P: number; // W
+  Q: number; // VAR, positive = inductive
+  S: number; // VA
+  PF: number; // cos θ, 1 with no current
+}
+
+// P, Q and S for RMS voltage and current sines displaced by θ = ∠V − ∠I (degrees)
+export const sinusoidalPower = (V: number, I: number, thetaDeg: number): SinusoidalPower => {
+  const rad = (thetaDeg * Math.PI) / 180;
+  const S = V * I;
+  return { P: S * Math.cos(rad), Q: S * Math.sin(rad), S, PF: Math.cos(rad) };
+};
+
+export type LoadCharacter = 'resistive' | 'inductive' | 'capacitive';
+
+// Character of a load from θ = ∠V − ∠I; within ±tolerance degrees it counts as resistive
+export const loadCharacter = (thetaDeg: number, tolerance = 0.1): LoadCharacter => {
+  const theta = normalizeAngle(thetaDeg);
+  if (Math.abs(theta) < tolerance) return 'resistive';
+  return theta > 0 ? 'inductive' : 'capacitive';
+};
+
+export interface FundamentalComponent {
+  rms: number;
+  phase: number; // Degrees, sine reference
+}
+
+/**
+ * Correlates uniformly spaced samples (t_k = t0 + k·dt) with a sine and a cosine at
+ * `frequency` — a single DFT bin. The record must span whole periods.
+ */
+export const fundamentalComponent = (
+  samples: ArrayLike<number>,
+  dt: number,
+  frequency: number,
+  t0 = 0
+): FundamentalComponent => {
+  const n = samples.length;
+  const omega = 2 * Math.PI * frequency;
+  let sumSin = 0;
+  let sumCos = 0;
+  for (let k = 0; k < n; k++) {
+    const t = t0 + k * dt;
+    sumSin += samples[k] * Math.sin(omega * t);
+    sumCos += samples[k] * Math.cos(omega * t);
+  }
+  // x = X√2·sin(ωt + φ)  ⇒  Σx·sin = n·X/√2·cos φ,  Σx·cos = n·X/√2·sin φ
+  return {
+    rms: (Math.SQRT2 * Math.hypot(sumSin, sumCos)) / n,
+    phase: (Math.atan2(sumCos, sumSin) * 180) / Math.PI,
+  };
+};
+
+// IEEE 1459 quantities from the true RMS values, the active power and the two fundamentals
+const decompose = (
+  V: number,
+  I: number,
+  P: number,
+  v1: FundamentalComponent,
+  i1: FundamentalComponent,
+  exact: boolean
+): PowerAnalysis => {
+  const V1 = v1.rms;
+  const I1 = i1.rms;
+  const VH = Math.sqrt(Math.max(0, V * V - V1 * V1));
+  const IH = Math.sqrt(Math.max(0, I * I - I1 * I1));
+
+  const theta1 = V1 > 1e-9 && I1 > 1e-9 ? normalizeAngle(v1.phase - i1.phase) : 0;
+
+  const { P: P1, Q: Q1, S: S1 } = sinusoidalPower(V1, I1, theta1);
+  const S = V * I;
+
+  return {
+    V,
+    I,
+    V1,
+    I1,
+    VH,
+    IH,
+    theta1,
+    P,
+    P1,
+    PH: P - P1,
+    Q1,
+    S,
+    S1,
+    SN: Math.sqrt(Math.max(0, S * S - S1 * S1)),
+    DI: V1 * IH,
+    DV: VH * I1,
+    SH: VH * IH,
+    N: Math.sqrt(Math.max(0, S * S - P * P)),
+    PF: S > 0 ? P / S : 0,
+    PF1: S1 > 1e-9 ? P1 / S1 : 0,
+    exact,
+  };
+};
+
+/**
+ * IEEE 1459 decomposition of sampled v and i (t_k = t0 + k·dt) spanning whole
+ * periods of `frequency`, which is taken as the fundamental.
+ */
+export const analyzeSampledPower = (
+  v: ArrayLike<number>,
+  i: ArrayLike<number>,
+  dt: number,
+  frequency: number,
+  t0 = 0
+): PowerAnalysis => {
+  const n = v.length;
+  let sumP = 0;
+  let sumV2 = 0;
+  let sumI2 = 0;
+  for (let k = 0; k < n; k++) {
+    sumP += v[k] * i[k];
+    sumV2 += v[k] * v[k];
+    sumI2 += i[k] * i[k];
+  }
+
+  const P = sumP / n;
+  const V = Math.sqrt(sumV2 / n);
+  const I = Math.sqrt(sumI2 / n);
+
+  return decompose(V, I, P, fundamentalComponent(v, dt, frequency, t0), fundamentalComponent(i, dt, frequency, t0), true);
+};
+
+// One period of a signal at the midpoints of SAMPLES_PER_CYCLE steps
+const samplePeriod = (signal: SignalParams): { samples: Float64Array; dt: number } => {
+  const dt = 1 / signal.frequency / SAMPLES_PER_CYCLE;
+  const samples = Float64Array.from({ length: SAMPLES_PER_CYCLE }, (_, k) => sampleSignal(signal, (k + 0.5) * dt));
+  return { samples, dt };
+};
+
+const mean = (samples: Float64Array) => samples.reduce((sum, x) => sum + x, 0) / samples.length;
+const rms = (samples: Float64Array) => Math.sqrt(samples.reduce((sum, x) => sum + x * x, 0) / samples.length);
+
+/**
+ * Long-run averages of two signals with no common period in reach: no harmonic of one
+ * lands on a harmonic of the other, so only their DC terms exchange active power and the
+ * current has no component at the voltage frequency. Each signal is measured over its own period.
+ */
+const unrelatedPower = (voltage: SignalParams, current: SignalParams): PowerAnalysis => {
+  const v = samplePeriod(voltage);
+  const i = samplePeriod(current);
+  const v1 = fundamentalComponent(v.samples, v.dt, voltage.frequency, v.dt / 2);
+  return decompose(rms(v.samples), rms(i.samples), mean(v.samples) * mean(i.samples), v1, { rms: 0, phase: 0 }, false);
+};
+
+export const analyzePower = (voltage: SignalParams, current: SignalParams): PowerAnalysis => {
+  const { period, cycles, exact } = commonPeriod(voltage.frequency, current.frequency);
+  if (!exact) return unrelatedPower(voltage, current);
+  const n = Math.min(MAX_SAMPLES, cycles * SAMPLES_PER_CYCLE);
+  const dt = period / n;
+
+  // Midpoint rule keeps sample points off the discontinuities of square/sawtooth waves
+  const v = new Float64Array(n);
+  const i = new Float64Array(n);
+  for (let k = 0; k < n; k++) {
+    const t = (k + 0.5) * dt;
+    v[k] = sampleSignal(voltage, t);
+    i[k] = sampleSignal(current, t);
+  }
+  return analyzeSampledPower(v, i, dt, voltage.frequency, dt / 2);
+};
+
+export interface EnergyPerCycle {
+  delivered: number; // J, integral of p(t) where p > 0
+  returned: number; // J, integral of |p(t)| where p < 0
+  net: number; // J, delivered − returned = P·T
+  pMax: number; // W
+  pMin: number; // W
+}
+
+/**
+ * Integrates p(t) = v(t)·i(t) over the common period and reports the energy per
+ * voltage cycle that flows to the load and back to the source.
+ */
+export const analyzeEnergy = (voltage: SignalParams, current: SignalParams): EnergyPerCycle => {
+  const { period, cycles } = commonPeriod(voltage.frequency, current.frequency);
+  const n = Math.min(MAX_SAMPLES, cycles * SAMPLES_PER_CYCLE);
+  const dt = period / n;
+
+  let delivered = 0;
+  let returned = 0;
+  let pMax = -Infinity;
+  let pMin = Infinity;
+  for (let k = 0; k < n; k++) {
+    const t = (k + 0.5) * dt;
+    const p = sampleSignal(voltage, t) * sampleSignal(current, t);
+    if (p > 0) delivered += p * dt;
+    else returned -= p * dt;
+    pMax = Math.max(pMax, p);
+    pMin = Math.min(pMin, p);
+  }
+
+  // `cycles` counts the faster signal; the readout is per voltage cycle
+  const voltageCycles = period * voltage.frequency;
+  return {
+    delivered: delivered / voltageCycles,
+    returned: returned / voltageCycles,
+    net: (delivered - returned) / voltageCycles,
+    pMax,
+    pMin,
+  };
+};
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { FREQUENCY_MAX, INITIAL_STATE, SCENARIO_VERSION, TRANSIENT_CYCLES_MAX } from '../constants';
+import { SimulationState } from '../types';
+import { createScenario, decodeScenarioHash, encodeScenarioHash, parseScenario, ScenarioText, serializeScenario, validateScenario } from './scenario';
+
+// Messages that name their arguments, so the tests can tell them apart
+const text: ScenarioText = {
+  expectedList: length => `list of ${length}`,
+  expectedListUpTo: max => `list of up to ${max}`,
+  expectedObject: 'object',
+  expectedNumber: 'number',
+  outOfRange: (value, min, max) => `${value} outside ${min}-${max}`,
+  expectedBoolean: 'boolean',
+  expectedText: 'text',
+  invalidOption: (value, options) => `${value} not in ${options}`,
+  notAScenario: 'not a scenario',
+  missingVersion: 'no version',
+  newerVersion: (version, supported) => `version ${version} > ${supported}`,
+  missingState: 'no state',
+  invalidJson: message => `json: ${message}`,
+  brokenLink: 'broken link',
+};
+
+const withState = (state: unknown) => ({ version: SCENARIO_VERSION, name: 'Lab', simSpeed: 20, state });
+const errorsOf = (data: unknown) => {
+  const result = validateScenario(data, text);
+  return result.status === 'invalid' ? result.errors : [];
+};
+
+describe('validateScenario', () => {
+  it('accepts a saved scenario unchanged', () => {
+    const scenario = createScenario(INITIAL_STATE, 35, 'Mains');
+    expect(parseScenario(serializeScenario(scenario), text)).toEqual({ status: 'ok', scenario });
+  });
+
+  it('fills fields missing from older files with the defaults', () => {
+    const result = validateScenario(withState({ voltage: { amplitude: 230 } }), text);
+    expect(result.status).toBe('ok');
+    if (result.status !== 'ok') return;
+    expect(result.scenario.state.voltage).toEqual({ ...INITIAL_STATE.voltage, amplitude: 230 });
+    expect(result.scenario.state.load).toEqual(INITIAL_STATE.load);
+  });
+
+  it('rejects anything that is not a scenario of a known version', () => {
+    expect(errorsOf([])).toEqual(['not a scenario']);
+    expect(errorsOf({ state: {} })).toEqual(['no version']);
+    expect(errorsOf({ version: SCENARIO_VERSION + 1, state: {} })).toEqual([`version ${SCENARIO_VERSION + 1} > ${SCENARIO_VERSION}`]);
+    expect(errorsOf({ version: SCENARIO_VERSION })).toEqual(['no state']);
+    expect(parseScenario('{', text).status).toBe('invalid');
+  });
+
+  it('names the path of every wrong type and option', () => {
+    const errors = errorsOf(withState({ voltage: { amplitude: '230', waveform: 'noise' }, pfc: { enabled: 1 } }));
+    expect(errors).toContain('state.voltage.amplitude: number');
+    expect(errors).toContain('state.voltage.waveform: noise not in sine, square, triangle, sawtooth');
+    expect(errors).toContain('state.pfc.enabled: boolean');
+  });
+
+  it('holds frequencies and transient cycles to the knob limits', () => {
+    expect(errorsOf(withState({ voltage: { frequency: FREQUENCY_MAX } }))).toEqual([]);
+    expect(errorsOf(withState({ voltage: { frequency: 1e6 } }))).toEqual([`state.voltage.frequency: 1000000 outside 1-${FREQUENCY_MAX}`]);
+    expect(errorsOf(withState({ current: { frequency: 0.5 } }))).toHaveLength(1);
+    expect(errorsOf(withState({ transient: { cycles: TRANSIENT_CYCLES_MAX + 1 } }))).toHaveLength(1);
+  });
+
+  it('checks each load of the list against the template, up to the maximum', () => {
+    const item = { kind: 'motor', name: 'Pump', power: 400, powerFactor: 2, leading: false };
+    expect(errorsOf(withState({ loadItems: [item] }))).toEqual(['state.loadItems[0].powerFactor: 2 outside 0.01-1']);
+    expect(errorsOf(withState({ loadItems: Array(100).fill(item) }))[0]).toMatch(/^state\.loadItems: list of up to/);
+  });
+});
+
+describe('scenario links', () => {
+  it('round-trips a scenario, accents included, through the URL hash', () => {
+    const state: SimulationState = { ...INITIAL_STATE, voltage: { ...INITIAL_STATE.voltage, amplitude: 230, frequency: 50 } };
+    const scenario = createScenario(state, 50, 'Línea de distribución');
+    const hash = encodeScenarioHash(scenario);
+    expect(hash).toMatch(/^#escenario=[\w-]+$/);
+    expect(decodeScenarioHash(hash, text)).toEqual({ status: 'ok', scenario });
+  });
+
+  it('ignores other hashes and reports a damaged link', () => {
+    expect(decodeScenarioHash('#section', text)).toBeNull();
+    expect(decodeScenarioHash('#escenario=%%%', text)).toEqual({ status: 'invalid', errors: ['broken link'] });
+  });
+});
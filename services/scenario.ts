@@ -0,0 +1,245 @@
+import { Scenario, SimulationState } from "../types";
+import {
+  DEFAULT_SIM_SPEED, FREQUENCY_MAX, FREQUENCY_MIN, INITIAL_STATE, LOAD_ITEM_DEFAULTS, MAX_LOAD_ITEMS, SCENARIO_VERSION,
+  TRANSIENT_CYCLES_MAX, TRANSIENT_CYCLES_MIN,
+} from "../constants";
+
+export type ScenarioParseResult =
+  | { status: 'ok'; scenario: Scenario }
+  | { status: 'invalid'; errors: string[] };
+
+// Validation messages in the UI language
+export interface ScenarioText {
+  expectedList: (length: number) => string;
+  expectedListUpTo: (max: number) => string;
+  expectedObject: string;
+  expectedNumber: string;
+  outOfRange: (value: number, min: number, max: number) => string;
+  expectedBoolean: string;
+  expectedText: string;
+  invalidOption: (value: string, options: string) => string;
+  notAScenario: string;
+  missingVersion: string;
+  newerVersion: (version: number, supported: number) => string;
+  missingState: string;
+  invalidJson: (message: string) => string;
+  brokenLink: string;
+}
+
+const HASH_PREFIX = '#escenario=';
+
+// String fields may only hold these values (keyed by field name, wherever it appears)
+const ALLOWED_VALUES: Record<string, readonly string[]> = {
+  waveform: ['sine', 'square', 'triangle', 'sawtooth'],
+  loadMode: ['manual', 'rlc', 'multi', 'motor'],
+  operatingPoint: ['slip', 'load'],
+  kind: ['resistive', 'motor', 'capacitor', 'custom'],
+  topology: ['series', 'parallel'],
+  systemMode: ['single', 'three'],
+  connection: ['wye', 'delta'],
+  mode: ['auto', 'normal', 'single'],
+  source: ['voltage', 'current'],
+  slope: ['rising', 'falling'],
+  amplitudeView: ['rms', 'peak', 'peakToPeak'],
+  input: ['total', 'perKm'],
+  circuit: ['rl', 'rc', 'rlc'],
+};
+
+// Inclusive numeric limits; fields not listed only need to be finite. Fields with a knob share its limits
+const RANGES: Record<string, [number, number]> = {
+  amplitude: [0, 1e6],
+  frequency: [FREQUENCY_MIN, FREQUENCY_MAX],
+  dutyCycle: [1, 99],
+  resistance: [0, 1e9],
+  inductance: [0, 1e9],
+  capacitance: [0, 1e9],
+  reactance: [0, 1e9],
+  length: [0, 1e6],
+  resistancePerKm: [0, 1e9],
+  reactancePerKm: [0, 1e9],
+  statorResistance: [0, 1e9],
+  statorReactance: [0, 1e9],
+  rotorResistance: [0, 1e9],
+  rotorReactance: [0, 1e9],
+  poles: [2, 100],
+  rotationalLosses: [0, 1e9],
+  ratedPower: [1e-3, 1e9],
+  slip: [0, 100],
+  loadPercent: [0, 1e4],
+  ratio: [1e-3, 1e6],
+  coreResistance: [1e-3, 1e12],
+  magnetizingReactance: [1e-3, 1e12],
+  targetPF: [0.01, 1],
+  stepKvar: [0.001, 1e4],
+  timePerDiv: [1e-6, 1e6],
+  voltsPerDiv: [1e-6, 1e9],
+  ampsPerDiv: [1e-6, 1e9],
+  horizontalPosition: [0, 1e6],
+  simSpeed: [0, 100],
+  voltageMax: [1e-6, 1e6],
+  currentMax: [1e-9, 1e6],
+  resistanceMax: [1e-6, 1e9],
+  inductanceMax: [1e-6, 1e9],
+  capacitanceMax: [1e-6, 1e9],
+  activePower: [0, 1e9],
+  power: [0, 1e9],
+  powerFactor: [0.01, 1],
+  energyPrice: [0, 1e9],
+  demandPrice: [0, 1e9],
+  reactivePrice: [0, 1e9],
+  pfThreshold: [0.01, 1],
+  billingDays: [1, 366],
+  closingAngle: [-360, 360],
+  initialVoltage: [-1e6, 1e6],
+  cycles: [TRANSIENT_CYCLES_MIN, TRANSIENT_CYCLES_MAX],
+};
+
+// Lists the user sizes (keyed by field name): every item is checked against one template
+const VARIABLE_LISTS: Record<string, { item: unknown; max: number }> = {
+  loadItems: { item: LOAD_ITEM_DEFAULTS.custom, max: MAX_LOAD_ITEMS },
+};
+
+/**
+ * Checks `value` against the shape of `template` (a known-good state) and returns
+ * a clean copy. Missing fields keep the template value, so files saved before a
+ * field existed still load; every mismatch adds a readable message to `errors`.
+ */
+const validateField = (value: unknown, template: unknown, path: string, key: string, errors: string[], text: ScenarioText): unknown => {
+  if (value === undefined) return template;
+
+  const list = VARIABLE_LISTS[key];
+  if (list) {
+    if (!Array.isArray(value) || value.length > list.max) {
+      errors.push(`${path}: ${text.expectedListUpTo(list.max)}`);
+      return template;
+    }
+    return value.map((item, i) => validateField(item, list.item, `${path}[${i}]`, '', errors, text));
+  }
+
+  if (Array.isArray(template)) {
+    if (!Array.isArray(value) || value.length !== template.length) {
+      errors.push(`${path}: ${text.expectedList(template.length)}`);
+      return template;
+    }
+    return template.map((item, i) => validateField(value[i], item, `${path}[${i}]`, key, errors, text));
+  }
+
+  if (typeof template === 'object' && template !== null) {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      errors.push(`${path}: ${text.expectedObject}`);
+      return template;
+    }
+    const source = value as Record<string, unknown>;
+    const result: Record<string, unknown> = {};
+    for (const [field, fieldTemplate] of Object.entries(template)) {
+      result[field] = validateField(source[field], fieldTemplate, `${path}.${field}`, field, errors, text);
+    }
+    return result;
+  }
+
+  if (typeof template === 'number') {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      errors.push(`${path}: ${text.expectedNumber}`);
+      return template;
+    }
+    const range = RANGES[key];
+    if (range && (value < range[0] || value > range[1])) {
+      errors.push(`${path}: ${text.outOfRange(value, range[0], range[1])}`);
+      return template;
+    }
+    return value;
+  }
+
+  if (typeof template === 'boolean') {
+    if (typeof value !== 'boolean') {
+      errors.push(`${path}: ${text.expectedBoolean}`);
+      return template;
+    }
+    return value;
+  }
+
+  if (typeof value !== 'string') {
+    errors.push(`${path}: ${text.expectedText}`);
+    return template;
+  }
+  const allowed = ALLOWED_VALUES[key];
+  if (allowed && !allowed.includes(value)) {
+    errors.push(`${path}: ${text.invalidOption(value, allowed.join(', '))}`);
+    return template;
+  }
+  return value;
+};
+
+export const createScenario = (state: SimulationState, simSpeed: number, name: string): Scenario => ({
+  version: SCENARIO_VERSION,
+  name,
+  simSpeed,
+  state,
+});
+
+export const serializeScenario = (scenario: Scenario): string => JSON.stringify(scenario, null, 2);
+
+// Validates an already-decoded JSON value
+export const validateScenario = (data: unknown, text: ScenarioText): ScenarioParseResult => {
+  if (typeof data !== 'object' || data === null || Array.isArray(data)) {
+    return { status: 'invalid', errors: [text.notAScenario] };
+  }
+  const raw = data as Record<string, unknown>;
+
+  if (typeof raw.version !== 'number') {
+    return { status: 'invalid', errors: [text.missingVersion] };
+  }
+  if (raw.version > SCENARIO_VERSION) {
+    return { status: 'invalid', errors: [text.newerVersion(raw.version, SCENARIO_VERSION)] };
+  }
+  if (raw.state === undefined) {
+    return { status: 'invalid', errors: [text.missingState] };
+  }
+
+  const errors: string[] = [];
+  const state = validateField(raw.state, INITIAL_STATE, 'state', 'state', errors, text) as SimulationState;
+  const simSpeed = validateField(raw.simSpeed, DEFAULT_SIM_SPEED, 'simSpeed', 'simSpeed', errors, text) as number;
+  const name = validateField(raw.name, '', 'name', 'name', errors, text) as string;
+
+  if (errors.length > 0) return { status: 'invalid', errors };
+  return { status: 'ok', scenario: { version: SCENARIO_VERSION, name, simSpeed, state } };
+};
+
+export const parseScenario = (json: string, text: ScenarioText): ScenarioParseResult => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (e) {
+    return { status: 'invalid', errors: [text.invalidJson((e as Error).message)] };
+  }
+  return validateScenario(data, text);
+};
+
+// URL-safe base64 of the UTF-8 JSON, so names with accents survive the round trip
+const toBase64Url = (text: string): string => {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(b => { binary += String.fromCharCode(b); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (encoded: string): string => {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+};
+
+export const encodeScenarioHash = (scenario: Scenario): string =>
+  HASH_PREFIX + toBase64Url(JSON.stringify(scenario));
+
+// Null when the hash does not carry a scenario at all
+export const decodeScenarioHash = (hash: string, text: ScenarioText): ScenarioParseResult | null => {
+  if (!hash.startsWith(HASH_PREFIX)) return null;
+  let json: string;
+  try {
+    json = fromBase64Url(hash.slice(HASH_PREFIX.length));
+  } catch {
+    return { status: 'invalid', errors: [text.brokenLink] };
+  }
+  return parseScenario(json, text);
+};
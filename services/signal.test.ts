@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { amplitudeFactor, getPeakAmplitude, sampleSignal } from './signal';
+import { signal } from './testFixtures';
+
+describe('getPeakAmplitude', () => {
+  it('scales RMS to peak by each waveform crest factor', () => {
+    expect(getPeakAmplitude(230, 'sine')).toBeCloseTo(325.269, 3);
+    expect(getPeakAmplitude(10, 'square')).toBe(10);
+    expect(getPeakAmplitude(10, 'triangle')).toBeCloseTo(17.3205, 4);
+    expect(getPeakAmplitude(10, 'sawtooth')).toBeCloseTo(17.3205, 4);
+  });
+
+  it('reads amplitudes as peak-to-peak at twice the peak', () => {
+    expect(amplitudeFactor('sine', 'rms')).toBe(1);
+    expect(amplitudeFactor('sine', 'peakToPeak')).toBeCloseTo(2 * Math.SQRT2, 12);
+  });
+});
+
+describe('sampleSignal', () => {
+  it('reaches the sine peak a quarter period after the zero crossing', () => {
+    expect(sampleSignal(signal({}), 0.005)).toBeCloseTo(325.269, 3);
+    expect(sampleSignal(signal({ phase: 90 }), 0)).toBeCloseTo(325.269, 3);
+  });
+
+  it('adds the DC offset', () => {
+    expect(sampleSignal(signal({ amplitude: 0, dcOffset: 12 }), 0.0123)).toBe(12);
+  });
+
+  it('keeps a square wave high for the duty cycle', () => {
+    const square = signal({ amplitude: 10, waveform: 'square', dutyCycle: 25 });
+    expect(sampleSignal(square, 0.004)).toBe(10); // 20 % of the period
+    expect(sampleSignal(square, 0.006)).toBe(-10); // 30 %
+  });
+
+  it('ramps a triangle linearly through zero', () => {
+    const triangle = signal({ amplitude: 10 / Math.sqrt(3), waveform: 'triangle' });
+    expect(sampleSignal(triangle, 0)).toBeCloseTo(0, 12);
+    expect(sampleSignal(triangle, 0.0025)).toBeCloseTo(5, 12); // Half way up
+    expect(sampleSignal(triangle, 0.005)).toBeCloseTo(10, 12);
+  });
+});
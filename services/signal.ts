@@ -0,0 +1,87 @@
+import { AmplitudeView, SignalParams, Waveform } from "../types";
+
+export const getPeakAmplitude = (rms: number, waveform: Waveform) => {
+   // Calculates Peak from RMS based on waveform physics
+   switch (waveform) {
+      case 'square': 
+         // For a square wave centered at 0, Peak = RMS
+         return rms;
+      case 'triangle':
+      case 'sawtooth':
+         // For Triangle/Sawtooth, Peak = RMS * sqrt(3)
+         return rms * Math.sqrt(3);
+      case 'sine':
+      default: 
+         // Standard Sine: Peak = RMS * sqrt(2)
+         return rms * Math.SQRT2;
+   }
+};
+
+// Multiplier from the stored RMS amplitude to the reading in `view`; the waveform
+// swings ±peak around its DC offset, so peak-to-peak is twice the peak
+export const amplitudeFactor = (waveform: Waveform, view: AmplitudeView) =>
+  view === 'rms' ? 1 : getPeakAmplitude(1, waveform) * (view === 'peakToPeak' ? 2 : 1);
+
+export const calculateSignal = (
+  t_sec: number,
+  peakAmp: number, // This must be the PEAK value, not RMS
+  freq: number,
+  phaseDeg: number,
+  dc: number,
+  waveform: Waveform,
+  dutyCycle: number = 50 // %
+) => {
+  const phaseRad = (phaseDeg * Math.PI) / 180;
+  const omega = 2 * Math.PI * freq;
+  const t = t_sec;
+  const argument = omega * t + phaseRad;
+
+  let acValue = 0;
+
+  switch (waveform) {
+    case 'sine':
+      acValue = Math.sin(argument);
+      break;
+    case 'square': {
+      // High for the first `duty` fraction of the cycle (50% = sign(sin))
+      const duty = dutyCycle / 100;
+      const position = argument / (2 * Math.PI) - Math.floor(argument / (2 * Math.PI));
+      acValue = position < duty ? 1 : -1;
+      break;
+    }
+    case 'triangle': {
+      // Rising edge spans `duty` of the cycle, centred on the zero crossing.
+      // At 50% this matches (2/PI)·arcsin(sin(x)); at 100% it becomes a sawtooth.
+      const duty = dutyCycle / 100;
+      const shifted = argument / (2 * Math.PI) + duty / 2;
+      const q = shifted - Math.floor(shifted);
+      acValue = q < duty ? -1 + (2 * q) / duty : 1 - (2 * (q - duty)) / (1 - duty);
+      break;
+    }
+    case 'sawtooth':
+      // Normalize argument to 0-1 range for calculation
+      const period = 1 / freq;
+      const shiftedT = t + (phaseDeg / 360) * period;
+      acValue = 2 * ((shiftedT * freq) - Math.floor(shiftedT * freq + 0.5));
+      break;
+    default:
+      acValue = Math.sin(argument);
+  }
+
+  return (peakAmp * acValue) + dc;
+};
+
+// Value of a waveform at time t (s); lets measured data stand in for a synthetic signal
+export type Sampler = (t: number) => number;
+
+// Instantaneous value of a signal whose amplitude is given as RMS
+export const sampleSignal = (signal: SignalParams, t_sec: number) =>
+  calculateSignal(
+    t_sec,
+    getPeakAmplitude(signal.amplitude, signal.waveform),
+    signal.frequency,
+    signal.phase,
+    signal.dcOffset,
+    signal.waveform,
+    signal.dutyCycle
+  );
@@ -0,0 +1,121 @@
+import { SignalParams } from "../types";
+import { normalizeAngle } from "./complex";
+import { LoadCharacter, loadCharacter, PowerAnalysis, sinusoidalPower } from "./power";
+
+// One line of a worked solution: the formula, the values substituted into it and the result
+export interface SolutionStep {
+  title: string;
+  formula: string;
+  substitution: string;
+  result: string;
+}
+
+// Step titles and prose in the UI language; formulas and symbols are shared
+export interface SolutionText {
+  phasors: string;
+  phaseShift: string;
+  wrapped: string; // How φ is brought into (−180°, 180°]
+  complexPower: string;
+  activePower: string;
+  reactivePower: string;
+  powerFactor: string;
+  character: string;
+  distortion: string;
+  pf: string; // Power factor symbol
+  sin: string; // Sine function name
+  noCurrent: string;
+  characterRule: string;
+  characters: Record<LoadCharacter, string>;
+  totalRms: string;
+}
+
+const CHARACTER_CONDITIONS: Record<LoadCharacter, string> = {
+  resistive: '≈ 0',
+  inductive: '> 0',
+  capacitive: '< 0',
+};
+
+// Negative operands go in parentheses so "a − (−b)" reads unambiguously
+const operand = (text: string) => (text.startsWith('-') ? `(${text})` : text);
+
+/**
+ * Hand calculation of the power cards from the fundamental phasors, with the current values
+ * substituted at every step. `fmt` and `si` write numbers as the cards do: the UI language's
+ * decimal mark, and quantities in engineering notation (kV, MW, mA). `analysis` adds the true-RMS step when harmonics or DC are present.
+ */
+export const workedSolution = (
+  voltage: SignalParams,
+  current: SignalParams,
+  text: SolutionText,
+  fmt: (value: number, decimals?: number) => string,
+  si: (value: number, unit: string, digits?: number) => string,
+  analysis?: PowerAnalysis
+): SolutionStep[] => {
+  const num = (value: number, decimals = 2) => fmt(value, decimals);
+  const deg = (value: number) => `${fmt(value, 1)}°`;
+  const qty = (value: number, unit: string) => si(value, unit, 4);
+  const V = voltage.amplitude;
+  const I = current.amplitude;
+  const raw = voltage.phase - current.phase;
+  const phi = normalizeAngle(raw);
+  const { S, P, Q, PF } = sinusoidalPower(V, I, phi);
+  const wraps = Math.abs(raw - phi) > 1e-9;
+  const character = loadCharacter(phi);
+
+  const steps: SolutionStep[] = [
+    {
+      title: text.phasors,
+      formula: 'V = V∠θv,   I = I∠θi',
+      substitution: `V = ${qty(V, 'V')} ∠${deg(voltage.phase)},   I = ${qty(I, 'A')} ∠${deg(current.phase)}`,
+      result: '',
+    },
+    {
+      title: text.phaseShift,
+      formula: `φ = θv − θi,   ${text.wrapped}`,
+      substitution: `φ = ${deg(voltage.phase)} − ${operand(deg(current.phase))} = ${deg(raw)}` +
+        (wraps ? ` ${raw > phi ? '−' : '+'} ${Math.round(Math.abs(raw - phi))}°` : ''),
+      result: `φ = ${deg(phi)}`,
+    },
+    {
+      title: text.complexPower,
+      formula: 'S = V · I* = V·I ∠(θv − θi) = P + jQ',
+      substitution: `S = ${qty(V, 'V')} · ${qty(I, 'A')} ∠${deg(phi)}`,
+      result: `S = ${qty(S, 'VA')} ∠${deg(phi)}`,
+    },
+    {
+      title: text.activePower,
+      formula: 'P = S · cos φ',
+      substitution: `P = ${qty(S, 'VA')} · cos(${deg(phi)}) = ${qty(S, 'VA')} · ${num(Math.cos((phi * Math.PI) / 180), 4)}`,
+      result: `P = ${qty(P, 'W')}`,
+    },
+    {
+      title: text.reactivePower,
+      formula: `Q = S · ${text.sin} φ`,
+      substitution: `Q = ${qty(S, 'VA')} · ${text.sin}(${deg(phi)}) = ${qty(S, 'VA')} · ${operand(num(Math.sin((phi * Math.PI) / 180), 4))}`,
+      result: `Q = ${qty(Q, 'VAR')}`,
+    },
+    {
+      title: text.powerFactor,
+      formula: `${text.pf} = cos φ = P / S`,
+      substitution: S > 0 ? `${text.pf} = ${qty(P, 'W')} / ${qty(S, 'VA')}` : text.noCurrent,
+      result: `${text.pf} = ${num(Math.abs(PF), 3)}`,
+    },
+    {
+      title: text.character,
+      formula: text.characterRule,
+      substitution: `φ = ${deg(phi)} ${CHARACTER_CONDITIONS[character]}`,
+      result: text.characters[character],
+    },
+  ];
+
+  // With distortion the cards use true RMS values: S grows while P barely changes
+  if (analysis && analysis.S - analysis.S1 > 1e-6 * Math.max(1, analysis.S)) {
+    steps.push({
+      title: text.distortion,
+      formula: `S = V·I ${text.totalRms},   ${text.pf} = P / S ≠ cos φ₁`,
+      substitution: `S = ${qty(analysis.V, 'V')} · ${qty(analysis.I, 'A')} = ${qty(analysis.S, 'VA')},   ${text.pf} = ${qty(analysis.P, 'W')} / ${qty(analysis.S, 'VA')}`,
+      result: `${text.pf} = ${num(Math.abs(analysis.PF), 3)}`,
+    });
+  }
+  return steps;
+};
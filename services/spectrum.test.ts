@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { Waveform } from '../types';
+import { analyzeSignal, fft, fundamentalOf, isSinusoidal, THEORETICAL_CREST_FACTOR, THEORETICAL_THD } from './spectrum';
+import { signal } from './testFixtures';
+
+describe('fft', () => {
+  it('puts a cosine of bin k into bins k and N − k', () => {
+    const n = 8;
+    const re = Float64Array.from({ length: n }, (_, t) => Math.cos((2 * Math.PI * 2 * t) / n));
+    const im = new Float64Array(n);
+    fft(re, im);
+    expect(re[2]).toBeCloseTo(4, 12);
+    expect(re[6]).toBeCloseTo(4, 12);
+    expect(re[0]).toBeCloseTo(0, 12);
+    expect(im[2]).toBeCloseTo(0, 12);
+  });
+});
+
+describe('analyzeSignal', () => {
+  it('finds a pure sine with its RMS and phase and no distortion', () => {
+    const a = analyzeSignal(signal({ phase: 30 }), 5);
+    expect(a.rms).toBeCloseTo(230, 6);
+    expect(a.harmonics[0].magnitude).toBeCloseTo(230, 6);
+    expect(a.harmonics[0].phase).toBeCloseTo(30, 6);
+    expect(a.thd).toBeCloseTo(0, 9);
+    expect(a.dc).toBeCloseTo(0, 9);
+  });
+
+  it('separates the DC offset', () => {
+    const a = analyzeSignal(signal({ amplitude: 10, dcOffset: 5 }), 3);
+    expect(a.dc).toBeCloseTo(5, 9);
+    expect(a.rms).toBeCloseTo(Math.hypot(10, 5), 6);
+  });
+
+  it('gives a square wave odd harmonics falling as 1/n', () => {
+    const [h1, h2, h3, , h5] = analyzeSignal(signal({ amplitude: 10, waveform: 'square' }), 5).harmonics;
+    expect(h1.magnitude).toBeCloseTo((2 * Math.SQRT2 * 10) / Math.PI, 2);
+    expect(h2.magnitude).toBeCloseTo(0, 9);
+    expect(h3.magnitude / h1.magnitude).toBeCloseTo(1 / 3, 2);
+    expect(h5.magnitude / h1.magnitude).toBeCloseTo(1 / 5, 2);
+  });
+});
+
+describe('fundamentalOf', () => {
+  it('returns a sine unchanged and strips harmonics and DC otherwise', () => {
+    const sine = signal({});
+    expect(isSinusoidal(sine)).toBe(true);
+    expect(fundamentalOf(sine)).toBe(sine);
+
+    const h1 = fundamentalOf(signal({ amplitude: 10, waveform: 'square', dcOffset: 3 }));
+    expect(h1.waveform).toBe('sine');
+    expect(h1.dcOffset).toBe(0);
+    expect(h1.amplitude).toBeCloseTo(9.0032, 3);
+  });
+});
+
+describe('FFT against the Fourier series', () => {
+  const waveforms: Waveform[] = ['sine', 'square', 'triangle', 'sawtooth'];
+
+  it('lands on the closed-form THD: square 48.3 %, triangle 12.1 %, sawtooth 80.3 %', () => {
+    expect(THEORETICAL_THD.square).toBeCloseTo(0.483, 3);
+    expect(THEORETICAL_THD.triangle).toBeCloseTo(0.121, 3);
+    expect(THEORETICAL_THD.sawtooth).toBeCloseTo(0.803, 3);
+    // Harmonics above N/2 are lost to the 1024-point FFT: within 0.2 percentage points
+    for (const waveform of waveforms) {
+      expect(Math.abs(analyzeSignal(signal({ waveform }), 50).thd - THEORETICAL_THD[waveform])).toBeLessThan(0.002);
+    }
+  });
+
+  it('lands on the closed-form crest factor', () => {
+    // Midpoint samples miss the exact peak by up to half a step: within 0.5 %
+    for (const waveform of waveforms) {
+      const { crestFactor } = analyzeSignal(signal({ waveform }), 50);
+      expect(Math.abs(crestFactor / THEORETICAL_CREST_FACTOR[waveform] - 1)).toBeLessThan(0.005);
+    }
+  });
+});
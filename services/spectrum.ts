@@ -0,0 +1,146 @@
+import { SignalParams, Waveform } from "../types";
+import { sampleSignal } from "./signal";
+import { normalizeAngle } from "./complex";
+
+export interface Harmonic {
+  order: number; // 1 = fundamental
+  magnitude: number; // RMS value of the component
+  phase: number; // Degrees, sine reference (matches SignalParams.phase)
+}
+
+export interface SpectrumAnalysis {
+  dc: number; // Mean value
+  rms: number; // True RMS (DC + all harmonics)
+  peak: number; // Max |x(t)|
+  crestFactor: number; // peak / rms
+  thd: number; // Total harmonic distortion relative to the fundamental (ratio, not %)
+  harmonics: Harmonic[]; // Orders 1..maxOrder
+}
+
+// Samples per fundamental period (power of two for the radix-2 FFT)
+export const FFT_SIZE = 1024;
+
+/**
+ * In-place iterative radix-2 Cooley-Tukey FFT.
+ * `re` and `im` must have the same power-of-two length.
+ */
+export const fft = (re: Float64Array, im: Float64Array) => {
+  const n = re.length;
+
+  // Bit-reversal permutation
+  for (let i = 1, j = 0; i < n; i++) {
+    let bit = n >> 1;
+    for (; j & bit; bit >>= 1) j ^= bit;
+    j ^= bit;
+    if (i < j) {
+      [re[i], re[j]] = [re[j], re[i]];
+      [im[i], im[j]] = [im[j], im[i]];
+    }
+  }
+
+  for (let len = 2; len <= n; len <<= 1) {
+    const ang = (-2 * Math.PI) / len;
+    const wRe = Math.cos(ang);
+    const wIm = Math.sin(ang);
+    for (let i = 0; i < n; i += len) {
+      let curRe = 1;
+      let curIm = 0;
+      for (let k = 0; k < len / 2; k++) {
+        const aRe = re[i + k];
+        const aIm = im[i + k];
+        const bRe = re[i + k + len / 2] * curRe - im[i + k + len / 2] * curIm;
+        const bIm = re[i + k + len / 2] * curIm + im[i + k + len / 2] * curRe;
+        re[i + k] = aRe + bRe;
+        im[i + k] = aIm + bIm;
+        re[i + k + len / 2] = aRe - bRe;
+        im[i + k + len / 2] = aIm - bIm;
+        const nextRe = curRe * wRe - curIm * wIm;
+        curIm = curRe * wIm + curIm * wRe;
+        curRe = nextRe;
+      }
+    }
+  }
+};
+
+/**
+ * Harmonic analysis of one fundamental period of `samples`.
+ * Samples are assumed to be taken at t = (n + 0.5)·T/N; the half-step shift keeps
+ * sampling points off the discontinuities of square and sawtooth waves.
+ */
+export const analyzeSamples = (samples: Float64Array, maxOrder: number): SpectrumAnalysis => {
+  const n = samples.length;
+  const re = Float64Array.from(samples);
+  const im = new Float64Array(n);
+
+  let sumSq = 0;
+  let peak = 0;
+  for (let i = 0; i < n; i++) {
+    sumSq += samples[i] * samples[i];
+    peak = Math.max(peak, Math.abs(samples[i]));
+  }
+  const rms = Math.sqrt(sumSq / n);
+
+  fft(re, im);
+
+  const dc = re[0] / n;
+  const harmonics: Harmonic[] = [];
+  let distortionSq = 0;
+  let fundamental = 0;
+
+  for (let k = 1; k < n / 2; k++) {
+    const magnitude = (Math.SQRT2 * Math.hypot(re[k], im[k])) / n;
+    if (k === 1) fundamental = magnitude;
+    else distortionSq += magnitude * magnitude;
+
+    if (k <= maxOrder) {
+      // +90° converts the cosine reference to sine; the half-sample shift is removed
+      const phase = normalizeAngle((Math.atan2(im[k], re[k]) * 180) / Math.PI + 90 - (180 * k) / n);
+      harmonics.push({ order: k, magnitude, phase: magnitude > 1e-9 ? phase : 0 });
+    }
+  }
+
+  return {
+    dc,
+    rms,
+    peak,
+    crestFactor: rms > 0 ? peak / rms : 0,
+    thd: fundamental > 1e-9 ? Math.sqrt(distortionSq) / fundamental : 0,
+    harmonics,
+  };
+};
+
+// Samples one period of a synthetic signal and analyzes it
+export const analyzeSignal = (signal: SignalParams, maxOrder: number): SpectrumAnalysis => {
+  const samples = new Float64Array(FFT_SIZE);
+  const period = signal.frequency > 0 ? 1 / signal.frequency : 1;
+  for (let i = 0; i < FFT_SIZE; i++) {
+    samples[i] = sampleSignal(signal, ((i + 0.5) * period) / FFT_SIZE);
+  }
+  return analyzeSamples(samples, maxOrder);
+};
+
+// A pure sine carries no harmonics or DC, so its phasor describes it completely
+export const isSinusoidal = (signal: SignalParams) =>
+  signal.waveform === 'sine' && signal.dcOffset === 0;
+
+// Fundamental component of a signal as a pure sine (identity for sinusoidal signals)
+export const fundamentalOf = (signal: SignalParams): SignalParams => {
+  if (isSinusoidal(signal)) return signal;
+  const [h1] = analyzeSignal(signal, 1).harmonics;
+  return { ...signal, amplitude: h1.magnitude, phase: h1.phase, dcOffset: 0, waveform: 'sine' };
+};
+
+// Closed-form values from the Fourier series of each ideal waveform
+export const THEORETICAL_THD: Record<Waveform, number> = {
+  sine: 0,
+  square: Math.sqrt((Math.PI * Math.PI) / 8 - 1), // ≈ 48.3 %
+  triangle: Math.sqrt(Math.pow(Math.PI, 4) / 96 - 1), // ≈ 12.1 %
+  sawtooth: Math.sqrt((Math.PI * Math.PI) / 6 - 1), // ≈ 80.3 %
+};
+
+export const THEORETICAL_CREST_FACTOR: Record<Waveform, number> = {
+  sine: Math.SQRT2,
+  square: 1,
+  triangle: Math.sqrt(3),
+  sawtooth: Math.sqrt(3),
+};
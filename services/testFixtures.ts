@@ -0,0 +1,17 @@
+import { RLCLoad, SignalParams } from '../types';
+
+// Shared fixtures for the service tests
+
+// 230 V 50 Hz sine unless overridden
+export const signal = (updates: Partial<SignalParams> = {}): SignalParams => ({
+  amplitude: 230, frequency: 50, phase: 0, dcOffset: 0, waveform: 'sine', dutyCycle: 50, ...updates,
+});
+
+// Empty series load unless overridden
+export const load = (updates: Partial<RLCLoad> = {}): RLCLoad => ({
+  topology: 'series', resistance: 0, inductance: 0, capacitance: 0, ...updates,
+});
+
+// Element values for a reactance of `ohms` at `frequency`, in the units of RLCLoad
+export const inductanceFor = (ohms: number, frequency = 50) => (ohms / (2 * Math.PI * frequency)) * 1000; // mH
+export const capacitanceFor = (ohms: number, frequency = 50) => (1 / (2 * Math.PI * frequency * ohms)) * 1e6; // µF
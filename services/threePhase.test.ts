@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { ThreePhaseSystem } from '../types';
+import { abs, arg } from './complex';
+import { load } from './testFixtures';
+import { solveThreePhase } from './threePhase';
+
+const resistor = (resistance: number) => load({ resistance });
+
+const system = (updates: Partial<ThreePhaseSystem>): ThreePhaseSystem => ({
+  connection: 'wye',
+  balanced: true,
+  sources: [{ amplitude: 230, phase: 0 }, { amplitude: 230, phase: -120 }, { amplitude: 230, phase: 120 }],
+  loads: [resistor(23), resistor(23), resistor(23)],
+  ...updates,
+});
+
+describe('solveThreePhase', () => {
+  it('gives line voltages √3 × V_phase leading by 30°', () => {
+    const r = solveThreePhase(system({}), 50);
+    expect(abs(r.lineVoltages[0])).toBeCloseTo(230 * Math.sqrt(3), 6); // 398.37 V
+    expect(arg(r.lineVoltages[0])).toBeCloseTo(30, 9);
+  });
+
+  it('balances a wye load: 10 A per line, no neutral current, 6.9 kW', () => {
+    const r = solveThreePhase(system({}), 50);
+    r.lineCurrents.forEach(i => expect(abs(i)).toBeCloseTo(10, 9));
+    expect(abs(r.neutralCurrent)).toBeCloseTo(0, 9);
+    expect(r.totalPower.re).toBeCloseTo(6900, 6);
+    expect(r.totalPower.im).toBeCloseTo(0, 6);
+  });
+
+  it('draws √3 × the phase current into a delta load', () => {
+    const r = solveThreePhase(system({ connection: 'delta' }), 50);
+    const phaseCurrent = (230 * Math.sqrt(3)) / 23; // 17.32 A
+    r.phaseCurrents.forEach(i => expect(abs(i)).toBeCloseTo(phaseCurrent, 6));
+    r.lineCurrents.forEach(i => expect(abs(i)).toBeCloseTo(30, 6));
+    expect(r.totalPower.re).toBeCloseTo(20700, 4);
+  });
+
+  it('returns the neutral current of an unbalanced wye load', () => {
+    // 10 A, 5 A and 0 A in phase with their 120°-apart voltages: |In| = 8.660 A
+    const r = solveThreePhase(system({ balanced: false, loads: [resistor(23), resistor(46), resistor(0)] }), 50);
+    expect(abs(r.neutralCurrent)).toBeCloseTo(Math.sqrt(75), 6);
+  });
+});
@@ -0,0 +1,96 @@
+import { PhaseSource, RLCLoad, SignalParams, ThreePhaseSystem } from "../types";
+import { Complex, add, sub, mul, div, conj, abs, arg, fromPolar, complex } from "./complex";
+import { Impedance, calculateImpedance } from "./loadModel";
+
+type Triple<T> = [T, T, T];
+
+export interface ThreePhaseResult {
+  sourceVoltages: Triple<Complex>; // Van, Vbn, Vcn
+  lineVoltages: Triple<Complex>; // Vab, Vbc, Vca
+  lineCurrents: Triple<Complex>; // Ia, Ib, Ic
+  phaseVoltages: Triple<Complex>; // Across each load element
+  phaseCurrents: Triple<Complex>; // Through each load element
+  neutralCurrent: Complex; // In = Ia + Ib + Ic (wye only)
+  impedances: Triple<Impedance>;
+  phasePower: Triple<Complex>; // S = V·I* per load element
+  totalPower: Complex;
+}
+
+/**
+ * Returns the effective sources and loads, expanding phase A to all three
+ * phases (shifted ∓120°) when the system is balanced.
+ */
+export const resolvePhases = (system: ThreePhaseSystem): { sources: Triple<PhaseSource>; loads: Triple<RLCLoad> } => {
+  if (!system.balanced) {
+    return { sources: system.sources, loads: system.loads };
+  }
+  const a = system.sources[0];
+  return {
+    sources: [a, { ...a, phase: a.phase - 120 }, { ...a, phase: a.phase + 120 }],
+    loads: [system.loads[0], system.loads[0], system.loads[0]],
+  };
+};
+
+const loadCurrent = (v: Complex, z: Impedance): Complex => {
+  if (z.isShort || z.isOpen) return complex(0);
+  return div(v, complex(z.resistance, z.reactance));
+};
+
+const map3 = <T, U>(items: Triple<T>, fn: (item: T, index: number) => U): Triple<U> =>
+  [fn(items[0], 0), fn(items[1], 1), fn(items[2], 2)];
+
+/**
+ * Solves a wye-connected source feeding a wye (4-wire, solid neutral) or delta load.
+ */
+export const solveThreePhase = (system: ThreePhaseSystem, frequency: number): ThreePhaseResult => {
+  const { sources, loads } = resolvePhases(system);
+
+  const sourceVoltages = map3(sources, s => fromPolar(s.amplitude, s.phase));
+  const lineVoltages = map3(sourceVoltages, (v, k) => sub(v, sourceVoltages[(k + 1) % 3]));
+  const impedances = map3(loads, l => calculateImpedance(l, frequency));
+
+  let phaseVoltages: Triple<Complex>;
+  let phaseCurrents: Triple<Complex>;
+  let lineCurrents: Triple<Complex>;
+
+  if (system.connection === 'wye') {
+    phaseVoltages = sourceVoltages;
+    phaseCurrents = map3(phaseVoltages, (v, k) => loadCurrent(v, impedances[k]));
+    lineCurrents = phaseCurrents;
+  } else {
+    // Delta: element k sits between lines k and k+1 (AB, BC, CA)
+    phaseVoltages = lineVoltages;
+    phaseCurrents = map3(phaseVoltages, (v, k) => loadCurrent(v, impedances[k]));
+    // Ia = Iab - Ica, Ib = Ibc - Iab, Ic = Ica - Ibc
+    lineCurrents = map3(phaseCurrents, (i, k) => sub(i, phaseCurrents[(k + 2) % 3]));
+  }
+
+  const neutralCurrent = system.connection === 'wye'
+    ? add(add(lineCurrents[0], lineCurrents[1]), lineCurrents[2])
+    : complex(0);
+
+  const phasePower = map3(phaseVoltages, (v, k) => mul(v, conj(phaseCurrents[k])));
+  const totalPower = add(add(phasePower[0], phasePower[1]), phasePower[2]);
+
+  return {
+    sourceVoltages,
+    lineVoltages,
+    lineCurrents,
+    phaseVoltages,
+    phaseCurrents,
+    neutralCurrent,
+    impedances,
+    phasePower,
+    totalPower,
+  };
+};
+
+// Converts a phasor into a sinusoidal signal for plotting
+export const phasorToSignal = (phasor: Complex, frequency: number): SignalParams => ({
+  amplitude: abs(phasor),
+  phase: arg(phasor),
+  frequency,
+  dcOffset: 0,
+  waveform: 'sine',
+  dutyCycle: 50,
+});
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { TransformerSettings } from '../types';
+import { abs, complex } from './complex';
+import { analyzeTransformer, transformerPort } from './transformer';
+import { inputSide } from './twoPort';
+
+describe('analyzeTransformer', () => {
+  // 10:1 with R_eq = 1 Ω on the primary and a 1 MΩ core branch
+  const settings: TransformerSettings = { enabled: true, ratio: 10, resistance: 1, reactance: 0, coreResistance: 1e6, magnetizingReactance: 1e6 };
+
+  it('refers the load current through R_eq to the primary', () => {
+    const r = analyzeTransformer(settings, complex(230), complex(10));
+    // V₁ ≈ 10·230 + 1 Ω·1 A = 2301 V, plus the no-load current of the core branch
+    expect(abs(r.primaryVoltage)).toBeCloseTo(2301, 1);
+    expect(r.copperLosses).toBeCloseTo(1, 9);
+    expect(r.coreLosses).toBeCloseTo(2301 ** 2 / 1e6, 3); // 5.29 W
+    expect(r.regulation).toBeCloseTo((1 / 2300) * 100, 2); // 0.043 %
+  });
+
+  it('balances input power against output plus losses', () => {
+    const r = analyzeTransformer({ ...settings, reactance: 2, magnetizingReactance: 5000 }, complex(230), complex(8, -6));
+    expect(r.inputPower.re).toBeCloseTo(r.outputPower.re + r.copperLosses + r.coreLosses, 6);
+    expect(r.efficiency).toBeCloseTo(r.outputPower.re / r.inputPower.re, 12);
+  });
+
+  it('builds the same port the feeder cascade uses', () => {
+    const port = transformerPort(settings);
+    const primary = inputSide(port, complex(230), complex(10));
+    const r = analyzeTransformer(settings, complex(230), complex(10));
+    expect(primary.voltage.re).toBeCloseTo(r.primaryVoltage.re, 12);
+  });
+});
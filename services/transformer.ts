@@ -0,0 +1,64 @@
+import { TransformerSettings } from "../types";
+import { Complex, abs, add, complex, conj, div, mul, scale } from "./complex";
+import { TwoPort, cascade, idealTransformerPort, inputSide, seriesPort, shuntPort } from "./twoPort";
+
+export interface TransformerResult {
+  primaryVoltage: Complex; // V₁ (V RMS)
+  primaryCurrent: Complex; // I₁ = I₂/a + I₀ (A RMS)
+  secondaryVoltage: Complex; // V₂ at the load (V RMS)
+  secondaryCurrent: Complex; // I₂ into the load (A RMS)
+  noLoadCurrent: Complex; // I₀ = I_c + I_m, drawn by the magnetizing branch
+  coreCurrent: Complex; // I_c, in phase with V₁
+  magnetizingCurrent: Complex; // I_m, 90° behind V₁
+  copperLosses: number; // |I₂/a|²·R_eq (W)
+  coreLosses: number; // |V₁|²/R_c (W)
+  inputPower: Complex; // V₁·I₁* (VA)
+  outputPower: Complex; // V₂·I₂* (VA)
+  efficiency: number; // P₂/P₁ (0 when nothing flows)
+  regulation: number; // (|V₁|/a − |V₂|) / |V₂| × 100 (Infinity when V₂ = 0)
+}
+
+// Y_m = 1/R_c + 1/(jX_m)
+const magnetizingAdmittance = (settings: TransformerSettings): Complex =>
+  complex(1 / settings.coreResistance, -1 / settings.magnetizingReactance);
+
+// Magnetizing branch, then R_eq + jX_eq, then the ideal N₁:N₂ ratio
+export const transformerPort = (settings: TransformerSettings): TwoPort =>
+  cascade(
+    shuntPort(magnetizingAdmittance(settings)),
+    seriesPort(complex(settings.resistance, settings.reactance)),
+    idealTransformerPort(settings.ratio),
+  );
+
+/**
+ * Works back from the secondary terminals (V₂, I₂) through the equivalent circuit to the
+ * primary, splitting what the primary supplies into output power, copper and core losses.
+ */
+export const analyzeTransformer = (settings: TransformerSettings, secondaryVoltage: Complex, secondaryCurrent: Complex): TransformerResult => {
+  const primary = inputSide(transformerPort(settings), secondaryVoltage, secondaryCurrent);
+  const V1 = primary.voltage;
+  const referredCurrent = scale(secondaryCurrent, 1 / settings.ratio);
+  const coreCurrent = div(V1, complex(settings.coreResistance));
+  const magnetizingCurrent = div(V1, complex(0, settings.magnetizingReactance));
+
+  const inputPower = mul(V1, conj(primary.current));
+  const outputPower = mul(secondaryVoltage, conj(secondaryCurrent));
+  const v2 = abs(secondaryVoltage);
+  const noLoad = abs(V1) / settings.ratio;
+
+  return {
+    primaryVoltage: V1,
+    primaryCurrent: primary.current,
+    secondaryVoltage,
+    secondaryCurrent,
+    noLoadCurrent: add(coreCurrent, magnetizingCurrent),
+    coreCurrent,
+    magnetizingCurrent,
+    copperLosses: abs(referredCurrent) ** 2 * settings.resistance,
+    coreLosses: abs(V1) ** 2 / settings.coreResistance,
+    inputPower,
+    outputPower,
+    efficiency: inputPower.re > 0 ? outputPower.re / inputPower.re : 0,
+    regulation: v2 > 0 ? ((noLoad - v2) / v2) * 100 : (noLoad > 0 ? Infinity : 0),
+  };
+};
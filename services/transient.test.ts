@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_TRANSIENT } from '../constants';
+import { TransientSettings } from '../types';
+import { inductanceFor, signal } from './testFixtures';
+import { simulateTransient, TransientSample } from './transient';
+
+const V = signal();
+const omega = 2 * Math.PI * 50;
+// X_L = 10 Ω at 50 Hz
+const L_10 = inductanceFor(10);
+
+const settings = (updates: Partial<TransientSettings>): TransientSettings => ({ ...DEFAULT_TRANSIENT, enabled: true, ...updates });
+const after = (samples: TransientSample[]) => samples.filter(s => s.time >= 0);
+
+describe('simulateTransient', () => {
+  it('matches the closed-form RL response closed at a voltage zero', () => {
+    // Z = 10 + j10 Ω: i_ss peak = 325.27/14.142 = 23.0 A, 45° behind; the offset
+    // i(0⁺) − i_ss(0) = 23.0·sin 45° decays with τ = L/R = 3.183 ms
+    const r = simulateTransient(settings({ circuit: 'rl', resistance: 10, inductance: L_10 }), V);
+    const peak = (230 * Math.SQRT2) / Math.hypot(10, 10);
+    const tau = L_10 / 1000 / 10;
+    expect(r.steadyPeak).toBeCloseTo(peak, 6);
+    expect(r.timeConstant).toBeCloseTo(tau, 12);
+    expect(r.initialOffset).toBeCloseTo(peak * Math.SQRT1_2, 6);
+    for (const s of after(r.samples)) {
+      const t = s.time / 1000;
+      const exact = peak * (Math.sin(omega * t - Math.PI / 4) + Math.SQRT1_2 * Math.exp(-t / tau));
+      expect(s.current).toBeCloseTo(exact, 6);
+    }
+    expect(r.settlingReference).toBe('steady');
+    expect(r.settlingTime).not.toBeNull();
+  });
+
+  it('leaves no offset when an RL circuit closes at the current zero', () => {
+    const r = simulateTransient(settings({ circuit: 'rl', resistance: 10, inductance: L_10, closingAngle: 45 }), V);
+    expect(r.initialOffset).toBeCloseTo(0, 6);
+    expect(r.inrushRatio).toBeCloseTo(1, 2);
+  });
+
+  it('discharges a precharged RC circuit with τ = RC', () => {
+    // No source: v_C = V₀·e^(−t/RC), i = −(V₀/R)·e^(−t/RC)
+    const r = simulateTransient(settings({ circuit: 'rc', resistance: 100, capacitance: 100, initialVoltage: 50 }), { ...V, amplitude: 0 });
+    expect(r.timeConstant).toBeCloseTo(0.01, 12);
+    for (const s of after(r.samples)) {
+      const decay = Math.exp(-s.time / 1000 / 0.01);
+      expect(s.capacitorVoltage).toBeCloseTo(50 * decay, 6);
+      expect(s.current).toBeCloseTo(-0.5 * decay, 6);
+    }
+  });
+
+  it('reports f₀ and ζ of a series RLC circuit', () => {
+    // L = 31.83 mH, C = 100 µF: f₀ = 89.21 Hz, ζ = (5/2)·√(C/L) = 0.1401
+    const r = simulateTransient(settings({}), V);
+    expect(r.naturalFrequency).toBeCloseTo(1 / (2 * Math.PI * Math.sqrt(0.03183 * 1e-4)), 6);
+    expect(r.damping).toBeCloseTo(2.5 * Math.sqrt(1e-4 / 0.03183), 6);
+    expect(r.peakCapacitorVoltage).toBeGreaterThan(0);
+  });
+
+  it('settles a square-wave source cycle to cycle', () => {
+    const r = simulateTransient(settings({ circuit: 'rl', resistance: 10, inductance: 31.83 }), { ...V, waveform: 'square' });
+    expect(r.settlingReference).toBe('periodic');
+    expect(r.settlingTime).not.toBeNull();
+    // About four time constants (3.18 ms each) for a 2 % band
+    expect(r.settlingTime!).toBeGreaterThan(8);
+    expect(r.settlingTime!).toBeLessThan(20);
+  });
+});
@@ -0,0 +1,180 @@
+import { SignalParams, TransientSettings } from "../types";
+import { abs, complex, div, fromPolar } from "./complex";
+import { integrate, OdeSystem } from "./ode";
+import { sampleSignal } from "./signal";
+import { fundamentalOf } from "./spectrum";
+import { phasorToSignal } from "./threePhase";
+
+export interface TransientSample {
+  time: number; // ms from the switch closing, negative before it
+  voltage: number; // Source v(t) (V)
+  current: number; // i(t) (A)
+  steadyCurrent: number; // i_ss(t), where the current ends up (A)
+  transientCurrent: number; // i − i_ss, the part that dies out (A)
+  capacitorVoltage: number | null; // v_C(t) (V), null without a capacitor
+}
+
+export interface TransientResult {
+  samples: TransientSample[];
+  steadyCurrent: SignalParams; // Steady state from the source's fundamental and DC
+  steadyPeak: number; // Largest |i_ss| (A)
+  peakCurrent: number; // Largest |i| after closing (A)
+  peakTime: number; // When it happens (ms)
+  inrushRatio: number; // peakCurrent / steadyPeak (Infinity when the steady current is zero)
+  initialOffset: number; // i(0⁺) − i_ss(0): the offset the switching instant leaves to decay (A)
+  timeConstant: number; // L/R, RC or the RLC envelope 2L/R (s); Infinity without resistance
+  naturalFrequency: number | null; // f₀ = 1/(2π√LC) (Hz), with both L and C
+  damping: number | null; // ζ = (R/2)·√(C/L), with both L and C
+  settlingTime: number | null; // ms until i settles (see `settlingReference`); null if not in the window
+  settlingReference: 'steady' | 'periodic'; // Measured against i_ss, or cycle to cycle for a non-sine source
+  peakCapacitorVoltage: number | null; // Largest |v_C| after closing (V)
+}
+
+// Fraction of the steady-state peak the current must stay within to count as settled
+export const SETTLING_BAND = 0.02;
+
+/**
+ * First sample from which i(t) and i(t + T) stay within `band` of each other: the response
+ * repeats every period. Samples in the last period have nothing to compare with, so a response
+ * still changing one period before the end counts as not settled. Null if it never settles.
+ */
+const periodicSettling = (after: TransientSample[], samplesPerPeriod: number, band: number): number | null => {
+  const comparable = Math.floor(after.length - 1 - samplesPerPeriod);
+  if (comparable < 1) return null;
+  const currentAt = (x: number) => {
+    const k = Math.min(Math.floor(x), after.length - 2);
+    return after[k].current + (x - k) * (after[k + 1].current - after[k].current);
+  };
+  let lastOutside = -1;
+  for (let k = 0; k < comparable; k++) {
+    if (Math.abs(currentAt(k + samplesPerPeriod) - after[k].current) > band) lastOutside = k;
+  }
+  return lastOutside === comparable - 1 ? null : lastOutside + 1;
+};
+
+const SAMPLES = 1200; // Plotted points after closing
+const PRE_CLOSING_CYCLES = 0.5; // Source shown before the switch closes
+const PRE_CLOSING_MAX_SAMPLES = 200;
+const MAX_STEPS = 200000; // Cap on RK4 steps per run
+
+/**
+ * Closes a switch between the lab source and a series RL, RC or RLC circuit at `closingAngle`
+ * on the source's fundamental, and integrates L·di/dt = v − Ri − v_C, C·dv_C/dt = i with RK4.
+ * Without an inductor the current follows the capacitor directly: i = (v − v_C)/R.
+ * A value of 0 for L or C means the element is not part of the circuit. Time constants too short
+ * for the step budget are stretched to the shortest it resolves, τ_min: that shifts the steady
+ * state by about ω·τ_min (under 1 % even with the longest window) and keeps RK4 stable.
+ */
+export const simulateTransient = (settings: TransientSettings, voltage: SignalParams): TransientResult => {
+  const frequency = voltage.frequency;
+  const period = 1 / frequency;
+  const duration = settings.cycles * period;
+  const C = settings.circuit !== 'rl' ? settings.capacitance / 1e6 : 0; // µF -> F
+  const hasC = C > 0;
+  const hasL = settings.circuit !== 'rc' && settings.inductance > 0;
+  const tauMin = (10 * duration) / MAX_STEPS;
+  // Without an inductor, R·C ≥ τ_min; with one, L/R and √(LC) ≥ τ_min
+  const R = hasL || !hasC ? settings.resistance : Math.max(settings.resistance, tauMin / C);
+  const L = hasL ? Math.max(settings.inductance / 1000, R * tauMin, hasC ? tauMin ** 2 / C : 0) : 0; // mH -> H
+
+  // First instant the fundamental reaches the closing angle; times below count from there
+  const v1 = fundamentalOf(voltage);
+  const cycle = (settings.closingAngle - v1.phase) / 360;
+  const closing = (cycle - Math.floor(cycle)) * period;
+  const source = (t: number) => sampleSignal(voltage, closing + t);
+
+  // State y = [i, v_C]; without an inductor i is not a state and y[0] stays unused.
+  // A bare short (no L, C or R) carries no current, as in the RLC load model
+  const currentOf = (t: number, y: number[]) => (hasL ? y[0] : R > 0 ? (source(t) - y[1]) / R : 0);
+  const system: OdeSystem = (t, y) => {
+    const i = currentOf(t, y);
+    return [hasL ? (source(t) - R * i - y[1]) / L : 0, hasC ? i / C : 0];
+  };
+
+  // Steps well inside the fastest time scale of the circuit and of the source
+  const scales = [period / 200];
+  if (hasL && R > 0) scales.push(L / R);
+  if (!hasL && hasC) scales.push(R * C);
+  if (hasL && hasC) scales.push(Math.sqrt(L * C));
+  const maxStep = Math.min(...scales) / 10;
+
+  const initialVoltage = hasC ? settings.initialVoltage : 0;
+  const solution = integrate(system, [0, initialVoltage], 0, duration, SAMPLES, maxStep);
+
+  // Steady state: fundamental through Z(jω), DC only where no capacitor blocks it
+  const omega = 2 * Math.PI * frequency;
+  const Z = complex(R, (hasL ? omega * L : 0) - (hasC ? 1 / (omega * C) : 0));
+  const phasor = abs(Z) > 0 ? div(fromPolar(v1.amplitude, v1.phase), Z) : complex(0);
+  const steadyCurrent: SignalParams = { ...phasorToSignal(phasor, frequency), dcOffset: hasC || R === 0 ? 0 : voltage.dcOffset / R };
+  const steadyAt = (t: number) => sampleSignal(steadyCurrent, closing + t);
+  const steadyPeak = abs(phasor) * Math.SQRT2 + Math.abs(steadyCurrent.dcOffset);
+
+  const interval = duration / SAMPLES;
+  const preSamples = Math.min(PRE_CLOSING_MAX_SAMPLES, Math.ceil((PRE_CLOSING_CYCLES * period) / interval));
+  const before: TransientSample[] = Array.from({ length: preSamples }, (_, k) => {
+    const t = (k - preSamples) * interval;
+    return {
+      time: t * 1000,
+      voltage: source(t),
+      current: 0,
+      steadyCurrent: steadyAt(t),
+      transientCurrent: 0,
+      capacitorVoltage: hasC ? initialVoltage : null,
+    };
+  });
+  const after: TransientSample[] = solution.map(({ t, y }) => {
+    const current = currentOf(t, y);
+    const steady = steadyAt(t);
+    return {
+      time: t * 1000,
+      voltage: source(t),
+      current,
+      steadyCurrent: steady,
+      transientCurrent: current - steady,
+      capacitorVoltage: hasC ? y[1] : null,
+    };
+  });
+
+  let peak = after[0];
+  for (const sample of after) if (Math.abs(sample.current) > Math.abs(peak.current)) peak = sample;
+
+  // i_ss only holds the fundamental and DC, which a square, triangle or sawtooth response never
+  // matches; those are settled once they repeat from one period to the next
+  const settlingReference = voltage.waveform === 'sine' ? 'steady' : 'periodic';
+  let settled: number | null;
+  if (settlingReference === 'steady') {
+    // Last sample still outside the band; settled from the next one on
+    const band = SETTLING_BAND * (steadyPeak > 0 ? steadyPeak : Math.abs(peak.current));
+    let lastOutside = -1;
+    after.forEach((sample, k) => {
+      if (Math.abs(sample.transientCurrent) > band) lastOutside = k;
+    });
+    settled = lastOutside === after.length - 1 ? null : lastOutside + 1;
+  } else {
+    // Band on the peak of the last simulated period, the closest thing to the real steady peak
+    const samplesPerPeriod = SAMPLES / settings.cycles;
+    const lastPeriod = after.slice(-Math.ceil(samplesPerPeriod));
+    const reference = Math.max(...lastPeriod.map(s => Math.abs(s.current)));
+    settled = periodicSettling(after, samplesPerPeriod, SETTLING_BAND * (reference > 0 ? reference : Math.abs(peak.current)));
+  }
+
+  const timeConstant = hasL
+    ? (R > 0 ? (hasC ? 2 * L : L) / R : Infinity)
+    : (hasC ? R * C : 0);
+
+  return {
+    samples: [...before, ...after],
+    steadyCurrent,
+    steadyPeak,
+    peakCurrent: Math.abs(peak.current),
+    peakTime: peak.time,
+    inrushRatio: steadyPeak > 0 ? Math.abs(peak.current) / steadyPeak : Infinity,
+    initialOffset: after[0].transientCurrent,
+    timeConstant,
+    naturalFrequency: hasL && hasC ? 1 / (2 * Math.PI * Math.sqrt(L * C)) : null,
+    damping: hasL && hasC ? (R / 2) * Math.sqrt(C / L) : null,
+    settlingTime: settled === null ? null : after[settled].time,
+    settlingReference,
+    peakCapacitorVoltage: hasC ? Math.max(...after.map(s => Math.abs(s.capacitorVoltage ?? 0))) : null,
+  };
+};
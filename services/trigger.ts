@@ -0,0 +1,32 @@
+import { SignalParams, TriggerSettings } from "../types";
+import { sampleSignal, Sampler } from "./signal";
+
+const SEARCH_STEPS = 1000; // Samples per source period while looking for the trigger edge
+
+/**
+ * First time at or after `from` (s) where the source signal crosses the trigger level
+ * with the selected slope. One full source period is searched, so a periodic signal
+ * always triggers if the level lies inside its range; otherwise the result is null.
+ */
+export const findTriggerTime = (
+  signal: SignalParams,
+  trigger: TriggerSettings,
+  from: number,
+  sample: Sampler = t => sampleSignal(signal, t)
+): number | null => {
+  if (signal.frequency <= 0) return null;
+  const dt = 1 / signal.frequency / SEARCH_STEPS;
+  const { level } = trigger;
+
+  let prev = sample(from);
+  for (let k = 1; k <= SEARCH_STEPS + 1; k++) {
+    const t = from + k * dt;
+    const value = sample(t);
+    const crossed = trigger.slope === 'rising'
+      ? prev < level && value >= level
+      : prev > level && value <= level;
+    if (crossed) return t - dt + (dt * (level - prev)) / (value - prev);
+    prev = value;
+  }
+  return null;
+};
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { abs, add, complex, conj, mul } from './complex';
+import { cascade, IDENTITY_PORT, idealTransformerPort, inputSide, seriesPort, shuntPort, solvePort } from './twoPort';
+
+describe('cascade', () => {
+  it('adds series impedances', () => {
+    const port = cascade(seriesPort(complex(1, 2)), seriesPort(complex(3, -1)));
+    expect(port.b).toEqual({ re: 4, im: 1 });
+    expect(port.a).toEqual({ re: 1, im: 0 });
+  });
+
+  it('leaves a port unchanged next to the identity and with no ports at all', () => {
+    const line = seriesPort(complex(1, 2));
+    expect(cascade(IDENTITY_PORT, line)).toEqual(line);
+    expect(cascade()).toEqual(IDENTITY_PORT);
+  });
+
+  it('depends on the order of the ports', () => {
+    // Series 1 Ω then shunt 1 S: A = 1 + ZY = 2; shunt first: A = 1, D = 2
+    const seriesFirst = cascade(seriesPort(complex(1)), shuntPort(complex(1)));
+    const shuntFirst = cascade(shuntPort(complex(1)), seriesPort(complex(1)));
+    expect(seriesFirst.a.re).toBe(2);
+    expect(seriesFirst.d.re).toBe(1);
+    expect(shuntFirst.a.re).toBe(1);
+    expect(shuntFirst.d.re).toBe(2);
+  });
+});
+
+describe('inputSide', () => {
+  it('scales voltage up and current down through an ideal transformer', () => {
+    const { voltage, current } = inputSide(idealTransformerPort(10), complex(230), complex(10));
+    expect(voltage.re).toBeCloseTo(2300, 9);
+    expect(current.re).toBeCloseTo(1, 9);
+  });
+});
+
+describe('solvePort', () => {
+  it('drops B·I across the port for a fixed current', () => {
+    const r = solvePort(seriesPort(complex(0, 2)), complex(230), { kind: 'current', current: complex(10) });
+    expect(r.voltage).toEqual({ re: 230, im: -20 });
+    expect(r.current).toEqual({ re: 10, im: 0 });
+  });
+
+  it('divides the source voltage between a series line and an impedance load', () => {
+    const r = solvePort(seriesPort(complex(1)), complex(230), { kind: 'impedance', impedance: complex(22) });
+    expect(r.current.re).toBeCloseTo(10, 9);
+    expect(r.voltage.re).toBeCloseTo(220, 9);
+  });
+
+  it('keeps the open-circuit voltage of a shunt branch', () => {
+    const r = solvePort(shuntPort(complex(0.1)), complex(230), { kind: 'impedance', impedance: null });
+    expect(r.voltage.re).toBeCloseTo(230, 9);
+    expect(abs(r.current)).toBe(0);
+  });
+
+  it('solves a constant-power load behind a line: V² − 230V + 2200 = 0 → 220 V', () => {
+    const r = solvePort(seriesPort(complex(1)), complex(230), { kind: 'power', power: complex(2200) });
+    expect(r.status).toBe('ok');
+    expect(abs(r.voltage)).toBeCloseTo(220, 9);
+    expect(abs(r.current)).toBeCloseTo(10, 9);
+  });
+
+  it('delivers exactly the requested P + jQ through an R + jX line', () => {
+    const line = seriesPort(complex(0.5, 1));
+    const power = complex(3000, 1500);
+    const r = solvePort(line, complex(230), { kind: 'power', power });
+    const delivered = mul(r.voltage, conj(r.current));
+    expect(delivered.re).toBeCloseTo(3000, 6);
+    expect(delivered.im).toBeCloseTo(1500, 6);
+    // And the line closes the loop back to the source
+    const source = inputSide(line, r.voltage, r.current).voltage;
+    expect(source.re).toBeCloseTo(230, 9);
+    expect(source.im).toBeCloseTo(0, 9);
+  });
+
+  it('solves a constant-power load through a transformer on its own side', () => {
+    // 10:1 ahead of a 0.01 Ω secondary line: the load sees 2300 V / 10 less the line drop
+    const port = cascade(idealTransformerPort(10), seriesPort(complex(0.01)));
+    const r = solvePort(port, complex(2300), { kind: 'power', power: complex(2200) });
+    const drop = add(r.voltage, mul(r.current, complex(0.01)));
+    expect(drop.re).toBeCloseTo(230, 9);
+    expect(abs(mul(r.voltage, conj(r.current)))).toBeCloseTo(2200, 6);
+  });
+
+  it('collapses past the nose of the P-V curve', () => {
+    // The most a 1 Ω line can deliver from 230 V is 230²/4 = 13.2 kW
+    const r = solvePort(seriesPort(complex(1)), complex(230), { kind: 'power', power: complex(14000) });
+    expect(r.status).toBe('collapse');
+  });
+});
@@ -0,0 +1,94 @@
+import { Complex, abs, add, complex, conj, div, fromPolar, mul, sub } from "./complex";
+
+// ABCD parameters: [V₁; I₁] = [A B; C D]·[V₂; I₂], with I₂ leaving port 2 toward the load
+export interface TwoPort {
+  a: Complex;
+  b: Complex;
+  c: Complex;
+  d: Complex;
+}
+
+// What a two-port feeds, as seen from its output port
+export type PortLoad =
+  | { kind: 'current'; current: Complex } // Fixed current phasor (manual mode)
+  | { kind: 'impedance'; impedance: Complex | null } // Constant impedance, null when open (RLC mode)
+  | { kind: 'power'; power: Complex }; // Constant P + jQ whatever the voltage (multiple loads)
+
+export type PortStatus = 'ok' | 'collapse';
+
+export interface PortSolution {
+  status: PortStatus; // 'collapse': no output voltage can deliver a constant-power load
+  voltage: Complex; // Output (load) voltage phasor
+  current: Complex; // Output (load) current phasor
+}
+
+export const IDENTITY_PORT: TwoPort = { a: complex(1), b: complex(0), c: complex(0), d: complex(1) };
+
+export const seriesPort = (impedance: Complex): TwoPort => ({ ...IDENTITY_PORT, b: impedance });
+
+export const shuntPort = (admittance: Complex): TwoPort => ({ ...IDENTITY_PORT, c: admittance });
+
+// Ideal transformer with ratio = N₁/N₂: V₁ = ratio·V₂, I₁ = I₂/ratio
+export const idealTransformerPort = (ratio: number): TwoPort =>
+  ({ a: complex(ratio), b: complex(0), c: complex(0), d: complex(1 / ratio) });
+
+// Ports in the order the power flows through them
+export const cascade = (...ports: TwoPort[]): TwoPort =>
+  ports.reduce((p, q) => ({
+    a: add(mul(p.a, q.a), mul(p.b, q.c)),
+    b: add(mul(p.a, q.b), mul(p.b, q.d)),
+    c: add(mul(p.c, q.a), mul(p.d, q.c)),
+    d: add(mul(p.c, q.b), mul(p.d, q.d)),
+  }), IDENTITY_PORT);
+
+// Input voltage and current that produce `voltage` and `current` at the output
+export const inputSide = (port: TwoPort, voltage: Complex, current: Complex): { voltage: Complex; current: Complex } => ({
+  voltage: add(mul(port.a, voltage), mul(port.b, current)),
+  current: add(mul(port.c, voltage), mul(port.d, current)),
+});
+
+/**
+ * Output voltage of a constant-power load behind a series impedance Z. With Vr on the real axis,
+ * Vs = Vr + Z·conj(S)/Vr gives |Vr|⁴ + (2a − |Vs|²)|Vr|² + a² + b² = 0, with a = RP + XQ and
+ * b = XP − RQ; the larger root is the stable operating point. Null past the nose of the P-V curve.
+ */
+const constantPowerVoltage = (sending: Complex, Z: Complex, S: Complex): Complex | null => {
+  const a = Z.re * S.re + Z.im * S.im;
+  const b = Z.im * S.re - Z.re * S.im;
+  const vs2 = abs(sending) ** 2;
+  const discriminant = (vs2 - 2 * a) ** 2 - 4 * (a * a + b * b);
+  if (discriminant < 0) return null;
+  const u2 = (vs2 - 2 * a + Math.sqrt(discriminant)) / 2;
+  if (u2 <= 0) return null;
+  const u = Math.sqrt(u2);
+  // Angle of Vs ahead of Vr, then rotate back onto the source's own phase
+  const delta = Math.atan2(b / u, u + a / u);
+  return fromPolar(u, (Math.atan2(sending.im, sending.re) - delta) * (180 / Math.PI));
+};
+
+/**
+ * Output voltage and current of `port` driven by `sending` at its input. Only A and B matter:
+ * Vs = A·V₂ + B·I₂. A constant-power load reduces to the series case with A·V₂ as the
+ * unknown, since B·conj(S)/conj(V₂) = B·conj(A·S)/conj(A·V₂).
+ */
+export const solvePort = (port: TwoPort, sending: Complex, load: PortLoad): PortSolution => {
+  const { a: A, b: B } = port;
+  const zero = complex(0);
+  switch (load.kind) {
+    case 'current':
+      return { status: 'ok', voltage: div(sub(sending, mul(B, load.current)), A), current: load.current };
+    case 'impedance': {
+      if (!load.impedance) return { status: 'ok', voltage: div(sending, A), current: zero };
+      const loop = add(mul(A, load.impedance), B);
+      const current = abs(loop) > 0 ? div(sending, loop) : zero;
+      return { status: 'ok', voltage: mul(current, load.impedance), current };
+    }
+    case 'power': {
+      if (abs(load.power) === 0) return { status: 'ok', voltage: div(sending, A), current: zero };
+      const scaled = constantPowerVoltage(sending, B, mul(A, load.power));
+      if (!scaled) return { status: 'collapse', voltage: zero, current: zero };
+      const voltage = div(scaled, A);
+      return { status: 'ok', voltage, current: conj(div(load.power, voltage)) };
+    }
+  }
+};
@@ -6,11 +6,211 @@ export interface SignalParams {
   phase: number; // Degrees
   dcOffset: number; // DC Component
   waveform: Waveform;
+  dutyCycle: number; // % of the period: high time (square) or rise time (triangle)
+}
+
+// How the load current is obtained: typed in directly or derived from an RLC load
+export type LoadMode = 'manual' | 'rlc' | 'multi' | 'motor';
+
+export type LoadTopology = 'series' | 'parallel';
+
+export interface RLCLoad {
+  topology: LoadTopology;
+  resistance: number; // Ω (0 = element not present)
+  inductance: number; // mH (0 = element not present)
+  capacitance: number; // µF (0 = element not present)
+}
+
+// Entries of a multi-load installation, each defined by what it draws from the supply
+export type LoadItemKind = 'resistive' | 'motor' | 'capacitor' | 'custom';
+
+export interface LoadItem {
+  kind: LoadItemKind;
+  name: string; // Empty = named after its kind
+  power: number; // W, or VAR for a capacitor bank
+  powerFactor: number; // Motor and custom loads, 0-1
+  leading: boolean; // Custom loads only
+}
+
+// How the motor's running point is chosen: its slip directly, or the shaft load it must carry
+export type MotorOperatingPoint = 'slip' | 'load';
+
+// Per-phase equivalent circuit of an induction motor, rotor quantities referred to the stator:
+// R₁ + jX₁ in series with jX_m in parallel with R₂'/s + jX₂'
+export interface MotorSettings {
+  operatingPoint: MotorOperatingPoint;
+  statorResistance: number; // R₁ (Ω)
+  statorReactance: number; // X₁ (Ω)
+  rotorResistance: number; // R₂' (Ω)
+  rotorReactance: number; // X₂' (Ω)
+  magnetizingReactance: number; // X_m (Ω)
+  poles: number; // Sets the synchronous speed
+  rotationalLosses: number; // Friction and windage (W)
+  ratedPower: number; // Full-load shaft output (W)
+  slip: number; // % of synchronous speed ('slip' operating point)
+  loadPercent: number; // Shaft output as % of ratedPower ('load' operating point)
+}
+
+export type SystemMode = 'single' | 'three';
+
+export type ThreePhaseConnection = 'wye' | 'delta';
+
+export interface PhaseSource {
+  amplitude: number; // Line-to-neutral RMS voltage
+  phase: number; // Degrees
+}
+
+export interface ThreePhaseSystem {
+  connection: ThreePhaseConnection; // Load connection (source is always wye)
+  balanced: boolean; // Phases B and C mirror phase A, shifted ∓120°
+  sources: [PhaseSource, PhaseSource, PhaseSource];
+  loads: [RLCLoad, RLCLoad, RLCLoad]; // Per-phase load (A, B, C or AB, BC, CA in delta)
+}
+
+export interface PFCSettings {
+  enabled: boolean;
+  targetPF: number; // Lagging target, 0-1
+  useSteps: boolean; // Round the bank up to whole standard steps
+  stepKvar: number; // Size of one capacitor step (kVAR)
+}
+
+// Line impedance entered as totals or as per-km values times the route length
+export type FeederInput = 'total' | 'perKm';
+
+export interface FeederSettings {
+  enabled: boolean;
+  input: FeederInput;
+  resistance: number; // Loop resistance, both conductors (Ω)
+  reactance: number; // Loop reactance, both conductors (Ω), positive = inductive
+  length: number; // Route length (km); the current goes out and back, so the loop is twice as long
+  resistancePerKm: number; // One conductor (Ω/km)
+  reactancePerKm: number; // One conductor (Ω/km)
+}
+
+// Approximate equivalent circuit referred to the primary: the magnetizing branch sits at the
+// primary terminals, followed by the series R_eq + jX_eq and an ideal N₁:N₂ transformer
+export interface TransformerSettings {
+  enabled: boolean;
+  ratio: number; // a = N₁/N₂, the no-load voltage ratio V₁/V₂
+  resistance: number; // R_eq = R₁ + a²R₂ (Ω)
+  reactance: number; // X_eq = X₁ + a²X₂ (Ω)
+  coreResistance: number; // R_c, core losses (Ω)
+  magnetizingReactance: number; // X_m (Ω)
+}
+
+export type TriggerMode = 'auto' | 'normal' | 'single';
+
+export type TriggerSlope = 'rising' | 'falling';
+
+export interface TriggerSettings {
+  enabled: boolean; // Off = free-running trace that slides with the simulation time
+  mode: TriggerMode;
+  source: 'voltage' | 'current'; // First trace on that axis
+  slope: TriggerSlope;
+  level: number; // V or A, in units of the source channel
+}
+
+export interface ScopeSettings {
+  timePerDiv: number; // ms per horizontal division
+  voltsPerDiv: number; // V per vertical division
+  ampsPerDiv: number; // A per vertical division
+  voltageOffset: number; // V, shifts voltage traces up
+  currentOffset: number; // A, shifts current traces up
+  horizontalPosition: number; // ms from the left edge to the trigger point
+  trigger: TriggerSettings;
+}
+
+// How amplitudes are entered and shown; the state itself always holds RMS values
+export type AmplitudeView = 'rms' | 'peak' | 'peakToPeak';
+
+// Upper ends of the circuit knobs, saved per scenario (from mA bench setups to kV feeders)
+export interface KnobRanges {
+  voltageMax: number; // V RMS, single- and three-phase sources
+  currentMax: number; // A RMS
+  resistanceMax: number; // Ω
+  inductanceMax: number; // mH
+  capacitanceMax: number; // µF
+}
+
+// One hour of a daily load profile, held constant over the hour
+export interface ProfileHour {
+  activePower: number; // kW
+  powerFactor: number; // 0-1
+  leading: boolean; // Capacitive hour (current leads the voltage)
+}
+
+export interface Tariff {
+  currency: string; // Symbol shown with amounts
+  energyPrice: number; // Per kWh
+  demandPrice: number; // Per kW of peak hourly demand in the billing period
+  reactivePrice: number; // Per kVARh above the allowance set by pfThreshold
+  pfThreshold: number; // Each hour may draw up to P·tan(acos(pfThreshold)) of reactive power free
+  billingDays: number; // Days the daily profile is repeated on the bill
+}
+
+export interface LoadProfileSettings {
+  enabled: boolean;
+  hours: ProfileHour[]; // 24 entries, 00:00 to 23:00
+  tariff: Tariff;
+}
+
+// Series circuit the switch connects to the source in the transient view
+export type TransientCircuit = 'rl' | 'rc' | 'rlc';
+
+export interface TransientSettings {
+  enabled: boolean;
+  circuit: TransientCircuit;
+  closingAngle: number; // Point on the source voltage wave where the switch closes (degrees)
+  resistance: number; // Ω
+  inductance: number; // mH
+  capacitance: number; // µF
+  initialVoltage: number; // Capacitor charge before closing (V)
+  cycles: number; // Source cycles shown after closing
 }
 
 export interface SimulationState {
   voltage: SignalParams;
   current: SignalParams;
-  timeWindow: number; // ms to display
+  loadMode: LoadMode;
+  load: RLCLoad;
+  loadItems: LoadItem[]; // Loads sharing the supply in 'multi' mode
+  motor: MotorSettings; // Induction motor in 'motor' mode
+  systemMode: SystemMode;
+  threePhase: ThreePhaseSystem;
+  pfc: PFCSettings;
+  feeder: FeederSettings; // Source/line impedance between the source and the load
+  transformer: TransformerSettings; // Between the line (or the source) and the load
+  scope: ScopeSettings;
+  amplitudeView: AmplitudeView;
+  ranges: KnobRanges;
+  profile: LoadProfileSettings;
+  transient: TransientSettings;
   isPlaying: boolean;
 }
+
+// A complete lab setup: what gets saved to JSON files and share links
+export interface Scenario {
+  version: number;
+  name: string;
+  simSpeed: number; // Animation speed slider, 0-100
+  state: SimulationState;
+}
+
+export interface ScenarioPreset {
+  id: string;
+  name: string;
+  description: string;
+  simSpeed: number;
+  state: SimulationState;
+}
+
+export type ExerciseTopic = 'phasors' | 'power' | 'pfc';
+export type ExerciseDifficulty = 'basic' | 'intermediate' | 'advanced';
+
+// Result panels that an exercise keeps hidden until it is graded
+export type ExerciseView = 'scope' | 'phasors' | 'power' | 'pfc';
+
+// Quantities an exercise can ask for; the UI labels them from its message catalog
+export type ExerciseQuantity = 'z' | 'i' | 'thetaI' | 'phi' | 'p' | 'q' | 's' | 'pf' | 'qc' | 'c' | 'iAfter';
+
+export type Locale = 'es' | 'en' | 'pt';